@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import {
   StyleSheet,
   View,
@@ -8,282 +8,84 @@ import {
   ActivityIndicator,
   Alert,
   Platform,
+  Pressable,
   RefreshControl,
   SafeAreaView, // Added SafeAreaView import
 } from "react-native";
-// Import hook, MapLibreGL might still be needed for constants like OfflinePackDownloadState if used here
-import MapLibreGL, { OfflineManager } from "@maplibre/maplibre-react-native";
 import { useFocusEffect } from "@react-navigation/native";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
 
-// Interfaces (same as before)
-interface OfflinePackMetadata {
-  name: string;
-  downloaded_at?: number;
-  size?: number; // Added size property
-}
-interface OfflinePack {
-  name: string; // Internal unique ID
-  bounds: [[number, number], [number, number]];
-  metadata: OfflinePackMetadata | null; // Parsed metadata object
-  size?: number; // Added size property at top level
-}
+import {
+  RegionDetailsSheet,
+  RegionEdit,
+} from "@/components/offline/RegionDetailsSheet";
+import { RegionOutline } from "@/components/offline/RegionOutline";
+import { RegionSearchBar } from "@/components/offline/RegionSearchBar";
+import { StorageHeader } from "@/components/offline/StorageHeader";
+import { useDownloadQueue } from "@/hooks/useDownloadQueue";
+import { useOfflineRegions } from "@/hooks/useOfflineRegions";
+import { useStalenessPolicy } from "@/hooks/useStalenessPolicy";
+import {
+  RegionEntry,
+  RegionFilter,
+  RegionSort,
+  allTags,
+  describeUsage,
+  downloadQueue,
+  entryDownloadedAt,
+  entryUpdatedAt,
+  entryUsage,
+  filterEntries,
+  formatAge,
+  groupRegions,
+  isStale,
+  offlineRegions,
+  sortEntries,
+  totalUsage,
+} from "@/lib/offline";
+import { getMapStyle } from "@/lib/styles";
 
 export default function TabTwoScreen() {
-  const offlineManager = OfflineManager;
-  const [packs, setPacks] = useState<OfflinePack[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false); // For pull-to-refresh
-
-  // Helper function to format bytes into human-readable size
-  const formatBytes = (bytes: number, decimals = 2) => {
-    if (bytes === 0) return "0 Bytes";
-
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
-
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + " " + sizes[i];
-  };
-
-  // --- Function to Fetch Packs ---
-  const fetchPacks = useCallback(
-    async (refreshing = false) => {
-      if (!offlineManager) {
-        console.log("Offline manager not available yet.");
-        if (!refreshing) setIsLoading(true); // Show loading only if not refreshing
-        return; // Wait for manager
-      }
-      console.log("Fetching offline packs...");
-      if (refreshing) {
-        setIsRefreshing(true);
-      } else {
-        setIsLoading(true);
-      }
-
-      try {
-        // Deep inspection of pack properties to find size
-        const inspectPackForSize = (pack: any): number | null => {
-          // Direct properties that might contain size
-          if (typeof pack.size === "number") return pack.size;
-          if (typeof pack.byteSize === "number") return pack.byteSize;
-          if (typeof pack.bytes === "number") return pack.bytes;
-          if (typeof pack.completedResourceSize === "number")
-            return pack.completedResourceSize;
-          if (
-            typeof pack.completedResourceCount === "number" &&
-            typeof pack.completedResourceSize === "number"
-          ) {
-            return pack.completedResourceSize;
-          }
-
-          // Look in pack.progress if it exists
-          if (pack.progress && typeof pack.progress === "object") {
-            if (typeof pack.progress.completedResourceSize === "number")
-              return pack.progress.completedResourceSize;
-            if (typeof pack.progress.completedSize === "number")
-              return pack.progress.completedSize;
-          }
-
-          // Look for any property that might contain size information
-          for (const key in pack) {
-            if (
-              typeof pack[key] === "number" &&
-              (key.toLowerCase().includes("size") ||
-                key.toLowerCase().includes("bytes"))
-            ) {
-              console.log(
-                `Found potential size property: ${key} = ${pack[key]}`
-              );
-              return pack[key];
-            }
-          }
-
-          return null;
-        };
-
-        // Use hook's instance
-        const offlinePacksRaw = await offlineManager.getPacks();
-        console.log("Raw packs:", JSON.stringify(offlinePacksRaw));
-
-        // Dump FULL JSON of all packs for inspection
-        console.log(
-          "ALL PACKS FULL DETAILS:",
-          JSON.stringify(offlinePacksRaw, null, 2)
-        );
-
-        const formattedPacks: OfflinePack[] = (offlinePacksRaw || []).map(
-          (pack: any) => {
-            let metadata: OfflinePackMetadata | null = null;
-
-            // Check if we have the character-by-character metadata format
-            if (pack._metadata && typeof pack._metadata === "object") {
-              console.log("Found _metadata object, attempting to reconstruct");
-
-              // Try to reconstruct the metadata string from individual characters
-              try {
-                // Get all numeric keys and sort them
-                const numericKeys = Object.keys(pack._metadata)
-                  .filter((key) => !isNaN(parseInt(key)))
-                  .sort((a, b) => parseInt(a) - parseInt(b));
-
-                // Reconstruct the string
-                let reconstructedJson = "";
-                for (const key of numericKeys) {
-                  reconstructedJson += pack._metadata[key];
-                }
-
-                console.log("Reconstructed metadata JSON:", reconstructedJson);
-
-                // Parse the reconstructed JSON
-                try {
-                  const parsed = JSON.parse(reconstructedJson);
-                  console.log(
-                    "Successfully parsed reconstructed JSON:",
-                    parsed
-                  );
-                  metadata = parsed;
-
-                  // Extract displayName and timestamp if available
-                  if (!metadata.name && typeof parsed.name === "string") {
-                    metadata.name = parsed.name;
-                  }
-
-                  if (
-                    !metadata.downloaded_at &&
-                    typeof parsed.downloaded_at === "number"
-                  ) {
-                    metadata.downloaded_at = parsed.downloaded_at;
-                  }
-                } catch (parseError) {
-                  console.error(
-                    "Error parsing reconstructed JSON:",
-                    parseError
-                  );
-                  // Use the name directly from _metadata as fallback
-                  if (pack._metadata.name) {
-                    metadata = { name: pack._metadata.name };
-
-                    // Look for a timestamp from the numeric representation
-                    // This attempts to extract the timestamp from character keys
-                    if (numericKeys.length > 45) {
-                      // Check if we have enough characters
-                      const timestampChars = [];
-                      for (let i = 46; i <= 58; i++) {
-                        if (pack._metadata[i.toString()]) {
-                          timestampChars.push(pack._metadata[i.toString()]);
-                        }
-                      }
-                      if (timestampChars.length > 0) {
-                        const timestampStr = timestampChars.join("");
-                        const timestamp = parseInt(timestampStr);
-                        if (!isNaN(timestamp)) {
-                          metadata.downloaded_at = timestamp;
-                          console.log("Extracted timestamp:", timestamp);
-                        }
-                      }
-                    }
-                  } else {
-                    metadata = { name: `Pack: ${pack.name || "Unknown"}` };
-                  }
-                }
-              } catch (e) {
-                console.error("Error while reconstructing metadata:", e);
-                metadata = {
-                  name:
-                    pack._metadata.name || `Pack: ${pack.name || "Unknown"}`,
-                };
-              }
-            } else {
-              // Fall back to original metadata handling
-              try {
-                if (pack.metadata) {
-                  console.log(
-                    `Pack ${pack.name} metadata type:`,
-                    typeof pack.metadata
-                  );
-                  console.log(`Pack ${pack.name} metadata:`, pack.metadata);
-
-                  // Check if metadata is already an object
-                  if (
-                    typeof pack.metadata === "object" &&
-                    pack.metadata !== null
-                  ) {
-                    metadata = pack.metadata;
-                  } else if (typeof pack.metadata === "string") {
-                    // Try to safely parse the string
-                    try {
-                      metadata = JSON.parse(pack.metadata);
-                    } catch (parseError) {
-                      console.error(
-                        `JSON parsing error for ${pack.name}:`,
-                        parseError
-                      );
-                      // If it starts with 'o', it might be an object notation without quotes
-                      metadata = { name: `Invalid JSON: ${pack.name}` };
-                    }
-                  } else {
-                    // Unknown type
-                    metadata = { name: `Unknown type: ${pack.name}` };
-                  }
-
-                  // Ensure metadata is an object with at least a name property
-                  if (typeof metadata !== "object" || metadata === null) {
-                    metadata = { name: `Type error: ${pack.name}` };
-                  }
-
-                  if (!metadata.name) {
-                    metadata.name = `Pack: ${pack.name}`; // Fallback name
-                  }
-                } else {
-                  metadata = { name: `Pack: ${pack.name}` }; // Default if no metadata stored
-                }
-              } catch (e) {
-                console.error(
-                  `Error handling metadata for pack ${pack.name}:`,
-                  e
-                );
-                metadata = { name: `Error: ${pack.name}` };
-              }
-            }
-
-            // Estimate size: Let's use a conservative estimate based on metadata size
-            // since we don't have actual size information
-            let estimatedSize = null;
-            if (pack._metadata) {
-              // A very rough estimate: 10KB per tile region as base + metadata size
-              const metadataStr = JSON.stringify(pack._metadata);
-              estimatedSize = 10 * 1024 + metadataStr.length * 2;
-              console.log(
-                `Estimated size for ${
-                  metadata?.name || pack.name
-                }: ${estimatedSize} bytes`
-              );
-            }
-
-            return {
-              name: pack.name, // Internal name
-              bounds: pack.bounds || (pack.pack ? pack.pack.bounds : null),
-              metadata: metadata,
-              size: estimatedSize, // Use our estimated size
-            };
-          }
-        );
+  const {
+    regions,
+    isLoading: isFetching,
+    isRefreshing,
+    error,
+    refresh: fetchPacks,
+  } = useOfflineRegions();
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [sort, setSort] = useState<RegionSort>("newest");
+  const [filter, setFilter] = useState<RegionFilter>({ query: "", tag: null });
+  // Keys of the checked rows while selecting several regions, else null.
+  const [selected, setSelected] = useState<Set<string> | null>(null);
+  const [editing, setEditing] = useState<RegionEntry | null>(null);
+  const [policy, setPolicy] = useStalenessPolicy();
+  const downloads = useDownloadQueue();
+  const isLoading = isFetching || isDeleting;
+
+  const allEntries = useMemo(() => groupRegions(regions), [regions]);
+  const tags = useMemo(() => allTags(allEntries), [allEntries]);
+  const entries = useMemo(
+    () => sortEntries(filterEntries(allEntries, filter), sort),
+    [allEntries, filter, sort]
+  );
+  const usage = useMemo(() => totalUsage(regions), [regions]);
+  const downloading = useMemo(
+    () => new Set(downloads.map((download) => download.id)),
+    [downloads]
+  );
+  const isUpdating = (entry: RegionEntry) =>
+    entry.regions.some((region) => downloading.has(region.id));
+  const staleEntries = allEntries.filter(
+    (entry) => !isUpdating(entry) && isStale(entryUpdatedAt(entry), policy)
+  );
 
-        setPacks(formattedPacks);
-        console.log("Formatted packs:", formattedPacks);
-      } catch (error: any) {
-        console.error("Error fetching offline packs:", error);
-        Alert.alert("Error", `Could not fetch offline packs. ${error.message}`);
-        setPacks([]);
-      } finally {
-        setIsLoading(false);
-        setIsRefreshing(false);
-      }
-    },
-    [offlineManager]
-  ); // Dependency on offlineManager instance
+  useEffect(() => {
+    if (error) {
+      Alert.alert("Error", `Could not fetch offline packs. ${error.message}`);
+    }
+  }, [error]);
 
   // --- Use useFocusEffect to refresh list when tab becomes active ---
   useFocusEffect(
@@ -292,33 +94,110 @@ export default function TabTwoScreen() {
     }, [fetchPacks]) // Re-run effect if fetchPacks changes
   );
 
-  // --- Function to Delete a Pack ---
-  const handleDeletePack = (packName: string, displayName: string) => {
-    if (!offlineManager) {
-      Alert.alert("Error", "Offline manager not available.");
-      return;
+  // A folder disappears once its last region is untagged or deleted.
+  useEffect(() => {
+    if (filter.tag !== null && !tags.includes(filter.tag)) {
+      setFilter((current) => ({ ...current, tag: null }));
     }
+  }, [filter.tag, tags]);
+
+  // --- Selection: check several regions, then delete them in one go ---
+  const toggleSelected = (entry: RegionEntry) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(entry.key)) {
+        next.delete(entry.key);
+      } else {
+        next.add(entry.key);
+      }
+      return next;
+    });
+  };
+
+  const selectedEntries = selected
+    ? entries.filter((entry) => selected.has(entry.key))
+    : [];
+  const allSelected =
+    entries.length > 0 && selectedEntries.length === entries.length;
+
+  const handleDeleteSelected = () => {
+    const count = selectedEntries.length;
+    const packIds = selectedEntries.flatMap((entry) =>
+      entry.regions.map((region) => region.id)
+    );
+    const what =
+      count === 1
+        ? `"${selectedEntries[0].displayName}"`
+        : `${count} offline regions`;
     Alert.alert(
       "Confirm Deletion",
-      `Are you sure you want to delete the offline region "${displayName}"?`,
+      packIds.length > count
+        ? `Are you sure you want to delete ${what} (${packIds.length} offline packs)?`
+        : `Are you sure you want to delete ${what}?`,
       [
         { text: "Cancel", style: "cancel" },
         {
           text: "Delete",
           style: "destructive",
           onPress: async () => {
-            console.log("Attempting to delete pack:", packName);
-            setIsLoading(true); // Use main loading indicator
+            console.log("Attempting to delete packs:", packIds);
+            setIsDeleting(true); // Use main loading indicator
+            try {
+              // The service emits "change", which reloads the list
+              await offlineRegions.deleteMany(packIds);
+              setSelected(null);
+              Alert.alert(
+                "Success",
+                `${count === 1 ? "Region" : "Regions"} deleted.`
+              );
+            } catch (error: any) {
+              console.error(`Error deleting packs ${packIds}:`, error);
+              Alert.alert("Error", `Could not delete packs. ${error.message}`);
+            } finally {
+              setIsDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // --- Edit: rename a region and update its notes and tags ---
+  const handleSaveDetails = async (entry: RegionEntry, edit: RegionEdit) => {
+    try {
+      if (edit.displayName.trim() !== entry.displayName) {
+        await offlineRegions.rename(entry.key, edit.displayName);
+      }
+      await offlineRegions.updateDetails(entry.key, {
+        notes: edit.notes,
+        tags: edit.tags,
+      });
+      setEditing(null);
+    } catch (error: any) {
+      console.error(`Error saving "${entry.displayName}":`, error);
+      Alert.alert("Error", `Could not save region. ${error.message}`);
+    }
+  };
+
+  // --- Refresh: fetch fresh tiles for one region, or every stale one ---
+  const handleRefreshPack = (entry: RegionEntry) => {
+    const { displayName } = entry;
+    Alert.alert(
+      "Refresh Region",
+      `Download fresh tiles for "${displayName}"? The current tiles keep working until the update finishes.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Refresh",
+          onPress: async () => {
             try {
-              // Use hook's instance
-              await offlineManager.deletePack(packName);
-              Alert.alert("Success", `Region "${displayName}" deleted.`);
-              // Refresh the list silently (or show loader briefly)
-              fetchPacks(); // This will set isLoading=true then false
+              await downloadQueue.refresh(entry.regions);
             } catch (error: any) {
-              console.error(`Error deleting pack ${packName}:`, error);
-              Alert.alert("Error", `Could not delete pack. ${error.message}`);
-              setIsLoading(false); // Ensure loader stops on error
+              console.error(`Error refreshing "${displayName}":`, error);
+              Alert.alert(
+                "Error",
+                `Could not refresh region. ${error.message}`
+              );
             }
           },
         },
@@ -326,32 +205,124 @@ export default function TabTwoScreen() {
     );
   };
 
+  const handleUpdateStale = async () => {
+    const stale = staleEntries.flatMap((entry) => entry.regions);
+    try {
+      await downloadQueue.refresh(stale, { wifiOnly: true });
+      Alert.alert(
+        "Updates Queued",
+        `${staleEntries.length} out-of-date ${
+          staleEntries.length === 1 ? "region" : "regions"
+        } will update while the phone is on Wi-Fi.`
+      );
+    } catch (error: any) {
+      console.error("Error queueing region updates:", error);
+      Alert.alert("Error", `Could not update regions. ${error.message}`);
+    }
+  };
+
+  // Opens the map tab flown to the region, with its packs outlined.
+  const handleShowOnMap = (entry: RegionEntry) => {
+    router.navigate({ pathname: "/", params: { region: entry.key } });
+  };
+
   // --- Render List Item ---
-  const renderItem = ({ item }: { item: OfflinePack }) => (
-    <View style={styles.listItem}>
-      <View style={styles.itemTextContainer}>
-        {/* Use metadata name, fallback to internal name */}
-        <Text style={styles.itemTitle}>{item.metadata?.name || item.name}</Text>
-        {item.metadata?.downloaded_at && (
-          <Text style={styles.itemSubtitle}>
-            Downloaded:{" "}
-            {new Date(item.metadata.downloaded_at).toLocaleDateString()}
-          </Text>
+  const renderItem = ({ item }: { item: RegionEntry }) => {
+    const usage = entryUsage(item);
+    const downloadedAt = entryDownloadedAt(item);
+    const corrupt = item.regions.find((r) => r.metadataStatus === "corrupt");
+    const { styleId, overlays = [] } = item.regions[0].metadata ?? {};
+    const updatedAt = entryUpdatedAt(item);
+    const updating = isUpdating(item);
+    const stale = !updating && isStale(updatedAt, policy);
+    const boxes = item.regions.flatMap((region) =>
+      region.bounds ? [region.bounds] : []
+    );
+    const isChecked = selected?.has(item.key) ?? false;
+    return (
+      <View style={[styles.listItem, isChecked && styles.listItemChecked]}>
+        <Pressable
+          style={styles.itemTextContainer}
+          onPress={() =>
+            selected ? toggleSelected(item) : handleShowOnMap(item)
+          }
+          onLongPress={() => setSelected(selected ?? new Set([item.key]))}
+          disabled={!selected && boxes.length === 0}
+        >
+          {selected && (
+            <Ionicons
+              name={isChecked ? "checkmark-circle" : "ellipse-outline"}
+              size={24}
+              color="#007AFF"
+              style={styles.checkbox}
+            />
+          )}
+          <RegionOutline boxes={boxes} />
+          <View style={styles.itemText}>
+            <Text style={styles.itemTitle}>{item.displayName}</Text>
+            {item.tags.length > 0 && (
+              <Text style={styles.itemTags}>
+                {item.tags.map((tag) => `#${tag}`).join("  ")}
+              </Text>
+            )}
+            {item.notes !== "" && (
+              <Text style={styles.itemNotes} numberOfLines={2}>
+                {item.notes}
+              </Text>
+            )}
+            {item.isGroup && (
+              <Text style={styles.itemSubtitle}>
+                Route corridor · {item.regions.length} packs
+              </Text>
+            )}
+            {downloadedAt > 0 && (
+              <Text style={styles.itemSubtitle}>
+                Downloaded: {new Date(downloadedAt).toLocaleDateString()}
+                {styleId && ` · ${getMapStyle(styleId)?.name ?? styleId} style`}
+                {overlays.length > 0 && " with terrain"}
+              </Text>
+            )}
+            {updating ? (
+              <Text style={styles.itemSubtitle}>Downloading…</Text>
+            ) : (
+              updatedAt !== null && (
+                <Text
+                  style={[styles.itemSubtitle, stale && styles.itemWarning]}
+                >
+                  {stale && "Out of date · "}Updated{" "}
+                  {formatAge(Date.now() - updatedAt)}
+                </Text>
+              )
+            )}
+            <Text style={styles.itemSubtitle}>
+              {usage.regions > 0 ? describeUsage(usage) : "Size unavailable"}
+            </Text>
+            {corrupt && (
+              <Text style={[styles.itemSubtitle, styles.itemWarning]}>
+                Corrupt metadata: {corrupt.metadataIssue}
+              </Text>
+            )}
+            {/* Display internal name for debugging if needed */}
+            {/* <Text style={styles.itemSubtitle}>ID: {item.key}</Text> */}
+          </View>
+        </Pressable>
+        {!selected && (
+          <View>
+            <Button
+              title="Refresh"
+              onPress={() => handleRefreshPack(item)}
+              disabled={isLoading || isRefreshing || updating}
+            />
+            <Button
+              title="Edit"
+              onPress={() => setEditing(item)}
+              disabled={isLoading || isRefreshing} // Disable during any loading state
+            />
+          </View>
         )}
-        {/* Size information removed as requested */}
-        {/* Display internal name for debugging if needed */}
-        {/* <Text style={styles.itemSubtitle}>ID: {item.name}</Text> */}
       </View>
-      <Button
-        title="Delete"
-        color={Platform.OS === "ios" ? "#FF3B30" : "#FF0000"}
-        onPress={() =>
-          handleDeletePack(item.name, item.metadata?.name || item.name)
-        }
-        disabled={isLoading || isRefreshing} // Disable during any loading state
-      />
-    </View>
-  );
+    );
+  };
 
   // --- Pull to Refresh Handler ---
   const onRefresh = useCallback(() => {
@@ -361,21 +332,44 @@ export default function TabTwoScreen() {
   return (
     <SafeAreaView style={styles.container}>
       {/* Header moved into FlatList's ListHeaderComponent for better scroll behaviour */}
-      {isLoading && packs.length === 0 && !isRefreshing ? (
+      {isLoading && entries.length === 0 && !isRefreshing ? (
         <ActivityIndicator size="large" color="#007AFF" style={styles.loader} />
       ) : (
         <FlatList
-          data={packs}
+          data={entries}
           renderItem={renderItem}
-          keyExtractor={(item) => item.name}
+          keyExtractor={(item) => item.key}
           style={styles.list}
           ListHeaderComponent={
-            <Text style={styles.header}>Downloaded Offline Regions</Text>
+            <>
+              <StorageHeader
+                usage={usage}
+                sort={sort}
+                onSortChange={setSort}
+                policy={policy}
+                onPolicyChange={setPolicy}
+                staleCount={staleEntries.length}
+                onUpdateStale={handleUpdateStale}
+              />
+              {allEntries.length > 0 && (
+                <RegionSearchBar
+                  filter={filter}
+                  onFilterChange={setFilter}
+                  tags={tags}
+                  isSelecting={selected !== null}
+                  onSelectingChange={(isSelecting) =>
+                    setSelected(isSelecting ? new Set() : null)
+                  }
+                />
+              )}
+            </>
           }
           ListEmptyComponent={
             !isLoading && !isRefreshing ? ( // Only show empty text when not loading/refreshing
               <Text style={styles.emptyText}>
-                No offline regions downloaded yet. Pull down to refresh.
+                {allEntries.length > 0
+                  ? "No regions match your search."
+                  : "No offline regions downloaded yet. Pull down to refresh."}
               </Text>
             ) : null
           }
@@ -390,6 +384,30 @@ export default function TabTwoScreen() {
           }
         />
       )}
+      {selected && (
+        <View style={styles.selectionBar}>
+          <Button
+            title={allSelected ? "Select None" : "Select All"}
+            onPress={() =>
+              setSelected(
+                new Set(allSelected ? [] : entries.map((entry) => entry.key))
+              )
+            }
+          />
+          <Button
+            title={`Delete (${selectedEntries.length})`}
+            color={Platform.OS === "ios" ? "#FF3B30" : "#FF0000"}
+            onPress={handleDeleteSelected}
+            disabled={selectedEntries.length === 0 || isLoading}
+          />
+        </View>
+      )}
+      <RegionDetailsSheet
+        entry={editing}
+        knownTags={tags}
+        onClose={() => setEditing(null)}
+        onSave={handleSaveDetails}
+      />
     </SafeAreaView>
   );
 }
@@ -400,13 +418,6 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: "#f5f5f5",
   },
-  header: {
-    fontSize: 20,
-    fontWeight: "bold",
-    marginVertical: 20, // Add vertical margin
-    marginHorizontal: 20, // Add horizontal margin
-    textAlign: "center",
-  },
   loader: {
     flex: 1, // Center loader if it's the only thing shown initially
     justifyContent: "center",
@@ -434,9 +445,21 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#eee",
   },
+  listItemChecked: {
+    borderColor: "#007AFF",
+  },
+  checkbox: {
+    marginRight: 10,
+  },
   itemTextContainer: {
     flex: 1,
     marginRight: 10,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  itemText: {
+    flex: 1,
+    marginLeft: 12,
   },
   itemTitle: {
     fontSize: 16,
@@ -447,4 +470,26 @@ const styles = StyleSheet.create({
     color: "#888",
     marginTop: 4,
   },
+  itemTags: {
+    fontSize: 12,
+    color: "#007AFF",
+    marginTop: 4,
+  },
+  itemNotes: {
+    fontSize: 13,
+    color: "#555",
+    marginTop: 4,
+  },
+  itemWarning: {
+    color: "#B45309",
+  },
+  selectionBar: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: "#ffffff",
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderColor: "#ddd",
+  },
 });
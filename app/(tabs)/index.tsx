@@ -1,58 +1,221 @@
-import React, { useRef, useState, useCallback, useEffect } from "react";
-import {
-  StyleSheet,
-  View,
-  ActivityIndicator,
-  Alert,
-  Platform,
-  Text,
-  TouchableOpacity,
-} from "react-native";
+import React, {
+  useRef,
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useReducer,
+} from "react";
+import { StyleSheet, View, Alert, Platform } from "react-native";
 import MapLibreGL, {
   MapView,
-  OfflineManager,
   UserLocation,
   Camera,
+  CameraRef,
+  RegionPayload,
+  UserTrackingMode,
 } from "@maplibre/maplibre-react-native";
-import { Ionicons } from "@expo/vector-icons";
 import * as Location from "expo-location";
+import { router, useLocalSearchParams } from "expo-router";
+
+import { CorridorPreview } from "@/components/map/CorridorPreview";
+import { ImportedRoutesLayer } from "@/components/map/ImportedRoutesLayer";
+import { LayersSheet } from "@/components/map/LayersSheet";
+import { MapButton } from "@/components/map/MapButton";
+import {
+  NavigationPanel,
+  NavigationRouteLayer,
+} from "@/components/map/Navigation";
+import { OfflineRegionsLayer } from "@/components/map/OfflineRegionsLayer";
+import { PlaceSearch } from "@/components/map/PlaceSearch";
+import { RecordingControls } from "@/components/map/RecordingControls";
+import {
+  RegionSelectionLayer,
+  RegionSelectionToolbar,
+} from "@/components/map/RegionSelection";
+import {
+  RoutePlannerLayer,
+  RoutePlannerToolbar,
+} from "@/components/map/RoutePlanner";
+import { SearchResultLayer } from "@/components/map/SearchResultLayer";
+import { StyleWarning } from "@/components/map/StyleWarning";
+import { TrackLine } from "@/components/map/TrackLine";
+import { WaypointsLayer } from "@/components/map/WaypointsLayer";
+import { CorridorSheet } from "@/components/offline/CorridorSheet";
+import { DownloadSheet } from "@/components/offline/DownloadSheet";
+import { DownloadsPanel } from "@/components/offline/DownloadsPanel";
+import { ProfileSheet, ProfileTarget } from "@/components/tracks/ProfileSheet";
+import {
+  WaypointDraft,
+  WaypointSheet,
+} from "@/components/waypoints/WaypointSheet";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useDownloadQueue } from "@/hooks/useDownloadQueue";
+import { useImportedRoutes } from "@/hooks/useImportedRoutes";
+import { useOfflineRegions } from "@/hooks/useOfflineRegions";
+import { useRouteNavigation } from "@/hooks/useRouteNavigation";
+import { useRoutePlan } from "@/hooks/useRoutePlan";
+import { useTrackRecording } from "@/hooks/useTrackRecording";
+import { useWaypoints } from "@/hooks/useWaypoints";
+import { baseName, pickTextFile } from "@/lib/files";
+import {
+  GeoDocument,
+  GeoFileError,
+  RouteLine,
+  documentSegments,
+  parseGeoFile,
+  routeLine,
+} from "@/lib/formats";
+import { LngLat, unionBounds } from "@/lib/geo/bounds";
+import { CorridorPlan } from "@/lib/geo/corridor";
+import {
+  Selection,
+  addSelectionPoint,
+  emptySelection,
+  selectionBounds,
+} from "@/lib/geo/selection";
+import {
+  FollowMode,
+  INITIAL_CAMERA,
+  MapLinkParams,
+  isRotated,
+  mapViewStore,
+  nextCameraState,
+  parseMapLink,
+  trackingMode,
+} from "@/lib/map";
+import {
+  Bounds,
+  ZoomRange,
+  defaultRegionName,
+  defaultZoomRange,
+  downloadQueue,
+  nameLayerIds,
+} from "@/lib/offline";
+import { routeLibrary } from "@/lib/routes";
+import { Place } from "@/lib/search";
+import {
+  DEFAULT_STYLE_ID,
+  MAP_STYLES,
+  MapStyleId,
+  OverlayId,
+  packStyle,
+  renderStyle,
+  styleCoverage,
+  supportsOverlays,
+} from "@/lib/styles";
+import { formatDistance, splitSegments } from "@/lib/tracks";
+import { GpsFix, currentGpsFix, waypointStore } from "@/lib/waypoints";
 
 // --- Set Access Token (If needed, ONCE at app startup) ---
 // MapLibreGL.setAccessToken(null);
 // --- ---
 
-const MAP_STYLE_URL = "https://tiles.openfreemap.org/styles/liberty";
+const DEFAULT_RANGE: ZoomRange = { minZoom: 10, maxZoom: 15 };
+const NO_POINTS: LngLat[] = [];
+/** Zoom assumed for a selection when the map cannot report its own. */
+const SELECTION_ZOOM = 12;
 
-// Define types (same as before for clarity)
-type OfflinePackStatus = {
-  state: number; // MapLibreGL.OfflinePackDownloadState
-  percentage: number;
-  // ... other status fields
+const FOLLOW_MODES: Record<FollowMode, UserTrackingMode> = {
+  off: UserTrackingMode.Follow,
+  follow: UserTrackingMode.Follow,
+  heading: UserTrackingMode.FollowWithHeading,
 };
-type OfflinePackInfo = {
-  name: string;
-  metadata: any; // Usually the parsed JSON object
-  // ... other pack fields
-};
-type OfflinePackError = {
-  message: string;
+
+const LOCATION_ICONS: Record<
+  FollowMode,
+  React.ComponentProps<typeof MapButton>["icon"]
+> = {
+  off: "navigate-outline",
+  follow: "navigate",
+  heading: "navigate-circle",
 };
 
 export default function HomeScreen() {
-  const mapRef = useRef<MapView>(null);
-  const offlineManager = OfflineManager; // Still use the hook for the manager instance
+  const mapRef = useRef<React.ElementRef<typeof MapView>>(null);
+  const cameraRef = useRef<CameraRef>(null);
 
-  const [isDownloading, setIsDownloading] = useState(false);
-  const [downloadProgress, setDownloadProgress] = useState(0);
+  const downloads = useDownloadQueue();
+  const [pendingDownload, setPendingDownload] = useState<{
+    bounds: Bounds;
+    range: ZoomRange;
+  } | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  // Points tapped while planning a route, or null when not planning.
+  const [planPoints, setPlanPoints] = useState<LngLat[] | null>(null);
+  const plan = useRoutePlan(planPoints ?? NO_POINTS);
+  const navigation = useRouteNavigation();
+  const { start: startRoute } = navigation;
+  const [route, setRoute] = useState<RouteLine | null>(null);
+  const [corridorPreview, setCorridorPreview] = useState<CorridorPlan | null>(
+    null
+  );
+  const [profileTarget, setProfileTarget] = useState<ProfileTarget | null>(
+    null
+  );
   const [showsUserLocation, setShowsUserLocation] = useState(false);
   const [locationPermission, setLocationPermission] = useState<boolean | null>(
     null
   );
-  const [cameraConfig, setCameraConfig] = useState({
-    followUserLocation: false,
-    zoomLevel: 12,
-    animationDuration: 0,
-  });
+  const recorder = useTrackRecording();
+  const {
+    start: startRecording,
+    pause: pauseRecording,
+    resume: resumeRecording,
+    stop: stopRecording,
+  } = recorder;
+  const { routes, overlays } = useImportedRoutes();
+  const { regions, refresh: refreshRegions } = useOfflineRegions();
+  const [styleId, setStyleId] = useState<MapStyleId>(DEFAULT_STYLE_ID);
+  const [terrain, setTerrain] = useState<OverlayId[]>([]);
+  const [isPickingLayers, setIsPickingLayers] = useState(false);
+  const [center, setCenter] = useState<LngLat | null>(null);
+  const [showCoverage, setShowCoverage] = useState(false);
+  const [focusedIds, setFocusedIds] = useState<string[]>([]);
+  const [searchResult, setSearchResult] = useState<Place | null>(null);
+  const { waypoints } = useWaypoints();
+  const [waypointDraft, setWaypointDraft] = useState<WaypointDraft | null>(
+    null
+  );
+  // Set by the lists: a pack id or the group id of a corridor to fly to,
+  // a waypoint id to centre, or a route id to navigate along. Map links
+  // add a position.
+  const {
+    region: focusKey,
+    waypoint: focusWaypointId,
+    navigate: navigateRouteId,
+    lat: linkLat,
+    lon: linkLon,
+    z: linkZoom,
+  } = useLocalSearchParams<
+    {
+      region?: string;
+      waypoint?: string;
+      navigate?: string;
+    } & MapLinkParams
+  >();
+  const theme = useColorScheme() === "dark" ? "night" : "day";
+  const mapStyle = MAP_STYLES[styleId];
+  // Terrain stays chosen across styles but only apply where supported.
+  const activeOverlays = useMemo(
+    () => (supportsOverlays(mapStyle) ? terrain : []),
+    [mapStyle, terrain]
+  );
+  const renderedStyle = useMemo(
+    () => renderStyle(mapStyle, activeOverlays, theme),
+    [mapStyle, activeOverlays, theme]
+  );
+  const coverage = useMemo(
+    () => center && styleCoverage(regions, mapStyle, center, activeOverlays),
+    [regions, mapStyle, center, activeOverlays]
+  );
+  // Follow mode and rotation, kept in step with the map: panning stops
+  // following.
+  const [camera, dispatchCamera] = useReducer(nextCameraState, INITIAL_CAMERA);
+  // Nothing is saved until the last view is restored, so the default view
+  // shown meanwhile does not replace it.
+  const [isViewRestored, setIsViewRestored] = useState(false);
+  const linkedRef = useRef(false);
 
   // Request location permission
   const requestLocationPermission = useCallback(async () => {
@@ -76,119 +239,579 @@ export default function HomeScreen() {
     }
   }, []);
 
+  // --- Last View & Map Links ---
+  // The camera is moved rather than set up front, since the saved view is
+  // read asynchronously; a map link opened the app wins over it.
+  useEffect(() => {
+    mapViewStore
+      .load()
+      .then((view) => {
+        setStyleId(view.styleId);
+        setTerrain(view.overlays);
+        if (view.camera && !linkedRef.current) {
+          cameraRef.current?.setCamera({
+            centerCoordinate: view.camera.center,
+            zoomLevel: view.camera.zoom,
+            heading: view.camera.heading,
+            animationDuration: 0,
+          });
+        }
+      })
+      .catch((e) => console.error("Error restoring the map view:", e))
+      .finally(() => setIsViewRestored(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isViewRestored) return;
+    mapViewStore
+      .update({ styleId, overlays: terrain })
+      .catch((e) => console.error("Error saving the map style:", e));
+  }, [isViewRestored, styleId, terrain]);
+
+  const handleRegionDidChange = useCallback(
+    (feature: GeoJSON.Feature<GeoJSON.Point, RegionPayload>) => {
+      const position = feature.geometry.coordinates as LngLat;
+      const { zoomLevel, heading } = feature.properties;
+      setCenter(position);
+      dispatchCamera({ type: "rotated", heading });
+      if (!isViewRestored) return;
+      mapViewStore
+        .update({ camera: { center: position, zoom: zoomLevel, heading } })
+        .catch((e) => console.error("Error saving the map camera:", e));
+    },
+    [isViewRestored]
+  );
+
+  useEffect(() => {
+    const target = parseMapLink({ lat: linkLat, lon: linkLon, z: linkZoom });
+    if (!target) return;
+    linkedRef.current = true;
+    cameraRef.current?.setCamera({
+      centerCoordinate: target.center,
+      zoomLevel: target.zoom,
+      animationMode: "flyTo",
+      animationDuration: 1000,
+    });
+    dispatchCamera({ type: "tracking", mode: "off" });
+    router.setParams({ lat: undefined, lon: undefined, z: undefined });
+  }, [linkLat, linkLon, linkZoom]);
+
   // Check permission on component mount
   useEffect(() => {
     requestLocationPermission();
   }, [requestLocationPermission]);
 
-  // --- Define Listeners ---
-  const onProgress = useCallback(
-    (pack: OfflinePackInfo, status: OfflinePackStatus) => {
-      console.log(
-        `[Progress Listener] Pack: ${pack.name}, State: ${
-          status.state
-        }, Progress: ${status.percentage?.toFixed(2)}%`
-      );
-      const progress = status.percentage / 100;
-      setDownloadProgress(progress);
+  // The packs are only needed to tell whether the active style is cached.
+  useEffect(() => {
+    refreshRegions();
+  }, [refreshRegions]);
+
+  // Fly to a region picked in the regions list once its packs are loaded,
+  // then drop the parameter so picking it again flies there again.
+  useEffect(() => {
+    if (!focusKey) return;
+    const packs = regions.filter(
+      (region) =>
+        region.bounds &&
+        (region.id === focusKey || region.metadata?.group?.id === focusKey)
+    );
+    if (packs.length === 0) return;
+    const [ne, sw] = unionBounds(packs.map((region) => region.bounds!));
+    cameraRef.current?.fitBounds(ne, sw, 60, 1000);
+    setFocusedIds(packs.map((region) => region.id));
+    router.setParams({ region: undefined });
+  }, [focusKey, regions]);
+
+  // Centre a waypoint picked in the waypoints list.
+  useEffect(() => {
+    if (!focusWaypointId) return;
+    const waypoint = waypoints.find((w) => w.id === focusWaypointId);
+    if (!waypoint) return;
+    cameraRef.current?.setCamera({
+      centerCoordinate: [waypoint.lng, waypoint.lat],
+      zoomLevel: 15,
+      animationMode: "flyTo",
+      animationDuration: 1000,
+    });
+    router.setParams({ waypoint: undefined });
+  }, [focusWaypointId, waypoints]);
+
+  // --- Navigation ---
+  const startNavigation = useCallback(
+    async (document: GeoDocument, name: string) => {
+      if (locationPermission !== true) {
+        const granted = await requestLocationPermission();
+        if (!granted) return;
+      }
+      try {
+        startRoute(document, name);
+      } catch (error: any) {
+        Alert.alert("Cannot Navigate", error.message);
+        return;
+      }
+      setSelection(null);
+      setPlanPoints(null);
+      setShowsUserLocation(true);
+      dispatchCamera({ type: "follow" });
+    },
+    [locationPermission, requestLocationPermission, startRoute]
+  );
 
-      if (status.state === 3) {
-        console.log(`[Progress Listener] Download complete for ${pack.name}`);
+  // Navigate along a route picked in the routes list.
+  useEffect(() => {
+    if (!navigateRouteId) return;
+    router.setParams({ navigate: undefined });
+    Promise.all([routeLibrary.get(navigateRouteId), routeLibrary.list()])
+      .then(([document, summaries]) => {
+        if (!document) throw new Error("It no longer exists.");
+        const summary = summaries.find((r) => r.id === navigateRouteId);
+        return startNavigation(document, summary?.name ?? "Route");
+      })
+      .catch((error) => {
+        console.error(`Error loading route ${navigateRouteId}:`, error);
+        Alert.alert("Error", `Could not load the route. ${error.message}`);
+      });
+  }, [navigateRouteId, startNavigation]);
+
+  // Packs are created from a style URL; inline-only styles cannot be saved.
+  const ensureOfflineStyle = useCallback(() => {
+    if (mapStyle.offline) return true;
+    Alert.alert(
+      "Online Only",
+      `The ${mapStyle.name} style cannot be downloaded. Switch to another map style to save this area for offline use.`
+    );
+    return false;
+  }, [mapStyle]);
+
+  // --- Subscribe to download events ---
+  // Network failures are retried by the queue; only give up loudly.
+  useEffect(() => {
+    const subscriptions = [
+      downloadQueue.events.on("complete", ({ id, remaining }) => {
+        console.log(`[Download Queue] Download complete for ${id}`);
+        if (remaining > 0) return;
         Alert.alert(
           "Download Complete",
-          `Region "${
-            pack.metadata?.name || pack.name
-          }" downloaded successfully.`
+          "All queued regions are now available offline."
         );
-        setIsDownloading(false);
-        setDownloadProgress(1);
+      }),
+      downloadQueue.events.on("failed", ({ id, displayName, message }) => {
+        console.error(`[Download Queue] Pack: ${id}, Error: ${message}`);
+        Alert.alert(
+          "Download Error",
+          `Failed to download region ${displayName}. ${message}`
+        );
+      }),
+    ];
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
+  // --- Handle Download Action ---
+  // Measures the visible region and opens the confirmation sheet; the pack
+  // is only created once the user accepts the estimate.
+  const handleDownload = useCallback(async () => {
+    if (!ensureOfflineStyle()) return;
+
+    try {
+      const bounds = await mapRef.current?.getVisibleBounds();
+      const zoom = await mapRef.current?.getZoom();
+
+      if (!bounds || zoom === undefined) {
+        Alert.alert("Error", "Could not get map bounds or zoom level.");
+        return;
+      }
+
+      setPendingDownload({
+        bounds: bounds as Bounds,
+        range: defaultZoomRange(zoom),
+      });
+    } catch (error: any) {
+      console.error("Error reading the map view:", error);
+      Alert.alert("Error", `Could not read the map view. ${error.message}`);
+    }
+  }, [ensureOfflineStyle]);
+
+  // --- Region Selection ---
+  const handleMapPress = useCallback(
+    (feature: GeoJSON.Feature) => {
+      if (planPoints) {
+        if (feature.geometry.type !== "Point") return;
+        const point = feature.geometry.coordinates as LngLat;
+        setPlanPoints([...planPoints, point]);
+        return;
       }
+      if (!selection) {
+        setFocusedIds((ids) => (ids.length > 0 ? [] : ids));
+        setSearchResult(null);
+        return;
+      }
+      if (feature.geometry.type !== "Point") return;
+      setSelection(
+        addSelectionPoint(selection, feature.geometry.coordinates as LngLat)
+      );
     },
-    []
+    [selection, planPoints]
   );
 
-  const onError = useCallback(
-    (pack: OfflinePackInfo, err: OfflinePackError) => {
-      console.error(
-        `[Error Listener] Pack: ${pack.name}, Error: ${err.message}`
-      );
+  const handleSelectionConfirm = useCallback(async () => {
+    const bounds = selection && selectionBounds(selection);
+    if (!bounds || !ensureOfflineStyle()) return;
+    // The zoom only picks the range the sheet starts with.
+    let zoom = SELECTION_ZOOM;
+    try {
+      zoom = (await mapRef.current?.getZoom()) ?? zoom;
+    } catch (error) {
+      console.warn("Could not read the map zoom:", error);
+    }
+    setSelection(null);
+    setPendingDownload({ bounds, range: defaultZoomRange(zoom) });
+  }, [selection, ensureOfflineStyle]);
+
+  // Names a new pack after the most prominent place, peak or park the map
+  // draws inside it. Rendered features come from tiles already on the
+  // phone, so this works offline; otherwise the centre is used.
+  const nameRegion = useCallback(
+    async (bounds: Bounds) => {
+      const map = mapRef.current;
+      try {
+        if (!map) throw new Error("Map is not ready.");
+        const [[right, top], [left, bottom]] = await Promise.all(
+          bounds.map((corner) => map.getPointInView(corner))
+        );
+        const { features } = await map.queryRenderedFeaturesInRect(
+          [top, right, bottom, left],
+          undefined,
+          nameLayerIds(renderedStyle)
+        );
+        return defaultRegionName(features, bounds);
+      } catch (error) {
+        console.warn("Could not name region from the map:", error);
+        return defaultRegionName([], bounds);
+      }
+    },
+    [renderedStyle]
+  );
+
+  const startDownload = useCallback(
+    async (range: ZoomRange) => {
+      if (!pendingDownload || !mapStyle.offline) return;
+      const { bounds } = pendingDownload;
+      setPendingDownload(null);
+
+      try {
+        const id = await downloadQueue.enqueue({
+          displayName: await nameRegion(bounds),
+          styleId: mapStyle.id,
+          ...(await packStyle(mapStyle, terrain)),
+          bounds,
+          ...range,
+        });
+
+        console.log("Offline pack queued:", id);
+      } catch (error: any) {
+        console.error("Error calling createPack:", error);
+        Alert.alert("Error", `Failed to start download. ${error.message}`);
+      }
+    },
+    [pendingDownload, mapStyle, terrain, nameRegion]
+  );
+
+  // --- Route Import & Corridor ---
+  // Imported files are kept and drawn on the map; files with a line also
+  // offer a download along the route.
+  const handleImportRoute = useCallback(async () => {
+    try {
+      const file = await pickTextFile();
+      if (!file) return;
+      const { format, document } = parseGeoFile(file.text);
+      const summary = await routeLibrary.add(document, {
+        name: baseName(file.name),
+        format,
+      });
+      const [ne, sw] = summary.bounds;
+      cameraRef.current?.fitBounds(ne, sw, 60, 1000);
+
+      const details = [
+        summary.lineCount > 0 && formatDistance(summary.distanceM),
+        summary.waypointCount > 0 && `${summary.waypointCount} waypoints`,
+      ]
+        .filter(Boolean)
+        .join(" · ");
+      // Lines of single points have nothing to download along.
+      let line: RouteLine | null = null;
+      try {
+        line = routeLine(document, summary.name);
+      } catch (error) {
+        if (!(error instanceof GeoFileError)) throw error;
+      }
+      if (!line) {
+        Alert.alert("Route Imported", `"${summary.name}": ${details}.`);
+        return;
+      }
+      const downloadLine = line;
       Alert.alert(
-        "Download Error",
-        `Failed to download region ${pack.name || "Unknown Pack"}. ${
-          err.message
-        }`
+        "Route Imported",
+        `"${summary.name}": ${details}. Download the map along it for offline use?`,
+        [
+          { text: "Not Now", style: "cancel" },
+          {
+            text: "Download",
+            onPress: () => {
+              if (ensureOfflineStyle()) setRoute(downloadLine);
+            },
+          },
+        ]
       );
-      setIsDownloading(false);
-      setDownloadProgress(0);
+    } catch (error: any) {
+      console.error("Error importing route:", error);
+      Alert.alert("Import Failed", error.message);
+    }
+  }, [ensureOfflineStyle]);
+
+  const closeCorridor = useCallback(() => {
+    setRoute(null);
+    setCorridorPreview(null);
+  }, []);
+
+  const startCorridorDownload = useCallback(
+    async (plan: CorridorPlan, range: ZoomRange) => {
+      if (!route || !mapStyle.offline) return;
+      const { name } = route;
+      closeCorridor();
+
+      try {
+        const ids = await downloadQueue.enqueueGroup({
+          name,
+          boxes: plan.boxes,
+          styleId: mapStyle.id,
+          ...(await packStyle(mapStyle, terrain)),
+          ...range,
+        });
+
+        console.log(`Corridor "${name}" queued as ${ids.length} packs`);
+      } catch (error: any) {
+        console.error("Error creating corridor packs:", error);
+        Alert.alert("Error", `Failed to start download. ${error.message}`);
+      }
     },
-    []
+    [route, mapStyle, terrain, closeCorridor]
   );
 
-  // --- Handle Download Action ---
-  const handleDownload = useCallback(async () => {
-    if (isDownloading || !offlineManager) {
-      console.log(
-        `Download prevented: isDownloading=${isDownloading}, offlineManager=${!!offlineManager}`
-      );
-      if (!offlineManager) {
+  // --- Route Planning ---
+  // Planned routes join the imported ones, so they are drawn, listed and
+  // exported the same way.
+  const handleSavePlan = useCallback(async () => {
+    const { route } = plan;
+    if (!route) return;
+    const name = `Route ${new Date().toLocaleDateString()}`;
+    const document: GeoDocument = {
+      name,
+      lines: [
+        {
+          name,
+          kind: "route",
+          segments: [
+            route.points.map(([lng, lat]) => ({
+              lng,
+              lat,
+              alt: null,
+              time: null,
+            })),
+          ],
+        },
+      ],
+      waypoints: [],
+    };
+    try {
+      await routeLibrary.add(document, { name, format: null });
+      setPlanPoints(null);
+      Alert.alert("Route Saved", `"${name}" is in Tracks. Follow it now?`, [
+        { text: "Not Now", style: "cancel" },
+        { text: "Navigate", onPress: () => startNavigation(document, name) },
+      ]);
+    } catch (error: any) {
+      console.error("Error saving planned route:", error);
+      Alert.alert("Error", `Could not save the route. ${error.message}`);
+    }
+  }, [plan, startNavigation]);
+
+  // --- Track Recording ---
+  const handleStartRecording = useCallback(async () => {
+    try {
+      const started = await startRecording();
+      if (!started) {
         Alert.alert(
-          "Error",
-          "Offline manager is not yet available. Please wait and try again."
+          "Permission Required",
+          'Recording a track needs location access set to "Always", so it keeps working while the screen is off.'
         );
+        return;
       }
-      return;
+      setShowsUserLocation(true);
+    } catch (error: any) {
+      console.error("Error starting track recording:", error);
+      Alert.alert("Error", `Could not start recording. ${error.message}`);
     }
+  }, [startRecording]);
 
-    setIsDownloading(true);
-    setDownloadProgress(0);
+  const handlePauseRecording = useCallback(async () => {
+    try {
+      await pauseRecording();
+    } catch (error: any) {
+      console.error("Error pausing track recording:", error);
+      Alert.alert("Error", `Could not pause recording. ${error.message}`);
+    }
+  }, [pauseRecording]);
 
+  const handleResumeRecording = useCallback(async () => {
     try {
-      const bounds = await mapRef.current?.getVisibleBounds();
-      const zoom = await mapRef.current?.getZoom();
+      await resumeRecording();
+    } catch (error: any) {
+      console.error("Error resuming track recording:", error);
+      Alert.alert("Error", `Could not resume recording. ${error.message}`);
+    }
+  }, [resumeRecording]);
 
-      if (!bounds || zoom === undefined) {
-        Alert.alert("Error", "Could not get map bounds or zoom level.");
-        setIsDownloading(false);
+  const handleStopRecording = useCallback(() => {
+    Alert.alert("Stop Recording?", "The track will be saved to Tracks.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Stop",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            const track = await stopRecording();
+            if (!track) {
+              Alert.alert("Nothing Recorded", "No location was recorded.");
+            }
+          } catch (error: any) {
+            console.error("Error stopping track recording:", error);
+            Alert.alert("Error", `Could not stop recording. ${error.message}`);
+          }
+        },
+      },
+    ]);
+  }, [stopRecording]);
+
+  // --- Elevation Profiles ---
+  const handleRoutePress = useCallback(
+    (routeId: string) => {
+      const overlay = overlays.find((o) => o.id === routeId);
+      if (!overlay) return;
+      setProfileTarget({
+        title: routes.find((r) => r.id === routeId)?.name ?? "Route",
+        segments: documentSegments(overlay.document),
+      });
+    },
+    [routes, overlays]
+  );
+
+  const handleRecordingProfile = useCallback(() => {
+    if (!recorder.track) return;
+    setProfileTarget({
+      title: recorder.track.name,
+      segments: splitSegments(recorder.track),
+    });
+  }, [recorder.track]);
+
+  // --- Place Search ---
+  const handlePlaceSelect = useCallback((place: Place) => {
+    setSearchResult(place);
+    cameraRef.current?.setCamera({
+      centerCoordinate: place.lngLat,
+      zoomLevel: place.class === "town" ? 13 : 15,
+      animationMode: "flyTo",
+      animationDuration: 2000,
+    });
+  }, []);
+
+  // --- Waypoints ---
+  // Long-pressing the map drops a pin where the finger is; the sheet can
+  // move it to the GPS position, which also gives the altitude.
+  const handleMapLongPress = useCallback(
+    (feature: GeoJSON.Feature) => {
+      if (selection || planPoints || feature.geometry.type !== "Point") {
         return;
       }
+      const [lng, lat] = feature.geometry.coordinates;
+      setWaypointDraft({
+        name: "",
+        category: "other",
+        note: "",
+        photoUri: null,
+        lng,
+        lat,
+        alt: null,
+      });
+    },
+    [selection, planPoints]
+  );
 
-      const packName = `offline-pack-${Date.now()}`;
-      const metadata = {
-        name: `Region @ ${new Date().toLocaleTimeString()}`,
-        downloaded_at: Date.now(),
-      };
-
-      const options = {
-        name: packName,
-        styleURL: MAP_STYLE_URL,
-        bounds: bounds,
-        minZoom: Math.max(0, Math.floor(zoom) - 2),
-        maxZoom: Math.min(16, Math.floor(zoom) + 3),
-        metadata: JSON.stringify(metadata),
-      };
-
-      console.log(
-        "Calling createPack for:",
-        packName,
-        "with options:",
-        options
-      );
+  const handleWaypointPress = useCallback(
+    (id: string) => {
+      const waypoint = waypoints.find((w) => w.id === id);
+      if (waypoint) setWaypointDraft(waypoint);
+    },
+    [waypoints]
+  );
 
-      await offlineManager.createPack(options, onProgress, onError);
+  const handleLocateWaypoint = useCallback(async (): Promise<GpsFix | null> => {
+    if (locationPermission !== true) {
+      const granted = await requestLocationPermission();
+      if (!granted) return null;
+    }
+    try {
+      return await currentGpsFix();
+    } catch (error: any) {
+      console.error("Error reading current position:", error);
+      Alert.alert("Error", `Could not get your position. ${error.message}`);
+      return null;
+    }
+  }, [locationPermission, requestLocationPermission]);
 
-      console.log(
-        "Offline pack creation process initiated via createPack for:",
-        packName
-      );
+  const handleSaveWaypoint = useCallback(async (draft: WaypointDraft) => {
+    const { id, ...input } = draft;
+    setWaypointDraft(null);
+    try {
+      if (id) {
+        await waypointStore.update(id, input);
+      } else {
+        await waypointStore.add(input);
+      }
     } catch (error: any) {
-      console.error("Error calling createPack:", error);
-      Alert.alert("Error", `Failed to start download. ${error.message}`);
-      setIsDownloading(false);
-      setDownloadProgress(0);
+      console.error("Error saving waypoint:", error);
+      Alert.alert("Error", `Could not save the waypoint. ${error.message}`);
     }
-  }, [isDownloading, offlineManager, onProgress, onError]);
+  }, []);
+
+  const handleDeleteWaypoint = useCallback((id: string) => {
+    Alert.alert(
+      "Confirm Deletion",
+      "Are you sure you want to delete this waypoint?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            setWaypointDraft(null);
+            try {
+              await waypointStore.delete(id);
+            } catch (error: any) {
+              console.error(`Error deleting waypoint ${id}:`, error);
+              Alert.alert(
+                "Error",
+                `Could not delete waypoint. ${error.message}`
+              );
+            }
+          },
+        },
+      ]
+    );
+  }, []);
 
-  // Focus on user location - update to check permissions first
+  // --- Camera ---
+  // Steps from off to following and on to following with the heading;
+  // asks for the permission first when it is missing.
   const handleLocationFocus = useCallback(async () => {
     if (locationPermission !== true) {
       const granted = await requestLocationPermission();
@@ -196,69 +819,223 @@ export default function HomeScreen() {
     }
 
     setShowsUserLocation(true);
-
-    setCameraConfig({
-      followUserLocation: true,
-      zoomLevel: 15,
-      animationDuration: 1000,
-    });
-
-    setTimeout(() => {
-      setCameraConfig((prev) => ({
-        ...prev,
-        followUserLocation: false,
-      }));
-    }, 1500);
+    dispatchCamera({ type: "locate" });
   }, [locationPermission, requestLocationPermission]);
 
+  // Following turns north-up by itself; otherwise the camera is turned.
+  const handleResetNorth = useCallback(() => {
+    if (camera.mode === "off") {
+      cameraRef.current?.setCamera({ heading: 0, animationDuration: 300 });
+    }
+    dispatchCamera({ type: "north" });
+  }, [camera.mode]);
+
   return (
     <View style={styles.container}>
-      <MapView ref={mapRef} style={styles.map} mapStyle={MAP_STYLE_URL}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        mapStyle={renderedStyle}
+        onPress={handleMapPress}
+        onLongPress={handleMapLongPress}
+        onRegionDidChange={handleRegionDidChange}
+      >
         <Camera
-          zoomLevel={cameraConfig.zoomLevel}
-          animationDuration={cameraConfig.animationDuration}
-          followUserLocation={cameraConfig.followUserLocation}
+          ref={cameraRef}
+          defaultSettings={{ zoomLevel: 12 }}
+          followUserLocation={camera.mode !== "off"}
+          followUserMode={FOLLOW_MODES[camera.mode]}
           followZoomLevel={15}
+          followHeading={0}
+          onUserTrackingModeChange={(event) => {
+            const { followUserLocation, followUserMode } =
+              event.nativeEvent.payload;
+            dispatchCamera({
+              type: "tracking",
+              mode: trackingMode(followUserLocation, followUserMode),
+            });
+          }}
+        />
+        {showsUserLocation && locationPermission && (
+          <UserLocation showsUserHeadingIndicator={camera.mode === "heading"} />
+        )}
+        {selection && (
+          <RegionSelectionLayer selection={selection} onChange={setSelection} />
+        )}
+        <OfflineRegionsLayer
+          regions={regions}
+          showAll={showCoverage}
+          focusedIds={focusedIds}
         />
-        {showsUserLocation && locationPermission && <UserLocation />}
+        <ImportedRoutesLayer
+          overlays={overlays}
+          onPressRoute={handleRoutePress}
+        />
+        {route && (
+          <CorridorPreview lines={route.segments} plan={corridorPreview} />
+        )}
+        {recorder.track && (
+          <TrackLine id="recording-track" track={recorder.track} />
+        )}
+        <WaypointsLayer
+          waypoints={waypoints}
+          onPressWaypoint={handleWaypointPress}
+        />
+        {searchResult && <SearchResultLayer place={searchResult} />}
+        {planPoints && (
+          <RoutePlannerLayer points={planPoints} route={plan.route} />
+        )}
+        {navigation.route && <NavigationRouteLayer route={navigation.route} />}
       </MapView>
 
-      <TouchableOpacity
-        style={[
-          styles.locationButton,
-          !locationPermission && styles.locationButtonDisabled,
-        ]}
+      {!selection && !planPoints && !navigation.route && (
+        <PlaceSearch onSelect={handlePlaceSelect} style={styles.search} />
+      )}
+
+      <View style={styles.recordingControls}>
+        <RecordingControls
+          recording={recorder.recording}
+          track={recorder.track}
+          onStart={handleStartRecording}
+          onPause={handlePauseRecording}
+          onResume={handleResumeRecording}
+          onStop={handleStopRecording}
+          onShowProfile={handleRecordingProfile}
+        />
+      </View>
+
+      {selection && (
+        <RegionSelectionToolbar
+          selection={selection}
+          onChange={setSelection}
+          onCancel={() => setSelection(null)}
+          onConfirm={handleSelectionConfirm}
+        />
+      )}
+
+      {planPoints && (
+        <RoutePlannerToolbar
+          points={planPoints}
+          {...plan}
+          onUndo={() => setPlanPoints(planPoints.slice(0, -1))}
+          onCancel={() => setPlanPoints(null)}
+          onSave={handleSavePlan}
+        />
+      )}
+
+      {navigation.route && !selection && !planPoints && (
+        <NavigationPanel
+          route={navigation.route}
+          progress={navigation.progress}
+          onStop={navigation.stop}
+        />
+      )}
+
+      {coverage && (
+        <StyleWarning
+          coverage={coverage}
+          style={mapStyle}
+          onSwitch={setStyleId}
+          onHideOverlays={() => setTerrain([])}
+        />
+      )}
+
+      <MapButton
+        icon="layers"
+        style={styles.styleButton}
+        onPress={() => setIsPickingLayers(true)}
+        disabled={!!selection}
+      />
+
+      <MapButton
+        icon="footsteps"
+        style={styles.planButton}
+        active={!!planPoints}
+        onPress={() => setPlanPoints((prev) => (prev ? null : []))}
+        disabled={!!selection}
+      />
+
+      <MapButton
+        icon="trail-sign"
+        style={styles.routeButton}
+        onPress={handleImportRoute}
+        disabled={!!selection}
+      />
+
+      <MapButton
+        icon="crop"
+        style={styles.selectButton}
+        active={!!selection}
+        onPress={() =>
+          setSelection((prev) => (prev ? null : emptySelection("rectangle")))
+        }
+        disabled={!!planPoints}
+      />
+
+      <MapButton
+        icon={LOCATION_ICONS[camera.mode]}
+        style={styles.locationButton}
+        active={camera.mode !== "off"}
+        muted={!locationPermission}
         onPress={handleLocationFocus}
-      >
-        <Ionicons
-          name="navigate"
-          size={24}
-          color={locationPermission ? "#0366d6" : "#aaaaaa"}
+      />
+
+      {isRotated(camera) && (
+        <MapButton
+          icon="compass-outline"
+          style={styles.northButton}
+          onPress={handleResetNorth}
         />
-      </TouchableOpacity>
+      )}
 
-      <TouchableOpacity
-        style={[
-          styles.downloadButton,
-          isDownloading && styles.downloadingButton,
-        ]}
+      <MapButton
+        icon="download"
+        style={styles.downloadButton}
         onPress={handleDownload}
-        disabled={isDownloading || !offlineManager}
-      >
-        {isDownloading ? (
-          <ActivityIndicator size="small" color="#ffffff" />
-        ) : (
-          <Ionicons name="download" size={24} color="#0366d6" />
-        )}
-      </TouchableOpacity>
-
-      {isDownloading && (
-        <View style={styles.progressIndicator}>
-          <Text style={styles.progressText}>
-            {Math.round(downloadProgress * 100)}%
-          </Text>
-        </View>
-      )}
+      />
+
+      <DownloadSheet
+        bounds={pendingDownload?.bounds ?? null}
+        initialRange={pendingDownload?.range ?? DEFAULT_RANGE}
+        sources={1 + activeOverlays.length}
+        onCancel={() => setPendingDownload(null)}
+        onConfirm={startDownload}
+      />
+
+      <CorridorSheet
+        route={route}
+        initialRange={DEFAULT_RANGE}
+        sources={1 + activeOverlays.length}
+        onCancel={closeCorridor}
+        onConfirm={startCorridorDownload}
+        onPlanChange={setCorridorPreview}
+      />
+
+      <ProfileSheet
+        target={profileTarget}
+        onClose={() => setProfileTarget(null)}
+      />
+
+      <WaypointSheet
+        draft={waypointDraft}
+        onClose={() => setWaypointDraft(null)}
+        onSave={handleSaveWaypoint}
+        onDelete={handleDeleteWaypoint}
+        onLocate={handleLocateWaypoint}
+      />
+
+      <LayersSheet
+        visible={isPickingLayers}
+        styleId={styleId}
+        overlays={terrain}
+        onStyleChange={setStyleId}
+        onOverlaysChange={setTerrain}
+        showCoverage={showCoverage}
+        onShowCoverageChange={setShowCoverage}
+        onClose={() => setIsPickingLayers(false)}
+      />
+
+      <DownloadsPanel downloads={downloads} style={styles.downloadsPanel} />
     </View>
   );
 }
@@ -272,56 +1049,55 @@ const styles = StyleSheet.create({
   map: {
     flex: 1,
   },
-  progressIndicator: {
+  search: {
     position: "absolute",
-    bottom: 95,
+    top: 60,
+    left: 20,
     right: 20,
-    backgroundColor: "rgba(255, 255, 255, 0.8)",
-    paddingHorizontal: 10,
-    paddingVertical: 5,
-    borderRadius: 15,
   },
-  progressText: {
-    fontSize: 14,
-    fontWeight: "bold",
-    color: "#0366d6",
+  downloadsPanel: {
+    position: "absolute",
+    bottom: 95,
+    right: 80,
   },
   locationButton: {
     position: "absolute",
     bottom: 160,
     right: 20,
-    backgroundColor: "white",
-    borderRadius: 30,
-    width: 50,
-    height: 50,
-    justifyContent: "center",
-    alignItems: "center",
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.2,
-    shadowRadius: 4,
-    elevation: 4,
-  },
-  locationButtonDisabled: {
-    backgroundColor: "#f0f0f0",
   },
   downloadButton: {
     position: "absolute",
     bottom: 95,
     right: 20,
-    backgroundColor: "white",
-    borderRadius: 30,
-    width: 50,
-    height: 50,
-    justifyContent: "center",
-    alignItems: "center",
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.2,
-    shadowRadius: 4,
-    elevation: 4,
   },
-  downloadingButton: {
-    backgroundColor: "#0366d6",
+  selectButton: {
+    position: "absolute",
+    bottom: 225,
+    right: 20,
+  },
+  styleButton: {
+    position: "absolute",
+    bottom: 355,
+    right: 20,
+  },
+  routeButton: {
+    position: "absolute",
+    bottom: 290,
+    right: 20,
+  },
+  planButton: {
+    position: "absolute",
+    bottom: 420,
+    right: 20,
+  },
+  northButton: {
+    position: "absolute",
+    bottom: 485,
+    right: 20,
+  },
+  recordingControls: {
+    position: "absolute",
+    bottom: 95,
+    left: 20,
   },
 });
@@ -0,0 +1,525 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  Platform,
+  Pressable,
+  RefreshControl,
+  SafeAreaView,
+  SectionList,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from "react-native";
+import * as Location from "expo-location";
+import { router } from "expo-router";
+
+import { ProfileSheet, ProfileTarget } from "@/components/tracks/ProfileSheet";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { CATEGORY_ICONS } from "@/components/waypoints/icons";
+import {
+  WaypointDraft,
+  WaypointSheet,
+} from "@/components/waypoints/WaypointSheet";
+import { useImportedRoutes } from "@/hooks/useImportedRoutes";
+import { useTracks } from "@/hooks/useTracks";
+import { useWaypoints } from "@/hooks/useWaypoints";
+import { safeFileName, shareTextFile } from "@/lib/files";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  GeoDocument,
+  documentSegments,
+} from "@/lib/formats";
+import { RouteSummary, routeLibrary } from "@/lib/routes";
+import {
+  TrackSummary,
+  formatDistance,
+  formatDuration,
+  splitSegments,
+  trackDocument,
+  trackRecorder,
+} from "@/lib/tracks";
+import {
+  WAYPOINT_CATEGORIES,
+  Waypoint,
+  currentGpsFix,
+  waypointDocument,
+  waypointStore,
+} from "@/lib/waypoints";
+
+type Row =
+  | { type: "track"; item: TrackSummary }
+  | { type: "route"; item: RouteSummary }
+  | { type: "waypoint"; item: Waypoint };
+
+export default function TracksScreen() {
+  const { tracks, isLoading, error, refresh } = useTracks();
+  const { routes, refresh: refreshRoutes } = useImportedRoutes();
+  const { waypoints, refresh: refreshWaypoints } = useWaypoints();
+  const [profileTarget, setProfileTarget] = useState<ProfileTarget | null>(
+    null
+  );
+  const [waypointDraft, setWaypointDraft] = useState<WaypointDraft | null>(
+    null
+  );
+
+  const sections = [
+    {
+      title: "Recorded",
+      empty: "No tracks recorded yet. Start one from the map.",
+      data: tracks.map((item): Row => ({ type: "track", item })),
+    },
+    {
+      title: "Routes",
+      empty: "Plan a route or import GPX, KML or GeoJSON files from the map.",
+      data: routes.map((item): Row => ({ type: "route", item })),
+    },
+    {
+      title: "Waypoints",
+      empty: "Long-press the map to drop a waypoint.",
+      data: waypoints.map((item): Row => ({ type: "waypoint", item })),
+    },
+  ];
+
+  useEffect(() => {
+    if (error) {
+      Alert.alert("Error", `Could not load tracks. ${error.message}`);
+    }
+  }, [error]);
+
+  // Asks for a format, then hands the written file to the OS share sheet.
+  const handleShare = useCallback(
+    (name: string, load: () => Promise<GeoDocument | null>) => {
+      const share = async (format: ExportFormat) => {
+        const { extension, mimeType, uti, write } = EXPORT_FORMATS[format];
+        try {
+          const document = await load();
+          if (!document) throw new Error("It no longer exists.");
+          await shareTextFile({
+            fileName: `${safeFileName(name)}.${extension}`,
+            text: write(document),
+            mimeType,
+            uti,
+          });
+        } catch (error: any) {
+          console.error(`Error exporting "${name}":`, error);
+          Alert.alert("Error", `Could not export "${name}". ${error.message}`);
+        }
+      };
+      Alert.alert("Export", `Share "${name}" as:`, [
+        ...(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => ({
+          text: EXPORT_FORMATS[format].label,
+          onPress: () => share(format),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ]);
+    },
+    []
+  );
+
+  // Points are only loaded once a row is tapped; lists hold summaries only.
+  const handleShowProfile = useCallback(
+    async (
+      name: string,
+      load: () => Promise<ProfileTarget["segments"] | null>
+    ) => {
+      try {
+        const segments = await load();
+        if (!segments) throw new Error("It no longer exists.");
+        setProfileTarget({ title: name, segments });
+      } catch (error: any) {
+        console.error(`Error loading profile of "${name}":`, error);
+        Alert.alert("Error", `Could not load "${name}". ${error.message}`);
+      }
+    },
+    []
+  );
+
+  const handleDeleteTrack = useCallback((track: TrackSummary) => {
+    Alert.alert(
+      "Confirm Deletion",
+      `Are you sure you want to delete the track "${track.name}"?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await trackRecorder.delete(track.id);
+            } catch (error: any) {
+              console.error(`Error deleting track ${track.id}:`, error);
+              Alert.alert("Error", `Could not delete track. ${error.message}`);
+            }
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const handleDeleteRoute = useCallback((route: RouteSummary) => {
+    Alert.alert(
+      "Confirm Deletion",
+      `Are you sure you want to delete the imported route "${route.name}"?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await routeLibrary.delete(route.id);
+            } catch (error: any) {
+              console.error(`Error deleting route ${route.id}:`, error);
+              Alert.alert("Error", `Could not delete route. ${error.message}`);
+            }
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const handleSaveWaypoint = useCallback(async (draft: WaypointDraft) => {
+    const { id, ...input } = draft;
+    setWaypointDraft(null);
+    if (!id) return;
+    try {
+      await waypointStore.update(id, input);
+    } catch (error: any) {
+      console.error(`Error saving waypoint ${id}:`, error);
+      Alert.alert("Error", `Could not save the waypoint. ${error.message}`);
+    }
+  }, []);
+
+  const handleDeleteWaypoint = useCallback((id: string) => {
+    Alert.alert(
+      "Confirm Deletion",
+      "Are you sure you want to delete this waypoint?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            setWaypointDraft(null);
+            try {
+              await waypointStore.delete(id);
+            } catch (error: any) {
+              console.error(`Error deleting waypoint ${id}:`, error);
+              Alert.alert(
+                "Error",
+                `Could not delete waypoint. ${error.message}`
+              );
+            }
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const handleLocateWaypoint = useCallback(async () => {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== "granted") {
+        Alert.alert(
+          "Permission Required",
+          "Location permission is needed to place the waypoint where you are."
+        );
+        return null;
+      }
+      return await currentGpsFix();
+    } catch (error: any) {
+      console.error("Error reading current position:", error);
+      Alert.alert("Error", `Could not get your position. ${error.message}`);
+      return null;
+    }
+  }, []);
+
+  const renderRoute = (item: RouteSummary) => (
+    <View style={styles.listItem}>
+      <Pressable
+        style={styles.itemTextContainer}
+        onPress={() =>
+          handleShowProfile(item.name, async () => {
+            const document = await routeLibrary.get(item.id);
+            return document && documentSegments(document);
+          })
+        }
+      >
+        <Text style={styles.itemTitle}>{item.name}</Text>
+        <Text style={styles.itemSubtitle}>
+          {item.format ? `${item.format.toUpperCase()} · imported` : "Planned"}{" "}
+          {new Date(item.importedAt).toLocaleDateString()}
+        </Text>
+        <Text style={styles.itemSubtitle}>
+          {item.lineCount > 0 ? formatDistance(item.distanceM) : "No lines"}
+          {item.waypointCount > 0 && ` · ${item.waypointCount} waypoints`}
+        </Text>
+      </Pressable>
+      <Switch
+        value={item.visible}
+        onValueChange={(visible) =>
+          routeLibrary
+            .setVisible(item.id, visible)
+            .catch((e) => console.error("Error toggling route:", e))
+        }
+        style={styles.itemSwitch}
+      />
+      {item.lineCount > 0 && (
+        <Button
+          title="Go"
+          onPress={() =>
+            router.navigate({ pathname: "/", params: { navigate: item.id } })
+          }
+        />
+      )}
+      <Button
+        title="Share"
+        onPress={() => handleShare(item.name, () => routeLibrary.get(item.id))}
+      />
+      <Button
+        title="Delete"
+        color={Platform.OS === "ios" ? "#FF3B30" : "#FF0000"}
+        onPress={() => handleDeleteRoute(item)}
+      />
+    </View>
+  );
+
+  const renderTrack = (item: TrackSummary) => {
+    const isRecording = item.endedAt === null;
+    return (
+      <View style={styles.listItem}>
+        <Pressable
+          style={styles.itemTextContainer}
+          onPress={() =>
+            handleShowProfile(item.name, async () => {
+              const track = await trackRecorder.tracks.get(item.id);
+              return track && splitSegments(track);
+            })
+          }
+        >
+          <Text style={styles.itemTitle}>{item.name}</Text>
+          <Text style={styles.itemSubtitle}>
+            {new Date(item.startedAt).toLocaleString()}
+          </Text>
+          <Text style={styles.itemSubtitle}>
+            {formatDistance(item.distanceM)}
+            {item.endedAt !== null &&
+              ` · ${formatDuration(item.endedAt - item.startedAt)}`}
+            {` · ${item.pointCount.toLocaleString()} points`}
+          </Text>
+          {isRecording && (
+            <Text style={[styles.itemSubtitle, styles.itemRecording]}>
+              Recording…
+            </Text>
+          )}
+        </Pressable>
+        <Button
+          title="Share"
+          onPress={() =>
+            handleShare(item.name, async () => {
+              const track = await trackRecorder.tracks.get(item.id);
+              return track && trackDocument(track);
+            })
+          }
+          disabled={isRecording}
+        />
+        <Button
+          title="Delete"
+          color={Platform.OS === "ios" ? "#FF3B30" : "#FF0000"}
+          onPress={() => handleDeleteTrack(item)}
+          disabled={isRecording}
+        />
+      </View>
+    );
+  };
+
+  const renderWaypoint = (item: Waypoint) => {
+    const { label, color } = WAYPOINT_CATEGORIES[item.category];
+    return (
+      <View style={styles.listItem}>
+        <View style={[styles.waypointBadge, { backgroundColor: color }]}>
+          <IconSymbol
+            name={CATEGORY_ICONS[item.category].symbol}
+            size={18}
+            color="#ffffff"
+          />
+        </View>
+        <Pressable
+          style={styles.itemTextContainer}
+          onPress={() =>
+            router.navigate({ pathname: "/", params: { waypoint: item.id } })
+          }
+        >
+          <Text style={styles.itemTitle}>{item.name || label}</Text>
+          <Text style={styles.itemSubtitle}>
+            {label} · {new Date(item.createdAt).toLocaleDateString()}
+            {item.alt !== null && ` · ${Math.round(item.alt)} m`}
+            {item.photoUri && " · Photo"}
+          </Text>
+          {item.note !== "" && (
+            <Text style={styles.itemSubtitle} numberOfLines={2}>
+              {item.note}
+            </Text>
+          )}
+        </Pressable>
+        <Button title="Edit" onPress={() => setWaypointDraft(item)} />
+      </View>
+    );
+  };
+
+  const renderRow = (row: Row) => {
+    switch (row.type) {
+      case "track":
+        return renderTrack(row.item);
+      case "route":
+        return renderRoute(row.item);
+      case "waypoint":
+        return renderWaypoint(row.item);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {isLoading && tracks.length === 0 ? (
+        <ActivityIndicator size="large" color="#007AFF" style={styles.loader} />
+      ) : (
+        <SectionList
+          sections={sections}
+          renderItem={({ item: row }) => renderRow(row)}
+          keyExtractor={(row) => row.item.id}
+          style={styles.list}
+          stickySectionHeadersEnabled={false}
+          ListHeaderComponent={<Text style={styles.title}>Tracks</Text>}
+          renderSectionHeader={({ section }) => (
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>{section.title}</Text>
+              {section.title === "Waypoints" && waypoints.length > 0 && (
+                <Button
+                  title="Share All"
+                  onPress={() =>
+                    handleShare("Waypoints", async () =>
+                      waypointDocument(await waypointStore.list(), "Waypoints")
+                    )
+                  }
+                />
+              )}
+            </View>
+          )}
+          renderSectionFooter={({ section }) =>
+            section.data.length === 0 ? (
+              <Text style={styles.emptyText}>{section.empty}</Text>
+            ) : null
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={false}
+              onRefresh={() => {
+                refresh();
+                refreshRoutes();
+                refreshWaypoints();
+              }}
+              tintColor="#007AFF"
+              colors={["#007AFF"]}
+            />
+          }
+        />
+      )}
+      <ProfileSheet
+        target={profileTarget}
+        onClose={() => setProfileTarget(null)}
+      />
+      <WaypointSheet
+        draft={waypointDraft}
+        onClose={() => setWaypointDraft(null)}
+        onSave={handleSaveWaypoint}
+        onDelete={handleDeleteWaypoint}
+        onLocate={handleLocateWaypoint}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  loader: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    marginTop: 20,
+    marginBottom: 10,
+    marginHorizontal: 20,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 15,
+    marginBottom: 5,
+    marginHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+    textTransform: "uppercase",
+  },
+  emptyText: {
+    marginVertical: 10,
+    marginHorizontal: 20,
+    fontSize: 14,
+    color: "#888",
+  },
+  list: {
+    flex: 1,
+  },
+  listItem: {
+    backgroundColor: "#ffffff",
+    padding: 15,
+    marginVertical: 5,
+    marginHorizontal: 20,
+    borderRadius: 8,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#eee",
+  },
+  itemTextContainer: {
+    flex: 1,
+    marginRight: 10,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  itemSubtitle: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 4,
+  },
+  itemSwitch: {
+    marginRight: 10,
+  },
+  waypointBadge: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 12,
+  },
+  itemRecording: {
+    color: "#d6036b",
+  },
+});
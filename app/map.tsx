@@ -0,0 +1,12 @@
+import { Redirect, useLocalSearchParams } from "expo-router";
+
+import { MapLinkParams } from "@/lib/map";
+
+/**
+ * Target of `hiker://map?lat=..&lon=..&z=..` links: opens the map tab,
+ * which flies to the position.
+ */
+export default function MapLink() {
+  const { lat, lon, z } = useLocalSearchParams<MapLinkParams>();
+  return <Redirect href={{ pathname: "/", params: { lat, lon, z } }} />;
+}
@@ -0,0 +1,109 @@
+import React, { PropsWithChildren } from "react";
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+export type SheetAction = {
+  label: string;
+  onPress: () => void;
+  primary?: boolean;
+  disabled?: boolean;
+};
+
+type Props = PropsWithChildren<{
+  visible: boolean;
+  title: string;
+  onClose: () => void;
+  actions: SheetAction[];
+}>;
+
+/** Modal panel sliding up from the bottom, with a row of actions. */
+export function BottomSheet({
+  visible,
+  title,
+  onClose,
+  actions,
+  children,
+}: Props) {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{title}</Text>
+          {children}
+          <View style={styles.actions}>
+            {actions.map((action) => (
+              <TouchableOpacity
+                key={action.label}
+                style={[
+                  styles.button,
+                  action.primary && styles.primaryButton,
+                  action.disabled && styles.buttonDisabled,
+                ]}
+                disabled={action.disabled}
+                onPress={action.onPress}
+              >
+                <Text
+                  style={[
+                    styles.buttonText,
+                    action.primary && styles.primaryButtonText,
+                  ]}
+                >
+                  {action.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+  },
+  sheet: {
+    backgroundColor: "white",
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 20,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginLeft: 10,
+  },
+  buttonText: {
+    fontSize: 16,
+    color: "#0366d6",
+  },
+  primaryButton: {
+    backgroundColor: "#0366d6",
+  },
+  primaryButtonText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,62 @@
+import React, { useMemo } from "react";
+import {
+  FillLayer,
+  LineLayer,
+  ShapeSource,
+} from "@maplibre/maplibre-react-native";
+
+import { LngLat, boundsToPolygon } from "@/lib/geo/bounds";
+import { CorridorPlan } from "@/lib/geo/corridor";
+
+const ROUTE_COLOR = "#d63a03";
+const BOX_COLOR = "#0366d6";
+
+/** Imported route and the packs planned around it; render inside `MapView`. */
+export function CorridorPreview({
+  lines,
+  plan,
+}: {
+  lines: LngLat[][];
+  plan: CorridorPlan | null;
+}) {
+  const boxes = useMemo<GeoJSON.FeatureCollection>(
+    () => ({
+      type: "FeatureCollection",
+      features: (plan?.boxes ?? []).map((box, index) => ({
+        type: "Feature",
+        id: index,
+        geometry: boundsToPolygon(box),
+        properties: {},
+      })),
+    }),
+    [plan]
+  );
+
+  return (
+    <>
+      <ShapeSource id="corridor-boxes" shape={boxes}>
+        <FillLayer
+          id="corridor-boxes-fill"
+          style={{ fillColor: BOX_COLOR, fillOpacity: 0.1 }}
+        />
+        <LineLayer
+          id="corridor-boxes-outline"
+          style={{ lineColor: BOX_COLOR, lineWidth: 1 }}
+        />
+      </ShapeSource>
+      <ShapeSource
+        id="corridor-route"
+        shape={{
+          type: "Feature",
+          geometry: { type: "MultiLineString", coordinates: lines },
+          properties: {},
+        }}
+      >
+        <LineLayer
+          id="corridor-route-line"
+          style={{ lineColor: ROUTE_COLOR, lineWidth: 3 }}
+        />
+      </ShapeSource>
+    </>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useMemo } from "react";
+import {
+  CircleLayer,
+  LineLayer,
+  ShapeSource,
+  SymbolLayer,
+} from "@maplibre/maplibre-react-native";
+
+import { GeoDocument } from "@/lib/formats";
+
+const ROUTE_COLOR = "#7b3fe4";
+
+type Overlay = { id: string; document: GeoDocument };
+
+// One feature per line and per waypoint, tagged so the layers can filter.
+function overlayShape(overlays: Overlay[]): GeoJSON.FeatureCollection {
+  const features: GeoJSON.Feature[] = [];
+  for (const { id, document } of overlays) {
+    for (const line of document.lines) {
+      features.push({
+        type: "Feature",
+        geometry: {
+          type: "MultiLineString",
+          coordinates: line.segments.map((segment) =>
+            segment.map((p) => [p.lng, p.lat])
+          ),
+        },
+        properties: {
+          routeId: id,
+          feature: "line",
+          name: line.name ?? document.name ?? "",
+        },
+      });
+    }
+    for (const waypoint of document.waypoints) {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [waypoint.lng, waypoint.lat] },
+        properties: {
+          routeId: id,
+          feature: "waypoint",
+          name: waypoint.name ?? "",
+        },
+      });
+    }
+  }
+  return { type: "FeatureCollection", features };
+}
+
+const isLine = ["==", ["get", "feature"], "line"] as const;
+const isWaypoint = ["==", ["get", "feature"], "waypoint"] as const;
+
+/**
+ * Imported routes with their waypoints; render inside `MapView`. Tapping a
+ * route reports its id.
+ */
+export function ImportedRoutesLayer({
+  overlays,
+  onPressRoute,
+}: {
+  overlays: Overlay[];
+  onPressRoute?: (routeId: string) => void;
+}) {
+  const shape = useMemo(() => overlayShape(overlays), [overlays]);
+
+  return (
+    <ShapeSource
+      id="imported-routes"
+      shape={shape}
+      onPress={(event) => {
+        const routeId = event.features[0]?.properties?.routeId;
+        if (routeId) onPressRoute?.(routeId);
+      }}
+    >
+      <LineLayer
+        id="imported-routes-line"
+        filter={isLine}
+        style={{
+          lineColor: ROUTE_COLOR,
+          lineWidth: 3,
+          lineOpacity: 0.85,
+          lineCap: "round",
+          lineJoin: "round",
+        }}
+      />
+      <SymbolLayer
+        id="imported-routes-name"
+        filter={isLine}
+        style={{
+          symbolPlacement: "line",
+          textField: ["get", "name"],
+          textSize: 12,
+          textColor: ROUTE_COLOR,
+          textHaloColor: "white",
+          textHaloWidth: 1.5,
+        }}
+      />
+      <CircleLayer
+        id="imported-routes-waypoint"
+        filter={isWaypoint}
+        style={{
+          circleRadius: 6,
+          circleColor: ROUTE_COLOR,
+          circleStrokeColor: "white",
+          circleStrokeWidth: 2,
+        }}
+      />
+      <SymbolLayer
+        id="imported-routes-waypoint-name"
+        filter={isWaypoint}
+        style={{
+          textField: ["get", "name"],
+          textSize: 12,
+          textAnchor: "top",
+          textOffset: [0, 0.8],
+          textHaloColor: "white",
+          textHaloWidth: 1.5,
+        }}
+      />
+    </ShapeSource>
+  );
+}
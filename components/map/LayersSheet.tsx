@@ -0,0 +1,184 @@
+import React from "react";
+import { StyleSheet, Switch, Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { BottomSheet } from "@/components/BottomSheet";
+import { useAppearance } from "@/hooks/useAppearance";
+import { APPEARANCE_PREFERENCES, AppearancePreference } from "@/lib/appearance";
+import {
+  DEFAULT_TERRAIN,
+  MAP_STYLES,
+  MapStyleId,
+  OVERLAYS,
+  OverlayId,
+  availableOverlays,
+  supportsOverlays,
+} from "@/lib/styles";
+
+/**
+ * Base-map style, day/night, terrain overlay and offline coverage choices
+ * for the map.
+ */
+export function LayersSheet({
+  visible,
+  styleId,
+  overlays,
+  onStyleChange,
+  onOverlaysChange,
+  showCoverage,
+  onShowCoverageChange,
+  onClose,
+}: {
+  visible: boolean;
+  styleId: MapStyleId;
+  overlays: OverlayId[];
+  onStyleChange: (id: MapStyleId) => void;
+  onOverlaysChange: (overlays: OverlayId[]) => void;
+  showCoverage: boolean;
+  onShowCoverageChange: (show: boolean) => void;
+  onClose: () => void;
+}) {
+  const [appearance, setAppearance] = useAppearance();
+  const canOverlay = supportsOverlays(MAP_STYLES[styleId]);
+  const toggle = (overlay: OverlayId, on: boolean) =>
+    onOverlaysChange(
+      on ? [...overlays, overlay] : overlays.filter((o) => o !== overlay)
+    );
+
+  return (
+    <BottomSheet
+      visible={visible}
+      title="Map Layers"
+      onClose={onClose}
+      actions={[{ label: "Done", onPress: onClose }]}
+    >
+      {Object.values(MAP_STYLES).map((style) => (
+        <TouchableOpacity
+          key={style.id}
+          style={styles.row}
+          onPress={() => onStyleChange(style.id)}
+        >
+          <View style={styles.rowText}>
+            <Text style={styles.name}>{style.name}</Text>
+            <Text style={styles.description}>{style.description}</Text>
+          </View>
+          {style.id === styleId && (
+            <Ionicons name="checkmark" size={22} color="#0366d6" />
+          )}
+        </TouchableOpacity>
+      ))}
+
+      <Text style={styles.sectionTitle}>Appearance</Text>
+      <View style={styles.segments}>
+        {(Object.keys(APPEARANCE_PREFERENCES) as AppearancePreference[]).map(
+          (preference) => (
+            <TouchableOpacity
+              key={preference}
+              style={[
+                styles.segment,
+                preference === appearance && styles.segmentSelected,
+              ]}
+              onPress={() => setAppearance(preference)}
+            >
+              <Text
+                style={[
+                  styles.segmentText,
+                  preference === appearance && styles.segmentTextSelected,
+                ]}
+              >
+                {APPEARANCE_PREFERENCES[preference]}
+              </Text>
+            </TouchableOpacity>
+          )
+        )}
+      </View>
+      {!MAP_STYLES[styleId].night && (
+        <Text style={styles.description}>
+          The {MAP_STYLES[styleId].name} style has no night variant.
+        </Text>
+      )}
+
+      <Text style={styles.sectionTitle}>Terrain</Text>
+      {availableOverlays(DEFAULT_TERRAIN).map((overlay) => (
+        <View key={overlay} style={styles.row}>
+          <Text style={[styles.name, styles.rowText]}>
+            {OVERLAYS[overlay].name}
+          </Text>
+          <Switch
+            value={canOverlay && overlays.includes(overlay)}
+            onValueChange={(on) => toggle(overlay, on)}
+            disabled={!canOverlay}
+          />
+        </View>
+      ))}
+      {!canOverlay && (
+        <Text style={styles.description}>
+          Terrain cannot be added to the {MAP_STYLES[styleId].name} style.
+        </Text>
+      )}
+
+      <Text style={styles.sectionTitle}>Offline</Text>
+      <View style={styles.row}>
+        <View style={styles.rowText}>
+          <Text style={styles.name}>Downloaded regions</Text>
+          <Text style={styles.description}>
+            Outline every offline pack to spot gaps in coverage.
+          </Text>
+        </View>
+        <Switch value={showCoverage} onValueChange={onShowCoverageChange} />
+      </View>
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderColor: "#ddd",
+  },
+  rowText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  description: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 2,
+  },
+  segments: {
+    flexDirection: "row",
+    marginTop: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#0366d6",
+    overflow: "hidden",
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: "center",
+  },
+  segmentSelected: {
+    backgroundColor: "#0366d6",
+  },
+  segmentText: {
+    fontSize: 14,
+    color: "#0366d6",
+  },
+  segmentTextSelected: {
+    color: "#fff",
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+    textTransform: "uppercase",
+    marginTop: 15,
+  },
+});
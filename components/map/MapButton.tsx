@@ -0,0 +1,81 @@
+import React from "react";
+import {
+  StyleProp,
+  StyleSheet,
+  TouchableOpacity,
+  ViewStyle,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { useThemeColor } from "@/hooks/useThemeColor";
+
+/**
+ * Round floating button over the map, coloured for the day or night theme.
+ * `active` fills it with the icon colour; `muted` greys it out without
+ * disabling it, e.g. when tapping asks for a missing permission.
+ */
+export function MapButton({
+  icon,
+  onPress,
+  disabled,
+  active,
+  muted,
+  iconColor,
+  style,
+  children,
+}: {
+  icon: React.ComponentProps<typeof Ionicons>["name"];
+  onPress: () => void;
+  disabled?: boolean;
+  active?: boolean;
+  muted?: boolean;
+  iconColor?: string;
+  style?: StyleProp<ViewStyle>;
+  /** Replaces the icon, e.g. with a spinner. */
+  children?: React.ReactNode;
+}) {
+  const background = useThemeColor({}, "mapControl");
+  const foreground = useThemeColor({}, "mapControlIcon");
+  const mutedBackground = useThemeColor({}, "mapControlDisabled");
+  const mutedForeground = useThemeColor({}, "mapControlDisabledIcon");
+
+  const color = active
+    ? background
+    : muted
+    ? mutedForeground
+    : iconColor ?? foreground;
+  return (
+    <TouchableOpacity
+      style={[
+        styles.button,
+        {
+          backgroundColor: active
+            ? foreground
+            : muted
+            ? mutedBackground
+            : background,
+        },
+        style,
+      ]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      {children ?? <Ionicons name={icon} size={24} color={color} />}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    borderRadius: 30,
+    width: 50,
+    height: 50,
+    justifyContent: "center",
+    alignItems: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+});
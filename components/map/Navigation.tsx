@@ -0,0 +1,163 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { LineLayer, ShapeSource } from "@maplibre/maplibre-react-native";
+
+import { NavigationProgress, NavigationRoute } from "@/lib/navigation";
+import { formatDistance, formatDuration } from "@/lib/tracks";
+
+const NAVIGATION_COLOR = "#0a7d3e";
+const OFF_ROUTE_COLOR = "#c0392b";
+
+/** The route being followed; render inside `MapView`. */
+export function NavigationRouteLayer({ route }: { route: NavigationRoute }) {
+  return (
+    <ShapeSource
+      id="navigation-route"
+      shape={{
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: route.points },
+        properties: {},
+      }}
+    >
+      <LineLayer
+        id="navigation-route-line"
+        style={{
+          lineColor: NAVIGATION_COLOR,
+          lineWidth: 6,
+          lineOpacity: 0.8,
+          lineCap: "round",
+          lineJoin: "round",
+        }}
+      />
+    </ShapeSource>
+  );
+}
+
+const clockTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+/** Distance left, next stop and arrival time above the map. */
+export function NavigationPanel({
+  route,
+  progress,
+  onStop,
+}: {
+  route: NavigationRoute;
+  progress: NavigationProgress | null;
+  onStop: () => void;
+}) {
+  return (
+    <View style={styles.panel}>
+      <View style={styles.header}>
+        <Text style={styles.name} numberOfLines={1}>
+          {route.name}
+        </Text>
+        <TouchableOpacity onPress={onStop}>
+          <Text style={styles.stop}>Stop</Text>
+        </TouchableOpacity>
+      </View>
+      {progress ? (
+        <>
+          <View style={styles.figures}>
+            <Figure
+              label="Remaining"
+              value={formatDistance(progress.remainingM)}
+            />
+            <Figure
+              label={progress.next.name}
+              value={formatDistance(progress.next.distanceM)}
+            />
+            <Figure
+              label={`ETA · ${formatDuration(progress.remainingMs)}`}
+              value={clockTime(progress.eta)}
+            />
+          </View>
+          {progress.offRoute && (
+            <Text style={styles.offRoute}>
+              Off route by {formatDistance(progress.position.offRouteM)}
+            </Text>
+          )}
+        </>
+      ) : (
+        <Text style={styles.waiting}>Waiting for your position…</Text>
+      )}
+    </View>
+  );
+}
+
+function Figure({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.figure}>
+      <Text style={styles.value}>{value}</Text>
+      <Text style={styles.label} numberOfLines={1}>
+        {label}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: "absolute",
+    top: 60,
+    left: 20,
+    right: 20,
+    backgroundColor: "rgba(255, 255, 255, 0.95)",
+    borderRadius: 12,
+    padding: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  name: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#222",
+  },
+  stop: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: OFF_ROUTE_COLOR,
+    paddingLeft: 12,
+  },
+  figures: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  figure: {
+    flex: 1,
+    alignItems: "center",
+  },
+  value: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: NAVIGATION_COLOR,
+  },
+  label: {
+    fontSize: 12,
+    color: "#666",
+  },
+  offRoute: {
+    marginTop: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    textAlign: "center",
+    color: "white",
+    fontWeight: "600",
+    backgroundColor: OFF_ROUTE_COLOR,
+    overflow: "hidden",
+  },
+  waiting: {
+    fontSize: 13,
+    color: "#444",
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,65 @@
+import React, { useMemo } from "react";
+import {
+  FillLayer,
+  LineLayer,
+  ShapeSource,
+} from "@maplibre/maplibre-react-native";
+
+import { boundsToPolygon } from "@/lib/geo/bounds";
+import { OfflineRegion } from "@/lib/offline";
+
+const COVERAGE_COLOR = "#2e7d32";
+const FOCUS_COLOR = "#0366d6";
+
+/**
+ * Outlines of downloaded packs; render inside `MapView`. Every pack is
+ * drawn when `showAll` is set, to reveal gaps in offline coverage, and the
+ * packs in `focusedIds` are always drawn and highlighted.
+ */
+export function OfflineRegionsLayer({
+  regions,
+  showAll,
+  focusedIds,
+}: {
+  regions: OfflineRegion[];
+  showAll: boolean;
+  focusedIds: string[];
+}) {
+  const shape = useMemo<GeoJSON.FeatureCollection>(
+    () => ({
+      type: "FeatureCollection",
+      features: regions
+        .filter(
+          (region) =>
+            region.bounds && (showAll || focusedIds.includes(region.id))
+        )
+        .map((region) => ({
+          type: "Feature",
+          id: region.id,
+          geometry: boundsToPolygon(region.bounds!),
+          properties: { focused: focusedIds.includes(region.id) },
+        })),
+    }),
+    [regions, showAll, focusedIds]
+  );
+
+  if (shape.features.length === 0) return null;
+  return (
+    <ShapeSource id="offline-regions" shape={shape}>
+      <FillLayer
+        id="offline-regions-fill"
+        style={{
+          fillColor: ["case", ["get", "focused"], FOCUS_COLOR, COVERAGE_COLOR],
+          fillOpacity: 0.12,
+        }}
+      />
+      <LineLayer
+        id="offline-regions-outline"
+        style={{
+          lineColor: ["case", ["get", "focused"], FOCUS_COLOR, COVERAGE_COLOR],
+          lineWidth: ["case", ["get", "focused"], 3, 1.5],
+        }}
+      />
+    </ShapeSource>
+  );
+}
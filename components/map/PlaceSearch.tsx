@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import {
+  FlatList,
+  Keyboard,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { usePlaceSearch } from "@/hooks/usePlaceSearch";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { PLACE_CLASS_LABELS, Place, PlaceResult } from "@/lib/search";
+
+const CLASS_ICONS: Record<Place["class"], keyof typeof Ionicons.glyphMap> = {
+  peak: "triangle",
+  saddle: "swap-horizontal",
+  hut: "home",
+  trailhead: "trail-sign",
+  town: "business",
+  village: "location",
+  water: "water",
+  spring: "water-outline",
+};
+
+function describe(place: PlaceResult) {
+  const label = PLACE_CLASS_LABELS[place.class];
+  return place.ele ? `${label} · ${Math.round(place.ele)} m` : label;
+}
+
+/**
+ * Search field over the map for places in downloaded regions. Works
+ * offline; picking a result hands it to `onSelect` and closes the list.
+ */
+export function PlaceSearch({
+  onSelect,
+  style,
+}: {
+  onSelect: (place: Place) => void;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const results = usePlaceSearch(query);
+  const backgroundColor = useThemeColor({}, "mapControl");
+  const textColor = useThemeColor({}, "mapOverlayText");
+  const iconColor = useThemeColor({}, "mapControlIcon");
+
+  const select = (place: PlaceResult) => {
+    Keyboard.dismiss();
+    setIsOpen(false);
+    setQuery(place.name);
+    onSelect(place);
+  };
+
+  const showList = isOpen && query.trim() !== "";
+
+  return (
+    <View style={style}>
+      <View style={[styles.field, { backgroundColor }]}>
+        <Ionicons name="search" size={18} color={iconColor} />
+        <TextInput
+          style={[styles.input, { color: textColor }]}
+          value={query}
+          onChangeText={(text) => {
+            setQuery(text);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          placeholder="Search peaks, huts and villages"
+          placeholderTextColor="#888"
+          autoCorrect={false}
+          returnKeyType="search"
+          onSubmitEditing={() => results[0] && select(results[0])}
+        />
+        {query !== "" && (
+          <TouchableOpacity
+            onPress={() => {
+              setQuery("");
+              setIsOpen(false);
+              Keyboard.dismiss();
+            }}
+          >
+            <Ionicons name="close-circle" size={18} color="#888" />
+          </TouchableOpacity>
+        )}
+      </View>
+      {showList && (
+        <View style={[styles.results, { backgroundColor }]}>
+          {results.length === 0 ? (
+            <Text style={styles.empty}>
+              No matching places in downloaded regions.
+            </Text>
+          ) : (
+            <FlatList
+              data={results}
+              keyboardShouldPersistTaps="handled"
+              keyExtractor={(place, index) =>
+                `${place.class}:${place.name}:${index}`
+              }
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={styles.result}
+                  onPress={() => select(item)}
+                >
+                  <Ionicons
+                    name={CLASS_ICONS[item.class]}
+                    size={18}
+                    color={iconColor}
+                  />
+                  <View style={styles.resultText}>
+                    <Text
+                      style={[styles.name, { color: textColor }]}
+                      numberOfLines={1}
+                    >
+                      {item.name}
+                    </Text>
+                    <Text style={styles.detail}>{describe(item)}</Text>
+                  </View>
+                </TouchableOpacity>
+              )}
+            />
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 25,
+    paddingHorizontal: 14,
+    height: 46,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    marginLeft: 8,
+  },
+  results: {
+    marginTop: 6,
+    borderRadius: 12,
+    maxHeight: 280,
+    overflow: "hidden",
+    elevation: 4,
+  },
+  empty: {
+    padding: 14,
+    fontSize: 14,
+    color: "#888",
+  },
+  result: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderColor: "#ccc",
+  },
+  resultText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  name: {
+    fontSize: 16,
+  },
+  detail: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 2,
+  },
+});
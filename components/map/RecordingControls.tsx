@@ -0,0 +1,90 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { MapButton } from "@/components/map/MapButton";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { Recording, Track, formatDistance } from "@/lib/tracks";
+
+const RECORD_COLOR = "#d6036b";
+
+/**
+ * Record button, and pause/resume and stop while a track is being recorded,
+ * with the distance so far. Tapping the distance shows the track's profile.
+ */
+export function RecordingControls({
+  recording,
+  track,
+  onStart,
+  onPause,
+  onResume,
+  onStop,
+  onShowProfile,
+}: {
+  recording: Recording | null;
+  track: Track | null;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  onShowProfile: () => void;
+}) {
+  const overlayColor = useThemeColor({}, "mapOverlay");
+
+  if (!recording) {
+    return (
+      <MapButton
+        icon="radio-button-on"
+        iconColor={RECORD_COLOR}
+        style={styles.button}
+        onPress={onStart}
+      />
+    );
+  }
+
+  const paused = recording.status === "paused";
+  return (
+    <View style={styles.bar}>
+      <MapButton
+        icon={paused ? "play" : "pause"}
+        iconColor={RECORD_COLOR}
+        style={styles.button}
+        onPress={paused ? onResume : onPause}
+      />
+      <MapButton
+        icon="stop"
+        iconColor={RECORD_COLOR}
+        style={styles.button}
+        onPress={onStop}
+      />
+      <TouchableOpacity
+        style={[styles.status, { backgroundColor: overlayColor }]}
+        onPress={onShowProfile}
+      >
+        <Text style={styles.statusText}>
+          {paused ? "Paused" : "Recording"} ·{" "}
+          {formatDistance(track?.distanceM ?? 0)}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  button: {
+    marginRight: 10,
+  },
+  status: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 15,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: "bold",
+    color: RECORD_COLOR,
+  },
+});
@@ -0,0 +1,217 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import {
+  FillLayer,
+  LineLayer,
+  PointAnnotation,
+  ShapeSource,
+} from "@maplibre/maplibre-react-native";
+
+import { LngLat } from "@/lib/geo/bounds";
+import {
+  Selection,
+  SelectionMode,
+  emptySelection,
+  isSelectionComplete,
+  moveSelectionHandle,
+  removeLastPoint,
+  selectionHandles,
+  selectionShape,
+} from "@/lib/geo/selection";
+
+const SELECTION_COLOR = "#0366d6";
+
+/** Outline and draggable handles; render inside the `MapView`. */
+export function RegionSelectionLayer({
+  selection,
+  onChange,
+}: {
+  selection: Selection;
+  onChange: (selection: Selection) => void;
+}) {
+  const shape = selectionShape(selection);
+
+  return (
+    <>
+      {shape && (
+        <ShapeSource
+          id="region-selection"
+          shape={{ type: "Feature", geometry: shape, properties: {} }}
+        >
+          <FillLayer
+            id="region-selection-fill"
+            style={{ fillColor: SELECTION_COLOR, fillOpacity: 0.15 }}
+          />
+          <LineLayer
+            id="region-selection-outline"
+            style={{
+              lineColor: SELECTION_COLOR,
+              lineWidth: 2,
+              lineDasharray: [2, 1],
+            }}
+          />
+        </ShapeSource>
+      )}
+      {selectionHandles(selection).map((handle, index) => (
+        <PointAnnotation
+          // Re-key on position so the native view follows programmatic moves.
+          key={`${index}-${handle.join(",")}`}
+          id={`region-selection-handle-${index}`}
+          coordinate={handle}
+          draggable
+          onDragEnd={(event) =>
+            onChange(
+              moveSelectionHandle(
+                selection,
+                index,
+                event.geometry.coordinates as LngLat
+              )
+            )
+          }
+        >
+          <View style={styles.handle} />
+        </PointAnnotation>
+      ))}
+    </>
+  );
+}
+
+const HINTS: Record<SelectionMode, string> = {
+  rectangle: "Tap two opposite corners, then drag the handles to adjust.",
+  polygon: "Tap each corner of the area. The download covers its outline.",
+};
+
+/** Mode switch and actions shown above the map while selecting. */
+export function RegionSelectionToolbar({
+  selection,
+  onChange,
+  onCancel,
+  onConfirm,
+}: {
+  selection: Selection;
+  onChange: (selection: Selection) => void;
+  onCancel: () => void;
+  onConfirm: () => void;
+}) {
+  const complete = isSelectionComplete(selection);
+
+  return (
+    <View style={styles.toolbar}>
+      <View style={styles.modes}>
+        {(["rectangle", "polygon"] as const).map((mode) => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.mode, selection.mode === mode && styles.modeActive]}
+            onPress={() => onChange(emptySelection(mode))}
+          >
+            <Text
+              style={[
+                styles.modeLabel,
+                selection.mode === mode && styles.modeLabelActive,
+              ]}
+            >
+              {mode === "rectangle" ? "Rectangle" : "Polygon"}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.hint}>{HINTS[selection.mode]}</Text>
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={onCancel}>
+          <Text style={styles.action}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => onChange(removeLastPoint(selection))}
+          disabled={selection.points.length === 0}
+        >
+          <Text
+            style={[
+              styles.action,
+              selection.points.length === 0 && styles.actionDisabled,
+            ]}
+          >
+            Undo
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onConfirm} disabled={!complete}>
+          <Text
+            style={[
+              styles.action,
+              styles.actionPrimary,
+              !complete && styles.actionDisabled,
+            ]}
+          >
+            Download area
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  handle: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: "white",
+    borderWidth: 3,
+    borderColor: SELECTION_COLOR,
+  },
+  toolbar: {
+    position: "absolute",
+    top: 60,
+    left: 20,
+    right: 20,
+    backgroundColor: "rgba(255, 255, 255, 0.95)",
+    borderRadius: 12,
+    padding: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  modes: {
+    flexDirection: "row",
+    alignSelf: "center",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: SELECTION_COLOR,
+    overflow: "hidden",
+  },
+  mode: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  modeActive: {
+    backgroundColor: SELECTION_COLOR,
+  },
+  modeLabel: {
+    color: SELECTION_COLOR,
+  },
+  modeLabelActive: {
+    color: "white",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#444",
+    textAlign: "center",
+    marginVertical: 8,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  action: {
+    fontSize: 16,
+    color: SELECTION_COLOR,
+    paddingVertical: 4,
+  },
+  actionPrimary: {
+    fontWeight: "bold",
+  },
+  actionDisabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,194 @@
+import React, { useMemo } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import {
+  CircleLayer,
+  LineLayer,
+  ShapeSource,
+  SymbolLayer,
+} from "@maplibre/maplibre-react-native";
+
+import { LngLat } from "@/lib/geo/bounds";
+import { PlannedRoute } from "@/lib/routing";
+import { formatDistance, formatDuration } from "@/lib/tracks";
+
+const PLAN_COLOR = "#e46c0a";
+
+/** The planned line and the numbered points; render inside `MapView`. */
+export function RoutePlannerLayer({
+  points,
+  route,
+}: {
+  points: LngLat[];
+  route: PlannedRoute | null;
+}) {
+  const shape = useMemo<GeoJSON.FeatureCollection>(
+    () => ({
+      type: "FeatureCollection",
+      features: points.map((point, i) => ({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: point },
+        properties: { label: String(i + 1) },
+      })),
+    }),
+    [points]
+  );
+
+  return (
+    <>
+      {route && (
+        <ShapeSource
+          id="route-plan"
+          shape={{
+            type: "Feature",
+            geometry: { type: "LineString", coordinates: route.points },
+            properties: {},
+          }}
+        >
+          <LineLayer
+            id="route-plan-line"
+            style={{
+              lineColor: PLAN_COLOR,
+              lineWidth: 4,
+              lineOpacity: 0.9,
+              lineCap: "round",
+              lineJoin: "round",
+            }}
+          />
+        </ShapeSource>
+      )}
+      <ShapeSource id="route-plan-points" shape={shape}>
+        <CircleLayer
+          id="route-plan-point"
+          style={{
+            circleRadius: 10,
+            circleColor: PLAN_COLOR,
+            circleStrokeColor: "white",
+            circleStrokeWidth: 2,
+          }}
+        />
+        <SymbolLayer
+          id="route-plan-point-label"
+          style={{
+            textField: ["get", "label"],
+            textSize: 12,
+            textColor: "white",
+            textAllowOverlap: true,
+            textIgnorePlacement: true,
+          }}
+        />
+      </ShapeSource>
+    </>
+  );
+}
+
+function summary(
+  points: LngLat[],
+  route: PlannedRoute | null,
+  error: string | null,
+  isPlanning: boolean
+) {
+  if (error) return error;
+  if (isPlanning) return "Planning…";
+  if (route) {
+    return `${formatDistance(route.distanceM)} · ${formatDuration(
+      route.durationMs
+    )}`;
+  }
+  return points.length === 0
+    ? "Tap the map where the route starts."
+    : "Tap the next point. The route follows trails in downloaded maps.";
+}
+
+/** Distance and time of the plan, with its actions, above the map. */
+export function RoutePlannerToolbar({
+  points,
+  route,
+  error,
+  isPlanning,
+  onUndo,
+  onCancel,
+  onSave,
+}: {
+  points: LngLat[];
+  route: PlannedRoute | null;
+  error: string | null;
+  isPlanning: boolean;
+  onUndo: () => void;
+  onCancel: () => void;
+  onSave: () => void;
+}) {
+  return (
+    <View style={styles.toolbar}>
+      <Text style={[styles.summary, error !== null && styles.error]}>
+        {summary(points, route, error, isPlanning)}
+      </Text>
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={onCancel}>
+          <Text style={styles.action}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onUndo} disabled={points.length === 0}>
+          <Text
+            style={[
+              styles.action,
+              points.length === 0 && styles.actionDisabled,
+            ]}
+          >
+            Undo
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onSave} disabled={!route}>
+          <Text
+            style={[
+              styles.action,
+              styles.actionPrimary,
+              !route && styles.actionDisabled,
+            ]}
+          >
+            Save route
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toolbar: {
+    position: "absolute",
+    top: 60,
+    left: 20,
+    right: 20,
+    backgroundColor: "rgba(255, 255, 255, 0.95)",
+    borderRadius: 12,
+    padding: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  summary: {
+    fontSize: 15,
+    color: "#222",
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  error: {
+    color: "#c0392b",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  action: {
+    fontSize: 16,
+    color: PLAN_COLOR,
+    paddingVertical: 4,
+  },
+  actionPrimary: {
+    fontWeight: "bold",
+  },
+  actionDisabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,46 @@
+import React from "react";
+import {
+  CircleLayer,
+  ShapeSource,
+  SymbolLayer,
+} from "@maplibre/maplibre-react-native";
+
+import { Place } from "@/lib/search";
+
+const RESULT_COLOR = "#d6036b";
+
+/** Marks the place picked from the search; render inside `MapView`. */
+export function SearchResultLayer({ place }: { place: Place }) {
+  return (
+    <ShapeSource
+      id="search-result"
+      shape={{
+        type: "Feature",
+        geometry: { type: "Point", coordinates: place.lngLat },
+        properties: { name: place.name },
+      }}
+    >
+      <CircleLayer
+        id="search-result-dot"
+        style={{
+          circleRadius: 8,
+          circleColor: RESULT_COLOR,
+          circleStrokeColor: "#ffffff",
+          circleStrokeWidth: 3,
+        }}
+      />
+      <SymbolLayer
+        id="search-result-label"
+        style={{
+          textField: ["get", "name"],
+          textSize: 14,
+          textOffset: [0, 1.4],
+          textAnchor: "top",
+          textColor: RESULT_COLOR,
+          textHaloColor: "#ffffff",
+          textHaloWidth: 2,
+        }}
+      />
+    </ShapeSource>
+  );
+}
@@ -0,0 +1,90 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import {
+  MapStyleDefinition,
+  MapStyleId,
+  OVERLAYS,
+  StyleCoverage,
+  getMapStyle,
+} from "@/lib/styles";
+
+/**
+ * Banner shown when the map is over downloaded regions that were saved for
+ * a different style, or without the active terrain overlays, so those will
+ * not load without a connection.
+ */
+export function StyleWarning({
+  coverage,
+  style,
+  onSwitch,
+  onHideOverlays,
+}: {
+  coverage: StyleCoverage;
+  style: MapStyleDefinition;
+  onSwitch: (id: MapStyleId) => void;
+  onHideOverlays: () => void;
+}) {
+  if (coverage.status === "cached" && coverage.missingOverlays.length > 0) {
+    const names = coverage.missingOverlays.map((id) => OVERLAYS[id].name);
+    return (
+      <View style={styles.banner}>
+        <Text style={styles.text}>
+          {names.join(" and ")} {names.length > 1 ? "were" : "was"} not
+          downloaded here and {names.length > 1 ? "need" : "needs"} a
+          connection.
+        </Text>
+        <TouchableOpacity onPress={onHideOverlays}>
+          <Text style={styles.action}>Hide</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+  if (coverage.status !== "missing") return null;
+
+  const cached = coverage.styleIds
+    .map(getMapStyle)
+    .find((s): s is MapStyleDefinition => s !== null);
+  const message = style.offline
+    ? `The offline map here was downloaded for another style. ${style.name} needs a connection.`
+    : `${style.name} is not available offline. It needs a connection.`;
+
+  return (
+    <View style={styles.banner}>
+      <Text style={styles.text}>{message}</Text>
+      {cached && (
+        <TouchableOpacity onPress={() => onSwitch(cached.id)}>
+          <Text style={styles.action}>Use {cached.name}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    position: "absolute",
+    // Below the search field.
+    top: 116,
+    left: 20,
+    right: 20,
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff4d6",
+    borderColor: "#e0b84c",
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    color: "#5c4400",
+  },
+  action: {
+    marginLeft: 10,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#0366d6",
+  },
+});
@@ -0,0 +1,41 @@
+import React, { useMemo } from "react";
+import { LineLayer, ShapeSource } from "@maplibre/maplibre-react-native";
+
+import { Track, trackSegments } from "@/lib/tracks";
+
+/** Draws a track, one line per segment; render inside `MapView`. */
+export function TrackLine({
+  id,
+  track,
+  color = "#d6036b",
+}: {
+  id: string;
+  track: Pick<Track, "points" | "segmentStarts">;
+  color?: string;
+}) {
+  const shape = useMemo<GeoJSON.Feature>(
+    () => ({
+      type: "Feature",
+      geometry: {
+        type: "MultiLineString",
+        coordinates: trackSegments(track).filter((line) => line.length > 1),
+      },
+      properties: {},
+    }),
+    [track]
+  );
+
+  return (
+    <ShapeSource id={id} shape={shape}>
+      <LineLayer
+        id={`${id}-line`}
+        style={{
+          lineColor: color,
+          lineWidth: 4,
+          lineCap: "round",
+          lineJoin: "round",
+        }}
+      />
+    </ShapeSource>
+  );
+}
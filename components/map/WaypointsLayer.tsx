@@ -0,0 +1,88 @@
+import React, { useMemo } from "react";
+import {
+  CircleLayer,
+  Images,
+  ShapeSource,
+  SymbolLayer,
+} from "@maplibre/maplibre-react-native";
+
+import { CATEGORY_ICONS } from "@/components/waypoints/icons";
+import {
+  CATEGORY_ORDER,
+  WAYPOINT_CATEGORIES,
+  Waypoint,
+  waypointFeatures,
+} from "@/lib/waypoints";
+
+const IMAGES = Object.fromEntries(
+  CATEGORY_ORDER.map((category) => [
+    `waypoint-${category}`,
+    CATEGORY_ICONS[category].mapImage,
+  ])
+);
+
+// The badge colour per category, as a match expression.
+const BADGE_COLOR = [
+  "match",
+  ["get", "category"],
+  ...CATEGORY_ORDER.flatMap((category) => [
+    category,
+    WAYPOINT_CATEGORIES[category].color,
+  ]),
+  WAYPOINT_CATEGORIES.other.color,
+] as const;
+
+/**
+ * The user's waypoints as coloured badges with the category icon; render
+ * inside `MapView`. Tapping one reports its id.
+ */
+export function WaypointsLayer({
+  waypoints,
+  onPressWaypoint,
+}: {
+  waypoints: Waypoint[];
+  onPressWaypoint?: (id: string) => void;
+}) {
+  const shape = useMemo(() => waypointFeatures(waypoints), [waypoints]);
+
+  return (
+    <>
+      <Images id="waypoint-icons" images={IMAGES} />
+      <ShapeSource
+        id="waypoints"
+        shape={shape}
+        onPress={(event) => {
+          const id = event.features[0]?.properties?.id;
+          if (id) onPressWaypoint?.(id);
+        }}
+      >
+        <CircleLayer
+          id="waypoints-badge"
+          style={{
+            circleRadius: 13,
+            circleColor: BADGE_COLOR,
+            circleStrokeColor: "#ffffff",
+            circleStrokeWidth: 2,
+            circlePitchAlignment: "map",
+          }}
+        />
+        <SymbolLayer
+          id="waypoints-icon"
+          style={{
+            iconImage: ["concat", "waypoint-", ["get", "category"]],
+            iconAllowOverlap: true,
+            iconIgnorePlacement: true,
+            textField: ["get", "name"],
+            textSize: 12,
+            textOffset: [0, 1.6],
+            textAnchor: "top",
+            textOptional: true,
+            textColor: "#333333",
+            textHaloColor: "#ffffff",
+            textHaloWidth: 1.5,
+          }}
+        />
+      </ShapeSource>
+    </>
+  );
+}
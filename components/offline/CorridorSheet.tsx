@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { BottomSheet } from "@/components/BottomSheet";
+import { ZoomStepper } from "@/components/offline/ZoomStepper";
+import { CorridorPlan, planCorridors } from "@/lib/geo/corridor";
+import { RouteLine } from "@/lib/formats/route";
+import {
+  TILE_COUNT_LIMIT,
+  ZoomRange,
+  formatBytes,
+  stepZoomRange,
+} from "@/lib/offline";
+
+const BUFFER_CHOICES_KM = [0.5, 1, 2, 5];
+
+type Props = {
+  /** The imported route; the sheet is hidden while this is null. */
+  route: RouteLine | null;
+  initialRange: ZoomRange;
+  /** Tiled sources each pack will download, e.g. 2 with a hillshade. */
+  sources?: number;
+  onCancel: () => void;
+  onConfirm: (plan: CorridorPlan, range: ZoomRange) => void;
+  /** Called whenever the boxes change, so the map can preview them. */
+  onPlanChange?: (plan: CorridorPlan | null) => void;
+};
+
+/**
+ * Chooses the corridor width and zoom range for a route download and shows
+ * how many packs, tiles and bytes the resulting corridor needs.
+ */
+export function CorridorSheet({
+  route,
+  initialRange,
+  sources = 1,
+  onCancel,
+  onConfirm,
+  onPlanChange,
+}: Props) {
+  const [bufferKm, setBufferKm] = useState(1);
+  const [range, setRange] = useState(initialRange);
+
+  useEffect(() => {
+    if (route) setRange(initialRange);
+  }, [route, initialRange]);
+
+  const plan = useMemo(
+    () =>
+      route && planCorridors(route.segments, { bufferKm, sources, ...range }),
+    [route, bufferKm, sources, range]
+  );
+
+  useEffect(() => {
+    onPlanChange?.(plan);
+  }, [plan, onPlanChange]);
+
+  const adjust = (key: keyof ZoomRange, delta: number) =>
+    setRange((prev) => stepZoomRange(prev, key, delta));
+
+  return (
+    <BottomSheet
+      visible={!!route}
+      title={route ? `Download along "${route.name}"?` : ""}
+      onClose={onCancel}
+      actions={[
+        { label: "Cancel", onPress: onCancel },
+        {
+          label: "Download",
+          primary: true,
+          disabled: !plan || plan.exceedsLimit,
+          onPress: () => plan && onConfirm(plan, range),
+        },
+      ]}
+    >
+      <Text style={styles.label}>Width on each side</Text>
+      <View style={styles.choices}>
+        {BUFFER_CHOICES_KM.map((km) => (
+          <TouchableOpacity
+            key={km}
+            style={[styles.choice, km === bufferKm && styles.choiceActive]}
+            onPress={() => setBufferKm(km)}
+          >
+            <Text
+              style={[
+                styles.choiceText,
+                km === bufferKm && styles.choiceTextActive,
+              ]}
+            >
+              {km} km
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ZoomStepper
+        label="Min zoom"
+        value={range.minZoom}
+        onChange={(delta) => adjust("minZoom", delta)}
+      />
+      <ZoomStepper
+        label="Max zoom"
+        value={range.maxZoom}
+        onChange={(delta) => adjust("maxZoom", delta)}
+      />
+
+      {plan && (
+        <>
+          <Text style={styles.summary}>
+            {plan.lengthKm.toFixed(1)} km route · {plan.boxes.length}{" "}
+            {plan.boxes.length === 1 ? "pack" : "packs"}
+          </Text>
+          <Text style={styles.summary}>
+            {plan.tiles.toLocaleString()} tiles · about{" "}
+            {formatBytes(plan.bytes)}
+          </Text>
+          {plan.exceedsLimit && (
+            <Text style={styles.error}>
+              Part of this corridor needs more than{" "}
+              {TILE_COUNT_LIMIT.toLocaleString()} tiles. Lower the max zoom or
+              the width.
+            </Text>
+          )}
+        </>
+      )}
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 16,
+    marginBottom: 6,
+  },
+  choices: {
+    flexDirection: "row",
+    marginBottom: 8,
+  },
+  choice: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#0366d6",
+    marginRight: 8,
+  },
+  choiceActive: {
+    backgroundColor: "#0366d6",
+  },
+  choiceText: {
+    color: "#0366d6",
+  },
+  choiceTextActive: {
+    color: "white",
+  },
+  summary: {
+    fontSize: 16,
+    fontWeight: "500",
+    marginTop: 8,
+  },
+  error: {
+    color: "#FF3B30",
+    marginTop: 8,
+  },
+});
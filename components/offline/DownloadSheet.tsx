@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { BottomSheet } from "@/components/BottomSheet";
+import { ZoomStepper } from "@/components/offline/ZoomStepper";
+import {
+  Bounds,
+  TILE_COUNT_LIMIT,
+  ZoomRange,
+  estimateDownload,
+  formatBytes,
+  stepZoomRange,
+} from "@/lib/offline";
+
+type Props = {
+  /** The region to download; the sheet is hidden while this is null. */
+  bounds: Bounds | null;
+  initialRange: ZoomRange;
+  /** Tiled sources the pack will download, e.g. 2 with a hillshade. */
+  sources?: number;
+  onCancel: () => void;
+  onConfirm: (range: ZoomRange) => void;
+};
+
+/**
+ * Confirmation step before `createPack`: shows how many tiles the chosen
+ * zoom range needs and refuses ranges MapLibre would reject.
+ */
+export function DownloadSheet({
+  bounds,
+  initialRange,
+  sources = 1,
+  onCancel,
+  onConfirm,
+}: Props) {
+  const [range, setRange] = useState(initialRange);
+
+  // Start from the suggested range every time the sheet is reopened.
+  useEffect(() => {
+    if (bounds) setRange(initialRange);
+  }, [bounds, initialRange]);
+
+  const estimate = useMemo(
+    () =>
+      bounds &&
+      estimateDownload(bounds, range.minZoom, range.maxZoom, { sources }),
+    [bounds, range, sources]
+  );
+
+  const adjust = (key: keyof ZoomRange, delta: number) =>
+    setRange((prev) => stepZoomRange(prev, key, delta));
+
+  return (
+    <BottomSheet
+      visible={!!bounds}
+      title="Download this region?"
+      onClose={onCancel}
+      actions={[
+        { label: "Cancel", onPress: onCancel },
+        {
+          label: "Download",
+          primary: true,
+          disabled: !estimate || estimate.exceedsLimit,
+          onPress: () => onConfirm(range),
+        },
+      ]}
+    >
+      <ZoomStepper
+        label="Min zoom"
+        value={range.minZoom}
+        onChange={(delta) => adjust("minZoom", delta)}
+      />
+      <ZoomStepper
+        label="Max zoom"
+        value={range.maxZoom}
+        onChange={(delta) => adjust("maxZoom", delta)}
+      />
+
+      {estimate && (
+        <>
+          <View style={styles.levels}>
+            {estimate.perZoom.map((level) => (
+              <Text key={level.zoom} style={styles.level}>
+                z{level.zoom}: {level.tiles.toLocaleString()}
+              </Text>
+            ))}
+          </View>
+          <Text style={styles.summary}>
+            {estimate.tiles.toLocaleString()} tiles · about{" "}
+            {formatBytes(estimate.bytes)}
+          </Text>
+          {estimate.exceedsLimit && (
+            <Text style={styles.error}>
+              MapLibre allows at most {TILE_COUNT_LIMIT.toLocaleString()} tiles
+              per region. Lower the max zoom or pick a smaller area.
+            </Text>
+          )}
+        </>
+      )}
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  levels: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 12,
+  },
+  level: {
+    fontSize: 12,
+    color: "#666",
+    marginRight: 12,
+    marginBottom: 4,
+  },
+  summary: {
+    fontSize: 16,
+    fontWeight: "500",
+    marginTop: 8,
+  },
+  error: {
+    color: "#FF3B30",
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,227 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { BottomSheet } from "@/components/BottomSheet";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { Download, downloadQueue } from "@/lib/offline";
+
+const PROGRESS_COLOR = "#0366d6";
+const ERROR_COLOR = "#FF3B30";
+
+function describe(download: Download) {
+  const percent = `${Math.round(download.percentage)}%`;
+  switch (download.status) {
+    case "active":
+      return `Downloading · ${percent}`;
+    case "queued":
+      return download.wifiOnly
+        ? "Waiting to start · Wi-Fi only"
+        : "Waiting to start";
+    case "paused":
+      return `Paused · ${percent}`;
+    case "retrying":
+      return `Connection lost · retrying at ${new Date(
+        download.retryAt ?? Date.now()
+      ).toLocaleTimeString()}`;
+    case "failed":
+      return `Failed: ${download.error}`;
+  }
+}
+
+// Runs a queue action, reporting failures the way the rest of the map does.
+function run(action: () => Promise<void>, what: string) {
+  action().catch((error: any) => {
+    console.error(`Error trying to ${what}:`, error);
+    Alert.alert("Error", `Could not ${what}. ${error.message}`);
+  });
+}
+
+function DownloadRow({ download }: { download: Download }) {
+  const { id, displayName, status, percentage } = download;
+  const canPause = status === "active" || status === "queued";
+
+  const confirmCancel = () =>
+    Alert.alert(
+      "Cancel Download?",
+      `The part of "${displayName}" downloaded so far will be deleted.`,
+      [
+        { text: "Keep", style: "cancel" },
+        {
+          text: "Cancel Download",
+          style: "destructive",
+          onPress: () =>
+            run(() => downloadQueue.cancel(id), "cancel the download"),
+        },
+      ]
+    );
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowText}>
+        <Text style={styles.name} numberOfLines={1}>
+          {displayName}
+        </Text>
+        <View style={styles.track}>
+          <View
+            style={[
+              styles.bar,
+              { width: `${Math.min(100, percentage)}%` },
+              status === "failed" && styles.barFailed,
+            ]}
+          />
+        </View>
+        <Text
+          style={[styles.status, status === "failed" && styles.statusFailed]}
+          numberOfLines={2}
+        >
+          {describe(download)}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() =>
+          canPause
+            ? run(() => downloadQueue.pause(id), "pause the download")
+            : run(() => downloadQueue.resume(id), "resume the download")
+        }
+      >
+        <Ionicons
+          name={canPause ? "pause" : status === "failed" ? "refresh" : "play"}
+          size={22}
+          color={PROGRESS_COLOR}
+        />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.iconButton} onPress={confirmCancel}>
+        <Ionicons name="close-circle" size={22} color={ERROR_COLOR} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+/**
+ * Overall progress of the download queue over the map; tapping it lists
+ * each pack with pause, resume and cancel. Hidden when nothing is queued.
+ */
+export function DownloadsPanel({
+  downloads,
+  style,
+}: {
+  downloads: Download[];
+  style?: StyleProp<ViewStyle>;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const overlayColor = useThemeColor({}, "mapOverlay");
+
+  if (downloads.length === 0) {
+    return null;
+  }
+
+  const percentage =
+    downloads.reduce((sum, download) => sum + download.percentage, 0) /
+    downloads.length;
+  const failed = downloads.some((download) => download.status === "failed");
+  const running = downloads.some(
+    (download) => download.status === "active" || download.status === "queued"
+  );
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.pill, { backgroundColor: overlayColor }, style]}
+        onPress={() => setIsOpen(true)}
+      >
+        <Ionicons
+          name={failed ? "warning" : running ? "cloud-download" : "pause"}
+          size={16}
+          color={failed ? ERROR_COLOR : PROGRESS_COLOR}
+        />
+        <Text style={styles.pillText}>
+          {Math.round(percentage)}%
+          {downloads.length > 1 && ` · ${downloads.length} packs`}
+        </Text>
+      </TouchableOpacity>
+
+      <BottomSheet
+        visible={isOpen}
+        title="Downloads"
+        onClose={() => setIsOpen(false)}
+        actions={[{ label: "Done", onPress: () => setIsOpen(false) }]}
+      >
+        <ScrollView style={styles.list}>
+          {downloads.map((download) => (
+            <DownloadRow key={download.id} download={download} />
+          ))}
+        </ScrollView>
+      </BottomSheet>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 15,
+  },
+  pillText: {
+    fontSize: 14,
+    fontWeight: "bold",
+    color: PROGRESS_COLOR,
+    marginLeft: 4,
+  },
+  list: {
+    maxHeight: 320,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderColor: "#ddd",
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "#e5e5e5",
+    marginTop: 6,
+    overflow: "hidden",
+  },
+  bar: {
+    height: 4,
+    backgroundColor: PROGRESS_COLOR,
+  },
+  barFailed: {
+    backgroundColor: ERROR_COLOR,
+  },
+  status: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 4,
+  },
+  statusFailed: {
+    color: ERROR_COLOR,
+  },
+  iconButton: {
+    padding: 6,
+  },
+});
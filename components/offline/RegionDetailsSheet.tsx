@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+} from "react-native";
+
+import { BottomSheet } from "@/components/BottomSheet";
+import { RegionEntry, parseTags } from "@/lib/offline";
+
+export type RegionEdit = {
+  displayName: string;
+  notes: string;
+  tags: string[];
+};
+
+type Props = {
+  /** The region being edited, or null when the sheet is closed. */
+  entry: RegionEntry | null;
+  /** Tags already used by other regions, offered as one-tap folders. */
+  knownTags: string[];
+  onClose: () => void;
+  onSave: (entry: RegionEntry, edit: RegionEdit) => void;
+};
+
+/** Name, notes and tags of one offline region. */
+export function RegionDetailsSheet({
+  entry,
+  knownTags,
+  onClose,
+  onSave,
+}: Props) {
+  const [displayName, setDisplayName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [tagText, setTagText] = useState("");
+
+  useEffect(() => {
+    if (entry) {
+      setDisplayName(entry.displayName);
+      setNotes(entry.notes);
+      setTagText(entry.tags.join(", "));
+    }
+  }, [entry]);
+
+  const tags = parseTags(tagText);
+  const suggestions = knownTags.filter((tag) => !tags.includes(tag));
+
+  return (
+    <BottomSheet
+      visible={entry !== null}
+      title="Edit Region"
+      onClose={onClose}
+      actions={[
+        { label: "Cancel", onPress: onClose },
+        {
+          label: "Save",
+          primary: true,
+          disabled: !displayName.trim(),
+          onPress: () => entry && onSave(entry, { displayName, notes, tags }),
+        },
+      ]}
+    >
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={displayName}
+        onChangeText={setDisplayName}
+        placeholder="Region name"
+        returnKeyType="done"
+      />
+      <Text style={styles.label}>Notes</Text>
+      <TextInput
+        style={[styles.input, styles.notes]}
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="Huts, water, parking…"
+        multiline
+      />
+      <Text style={styles.label}>Tags</Text>
+      <TextInput
+        style={styles.input}
+        value={tagText}
+        onChangeText={setTagText}
+        placeholder="Dolomites 2026 trip, via ferrata"
+        autoCapitalize="none"
+      />
+      {suggestions.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.suggestions}
+        >
+          {suggestions.map((tag) => (
+            <TouchableOpacity
+              key={tag}
+              style={styles.chip}
+              onPress={() => setTagText([...tags, tag].join(", "))}
+            >
+              <Text style={styles.chipText}>+ {tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  notes: {
+    minHeight: 72,
+    textAlignVertical: "top",
+  },
+  suggestions: {
+    marginTop: 8,
+    flexGrow: 0,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: "#e8f0fe",
+    marginRight: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#0366d6",
+  },
+});
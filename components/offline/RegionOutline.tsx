@@ -0,0 +1,42 @@
+import React, { useMemo } from "react";
+import { StyleSheet, View } from "react-native";
+
+import { Bounds } from "@/lib/geo/bounds";
+import { outlineRects } from "@/lib/geo/outline";
+
+const OUTLINE_COLOR = "#2e7d32";
+
+/**
+ * Small drawing of a region's packs, one rectangle per pack, so corridors
+ * show the shape of their route. Blank when the bounds are unknown.
+ */
+export function RegionOutline({
+  boxes,
+  size = 56,
+}: {
+  boxes: Bounds[];
+  size?: number;
+}) {
+  const rects = useMemo(() => outlineRects(boxes, size), [boxes, size]);
+  return (
+    <View style={[styles.frame, { width: size, height: size }]}>
+      {rects.map((rect, index) => (
+        <View key={index} style={[styles.box, rect]} />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  frame: {
+    borderRadius: 6,
+    backgroundColor: "#eef3ec",
+    overflow: "hidden",
+  },
+  box: {
+    position: "absolute",
+    borderWidth: 1.5,
+    borderColor: OUTLINE_COLOR,
+    backgroundColor: "rgba(46, 125, 50, 0.15)",
+  },
+});
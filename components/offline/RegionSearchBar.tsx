@@ -0,0 +1,151 @@
+import React from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { RegionFilter } from "@/lib/offline";
+
+type Props = {
+  filter: RegionFilter;
+  onFilterChange: (filter: RegionFilter) => void;
+  /** Every tag in use; each one acts as a folder. */
+  tags: string[];
+  isSelecting: boolean;
+  onSelectingChange: (isSelecting: boolean) => void;
+};
+
+/** Search field, tag folders and the toggle for selecting several regions. */
+export function RegionSearchBar({
+  filter,
+  onFilterChange,
+  tags,
+  isSelecting,
+  onSelectingChange,
+}: Props) {
+  const folders: { tag: string | null; label: string }[] = [
+    { tag: null, label: "All" },
+    ...tags.map((tag) => ({ tag, label: tag })),
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <View style={styles.search}>
+          <Ionicons name="search" size={16} color="#888" />
+          <TextInput
+            style={styles.input}
+            value={filter.query}
+            onChangeText={(query) => onFilterChange({ ...filter, query })}
+            placeholder="Search names, notes and tags"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+            returnKeyType="search"
+          />
+        </View>
+        <TouchableOpacity
+          style={styles.selectButton}
+          onPress={() => onSelectingChange(!isSelecting)}
+        >
+          <Text style={styles.selectLabel}>
+            {isSelecting ? "Done" : "Select"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {tags.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.folders}
+        >
+          {folders.map(({ tag, label }) => {
+            const active = tag === filter.tag;
+            return (
+              <TouchableOpacity
+                key={label}
+                style={[styles.folder, active && styles.folderActive]}
+                onPress={() => onFilterChange({ ...filter, tag })}
+              >
+                {tag !== null && (
+                  <Ionicons
+                    name={active ? "folder-open" : "folder"}
+                    size={13}
+                    color={active ? "#ffffff" : "#007AFF"}
+                  />
+                )}
+                <Text style={[styles.folderLabel, active && styles.activeText]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginBottom: 10,
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  search: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#eee",
+    paddingHorizontal: 10,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 8,
+    marginLeft: 6,
+  },
+  selectButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  selectLabel: {
+    fontSize: 15,
+    color: "#007AFF",
+  },
+  folders: {
+    marginTop: 8,
+    flexGrow: 0,
+  },
+  folder: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#007AFF",
+    marginRight: 6,
+  },
+  folderActive: {
+    backgroundColor: "#007AFF",
+  },
+  folderLabel: {
+    fontSize: 13,
+    color: "#007AFF",
+    marginLeft: 4,
+  },
+  activeText: {
+    color: "#ffffff",
+  },
+});
@@ -0,0 +1,169 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import {
+  MAX_AGE_OPTIONS,
+  RegionSort,
+  StalenessPolicy,
+  StorageUsage,
+  formatBytes,
+} from "@/lib/offline";
+
+const SORT_OPTIONS: { value: RegionSort; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "largest", label: "Largest" },
+  { value: "name", label: "Name" },
+];
+
+type Props = {
+  usage: StorageUsage;
+  sort: RegionSort;
+  onSortChange: (sort: RegionSort) => void;
+  policy: StalenessPolicy;
+  onPolicyChange: (policy: StalenessPolicy) => void;
+  /** Regions older than the policy allows. */
+  staleCount: number;
+  onUpdateStale: () => void;
+};
+
+/**
+ * Total storage used by offline regions, the list's sort selector, and how
+ * old a region may get before it is flagged for an update.
+ */
+export function StorageHeader({
+  usage,
+  sort,
+  onSortChange,
+  policy,
+  onPolicyChange,
+  staleCount,
+  onUpdateStale,
+}: Props) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Downloaded Offline Regions</Text>
+      <Text style={styles.total}>{formatBytes(usage.bytes)} on this phone</Text>
+      <Text style={styles.detail}>
+        {usage.regions} {usage.regions === 1 ? "region" : "regions"} ·{" "}
+        {usage.tiles.toLocaleString()} tiles
+        {usage.unknown > 0 ? ` · ${usage.unknown} not measured` : ""}
+      </Text>
+      <View style={styles.sortRow}>
+        {SORT_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.sortOption,
+              option.value === sort && styles.sortOptionActive,
+            ]}
+            onPress={() => onSortChange(option.value)}
+          >
+            <Text
+              style={[
+                styles.sortLabel,
+                option.value === sort && styles.sortLabelActive,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={[styles.detail, styles.ageLabel]}>
+        Flag regions not updated for
+      </Text>
+      <View style={[styles.sortRow, styles.ageRow]}>
+        {MAX_AGE_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.days}
+            style={[
+              styles.sortOption,
+              option.days === policy.maxAgeDays && styles.sortOptionActive,
+            ]}
+            onPress={() => onPolicyChange({ maxAgeDays: option.days })}
+          >
+            <Text
+              style={[
+                styles.sortLabel,
+                option.days === policy.maxAgeDays && styles.sortLabelActive,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {staleCount > 0 && (
+        <TouchableOpacity style={styles.updateButton} onPress={onUpdateStale}>
+          <Text style={styles.updateLabel}>
+            Update {staleCount} out-of-date{" "}
+            {staleCount === 1 ? "region" : "regions"} over Wi-Fi
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 20,
+    marginHorizontal: 20,
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  total: {
+    fontSize: 16,
+    fontWeight: "500",
+    marginTop: 8,
+  },
+  detail: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 2,
+  },
+  sortRow: {
+    flexDirection: "row",
+    marginTop: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#007AFF",
+    overflow: "hidden",
+  },
+  sortOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  sortOptionActive: {
+    backgroundColor: "#007AFF",
+  },
+  sortLabel: {
+    fontSize: 13,
+    color: "#007AFF",
+  },
+  sortLabelActive: {
+    color: "#ffffff",
+  },
+  ageLabel: {
+    marginTop: 12,
+  },
+  ageRow: {
+    marginTop: 4,
+  },
+  updateButton: {
+    marginTop: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: "#B45309",
+  },
+  updateLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#ffffff",
+  },
+});
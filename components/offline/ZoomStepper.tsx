@@ -0,0 +1,45 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+/** Labelled −/+ control; reports the requested change, not the new value. */
+export function ZoomStepper({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number | string;
+  onChange: (delta: number) => void;
+}) {
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.label}>{label}</Text>
+      <TouchableOpacity onPress={() => onChange(-1)} hitSlop={8}>
+        <Ionicons name="remove-circle-outline" size={28} color="#0366d6" />
+      </TouchableOpacity>
+      <Text style={styles.value}>{value}</Text>
+      <TouchableOpacity onPress={() => onChange(1)} hitSlop={8}>
+        <Ionicons name="add-circle-outline" size={28} color="#0366d6" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginVertical: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 16,
+  },
+  value: {
+    minWidth: 40,
+    textAlign: "center",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
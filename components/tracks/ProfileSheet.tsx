@@ -0,0 +1,152 @@
+import React, { useMemo } from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import { BottomSheet } from "@/components/BottomSheet";
+import {
+  ElevationProfile,
+  ProfilePoint,
+  elevationProfile,
+  resampleProfile,
+} from "@/lib/geo/profile";
+import { formatDistance, formatDuration } from "@/lib/tracks";
+
+const BAR_COUNT = 60;
+const CHART_HEIGHT = 120;
+
+export type ProfileTarget = {
+  title: string;
+  segments: ProfilePoint[][];
+};
+
+function ProfileChart({ profile }: { profile: ElevationProfile }) {
+  const bars = useMemo(
+    () => resampleProfile(profile.samples, BAR_COUNT),
+    [profile]
+  );
+  if (bars.length === 0) {
+    return <Text style={styles.noData}>This line has no elevation data.</Text>;
+  }
+
+  // Leave some ground under the lowest point so flat stretches stay visible.
+  const range = Math.max(profile.maxAlt! - profile.minAlt!, 50);
+  const floor = profile.minAlt! - range * 0.1;
+  return (
+    <View>
+      <View style={styles.chart}>
+        {bars.map((bar, i) => (
+          <View
+            key={i}
+            style={[
+              styles.bar,
+              { height: ((bar.alt - floor) / (range * 1.1)) * CHART_HEIGHT },
+            ]}
+          />
+        ))}
+      </View>
+      <View style={styles.axis}>
+        <Text style={styles.axisText}>0</Text>
+        <Text style={styles.axisText}>{formatDistance(profile.distanceM)}</Text>
+      </View>
+    </View>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.stat}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+}
+
+const metres = (value: number | null) =>
+  value === null ? "–" : `${Math.round(value)} m`;
+
+/** Elevation chart and hiking statistics for a track or route. */
+export function ProfileSheet({
+  target,
+  onClose,
+}: {
+  target: ProfileTarget | null;
+  onClose: () => void;
+}) {
+  const profile = useMemo(
+    () => target && elevationProfile(target.segments),
+    [target]
+  );
+
+  return (
+    <BottomSheet
+      visible={!!target}
+      title={target?.title ?? ""}
+      onClose={onClose}
+      actions={[{ label: "Close", onPress: onClose }]}
+    >
+      {profile && (
+        <>
+          <ProfileChart profile={profile} />
+          <View style={styles.stats}>
+            <Stat label="Distance" value={formatDistance(profile.distanceM)} />
+            <Stat label="Ascent" value={metres(profile.ascentM)} />
+            <Stat label="Descent" value={metres(profile.descentM)} />
+          </View>
+          <View style={styles.stats}>
+            <Stat label="Lowest" value={metres(profile.minAlt)} />
+            <Stat label="Highest" value={metres(profile.maxAlt)} />
+            <Stat
+              label="Naismith / Tobler"
+              value={`${formatDuration(profile.naismithMs)} / ${formatDuration(
+                profile.toblerMs
+              )}`}
+            />
+          </View>
+        </>
+      )}
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: "row",
+    alignItems: "flex-end",
+    borderBottomWidth: 1,
+    borderColor: "#ccc",
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 0.5,
+    backgroundColor: "#7b3fe4",
+    opacity: 0.7,
+  },
+  axis: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  axisText: {
+    fontSize: 12,
+    color: "#888",
+  },
+  noData: {
+    color: "#888",
+    marginVertical: 20,
+  },
+  stats: {
+    flexDirection: "row",
+    marginTop: 12,
+  },
+  stat: {
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  statLabel: {
+    fontSize: 12,
+    color: "#888",
+  },
+});
@@ -11,8 +11,17 @@ const MAPPING = {
   // See SF Symbols in the SF Symbols app on Mac.
   "house.fill": "map",
   "paperplane.fill": "download",
+  "figure.walk": "walk",
   "chevron.left.forwardslash.chevron.right": "code",
   "chevron.right": "chevron-forward",
+  // Waypoint categories.
+  "drop.fill": "water",
+  "tent.fill": "bonfire",
+  "exclamationmark.triangle.fill": "warning",
+  "binoculars.fill": "eye",
+  "house.lodge.fill": "home",
+  "parkingsign.circle.fill": "car",
+  mappin: "location",
 } as Partial<
   Record<
     import("expo-symbols").SymbolViewProps["name"],
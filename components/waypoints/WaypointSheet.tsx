@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { BottomSheet } from "@/components/BottomSheet";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { formatLngLat } from "@/lib/geo/coordinates";
+import {
+  CATEGORY_ORDER,
+  GpsFix,
+  PhotoSource,
+  WAYPOINT_CATEGORIES,
+  WaypointInput,
+  discardWaypointPhoto,
+  pickWaypointPhoto,
+} from "@/lib/waypoints";
+
+import { CATEGORY_ICONS } from "./icons";
+
+/** A waypoint being edited: a saved one has an id, a new one does not. */
+export type WaypointDraft = WaypointInput & { id?: string };
+
+type Props = {
+  /** The waypoint being edited, or null when the sheet is closed. */
+  draft: WaypointDraft | null;
+  onClose: () => void;
+  onSave: (draft: WaypointDraft) => void;
+  onDelete: (id: string) => void;
+  /** Reads the current GPS position; null when it is unavailable. */
+  onLocate: () => Promise<GpsFix | null>;
+};
+
+/** Category, note, photo and position of a waypoint. */
+export function WaypointSheet({
+  draft,
+  onClose,
+  onSave,
+  onDelete,
+  onLocate,
+}: Props) {
+  const [edit, setEdit] = useState<WaypointDraft | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  useEffect(() => {
+    setEdit(draft);
+  }, [draft]);
+
+  // Photos taken while editing are dropped unless the edit is saved.
+  const discardPhoto = (uri: string | null) => {
+    if (uri && uri !== draft?.photoUri) {
+      discardWaypointPhoto(uri).catch((error) =>
+        console.warn("Could not delete discarded photo:", error)
+      );
+    }
+  };
+
+  const close = () => {
+    discardPhoto(edit?.photoUri ?? null);
+    onClose();
+  };
+
+  const change = (patch: Partial<WaypointDraft>) => {
+    setEdit((previous) => previous && { ...previous, ...patch });
+  };
+
+  const addPhoto = async (source: PhotoSource) => {
+    try {
+      const uri = await pickWaypointPhoto(source);
+      if (!uri) return;
+      discardPhoto(edit?.photoUri ?? null);
+      change({ photoUri: uri });
+    } catch (error: any) {
+      console.error("Error adding waypoint photo:", error);
+      Alert.alert("Error", `Could not add the photo. ${error.message}`);
+    }
+  };
+
+  const choosePhoto = () => {
+    Alert.alert("Add Photo", undefined, [
+      { text: "Take Photo", onPress: () => addPhoto("camera") },
+      { text: "Choose from Library", onPress: () => addPhoto("library") },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const locate = async () => {
+    setIsLocating(true);
+    try {
+      const fix = await onLocate();
+      if (fix) change(fix);
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const position = edit && formatLngLat([edit.lng, edit.lat]);
+
+  return (
+    <BottomSheet
+      visible={draft !== null}
+      title={draft?.id ? "Edit Waypoint" : "New Waypoint"}
+      onClose={close}
+      actions={[
+        ...(draft?.id
+          ? [{ label: "Delete", onPress: () => onDelete(draft.id!) }]
+          : []),
+        { label: "Cancel", onPress: close },
+        {
+          label: "Save",
+          primary: true,
+          onPress: () => edit && onSave(edit),
+        },
+      ]}
+    >
+      {edit && (
+        <ScrollView style={styles.content}>
+          <Text style={styles.label}>Category</Text>
+          <View style={styles.categories}>
+            {CATEGORY_ORDER.map((category) => {
+              const { label, color } = WAYPOINT_CATEGORIES[category];
+              const selected = edit.category === category;
+              return (
+                <TouchableOpacity
+                  key={category}
+                  style={[
+                    styles.category,
+                    selected && { backgroundColor: color, borderColor: color },
+                  ]}
+                  onPress={() => change({ category })}
+                >
+                  <IconSymbol
+                    name={CATEGORY_ICONS[category].symbol}
+                    size={16}
+                    color={selected ? "#ffffff" : color}
+                  />
+                  <Text
+                    style={[
+                      styles.categoryText,
+                      selected && styles.categoryTextSelected,
+                    ]}
+                  >
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={styles.input}
+            value={edit.name}
+            onChangeText={(name) => change({ name })}
+            placeholder={WAYPOINT_CATEGORIES[edit.category].label}
+            returnKeyType="done"
+          />
+          <Text style={styles.label}>Note</Text>
+          <TextInput
+            style={[styles.input, styles.note]}
+            value={edit.note}
+            onChangeText={(note) => change({ note })}
+            placeholder="Flow, access, what to watch out for…"
+            multiline
+          />
+          <Text style={styles.label}>Photo</Text>
+          {edit.photoUri ? (
+            <View>
+              <Image source={{ uri: edit.photoUri }} style={styles.photo} />
+              <View style={styles.row}>
+                <TouchableOpacity onPress={choosePhoto}>
+                  <Text style={styles.link}>Replace</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => {
+                    discardPhoto(edit.photoUri);
+                    change({ photoUri: null });
+                  }}
+                >
+                  <Text style={[styles.link, styles.remove]}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity onPress={choosePhoto}>
+              <Text style={styles.link}>Add Photo</Text>
+            </TouchableOpacity>
+          )}
+          <Text style={styles.label}>Position</Text>
+          <Text style={styles.position}>
+            {position}
+            {edit.alt !== null && ` · ${Math.round(edit.alt)} m`}
+          </Text>
+          <TouchableOpacity onPress={locate} disabled={isLocating}>
+            <Text style={[styles.link, isLocating && styles.linkDisabled]}>
+              {isLocating ? "Locating…" : "Use My Location"}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    maxHeight: 460,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    marginTop: 10,
+    marginBottom: 4,
+  },
+  categories: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  category: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  categoryText: {
+    fontSize: 13,
+    color: "#333",
+    marginLeft: 4,
+  },
+  categoryTextSelected: {
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  note: {
+    minHeight: 72,
+    textAlignVertical: "top",
+  },
+  photo: {
+    width: "100%",
+    height: 160,
+    borderRadius: 8,
+    backgroundColor: "#eee",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  link: {
+    fontSize: 15,
+    color: "#0366d6",
+    paddingVertical: 6,
+  },
+  linkDisabled: {
+    color: "#999",
+  },
+  remove: {
+    color: "#FF3B30",
+  },
+  position: {
+    fontSize: 15,
+    color: "#333",
+  },
+});
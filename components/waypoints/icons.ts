@@ -0,0 +1,43 @@
+import { ImageSourcePropType } from "react-native";
+
+import { IconSymbolName } from "@/components/ui/IconSymbol";
+import { WaypointCategory } from "@/lib/waypoints";
+
+/**
+ * Icons of each waypoint category: an SF Symbol (Ionicons off iOS, through
+ * `IconSymbol`) for lists, and the same Ionicons glyph as a white image for
+ * the map, kept in assets/images/map-icons.
+ */
+export const CATEGORY_ICONS: Record<
+  WaypointCategory,
+  { symbol: IconSymbolName; mapImage: ImageSourcePropType }
+> = {
+  water: {
+    symbol: "drop.fill",
+    mapImage: require("@/assets/images/map-icons/water.png"),
+  },
+  campsite: {
+    symbol: "tent.fill",
+    mapImage: require("@/assets/images/map-icons/bonfire.png"),
+  },
+  hazard: {
+    symbol: "exclamationmark.triangle.fill",
+    mapImage: require("@/assets/images/map-icons/warning.png"),
+  },
+  viewpoint: {
+    symbol: "binoculars.fill",
+    mapImage: require("@/assets/images/map-icons/eye.png"),
+  },
+  shelter: {
+    symbol: "house.lodge.fill",
+    mapImage: require("@/assets/images/map-icons/home.png"),
+  },
+  parking: {
+    symbol: "parkingsign.circle.fill",
+    mapImage: require("@/assets/images/map-icons/car.png"),
+  },
+  other: {
+    symbol: "mappin",
+    mapImage: require("@/assets/images/map-icons/location.png"),
+  },
+};
@@ -14,6 +14,12 @@ export const Colors = {
     icon: '#687076',
     tabIconDefault: '#687076',
     tabIconSelected: tintColorLight,
+    mapControl: '#fff',
+    mapControlIcon: '#0366d6',
+    mapControlDisabled: '#f0f0f0',
+    mapControlDisabledIcon: '#aaaaaa',
+    mapOverlay: 'rgba(255, 255, 255, 0.8)',
+    mapOverlayText: '#333',
   },
   dark: {
     text: '#ECEDEE',
@@ -22,5 +28,11 @@ export const Colors = {
     icon: '#9BA1A6',
     tabIconDefault: '#9BA1A6',
     tabIconSelected: tintColorDark,
+    mapControl: '#1f2123',
+    mapControlIcon: '#6cb6ff',
+    mapControlDisabled: '#2a2c2e',
+    mapControlDisabledIcon: '#5f6368',
+    mapOverlay: 'rgba(31, 33, 35, 0.85)',
+    mapOverlayText: '#ECEDEE',
   },
 };
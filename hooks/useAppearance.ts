@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from "react";
+
+import {
+  AppearancePreference,
+  appearanceEvents,
+  loadAppearance,
+  setAppearance,
+} from "@/lib/appearance";
+
+/** The stored day/night preference and a setter that applies it. */
+export function useAppearance() {
+  const [preference, setPreference] = useState<AppearancePreference>("system");
+
+  useEffect(() => {
+    loadAppearance()
+      .then(setPreference)
+      .catch((e) => console.error("Error loading appearance:", e));
+    return appearanceEvents.on("change", setPreference);
+  }, []);
+
+  const update = useCallback((next: AppearancePreference) => {
+    setAppearance(next).catch((e) =>
+      console.error("Error saving appearance:", e)
+    );
+  }, []);
+
+  return [preference, update] as const;
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+
+import { Download, downloadQueue } from "@/lib/offline";
+
+/**
+ * The queued, running and failed map downloads. Mounting it restores the
+ * queue, which resumes packs left incomplete by the previous session.
+ */
+export function useDownloadQueue() {
+  const [downloads, setDownloads] = useState<Download[]>(() =>
+    downloadQueue.list()
+  );
+
+  useEffect(() => {
+    downloadQueue
+      .restore()
+      .catch((e) => console.error("Error restoring downloads:", e));
+    return downloadQueue.events.on("change", setDownloads);
+  }, []);
+
+  return downloads;
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { GeoDocument } from "@/lib/formats";
+import { RouteSummary, routeLibrary } from "@/lib/routes";
+
+/**
+ * Imported routes, plus the parsed documents of the visible ones for the
+ * map overlay. Reloads whenever the library changes.
+ */
+export function useImportedRoutes() {
+  const [routes, setRoutes] = useState<RouteSummary[]>([]);
+  const [overlays, setOverlays] = useState<
+    { id: string; document: GeoDocument }[]
+  >([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const all = await routeLibrary.list();
+      const visible = await Promise.all(
+        all
+          .filter((route) => route.visible)
+          .map(async (route) => ({
+            id: route.id,
+            document: await routeLibrary.get(route.id),
+          }))
+      );
+      setRoutes(all);
+      setOverlays(
+        visible.filter(
+          (o): o is { id: string; document: GeoDocument } => !!o.document
+        )
+      );
+    } catch (e) {
+      console.error("Error loading imported routes:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return routeLibrary.events.on("change", refresh);
+  }, [refresh]);
+
+  return { routes, overlays, refresh };
+}
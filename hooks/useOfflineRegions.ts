@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { OfflineRegion, offlineRegions } from "@/lib/offline";
+
+/**
+ * Loads the offline regions and keeps the list in sync with the service's
+ * change events. `refresh(true)` reports through `isRefreshing` so it can
+ * drive a pull-to-refresh control.
+ */
+export function useOfflineRegions() {
+  const [regions, setRegions] = useState<OfflineRegion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async (refreshing = false) => {
+    if (refreshing) {
+      setIsRefreshing(true);
+    } else {
+      setIsLoading(true);
+    }
+    try {
+      setRegions(await offlineRegions.list());
+      setError(null);
+    } catch (e: any) {
+      console.error("Error fetching offline regions:", e);
+      setError(e);
+      setRegions([]);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  // Reload quietly when something else (a download, a rename) changes packs.
+  useEffect(
+    () =>
+      offlineRegions.events.on("change", () => {
+        offlineRegions
+          .list()
+          .then(setRegions)
+          .catch((e) => console.error("Error reloading offline regions:", e));
+      }),
+    []
+  );
+
+  return { regions, isLoading, isRefreshing, error, refresh };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+
+import { PlaceResult, placeIndex } from "@/lib/search";
+
+/**
+ * Places in downloaded packs matching `query`, rerun whenever a pack is
+ * indexed or deleted. Mounting it indexes packs downloaded before the
+ * search existed.
+ */
+export function usePlaceSearch(query: string) {
+  const [results, setResults] = useState<PlaceResult[]>([]);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    placeIndex
+      .restore()
+      .catch((e) => console.error("Error indexing offline places:", e));
+    return placeIndex.events.on("change", () => setVersion((v) => v + 1));
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    placeIndex
+      .search(query)
+      .then((found) => !cancelled && setResults(found))
+      .catch((e) => console.error("Error searching places:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [query, version]);
+
+  return results;
+}
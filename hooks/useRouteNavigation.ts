@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from "react";
+import * as Location from "expo-location";
+
+import { GeoDocument } from "@/lib/formats";
+import {
+  NavigationProgress,
+  NavigationRoute,
+  announce,
+  navigationRoute,
+  routeNavigator,
+} from "@/lib/navigation";
+import { routePlanner } from "@/lib/routing";
+
+/**
+ * Live navigation along a route: watches the location while a route is
+ * followed, and buzzes and speaks the navigator's alerts.
+ */
+export function useRouteNavigation() {
+  const [route, setRoute] = useState<NavigationRoute | null>(
+    routeNavigator.route
+  );
+  const [progress, setProgress] = useState<NavigationProgress | null>(
+    routeNavigator.current
+  );
+
+  useEffect(() => {
+    const subscriptions = [
+      routeNavigator.events.on("state", (state) => {
+        setRoute(state);
+        setProgress(null);
+      }),
+      routeNavigator.events.on("progress", setProgress),
+      routeNavigator.events.on("alert", announce),
+    ];
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
+  useEffect(() => {
+    if (!route) return;
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+    Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.BestForNavigation,
+        distanceInterval: 5,
+      },
+      ({ coords, timestamp }) =>
+        routeNavigator.locate({
+          lng: coords.longitude,
+          lat: coords.latitude,
+          alt: coords.altitude,
+          accuracy: coords.accuracy,
+          time: timestamp,
+        })
+    )
+      .then((watch) => {
+        if (cancelled) watch.remove();
+        else subscription = watch;
+      })
+      .catch((e) => console.error("Error watching location:", e));
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [route]);
+
+  /** Starts following a document's lines; throws without a line. */
+  const start = useCallback((document: GeoDocument, name: string) => {
+    const planned = navigationRoute(document, name);
+    routeNavigator.start(planned);
+    // Junctions come from the trails in downloaded maps, when there are any.
+    routePlanner
+      .junctionsAround(planned.points)
+      .then((junctions) => {
+        if (routeNavigator.route?.points === planned.points) {
+          routeNavigator.setJunctions(junctions);
+        }
+      })
+      .catch((e) => console.warn("No junction alerts for this route:", e));
+  }, []);
+
+  const stop = useCallback(() => routeNavigator.stop(), []);
+
+  return { route, progress, start, stop };
+}
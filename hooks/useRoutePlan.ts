@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+
+import { LngLat } from "@/lib/geo/bounds";
+import { PlannedRoute, RoutingError, routePlanner } from "@/lib/routing";
+
+/**
+ * The route through `points` along the trails of downloaded maps,
+ * replanned whenever the points change. Plans still running when the
+ * points change again are ignored.
+ */
+export function useRoutePlan(points: LngLat[]) {
+  const [route, setRoute] = useState<PlannedRoute | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+
+  useEffect(() => {
+    setRoute(null);
+    setError(null);
+    if (points.length < 2) {
+      setIsPlanning(false);
+      return;
+    }
+    let cancelled = false;
+    setIsPlanning(true);
+    routePlanner
+      .plan(points)
+      .then((planned) => !cancelled && setRoute(planned))
+      .catch((e) => {
+        if (cancelled) return;
+        if (e instanceof RoutingError) {
+          setError(e.message);
+        } else {
+          console.error("Error planning route:", e);
+          setError(`Could not plan the route. ${e.message}`);
+        }
+      })
+      .finally(() => !cancelled && setIsPlanning(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [points]);
+
+  return { route, error, isPlanning };
+}
@@ -0,0 +1,29 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useCallback, useEffect, useState } from "react";
+
+import {
+  DEFAULT_STALENESS,
+  StalenessPolicy,
+  readStalenessPolicy,
+  writeStalenessPolicy,
+} from "@/lib/offline";
+
+/** How old a pack may get before the regions list flags it. */
+export function useStalenessPolicy() {
+  const [policy, setPolicy] = useState<StalenessPolicy>(DEFAULT_STALENESS);
+
+  useEffect(() => {
+    readStalenessPolicy(AsyncStorage)
+      .then(setPolicy)
+      .catch((e) => console.error("Error loading staleness policy:", e));
+  }, []);
+
+  const update = useCallback((next: StalenessPolicy) => {
+    setPolicy(next);
+    writeStalenessPolicy(AsyncStorage, next).catch((e) =>
+      console.error("Error saving staleness policy:", e)
+    );
+  }, []);
+
+  return [policy, update] as const;
+}
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from "react";
+import { AppState } from "react-native";
+
+import {
+  Recording,
+  Track,
+  TrackSummary,
+  requestTrackingPermissions,
+  trackRecorder,
+} from "@/lib/tracks";
+
+/**
+ * State of the track recorder plus the live track, for drawing it while it
+ * is recorded. Points stored while the UI was in the background are picked
+ * up when the app becomes active again.
+ */
+export function useTrackRecording() {
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [track, setTrack] = useState<Track | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const current = await trackRecorder.restore();
+      setRecording(current);
+      setTrack(current && (await trackRecorder.tracks.get(current.trackId)));
+    } catch (e) {
+      console.error("Error loading the current recording:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    const subscriptions = [
+      trackRecorder.events.on("state", (state) => {
+        setRecording(state);
+        if (!state) setTrack(null);
+      }),
+      trackRecorder.events.on("points", ({ track: summary, points }) =>
+        setTrack((prev) =>
+          prev?.id === summary.id
+            ? { ...summary, points: [...prev.points, ...points] }
+            : prev
+        )
+      ),
+      trackRecorder.events.on("change", reload),
+    ];
+    const appState = AppState.addEventListener("change", (state) => {
+      if (state === "active") reload();
+    });
+    return () => {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      appState.remove();
+    };
+  }, [reload]);
+
+  /** Resolves false when location permissions were refused. */
+  const start = useCallback(async () => {
+    if (!(await requestTrackingPermissions())) return false;
+    await trackRecorder.start();
+    return true;
+  }, []);
+
+  const pause = useCallback(() => trackRecorder.pause(), []);
+  const resume = useCallback(() => trackRecorder.resume(), []);
+  const stop = useCallback(
+    (): Promise<TrackSummary | null> => trackRecorder.stop(),
+    []
+  );
+
+  return { recording, track, start, pause, resume, stop };
+}
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { TrackSummary, trackRecorder } from "@/lib/tracks";
+
+/** Recorded tracks, newest first, kept in sync with the recorder. */
+export function useTracks() {
+  const [tracks, setTracks] = useState<TrackSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setTracks(await trackRecorder.tracks.list());
+      setError(null);
+    } catch (e: any) {
+      console.error("Error fetching tracks:", e);
+      setError(e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return trackRecorder.events.on("change", refresh);
+  }, [refresh]);
+
+  return { tracks, isLoading, error, refresh };
+}
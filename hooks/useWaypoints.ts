@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { Waypoint, waypointStore } from "@/lib/waypoints";
+
+/** The user's waypoints, newest first, reloaded whenever they change. */
+export function useWaypoints() {
+  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setWaypoints(await waypointStore.list());
+    } catch (e) {
+      console.error("Error loading waypoints:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return waypointStore.events.on("change", refresh);
+  }, [refresh]);
+
+  return { waypoints, refresh };
+}
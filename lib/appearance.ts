@@ -0,0 +1,53 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Appearance } from "react-native";
+
+import { Emitter } from "@/lib/emitter";
+import { KeyValueStore, readJSON, writeJSON } from "@/lib/storage";
+
+const APPEARANCE_KEY = "settings.appearance";
+
+/** "system" follows the device's dark mode; the others override it. */
+export type AppearancePreference = "system" | "light" | "dark";
+
+export const APPEARANCE_PREFERENCES: Record<AppearancePreference, string> = {
+  system: "Auto",
+  light: "Day",
+  dark: "Night",
+};
+
+export const appearanceEvents = new Emitter<{
+  change: AppearancePreference;
+}>();
+
+function isPreference(value: unknown): value is AppearancePreference {
+  return typeof value === "string" && value in APPEARANCE_PREFERENCES;
+}
+
+// Overriding the scheme app-wide keeps `useColorScheme`, `useThemeColor`
+// and the navigation theme in step with the map.
+function apply(preference: AppearancePreference) {
+  Appearance.setColorScheme(preference === "system" ? null : preference);
+}
+
+export async function loadAppearance(
+  store: KeyValueStore = AsyncStorage
+): Promise<AppearancePreference> {
+  const stored = await readJSON<unknown>(store, APPEARANCE_KEY, "system");
+  return isPreference(stored) ? stored : "system";
+}
+
+/** Applies the stored preference; called once at startup. */
+export async function restoreAppearance(store: KeyValueStore = AsyncStorage) {
+  const preference = await loadAppearance(store);
+  if (preference !== "system") apply(preference);
+  return preference;
+}
+
+export async function setAppearance(
+  preference: AppearancePreference,
+  store: KeyValueStore = AsyncStorage
+) {
+  apply(preference);
+  appearanceEvents.emit("change", preference);
+  await writeJSON(store, APPEARANCE_KEY, preference);
+}
@@ -0,0 +1,32 @@
+/**
+ * Small typed event emitter. React Native has no Node `events` module, and
+ * the services only need on/emit with an unsubscribe handle.
+ */
+export type Unsubscribe = () => void;
+
+export class Emitter<Events extends Record<string, unknown>> {
+  private listeners: {
+    [K in keyof Events]?: Set<(payload: Events[K]) => void>;
+  } = {};
+
+  on<K extends keyof Events>(
+    event: K,
+    listener: (payload: Events[K]) => void
+  ): Unsubscribe {
+    const set = (this.listeners[event] ??= new Set());
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Listener for "${String(event)}" threw:`, error);
+      }
+    });
+  }
+}
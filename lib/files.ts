@@ -0,0 +1,58 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+export type PickedFile = {
+  name: string;
+  text: string;
+};
+
+/**
+ * Lets the user pick a file and reads it as text. Returns null when the
+ * picker is dismissed. GPX and KML have no reliable MIME type across
+ * platforms, so any file can be picked and the parser decides.
+ */
+export async function pickTextFile(): Promise<PickedFile | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: "*/*",
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const asset = result.assets[0];
+  const text = await FileSystem.readAsStringAsync(asset.uri);
+  return { name: asset.name, text };
+}
+
+/** File name without its extension, for use as a default label. */
+export function baseName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+/** A name that is safe to use as a file name on every platform. */
+export function safeFileName(name: string) {
+  return name.replace(/[\\/:*?"<>|]+/g, "-").trim() || "export";
+}
+
+/**
+ * Writes `text` to a cache file and opens the OS share sheet for it. The
+ * file is left in the cache directory, which the OS clears as needed.
+ */
+export async function shareTextFile({
+  fileName,
+  text,
+  mimeType,
+  uti,
+}: {
+  fileName: string;
+  text: string;
+  mimeType: string;
+  uti?: string;
+}): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device.");
+  }
+  const uri = `${FileSystem.cacheDirectory}${encodeURIComponent(fileName)}`;
+  await FileSystem.writeAsStringAsync(uri, text);
+  await Sharing.shareAsync(uri, { mimeType, UTI: uti, dialogTitle: fileName });
+}
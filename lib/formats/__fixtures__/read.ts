@@ -0,0 +1,7 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+
+/** Contents of a file in this directory. */
+export function readFixture(name: string) {
+  return readFileSync(join(__dirname, name), "utf8");
+}
@@ -0,0 +1,63 @@
+import { readFixture } from "../__fixtures__/read";
+import { parseGeoJson } from "../geojson";
+
+const doc = parseGeoJson(readFixture("seceda.geojson"));
+
+it("reads LineStrings with per-vertex times", () => {
+  expect(doc.name).toBe("Seceda ridge");
+  expect(doc.lines[0]).toEqual({
+    name: "Ridge walk",
+    kind: "track",
+    segments: [
+      [
+        {
+          lng: 11.7237,
+          lat: 46.5995,
+          alt: 2456,
+          time: Date.UTC(2025, 5, 1, 8),
+        },
+        {
+          lng: 11.7391,
+          lat: 46.6034,
+          alt: 2518,
+          time: Date.UTC(2025, 5, 1, 8, 20),
+        },
+      ],
+    ],
+  });
+});
+
+it("keeps MultiLineString parts apart and drops invalid positions", () => {
+  expect(doc.lines[1].kind).toBe("route");
+  expect(doc.lines[1].segments.map((s) => s.length)).toEqual([2, 2]);
+});
+
+it("turns Points into waypoints and ignores polygons", () => {
+  expect(doc.lines).toHaveLength(2);
+  expect(doc.waypoints).toEqual([
+    {
+      lng: 11.7237,
+      lat: 46.5995,
+      alt: 2519,
+      time: null,
+      name: "Seceda",
+      description: "Cable car top station",
+      symbol: "Summit",
+    },
+  ]);
+});
+
+it("accepts bare geometries and rejects non-GeoJSON", () => {
+  const bare = parseGeoJson(
+    JSON.stringify({
+      type: "LineString",
+      coordinates: [
+        [11, 46],
+        [11.1, 46.1],
+      ],
+    })
+  );
+  expect(bare.lines[0].segments[0]).toHaveLength(2);
+  expect(() => parseGeoJson("{ not json")).toThrow("not valid JSON");
+  expect(() => parseGeoJson("[1, 2]")).toThrow("not a GeoJSON object");
+});
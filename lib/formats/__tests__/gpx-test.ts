@@ -0,0 +1,65 @@
+import { readFixture } from "../__fixtures__/read";
+import { parseGpx } from "../gpx";
+
+it("reads a GPX 1.1 track with segments, elevation and time", () => {
+  const doc = parseGpx(readFixture("tre-cime-track.gpx"));
+
+  expect(doc.name).toBe("Tre Cime loop");
+  expect(doc.lines).toHaveLength(1);
+  const [track] = doc.lines;
+  expect(track.name).toBe("Tre Cime di Lavaredo");
+  expect(track.kind).toBe("track");
+  // The point with an unreadable latitude is skipped.
+  expect(track.segments.map((s) => s.length)).toEqual([3, 2]);
+  expect(track.segments[0][0]).toEqual({
+    lng: 12.3022,
+    lat: 46.6186,
+    alt: 2333.4,
+    time: Date.UTC(2025, 6, 14, 6, 12),
+  });
+  expect(track.segments[1][1].alt).toBe(2405);
+});
+
+it("reads waypoints with names, descriptions and symbols", () => {
+  const doc = parseGpx(readFixture("tre-cime-track.gpx"));
+  expect(doc.waypoints).toEqual([
+    {
+      lng: 12.3022,
+      lat: 46.6186,
+      alt: 2333,
+      time: null,
+      name: "Rifugio Auronzo",
+      description: "Parking & hut",
+      symbol: "Lodging",
+    },
+    expect.objectContaining({ name: "Rifugio Locatelli", description: null }),
+  ]);
+});
+
+it("reads GPX 1.0 routes and top-level names", () => {
+  const doc = parseGpx(readFixture("planned-route-gpx10.gpx"));
+  expect(doc.name).toBe("Alta Via 1 - Stage 1");
+  expect(doc.lines).toEqual([
+    {
+      name: "Braies to Biella",
+      kind: "route",
+      segments: [
+        [
+          { lng: 12.0769, lat: 46.6944, alt: null, time: null },
+          { lng: 12.0712, lat: 46.6731, alt: null, time: null },
+          { lng: 12.0655, lat: 46.6593, alt: null, time: null },
+        ],
+      ],
+    },
+  ]);
+  expect(doc.waypoints[0].description).toBe("Start <b>here</b>");
+});
+
+it("rejects truncated files and other XML documents", () => {
+  expect(() => parseGpx(readFixture("truncated.gpx"))).toThrow(
+    "Missing closing tag"
+  );
+  expect(() => parseGpx(readFixture("sella-ronda.kml"))).toThrow(
+    "Expected a <gpx> document"
+  );
+});
@@ -0,0 +1,87 @@
+import { readFixture } from "../__fixtures__/read";
+import { GeoFileError, detectFormat, parseGeoFile, routeLine } from "..";
+
+it("detects the format from the content", () => {
+  expect(detectFormat(readFixture("tre-cime-track.gpx"))).toBe("gpx");
+  expect(detectFormat(readFixture("sella-ronda.kml"))).toBe("kml");
+  expect(detectFormat(readFixture("seceda.geojson"))).toBe("geojson");
+  expect(detectFormat("name,lat,lon\n")).toBeNull();
+});
+
+it("wraps parser failures in a GeoFileError", () => {
+  expect(() => parseGeoFile(readFixture("truncated.gpx"))).toThrow(
+    GeoFileError
+  );
+  expect(() => parseGeoFile("hello")).toThrow("not a GPX, KML or GeoJSON");
+  expect(() =>
+    parseGeoFile('{"type": "FeatureCollection", "features": []}')
+  ).toThrow("no routes, tracks or waypoints");
+});
+
+it("joins every line into one route to follow", () => {
+  const { document } = parseGeoFile(readFixture("tre-cime-track.gpx"));
+  const route = routeLine(document, "fallback");
+  expect(route.name).toBe("Tre Cime loop");
+  expect(route.points).toHaveLength(5);
+  expect(route.points[0]).toEqual([12.3022, 46.6186]);
+  expect(route.segments).toHaveLength(2);
+  expect(route.segments.flat()).toEqual(route.points);
+
+  expect(() =>
+    routeLine({ name: null, lines: [], waypoints: [] }, "x")
+  ).toThrow("two or more points");
+});
+
+it("keeps segments apart and drops single points", () => {
+  const point = (lng: number, lat: number) => ({
+    lng,
+    lat,
+    alt: null,
+    time: null,
+  });
+  const route = routeLine(
+    {
+      name: null,
+      lines: [
+        {
+          name: null,
+          kind: "track",
+          segments: [
+            [point(11.7, 46.6), point(11.71, 46.6)],
+            [point(11.9, 46.5)],
+          ],
+        },
+        {
+          name: null,
+          kind: "track",
+          segments: [[point(12.3, 46.6), point(12.31, 46.61)]],
+        },
+      ],
+      waypoints: [],
+    },
+    "Trip"
+  );
+  expect(route.name).toBe("Trip");
+  expect(route.segments).toEqual([
+    [
+      [11.7, 46.6],
+      [11.71, 46.6],
+    ],
+    [
+      [12.3, 46.6],
+      [12.31, 46.61],
+    ],
+  ]);
+  expect(route.points).toHaveLength(4);
+
+  expect(() =>
+    routeLine(
+      {
+        name: null,
+        lines: [{ name: null, kind: "track", segments: [[point(11, 46)]] }],
+        waypoints: [],
+      },
+      "x"
+    )
+  ).toThrow("two or more points");
+});
@@ -0,0 +1,46 @@
+import { readFixture } from "../__fixtures__/read";
+import { parseKml } from "../kml";
+
+const doc = parseKml(readFixture("sella-ronda.kml"));
+
+it("reads line placemarks from folders", () => {
+  expect(doc.name).toBe("Sella Ronda");
+  const stage = doc.lines.find((l) => l.name === "Passo Gardena – Colfosco");
+  expect(stage?.kind).toBe("route");
+  expect(stage?.segments).toEqual([
+    [
+      { lng: 11.8063, lat: 46.5491, alt: 2121, time: null },
+      { lng: 11.8251, lat: 46.5519, alt: 1980, time: null },
+      { lng: 11.8502, lat: 46.5532, alt: 1645, time: null },
+    ],
+  ]);
+});
+
+it("keeps each line of a MultiGeometry as its own segment", () => {
+  const gaps = doc.lines.find((l) => l.name === "Lift gaps");
+  expect(gaps?.segments.map((s) => s.length)).toEqual([2, 2]);
+});
+
+it("reads gx:Track coordinates with their timestamps", () => {
+  const ascent = doc.lines.find((l) => l.name === "Recorded ascent");
+  expect(ascent?.kind).toBe("track");
+  expect(ascent?.segments[0]).toEqual([
+    { lng: 11.83, lat: 46.52, alt: 2500, time: Date.UTC(2025, 7, 2, 9) },
+    { lng: 11.831, lat: 46.515, alt: 2620, time: Date.UTC(2025, 7, 2, 9, 5) },
+  ]);
+});
+
+it("turns points into waypoints and ignores polygons", () => {
+  expect(doc.waypoints).toEqual([
+    {
+      lng: 11.83,
+      lat: 46.509,
+      alt: 3152,
+      time: null,
+      name: "Piz Boè",
+      description: "<p>Summit at 3152 m</p>",
+      symbol: null,
+    },
+  ]);
+  expect(doc.lines.map((l) => l.name)).not.toContain("Sella massif");
+});
@@ -0,0 +1,109 @@
+import { readFixture } from "../__fixtures__/read";
+import { parseGeoJson, writeGeoJson } from "../geojson";
+import { parseGpx, writeGpx } from "../gpx";
+import { parseKml } from "../kml";
+import { GeoDocument } from "../types";
+
+const pointCount = (doc: GeoDocument) =>
+  doc.lines.flatMap((l) => l.segments.flat()).length;
+
+describe("GPX writer", () => {
+  it.each(["tre-cime-track.gpx", "planned-route-gpx10.gpx"])(
+    "round-trips %s through the importer",
+    (file) => {
+      const original = parseGpx(readFixture(file));
+      expect(parseGpx(writeGpx(original))).toEqual(original);
+    }
+  );
+
+  it("round-trips GeoJSON input", () => {
+    const original = parseGeoJson(readFixture("seceda.geojson"));
+    const { lines, waypoints } = parseGpx(writeGpx(original));
+    // GPX routes have no segments, so each part becomes its own <rte>.
+    expect(lines.flatMap((l) => l.segments)).toEqual(
+      original.lines.flatMap((l) => l.segments)
+    );
+    expect(waypoints).toEqual(original.waypoints);
+  });
+
+  it("keeps every KML point", () => {
+    const original = parseKml(readFixture("sella-ronda.kml"));
+    expect(pointCount(parseGpx(writeGpx(original)))).toBe(pointCount(original));
+  });
+
+  it("escapes text and omits missing elevation and time", () => {
+    const gpx = writeGpx({
+      name: 'Rock & "Roll" <trail>',
+      lines: [],
+      waypoints: [
+        {
+          lng: 11.123456789,
+          lat: 46.5,
+          alt: null,
+          time: null,
+          name: null,
+          description: "a < b",
+          symbol: null,
+        },
+      ],
+    });
+    expect(gpx).toContain(
+      "<name>Rock &amp; &quot;Roll&quot; &lt;trail&gt;</name>"
+    );
+    expect(gpx).toContain(
+      '<wpt lat="46.5" lon="11.1234568"><desc>a &lt; b</desc></wpt>'
+    );
+    expect(gpx).not.toContain("<ele>");
+  });
+});
+
+describe("GeoJSON writer", () => {
+  it.each(["seceda.geojson", "tre-cime-track.gpx", "sella-ronda.kml"])(
+    "round-trips %s through the importer",
+    (file) => {
+      const original = file.endsWith(".geojson")
+        ? parseGeoJson(readFixture(file))
+        : file.endsWith(".gpx")
+        ? parseGpx(readFixture(file))
+        : parseKml(readFixture(file));
+      expect(parseGeoJson(writeGeoJson(original))).toEqual(original);
+    }
+  );
+
+  it("writes LineStrings for single segments and times only when known", () => {
+    const json = JSON.parse(
+      writeGeoJson({
+        name: null,
+        lines: [
+          {
+            name: null,
+            kind: "route",
+            segments: [
+              [
+                { lng: 1, lat: 2, alt: null, time: null },
+                { lng: 3, lat: 4, alt: 5, time: null },
+              ],
+            ],
+          },
+        ],
+        waypoints: [],
+      })
+    );
+    expect(json).toEqual({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [1, 2],
+              [3, 4, 5],
+            ],
+          },
+          properties: { kind: "route" },
+        },
+      ],
+    });
+  });
+});
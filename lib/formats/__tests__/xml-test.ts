@@ -0,0 +1,30 @@
+import { XmlError, descendants, parseXml } from "../xml";
+
+it("reads elements, attributes, text and entities", () => {
+  const root = parseXml(
+    `<?xml version="1.0"?><!-- note --><a x='1' y="a &gt; b"><b>T &amp; &#233;&#x4E2D;</b><c/></a>`
+  );
+  expect(root.name).toBe("a");
+  expect(root.attributes).toEqual({ x: "1", y: "a > b" });
+  expect(root.children.map((c) => c.name)).toEqual(["b", "c"]);
+  expect(root.children[0].text).toBe("T & é中");
+});
+
+it("keeps CDATA verbatim and strips namespace prefixes", () => {
+  const root = parseXml(
+    `<kml:root xmlns:kml="x"><gx:coord><![CDATA[<b>1 & 2</b>]]></gx:coord></kml:root>`
+  );
+  expect(root.name).toBe("root");
+  expect(descendants(root, "coord")[0].text).toBe("<b>1 & 2</b>");
+});
+
+it("allows > inside quoted attribute values", () => {
+  expect(parseXml(`<a title="1 > 0"/>`).attributes.title).toBe("1 > 0");
+});
+
+it("reports mismatched and unclosed tags with a line number", () => {
+  expect(() => parseXml("<a>\n<b></a>")).toThrow(XmlError);
+  expect(() => parseXml("<a>\n<b></a>")).toThrow("line 2");
+  expect(() => parseXml("<a><b>")).toThrow("Missing closing tag for <b>");
+  expect(() => parseXml("")).toThrow("one root element");
+});
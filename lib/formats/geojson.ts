@@ -0,0 +1,178 @@
+import { makePoint, parseTime } from "./points";
+import { GeoDocument, GeoLine, GeoPoint, GeoWaypoint } from "./types";
+
+type Properties = Record<string, any> | null | undefined;
+
+function readPosition(
+  position: unknown,
+  time: unknown = null
+): GeoPoint | null {
+  if (!Array.isArray(position)) return null;
+  const [lng, lat, alt] = position.map((value) =>
+    typeof value === "number" && Number.isFinite(value) ? value : null
+  );
+  return makePoint(
+    lng ?? null,
+    lat ?? null,
+    alt ?? null,
+    typeof time === "number" ? time : parseTime(time as string)
+  );
+}
+
+function readLine(coordinates: unknown, times: unknown): GeoPoint[] {
+  if (!Array.isArray(coordinates)) return [];
+  const list = Array.isArray(times) ? times : [];
+  return coordinates
+    .map((position, index) => readPosition(position, list[index]))
+    .filter((p): p is GeoPoint => p !== null);
+}
+
+// Per-vertex timestamps as written by togeojson and our own exporter:
+// `coordinateProperties.times`, or the older `coordTimes`.
+function vertexTimes(properties: Properties): unknown {
+  return properties?.coordinateProperties?.times ?? properties?.coordTimes;
+}
+
+const text = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+/** Reads Points and (Multi)LineStrings from any GeoJSON object. */
+export function parseGeoJson(source: string): GeoDocument {
+  let root: any;
+  try {
+    root = JSON.parse(source);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!root || typeof root !== "object" || typeof root.type !== "string") {
+    throw new Error("The file is not a GeoJSON object.");
+  }
+
+  const lines: GeoLine[] = [];
+  const waypoints: GeoWaypoint[] = [];
+
+  const visitGeometry = (geometry: any, properties: Properties) => {
+    if (!geometry || typeof geometry !== "object") return;
+    const name = text(properties?.name);
+    const times = vertexTimes(properties);
+    switch (geometry.type) {
+      case "Point": {
+        const point = readPosition(geometry.coordinates, properties?.time);
+        if (point) {
+          waypoints.push({
+            ...point,
+            name,
+            description: text(properties?.description ?? properties?.desc),
+            symbol: text(properties?.sym ?? properties?.symbol),
+          });
+        }
+        break;
+      }
+      case "LineString": {
+        const segment = readLine(geometry.coordinates, times);
+        if (segment.length > 0) {
+          lines.push({ name, kind: lineKind(properties), segments: [segment] });
+        }
+        break;
+      }
+      case "MultiLineString": {
+        const segments = (geometry.coordinates ?? [])
+          .map((line: unknown, index: number) =>
+            readLine(line, Array.isArray(times) ? times[index] : undefined)
+          )
+          .filter((segment: GeoPoint[]) => segment.length > 0);
+        if (segments.length > 0) {
+          lines.push({ name, kind: lineKind(properties), segments });
+        }
+        break;
+      }
+      case "GeometryCollection":
+        geometry.geometries?.forEach((child: any) =>
+          visitGeometry(child, properties)
+        );
+        break;
+    }
+  };
+
+  switch (root.type) {
+    case "FeatureCollection":
+      for (const feature of root.features ?? []) {
+        visitGeometry(feature?.geometry, feature?.properties);
+      }
+      break;
+    case "Feature":
+      visitGeometry(root.geometry, root.properties);
+      break;
+    default:
+      visitGeometry(root, null);
+  }
+
+  return { name: text(root.name ?? root.properties?.name), lines, waypoints };
+}
+
+function lineKind(properties: Properties): GeoLine["kind"] {
+  return properties?.kind === "track" || vertexTimes(properties)
+    ? "track"
+    : "route";
+}
+
+const position = (point: GeoPoint) =>
+  point.alt === null
+    ? [point.lng, point.lat]
+    : [point.lng, point.lat, point.alt];
+
+const isoTime = (time: number | null) =>
+  time === null ? null : new Date(time).toISOString();
+
+function lineFeature(line: GeoLine): GeoJSON.Feature {
+  const hasTimes = line.segments.some((s) => s.some((p) => p.time !== null));
+  const single = line.segments.length === 1;
+  const times = line.segments.map((segment) =>
+    segment.map((p) => isoTime(p.time))
+  );
+  return {
+    type: "Feature",
+    geometry: single
+      ? { type: "LineString", coordinates: line.segments[0].map(position) }
+      : {
+          type: "MultiLineString",
+          coordinates: line.segments.map((s) => s.map(position)),
+        },
+    properties: {
+      ...(line.name ? { name: line.name } : {}),
+      kind: line.kind,
+      ...(hasTimes
+        ? { coordinateProperties: { times: single ? times[0] : times } }
+        : {}),
+    },
+  };
+}
+
+function waypointFeature(waypoint: GeoWaypoint): GeoJSON.Feature {
+  const properties: Record<string, string> = {};
+  if (waypoint.name) properties.name = waypoint.name;
+  if (waypoint.description) properties.description = waypoint.description;
+  if (waypoint.symbol) properties.sym = waypoint.symbol;
+  if (waypoint.time !== null) properties.time = isoTime(waypoint.time)!;
+  return {
+    type: "Feature",
+    geometry: { type: "Point", coordinates: position(waypoint) },
+    properties,
+  };
+}
+
+/**
+ * Writes a FeatureCollection. Timestamps go in `coordinateProperties.times`,
+ * the convention most GeoJSON tools use for tracks.
+ */
+export function writeGeoJson(document: GeoDocument): string {
+  const collection = {
+    type: "FeatureCollection",
+    ...(document.name ? { name: document.name } : {}),
+    features: [
+      ...document.lines.map(lineFeature),
+      ...document.waypoints.map(waypointFeature),
+    ],
+  };
+  return JSON.stringify(collection, null, 2);
+}
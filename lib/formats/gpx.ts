@@ -0,0 +1,151 @@
+import { makePoint, parseNumber, parseTime } from "./points";
+import { GeoDocument, GeoLine, GeoPoint, GeoWaypoint } from "./types";
+import {
+  XmlElement,
+  childElement,
+  childElements,
+  childText,
+  parseXml,
+} from "./xml";
+
+// <wpt>, <rtept> and <trkpt> share the same shape.
+function readPoint(element: XmlElement): GeoPoint | null {
+  return makePoint(
+    parseNumber(element.attributes.lon),
+    parseNumber(element.attributes.lat),
+    parseNumber(childText(element, "ele")),
+    parseTime(childText(element, "time"))
+  );
+}
+
+function readWaypoint(element: XmlElement): GeoWaypoint | null {
+  const point = readPoint(element);
+  return (
+    point && {
+      ...point,
+      name: childText(element, "name"),
+      description: childText(element, "desc") ?? childText(element, "cmt"),
+      symbol: childText(element, "sym"),
+    }
+  );
+}
+
+const readPoints = (elements: XmlElement[]) =>
+  elements.map(readPoint).filter((p): p is GeoPoint => p !== null);
+
+/** Reads GPX 1.1 (and the compatible parts of 1.0). */
+export function parseGpx(text: string): GeoDocument {
+  const root = parseXml(text);
+  if (root.name !== "gpx") {
+    throw new Error(`Expected a <gpx> document, found <${root.name}>.`);
+  }
+
+  const lines: GeoLine[] = [];
+  for (const track of childElements(root, "trk")) {
+    lines.push({
+      name: childText(track, "name"),
+      kind: "track",
+      segments: childElements(track, "trkseg")
+        .map((segment) => readPoints(childElements(segment, "trkpt")))
+        .filter((segment) => segment.length > 0),
+    });
+  }
+  for (const route of childElements(root, "rte")) {
+    lines.push({
+      name: childText(route, "name"),
+      kind: "route",
+      segments: [readPoints(childElements(route, "rtept"))].filter(
+        (segment) => segment.length > 0
+      ),
+    });
+  }
+
+  const metadata = childElement(root, "metadata");
+  return {
+    // GPX 1.0 puts the name directly under <gpx>.
+    name: (metadata && childText(metadata, "name")) ?? childText(root, "name"),
+    lines: lines.filter((line) => line.segments.length > 0),
+    waypoints: childElements(root, "wpt")
+      .map(readWaypoint)
+      .filter((w): w is GeoWaypoint => w !== null),
+  };
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Seven decimals is about a centimetre, well below GPS precision.
+const coordinate = (value: number) => String(Number(value.toFixed(7)));
+
+function pointXml(tag: string, point: GeoPoint, extra: string[] = []) {
+  const children = [
+    point.alt !== null && `<ele>${Number(point.alt.toFixed(1))}</ele>`,
+    point.time !== null && `<time>${new Date(point.time).toISOString()}</time>`,
+    ...extra,
+  ].filter(Boolean);
+  const open = `<${tag} lat="${coordinate(point.lat)}" lon="${coordinate(
+    point.lng
+  )}"`;
+  return children.length === 0
+    ? `${open}/>`
+    : `${open}>${children.join("")}</${tag}>`;
+}
+
+const nameXml = (name: string | null) =>
+  name ? [`<name>${escapeXml(name)}</name>`] : [];
+
+/**
+ * Writes a GPX 1.1 document. Tracks keep their segments; a route has no
+ * segments in GPX, so each route segment becomes its own `<rte>`.
+ */
+export function writeGpx(document: GeoDocument, creator = "Hiker"): string {
+  const body: string[] = [];
+  if (document.name) {
+    body.push(`  <metadata>${nameXml(document.name)[0]}</metadata>`);
+  }
+  for (const waypoint of document.waypoints) {
+    const extra = [
+      ...nameXml(waypoint.name),
+      waypoint.description && `<desc>${escapeXml(waypoint.description)}</desc>`,
+      waypoint.symbol && `<sym>${escapeXml(waypoint.symbol)}</sym>`,
+    ].filter((child): child is string => Boolean(child));
+    body.push(`  ${pointXml("wpt", waypoint, extra)}`);
+  }
+  for (const line of document.lines.filter((l) => l.kind === "route")) {
+    for (const segment of line.segments) {
+      body.push(
+        "  <rte>",
+        ...nameXml(line.name).map((name) => `    ${name}`),
+        ...segment.map((point) => `    ${pointXml("rtept", point)}`),
+        "  </rte>"
+      );
+    }
+  }
+  for (const line of document.lines.filter((l) => l.kind === "track")) {
+    body.push("  <trk>", ...nameXml(line.name).map((name) => `    ${name}`));
+    for (const segment of line.segments) {
+      body.push(
+        "    <trkseg>",
+        ...segment.map((point) => `      ${pointXml("trkpt", point)}`),
+        "    </trkseg>"
+      );
+    }
+    body.push("  </trk>");
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(creator)}" ` +
+      'xmlns="http://www.topografix.com/GPX/1/1" ' +
+      'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+      'xsi:schemaLocation="http://www.topografix.com/GPX/1/1 ' +
+      'http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    ...body,
+    "</gpx>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,84 @@
+import { parseGeoJson, writeGeoJson } from "./geojson";
+import { parseGpx, writeGpx } from "./gpx";
+import { parseKml } from "./kml";
+import { GeoDocument, GeoFileError, GeoFormat } from "./types";
+
+export * from "./types";
+export { parseGpx, writeGpx } from "./gpx";
+export { parseKml } from "./kml";
+export { parseGeoJson, writeGeoJson } from "./geojson";
+
+/**
+ * Works out the format from the content rather than the extension; files
+ * shared through messengers often lose or change their extension.
+ */
+export function detectFormat(text: string): GeoFormat | null {
+  const head = text.trimStart().slice(0, 2000);
+  if (head.startsWith("{")) return "geojson";
+  if (/<gpx[\s>]/.test(head)) return "gpx";
+  if (/<kml[\s>]/.test(head)) return "kml";
+  return null;
+}
+
+const PARSERS: Record<GeoFormat, (text: string) => GeoDocument> = {
+  gpx: parseGpx,
+  kml: parseKml,
+  geojson: parseGeoJson,
+};
+
+/**
+ * Parses a GPX, KML or GeoJSON file. Throws a `GeoFileError` with a message
+ * fit for the user when the file cannot be read or contains nothing usable.
+ */
+export function parseGeoFile(text: string): {
+  format: GeoFormat;
+  document: GeoDocument;
+} {
+  const format = detectFormat(text);
+  if (!format) {
+    throw new GeoFileError("This is not a GPX, KML or GeoJSON file.");
+  }
+  let document: GeoDocument;
+  try {
+    document = PARSERS[format](text);
+  } catch (error: any) {
+    throw new GeoFileError(
+      `Could not read this ${format.toUpperCase()} file: ${error.message}`
+    );
+  }
+  if (document.lines.length === 0 && document.waypoints.length === 0) {
+    throw new GeoFileError("The file contains no routes, tracks or waypoints.");
+  }
+  return { format, document };
+}
+export type ExportFormat = Exclude<GeoFormat, "kml">;
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  {
+    label: string;
+    extension: string;
+    mimeType: string;
+    /** iOS uniform type identifier, for the share sheet. */
+    uti: string;
+    write: (document: GeoDocument) => string;
+  }
+> = {
+  gpx: {
+    label: "GPX",
+    extension: "gpx",
+    mimeType: "application/gpx+xml",
+    uti: "com.topografix.gpx",
+    write: (document) => writeGpx(document),
+  },
+  geojson: {
+    label: "GeoJSON",
+    extension: "geojson",
+    mimeType: "application/geo+json",
+    uti: "public.json",
+    write: writeGeoJson,
+  },
+};
+
+export { documentSegments, routeLine } from "./route";
+export type { RouteLine } from "./route";
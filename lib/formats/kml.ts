@@ -0,0 +1,103 @@
+import { makePoint, parseNumber, parseTime } from "./points";
+import { GeoDocument, GeoLine, GeoPoint, GeoWaypoint } from "./types";
+import {
+  XmlElement,
+  childElement,
+  childElements,
+  childText,
+  descendants,
+  parseXml,
+} from "./xml";
+
+// "lng,lat[,alt]" tuples separated by whitespace.
+function parseCoordinates(text: string): GeoPoint[] {
+  const points: GeoPoint[] = [];
+  for (const tuple of text.split(/\s+/)) {
+    if (!tuple) continue;
+    const [lng, lat, alt] = tuple.split(",").map(parseNumber);
+    const point = makePoint(lng ?? null, lat ?? null, alt ?? null);
+    if (point) points.push(point);
+  }
+  return points;
+}
+
+// gx:Track pairs <when> timestamps with space-separated <gx:coord> values.
+function parseTrack(track: XmlElement): GeoPoint[] {
+  const whens = childElements(track, "when");
+  const points: GeoPoint[] = [];
+  childElements(track, "coord").forEach((coord, index) => {
+    const [lng, lat, alt] = coord.text.split(/\s+/).map(parseNumber);
+    const point = makePoint(
+      lng ?? null,
+      lat ?? null,
+      alt ?? null,
+      parseTime(whens[index]?.text)
+    );
+    if (point) points.push(point);
+  });
+  return points;
+}
+
+type Geometry = { points: GeoPoint[]; lines: GeoPoint[][]; tracked: boolean };
+
+function collectGeometry(element: XmlElement, into: Geometry) {
+  for (const child of element.children) {
+    switch (child.name) {
+      case "Point": {
+        const [point] = parseCoordinates(childText(child, "coordinates") ?? "");
+        if (point) into.points.push(point);
+        break;
+      }
+      case "LineString":
+        into.lines.push(
+          parseCoordinates(childText(child, "coordinates") ?? "")
+        );
+        break;
+      case "Track":
+        into.lines.push(parseTrack(child));
+        into.tracked = true;
+        break;
+      case "MultiGeometry":
+      case "MultiTrack":
+        collectGeometry(child, into);
+        break;
+    }
+  }
+}
+
+/** Reads Placemarks with Point, LineString, MultiGeometry and gx:Track. */
+export function parseKml(text: string): GeoDocument {
+  const root = parseXml(text);
+  if (root.name !== "kml") {
+    throw new Error(`Expected a <kml> document, found <${root.name}>.`);
+  }
+
+  const lines: GeoLine[] = [];
+  const waypoints: GeoWaypoint[] = [];
+  for (const placemark of descendants(root, "Placemark")) {
+    const name = childText(placemark, "name");
+    const description = childText(placemark, "description");
+    const geometry: Geometry = { points: [], lines: [], tracked: false };
+    collectGeometry(placemark, geometry);
+
+    for (const point of geometry.points) {
+      waypoints.push({ ...point, name, description, symbol: null });
+    }
+    const segments = geometry.lines.filter((line) => line.length > 0);
+    if (segments.length > 0) {
+      lines.push({
+        name,
+        kind: geometry.tracked ? "track" : "route",
+        segments,
+      });
+    }
+  }
+
+  const container =
+    childElement(root, "Document") ?? childElement(root, "Folder");
+  return {
+    name: container ? childText(container, "name") : null,
+    lines,
+    waypoints,
+  };
+}
@@ -0,0 +1,32 @@
+import { GeoPoint } from "./types";
+
+export function parseNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === "") {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+export function parseTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+export function isValidPosition(lng: number | null, lat: number | null) {
+  return (
+    lng !== null && lat !== null && Math.abs(lng) <= 180 && Math.abs(lat) <= 90
+  );
+}
+
+/** Builds a point, or returns null when the coordinates are unusable. */
+export function makePoint(
+  lng: number | null,
+  lat: number | null,
+  alt: number | null = null,
+  time: number | null = null
+): GeoPoint | null {
+  if (!isValidPosition(lng, lat)) return null;
+  return { lng: lng!, lat: lat!, alt, time };
+}
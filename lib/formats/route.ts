@@ -0,0 +1,39 @@
+import { LngLat } from "@/lib/geo/bounds";
+
+import { GeoDocument, GeoFileError, GeoPoint } from "./types";
+
+export type RouteLine = {
+  name: string;
+  /** Every segment joined in file order, as navigation follows it. */
+  points: LngLat[];
+  /**
+   * The segments with two or more points, kept apart so corridors do not
+   * bridge the gaps between them.
+   */
+  segments: LngLat[][];
+};
+
+/** Every segment of every line, in file order. */
+export function documentSegments(document: GeoDocument): GeoPoint[][] {
+  return document.lines.flatMap((line) => line.segments);
+}
+
+/**
+ * The lines of a document, in file order, as a route to download along or
+ * follow. Throws a `GeoFileError` unless some segment has two points.
+ */
+export function routeLine(
+  document: GeoDocument,
+  fallbackName = "Route"
+): RouteLine {
+  const segments = documentSegments(document)
+    .filter((segment) => segment.length >= 2)
+    .map((segment) => segment.map((p): LngLat => [p.lng, p.lat]));
+  if (segments.length === 0) {
+    throw new GeoFileError(
+      "The file does not contain a line with two or more points."
+    );
+  }
+  const name = document.name ?? document.lines.find((l) => l.name)?.name;
+  return { name: name || fallbackName, points: segments.flat(), segments };
+}
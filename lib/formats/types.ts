@@ -0,0 +1,40 @@
+/** A position read from a route file, with whatever extras it carried. */
+export type GeoPoint = {
+  lng: number;
+  lat: number;
+  /** Metres above sea level. */
+  alt: number | null;
+  /** Unix time in milliseconds. */
+  time: number | null;
+};
+
+export type GeoLine = {
+  name: string | null;
+  /** A GPX `<trk>` is recorded, a `<rte>` is planned. */
+  kind: "track" | "route";
+  /** Separate pieces of the line, e.g. GPX track segments. */
+  segments: GeoPoint[][];
+};
+
+export type GeoWaypoint = GeoPoint & {
+  name: string | null;
+  description: string | null;
+  /** GPX `<sym>` or KML style hint, when present. */
+  symbol: string | null;
+};
+
+/** Everything the app uses from a GPX, KML or GeoJSON file. */
+export type GeoDocument = {
+  name: string | null;
+  lines: GeoLine[];
+  waypoints: GeoWaypoint[];
+};
+
+export type GeoFormat = "gpx" | "kml" | "geojson";
+
+export class GeoFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GeoFileError";
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Just enough XML for GPX and KML files: elements, attributes, text, CDATA
+ * and the predefined and numeric entities. React Native has no DOMParser,
+ * and a full parser would be far more than these formats need. Namespace
+ * prefixes are dropped from element names, so `gx:Track` becomes `Track`.
+ */
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text directly inside this element, trimmed. */
+  text: string;
+};
+
+export class XmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XmlError";
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(value);
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+const localName = (name: string) => name.slice(name.indexOf(":") + 1);
+
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: "", attributes: {}, children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  const texts: string[][] = [[]];
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = source.slice(0, pos).split("\n").length;
+    throw new XmlError(`${message} (line ${line})`);
+  };
+
+  while (pos < source.length) {
+    const open = source.indexOf("<", pos);
+    if (open === -1) {
+      texts[texts.length - 1].push(decodeEntities(source.slice(pos)));
+      break;
+    }
+    if (open > pos) {
+      texts[texts.length - 1].push(decodeEntities(source.slice(pos, open)));
+    }
+    pos = open;
+
+    if (source.startsWith("<!--", pos)) {
+      const end = source.indexOf("-->", pos);
+      if (end === -1) fail("Unterminated comment");
+      pos = end + 3;
+    } else if (source.startsWith("<![CDATA[", pos)) {
+      const end = source.indexOf("]]>", pos);
+      if (end === -1) fail("Unterminated CDATA section");
+      texts[texts.length - 1].push(source.slice(pos + 9, end));
+      pos = end + 3;
+    } else if (source.startsWith("<?", pos)) {
+      const end = source.indexOf("?>", pos);
+      if (end === -1) fail("Unterminated processing instruction");
+      pos = end + 2;
+    } else if (source.startsWith("<!", pos)) {
+      const end = source.indexOf(">", pos);
+      if (end === -1) fail("Unterminated declaration");
+      pos = end + 1;
+    } else if (source.startsWith("</", pos)) {
+      const end = source.indexOf(">", pos);
+      if (end === -1) fail("Unterminated closing tag");
+      const name = localName(source.slice(pos + 2, end).trim());
+      const element = stack.pop()!;
+      if (stack.length === 0 || element.name !== name) {
+        fail(`Unexpected closing tag </${name}>`);
+      }
+      element.text = texts.pop()!.join("").trim();
+      pos = end + 1;
+    } else {
+      const end = findTagEnd(source, pos);
+      if (end === -1) fail("Unterminated tag");
+      const selfClosing = source[end - 1] === "/";
+      const body = source.slice(pos + 1, selfClosing ? end - 1 : end);
+      const nameMatch = /^[^\s/>]+/.exec(body);
+      if (!nameMatch) fail("Missing tag name");
+
+      const attributes: Record<string, string> = {};
+      const rest = body.slice(nameMatch![0].length);
+      for (const match of rest.matchAll(ATTRIBUTE)) {
+        attributes[localName(match[1])] = decodeEntities(match[2] ?? match[3]);
+      }
+      const element: XmlElement = {
+        name: localName(nameMatch![0]),
+        attributes,
+        children: [],
+        text: "",
+      };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+        texts.push([]);
+      }
+      pos = end + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    fail(`Missing closing tag for <${stack[stack.length - 1].name}>`);
+  }
+  if (root.children.length !== 1) {
+    throw new XmlError("Expected exactly one root element.");
+  }
+  return root.children[0];
+}
+
+// The end of a start tag, skipping over ">" inside quoted attribute values.
+function findTagEnd(source: string, from: number) {
+  let quote: string | null = null;
+  for (let i = from + 1; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+export function childElement(element: XmlElement, name: string) {
+  return element.children.find((child) => child.name === name);
+}
+
+export function childElements(element: XmlElement, name: string) {
+  return element.children.filter((child) => child.name === name);
+}
+
+/** Text of the first child called `name`, or null when absent or empty. */
+export function childText(element: XmlElement, name: string): string | null {
+  return childElement(element, name)?.text || null;
+}
+
+/** Every element called `name` below `element`, in document order. */
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const visit = (node: XmlElement) => {
+    for (const child of node.children) {
+      if (child.name === name) found.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return found;
+}
@@ -0,0 +1,123 @@
+import { Bounds, LngLat, boundsContains, boundsOfPoints } from "../bounds";
+import { bufferBounds, planCorridor, planCorridors } from "../corridor";
+import { densify, haversine, kmToDegrees } from "../distance";
+
+// Roughly the Alta Via 1: a long, diagonal multi-day trek.
+const DIAGONAL: LngLat[] = [
+  [12.08, 46.7],
+  [12.05, 46.6],
+  [12.0, 46.5],
+  [11.95, 46.4],
+  [12.1, 46.3],
+  [12.2, 46.2],
+];
+
+function areaDeg2([ne, sw]: Bounds) {
+  return (ne[0] - sw[0]) * (ne[1] - sw[1]);
+}
+
+it("grows bounds by the buffer in both axes", () => {
+  const [ne, sw] = bufferBounds([[11, 46]], 1);
+  const { lng, lat } = kmToDegrees(1, 46);
+  expect(ne[0]).toBeCloseTo(11 + lng);
+  expect(sw[1]).toBeCloseTo(46 - lat);
+  expect(haversine([11, 46], [11 + lng, 46])).toBeCloseTo(1000, -1);
+  expect(haversine([11, 46], [11, 46 + lat])).toBeCloseTo(1000, -1);
+});
+
+it("uses a single box for a short straight route", () => {
+  const plan = planCorridor(
+    [
+      [11.8, 46.5],
+      [11.8, 46.55],
+    ],
+    { bufferKm: 1, minZoom: 10, maxZoom: 14 }
+  );
+  expect(plan.boxes).toHaveLength(1);
+  expect(plan.lengthKm).toBeCloseTo(5.56, 1);
+  expect(plan.exceedsLimit).toBe(false);
+});
+
+it("splits a diagonal route into boxes much smaller than its bbox", () => {
+  const plan = planCorridor(DIAGONAL, {
+    bufferKm: 1,
+    minZoom: 10,
+    maxZoom: 14,
+  });
+  const single = bufferBounds(DIAGONAL, 1);
+
+  expect(plan.boxes.length).toBeGreaterThan(1);
+  const covered = plan.boxes.reduce((sum, box) => sum + areaDeg2(box), 0);
+  expect(covered).toBeLessThan(areaDeg2(single) / 2);
+});
+
+it("covers every point within the buffer of the route", () => {
+  const bufferKm = 2;
+  const plan = planCorridor(DIAGONAL, { bufferKm, minZoom: 10, maxZoom: 14 });
+
+  // Sample the route densely and probe offsets just inside the buffer.
+  for (const [lng, lat] of densify(DIAGONAL, 200)) {
+    const { lng: dLng, lat: dLat } = kmToDegrees(bufferKm * 0.99, lat);
+    for (const probe of [
+      [lng + dLng, lat],
+      [lng - dLng, lat],
+      [lng, lat + dLat],
+      [lng, lat - dLat],
+    ] as LngLat[]) {
+      expect(plan.boxes.some((box) => boundsContains(box, probe))).toBe(true);
+    }
+  }
+});
+
+it("keeps each box under the tile limit", () => {
+  const plan = planCorridor(DIAGONAL, {
+    bufferKm: 3,
+    minZoom: 8,
+    maxZoom: 15,
+    tileLimit: 1500,
+  });
+  expect(plan.exceedsLimit).toBe(false);
+  expect(plan.tiles).toBeGreaterThan(1500);
+  expect(plan.boxes.length).toBeGreaterThan(2);
+});
+
+it("reports boxes that cannot be split below the limit", () => {
+  const plan = planCorridor(DIAGONAL, {
+    bufferKm: 10,
+    minZoom: 8,
+    maxZoom: 16,
+    tileLimit: 100,
+  });
+  expect(plan.exceedsLimit).toBe(true);
+});
+
+it("rejects empty routes and non-positive widths", () => {
+  expect(() =>
+    planCorridor([], { bufferKm: 1, minZoom: 1, maxZoom: 2 })
+  ).toThrow();
+  expect(() =>
+    planCorridor(DIAGONAL, { bufferKm: 0, minZoom: 1, maxZoom: 2 })
+  ).toThrow();
+  expect(boundsOfPoints(DIAGONAL)[0]).toEqual([12.2, 46.7]);
+});
+
+it("plans separate lines without covering the gap between them", () => {
+  const west: LngLat[] = [
+    [11.7, 46.6],
+    [11.75, 46.62],
+  ];
+  const east: LngLat[] = [
+    [12.3, 46.6],
+    [12.35, 46.62],
+  ];
+  const options = { bufferKm: 1, minZoom: 10, maxZoom: 14 };
+  const plan = planCorridors([west, east], options);
+  const [a, b] = [planCorridor(west, options), planCorridor(east, options)];
+
+  expect(plan.boxes).toEqual([...a.boxes, ...b.boxes]);
+  expect(plan.tiles).toBe(a.tiles + b.tiles);
+  expect(plan.lengthKm).toBeCloseTo(a.lengthKm + b.lengthKm);
+  expect(plan.boxes.some((box) => boundsContains(box, [12, 46.61]))).toBe(
+    false
+  );
+});
@@ -0,0 +1,62 @@
+import { Bounds, unionBounds } from "../bounds";
+import { outlineRects } from "../outline";
+
+const round = (rects: ReturnType<typeof outlineRects>) =>
+  rects.map((rect) =>
+    Object.fromEntries(
+      Object.entries(rect).map(([key, value]) => [key, Math.round(value)])
+    )
+  );
+
+it("fits a single box to the thumbnail, keeping its proportions", () => {
+  // Two degrees wide, about one tall on the map at this latitude.
+  const box: Bounds = [
+    [13, 47.7],
+    [11, 46.38],
+  ];
+  const [rect] = outlineRects([box], 100, 0);
+
+  expect(rect.left).toBeCloseTo(0);
+  expect(rect.width).toBeCloseTo(100);
+  expect(rect.height).toBeGreaterThan(90);
+  expect(rect.height).toBeLessThan(100);
+  expect(rect.top).toBeCloseTo((100 - rect.height) / 2);
+});
+
+it("places the boxes of a corridor relative to each other", () => {
+  const boxes: Bounds[] = [
+    [
+      [11, 46.1],
+      [10, 46],
+    ],
+    [
+      [12, 46.1],
+      [11, 46],
+    ],
+  ];
+  const rects = round(outlineRects(boxes, 104, 2));
+
+  expect(rects[0].left).toBe(2);
+  expect(rects[1].left).toBe(52);
+  expect(rects[0].top).toBe(rects[1].top);
+  expect(rects[0].width).toBe(50);
+});
+
+it("unions boxes and handles empty input", () => {
+  expect(outlineRects([], 50)).toEqual([]);
+  expect(
+    unionBounds([
+      [
+        [1, 1],
+        [0, 0],
+      ],
+      [
+        [3, 2],
+        [2, -1],
+      ],
+    ])
+  ).toEqual([
+    [3, 2],
+    [0, -1],
+  ]);
+});
@@ -0,0 +1,95 @@
+import {
+  ProfilePoint,
+  elevationProfile,
+  naismithHours,
+  resampleProfile,
+  toblerSpeed,
+} from "../profile";
+
+const HOUR_MS = 3600 * 1000;
+// 1 km due north, near enough for these tests.
+const KM_LAT = 1 / 111.195;
+
+/** Points every `stepM` metres along a meridian with the given altitudes. */
+function line(alts: (number | null)[], stepM = 100): ProfilePoint[] {
+  return alts.map((alt, i) => ({
+    lng: 11,
+    lat: 46 + ((i * stepM) / 1000) * KM_LAT,
+    alt,
+  }));
+}
+
+it("applies Naismith's rule and Tobler's function", () => {
+  expect(naismithHours(10_000, 600)).toBe(3);
+  expect(toblerSpeed(-0.05)).toBe(6);
+  expect(toblerSpeed(0)).toBeCloseTo(5.04, 2);
+});
+
+it("measures a steady climb", () => {
+  // 6 km climbing 600 m: 10% grade.
+  const alts = Array.from({ length: 61 }, (_, i) => 1000 + i * 10);
+  const profile = elevationProfile([line(alts)]);
+
+  expect(profile.distanceM).toBeCloseTo(6000, -1);
+  // Smoothing flattens the ends a little.
+  expect(profile.ascentM).toBeGreaterThan(570);
+  expect(profile.ascentM).toBeLessThanOrEqual(600);
+  expect(profile.descentM).toBe(0);
+  expect(profile.naismithMs / HOUR_MS).toBeCloseTo(1.2 + profile.ascentM / 600);
+  // 10% up: 6·e^(-0.525) ≈ 3.55 km/h.
+  expect(profile.toblerMs / HOUR_MS).toBeCloseTo(6 / 3.55, 1);
+});
+
+it("smooths GPS jitter instead of counting it as ascent", () => {
+  // Flat 5 km walk with a fix every 10 m, each off by ±4 m.
+  const alts = Array.from({ length: 501 }, (_, i) => 1500 + (i % 2 ? 4 : -4));
+  const noisy = line(alts, 10);
+
+  const raw = elevationProfile([noisy], { smoothingWindowM: 0, thresholdM: 0 });
+  const smoothed = elevationProfile([noisy]);
+
+  expect(raw.ascentM).toBeGreaterThan(1900);
+  expect(smoothed.ascentM).toBeLessThan(5);
+  expect(smoothed.maxAlt! - smoothed.minAlt!).toBeLessThan(4);
+});
+
+it("interpolates missing altitudes", () => {
+  const profile = elevationProfile([line([null, 1000, null, 1100, null])], {
+    smoothingWindowM: 0,
+  });
+  [1000, 1000, 1050, 1100, 1100].forEach((alt, i) =>
+    expect(profile.samples[i].alt).toBeCloseTo(alt)
+  );
+});
+
+it("does not count the gap between segments", () => {
+  const first = line([1000, 1000, 1000]);
+  const second = line([1000, 1000]).map((p) => ({ ...p, lat: p.lat + 1 }));
+  const profile = elevationProfile([first, second]);
+  expect(profile.distanceM).toBeCloseTo(300, -1);
+  expect(profile.samples.map((s) => Math.round(s.distanceM))).toEqual([
+    0, 100, 200, 200, 300,
+  ]);
+});
+
+it("still estimates time without any elevation", () => {
+  const profile = elevationProfile([line([null, null, null], 5000)]);
+  expect(profile.samples).toEqual([]);
+  expect(profile.minAlt).toBeNull();
+  expect(profile.naismithMs / HOUR_MS).toBeCloseTo(2, 1);
+  expect(profile.toblerMs / HOUR_MS).toBeCloseTo(10 / 5.04, 1);
+});
+
+it("resamples to evenly spaced buckets keeping peaks", () => {
+  const samples = [0, 100, 200, 300, 400].map((distanceM, i) => ({
+    distanceM,
+    alt: [1000, 1300, 1100, 1000, 1050][i],
+  }));
+  const buckets = resampleProfile(samples, 2);
+  expect(buckets).toEqual([
+    { distanceM: 100, alt: 1300 },
+    { distanceM: 300, alt: 1050 },
+  ]);
+  expect(resampleProfile([], 10)).toEqual([]);
+  expect(resampleProfile(samples.slice(0, 2), 4)).toHaveLength(4);
+});
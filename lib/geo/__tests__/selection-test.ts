@@ -0,0 +1,67 @@
+import {
+  addSelectionPoint,
+  emptySelection,
+  moveSelectionHandle,
+  selectionBounds,
+  selectionHandles,
+  selectionShape,
+} from "../selection";
+
+it("builds a rectangle from two taps in any order", () => {
+  let selection = emptySelection("rectangle");
+  selection = addSelectionPoint(selection, [11.7, 46.6]);
+  expect(selectionBounds(selection)).toBeNull();
+
+  selection = addSelectionPoint(selection, [11.9, 46.5]);
+  expect(selectionBounds(selection)).toEqual([
+    [11.9, 46.6],
+    [11.7, 46.5],
+  ]);
+  expect(selectionShape(selection)?.type).toBe("Polygon");
+
+  selection = addSelectionPoint(selection, [10, 45]);
+  expect(selection.points).toEqual([[10, 45]]);
+});
+
+it("resizes a rectangle by dragging a corner handle", () => {
+  let selection = emptySelection("rectangle");
+  selection = addSelectionPoint(selection, [11.9, 46.6]);
+  selection = addSelectionPoint(selection, [11.7, 46.5]);
+
+  // Handles run NE, SE, SW, NW; drag the SE corner further south-east.
+  expect(selectionHandles(selection)[1]).toEqual([11.9, 46.5]);
+  selection = moveSelectionHandle(selection, 1, [12.1, 46.4]);
+
+  expect(selectionBounds(selection)).toEqual([
+    [12.1, 46.6],
+    [11.7, 46.4],
+  ]);
+});
+
+it("uses the bounding box of a polygon", () => {
+  let selection = emptySelection("polygon");
+  selection = addSelectionPoint(selection, [11.0, 46.0]);
+  selection = addSelectionPoint(selection, [11.5, 46.8]);
+  expect(selectionBounds(selection)).toBeNull();
+  expect(selectionShape(selection)?.type).toBe("LineString");
+
+  selection = addSelectionPoint(selection, [12.2, 46.3]);
+  expect(selectionBounds(selection)).toEqual([
+    [12.2, 46.8],
+    [11.0, 46.0],
+  ]);
+
+  selection = moveSelectionHandle(selection, 0, [10.8, 46.1]);
+  expect(selectionBounds(selection)?.[1]).toEqual([10.8, 46.1]);
+  expect(selectionShape(selection)).toEqual({
+    type: "Polygon",
+    coordinates: [
+      [
+        [10.8, 46.1],
+        [11.5, 46.8],
+        [12.2, 46.3],
+        [10.8, 46.1],
+      ],
+    ],
+  });
+});
@@ -0,0 +1,56 @@
+export type LngLat = [number, number];
+
+/** `[northEast, southWest]`, the order returned by `MapView.getVisibleBounds`. */
+export type Bounds = [LngLat, LngLat];
+
+/** Smallest bounds containing every point. Throws on an empty list. */
+export function boundsOfPoints(points: LngLat[]): Bounds {
+  if (points.length === 0) {
+    throw new Error("Cannot compute bounds of an empty point list.");
+  }
+  let [west, south] = points[0];
+  let [east, north] = points[0];
+  for (const [lng, lat] of points) {
+    west = Math.min(west, lng);
+    east = Math.max(east, lng);
+    south = Math.min(south, lat);
+    north = Math.max(north, lat);
+  }
+  return [
+    [east, north],
+    [west, south],
+  ];
+}
+
+/** Smallest bounds containing every box. Throws on an empty list. */
+export function unionBounds(boxes: Bounds[]): Bounds {
+  return boundsOfPoints(boxes.flat());
+}
+
+/** Corners clockwise from the north-east: NE, SE, SW, NW. */
+export function boundsCorners([ne, sw]: Bounds): LngLat[] {
+  return [ne, [ne[0], sw[1]], sw, [sw[0], ne[1]]];
+}
+
+/** Bounds after dragging one corner; the opposite corner stays put. */
+export function moveCorner(
+  bounds: Bounds,
+  corner: number,
+  position: LngLat
+): Bounds {
+  const opposite = boundsCorners(bounds)[(corner + 2) % 4];
+  return boundsOfPoints([opposite, position]);
+}
+
+export function boundsCenter([ne, sw]: Bounds): LngLat {
+  return [(ne[0] + sw[0]) / 2, (ne[1] + sw[1]) / 2];
+}
+
+export function boundsContains([ne, sw]: Bounds, [lng, lat]: LngLat) {
+  return lng <= ne[0] && lng >= sw[0] && lat <= ne[1] && lat >= sw[1];
+}
+
+export function boundsToPolygon(bounds: Bounds): GeoJSON.Polygon {
+  const corners = boundsCorners(bounds);
+  return { type: "Polygon", coordinates: [[...corners, corners[0]]] };
+}
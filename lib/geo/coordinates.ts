@@ -0,0 +1,8 @@
+import { LngLat } from "./bounds";
+
+/** "46.5500° N, 11.8000° E": hemisphere letters read better than signs. */
+export function formatLngLat([lng, lat]: LngLat, digits = 4) {
+  const part = (value: number, positive: string, negative: string) =>
+    `${Math.abs(value).toFixed(digits)}° ${value < 0 ? negative : positive}`;
+  return `${part(lat, "N", "S")}, ${part(lng, "E", "W")}`;
+}
@@ -0,0 +1,156 @@
+import {
+  AVERAGE_TILE_BYTES,
+  TILE_COUNT_LIMIT,
+  estimateDownload,
+} from "@/lib/offline/tiles";
+
+import { Bounds, LngLat, boundsOfPoints, unionBounds } from "./bounds";
+import {
+  KM_PER_DEGREE,
+  densify,
+  haversine,
+  kmToDegrees,
+  lineLength,
+} from "./distance";
+
+export type CorridorOptions = {
+  /** Distance to cover on each side of the route. */
+  bufferKm: number;
+  minZoom: number;
+  maxZoom: number;
+  /**
+   * Minimum share of a box that should lie inside the corridor before it is
+   * split. Lower values mean fewer, larger packs.
+   */
+  efficiency?: number;
+  tileLimit?: number;
+  /** Tiled sources per pack; see `estimateDownload`. */
+  sources?: number;
+};
+
+export type CorridorPlan = {
+  boxes: Bounds[];
+  lengthKm: number;
+  tiles: number;
+  bytes: number;
+  /** True when some box is still above the tile limit and cannot be split. */
+  exceedsLimit: boolean;
+};
+
+/** Bounding box of `points` grown by `bufferKm` on every side. */
+export function bufferBounds(points: LngLat[], bufferKm: number): Bounds {
+  const [ne, sw] = boundsOfPoints(points);
+  const widest = Math.abs(ne[1]) > Math.abs(sw[1]) ? ne[1] : sw[1];
+  const delta = kmToDegrees(bufferKm, widest);
+  return [
+    [ne[0] + delta.lng, Math.min(85, ne[1] + delta.lat)],
+    [sw[0] - delta.lng, Math.max(-85, sw[1] - delta.lat)],
+  ];
+}
+
+function boxAreaKm2([ne, sw]: Bounds) {
+  const midLat = ((ne[1] + sw[1]) / 2) * (Math.PI / 180);
+  const width = (ne[0] - sw[0]) * KM_PER_DEGREE * Math.cos(midLat);
+  const height = (ne[1] - sw[1]) * KM_PER_DEGREE;
+  return width * height;
+}
+
+// Area of the buffered line (a "sausage") relative to its bounding box.
+function coverage(lengthM: number, box: Bounds, bufferKm: number) {
+  const corridor = (lengthM / 1000) * 2 * bufferKm + Math.PI * bufferKm ** 2;
+  return Math.min(1, corridor / boxAreaKm2(box));
+}
+
+// A run of consecutive points, measured as it grows so each point added
+// costs the same however long the run already is.
+type Chunk = { bounds: Bounds; lengthM: number; count: number };
+
+function startChunk(first: LngLat): Chunk {
+  return { bounds: [first, first], lengthM: 0, count: 1 };
+}
+
+function growChunk(chunk: Chunk, last: LngLat, point: LngLat): Chunk {
+  return {
+    bounds: unionBounds([chunk.bounds, [point, point]]),
+    lengthM: chunk.lengthM + haversine(last, point),
+    count: chunk.count + 1,
+  };
+}
+
+/**
+ * Splits the corridor around a route into bounding boxes, one offline pack
+ * each. Points are walked in order and a box is closed as soon as adding the
+ * next point would make it mostly empty or push it over the tile limit.
+ * Consecutive boxes share their boundary point, so the buffer around every
+ * segment stays covered.
+ */
+export function planCorridor(
+  line: LngLat[],
+  {
+    bufferKm,
+    minZoom,
+    maxZoom,
+    efficiency = 0.5,
+    tileLimit = TILE_COUNT_LIMIT,
+    sources = 1,
+  }: CorridorOptions
+): CorridorPlan {
+  if (line.length === 0) {
+    throw new Error("A corridor needs at least one point.");
+  }
+  if (bufferKm <= 0) {
+    throw new Error("The corridor width must be positive.");
+  }
+
+  const tilesFor = (box: Bounds) =>
+    estimateDownload(box, minZoom, maxZoom, { sources }).tiles;
+  const points = densify(line, bufferKm * 1000);
+
+  const boxes: Bounds[] = [];
+  let chunk = startChunk(points[0]);
+  for (let i = 1; i < points.length; i++) {
+    const [last, point] = [points[i - 1], points[i]];
+    const candidate = growChunk(chunk, last, point);
+    const box = bufferBounds(candidate.bounds, bufferKm);
+    const tooSparse = coverage(candidate.lengthM, box, bufferKm) < efficiency;
+    const tooLarge = tilesFor(box) > tileLimit;
+    if (chunk.count >= 2 && (tooSparse || tooLarge)) {
+      boxes.push(bufferBounds(chunk.bounds, bufferKm));
+      chunk = growChunk(startChunk(last), last, point);
+    } else {
+      chunk = candidate;
+    }
+  }
+  boxes.push(bufferBounds(chunk.bounds, bufferKm));
+
+  const perBox = boxes.map(tilesFor);
+  const tiles = perBox.reduce((sum, n) => sum + n, 0);
+  return {
+    boxes,
+    lengthKm: lineLength(line) / 1000,
+    tiles,
+    bytes: tiles * AVERAGE_TILE_BYTES,
+    exceedsLimit: perBox.some((n) => n > tileLimit),
+  };
+}
+
+/**
+ * Plans a corridor around each of `lines` separately, so packs cover the
+ * lines but not the gaps between them, and adds the plans up.
+ */
+export function planCorridors(
+  lines: LngLat[][],
+  options: CorridorOptions
+): CorridorPlan {
+  if (lines.length === 0) {
+    throw new Error("A corridor needs at least one point.");
+  }
+  const plans = lines.map((line) => planCorridor(line, options));
+  return {
+    boxes: plans.flatMap((plan) => plan.boxes),
+    lengthKm: plans.reduce((sum, plan) => sum + plan.lengthKm, 0),
+    tiles: plans.reduce((sum, plan) => sum + plan.tiles, 0),
+    bytes: plans.reduce((sum, plan) => sum + plan.bytes, 0),
+    exceedsLimit: plans.some((plan) => plan.exceedsLimit),
+  };
+}
@@ -0,0 +1,82 @@
+import { LngLat } from "./bounds";
+
+export const EARTH_RADIUS_M = 6371008.8;
+
+/** Kilometres per degree of latitude (and of longitude at the equator). */
+export const KM_PER_DEGREE = (2 * Math.PI * EARTH_RADIUS_M) / 360 / 1000;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Great-circle distance in metres. */
+export function haversine([lng1, lat1]: LngLat, [lng2, lat2]: LngLat) {
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Total length of a line in metres. */
+export function lineLength(points: LngLat[]) {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversine(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+// Positions in metres on a plane tangent at `lat`, good for a few km.
+function planar([lng, lat]: LngLat, cosLat: number): [number, number] {
+  return [lng * cosLat * KM_PER_DEGREE * 1000, lat * KM_PER_DEGREE * 1000];
+}
+
+/**
+ * The closest point to `point` on the segment from `a` to `b`, with how far
+ * along the segment it lies, from 0 at `a` to 1 at `b`.
+ */
+export function projectOnSegment(point: LngLat, a: LngLat, b: LngLat) {
+  const cosLat = Math.cos(toRad(point[1]));
+  const [px, py] = planar(point, cosLat);
+  const [ax, ay] = planar(a, cosLat);
+  const [bx, by] = planar(b, cosLat);
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+  const onSegment: LngLat = [
+    a[0] + t * (b[0] - a[0]),
+    a[1] + t * (b[1] - a[1]),
+  ];
+  return { point: onSegment, t, distanceM: haversine(point, onSegment) };
+}
+
+/** Degrees of longitude and latitude spanned by `km` around `lat`. */
+export function kmToDegrees(km: number, lat: number) {
+  const cos = Math.max(Math.cos(toRad(lat)), 0.01);
+  return { lng: km / (KM_PER_DEGREE * cos), lat: km / KM_PER_DEGREE };
+}
+
+/**
+ * Inserts points so that no segment is longer than `maxSegmentM`. Linear
+ * interpolation in degrees is fine at the distances involved.
+ */
+export function densify(points: LngLat[], maxSegmentM: number): LngLat[] {
+  if (points.length < 2) return [...points];
+  const result: LngLat[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const [from, to] = [points[i - 1], points[i]];
+    const steps = Math.ceil(haversine(from, to) / maxSegmentM);
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      result.push([
+        from[0] + (to[0] - from[0]) * t,
+        from[1] + (to[1] - from[1]) * t,
+      ]);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,41 @@
+import { Bounds, unionBounds } from "./bounds";
+
+/** A box in thumbnail pixels, from the top-left corner. */
+export type OutlineRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+// Web Mercator y of a latitude, so outlines have the map's proportions.
+function mercatorY(lat: number) {
+  return Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360));
+}
+
+/**
+ * Lays out one or more boxes in a square thumbnail of `size` pixels, scaled
+ * together to fit inside `padding` and centred. Used for region outlines.
+ */
+export function outlineRects(
+  boxes: Bounds[],
+  size: number,
+  padding = 4
+): OutlineRect[] {
+  if (boxes.length === 0) return [];
+  const [[east, north], [west, south]] = unionBounds(boxes);
+  const x = (lng: number) => (lng * Math.PI) / 180;
+  const spanX = x(east) - x(west);
+  const spanY = mercatorY(north) - mercatorY(south);
+  const inner = size - 2 * padding;
+  const scale = inner / Math.max(spanX, spanY, Number.EPSILON);
+  const offsetX = padding + (inner - spanX * scale) / 2;
+  const offsetY = padding + (inner - spanY * scale) / 2;
+
+  return boxes.map(([[e, n], [w, s]]) => ({
+    left: offsetX + (x(w) - x(west)) * scale,
+    top: offsetY + (mercatorY(north) - mercatorY(n)) * scale,
+    width: Math.max(1, (x(e) - x(w)) * scale),
+    height: Math.max(1, (mercatorY(n) - mercatorY(s)) * scale),
+  }));
+}
@@ -0,0 +1,194 @@
+import { haversine } from "./distance";
+
+/** Anything with a position and an optional altitude. */
+export type ProfilePoint = { lng: number; lat: number; alt: number | null };
+
+export type ProfileSample = {
+  /** Distance from the start, not counting gaps between segments. */
+  distanceM: number;
+  /** Smoothed altitude in metres. */
+  alt: number;
+};
+
+export type ElevationProfile = {
+  /** Empty when no point had an altitude. */
+  samples: ProfileSample[];
+  distanceM: number;
+  ascentM: number;
+  descentM: number;
+  minAlt: number | null;
+  maxAlt: number | null;
+  /** Hiking time estimates in milliseconds. */
+  naismithMs: number;
+  toblerMs: number;
+};
+
+export type ProfileOptions = {
+  /**
+   * Width of the moving average applied to altitudes. GPS altitude jitters
+   * by several metres between fixes, which adds up to hundreds of metres of
+   * phantom ascent over a day without smoothing.
+   */
+  smoothingWindowM?: number;
+  /** Altitude changes smaller than this are not counted as ascent/descent. */
+  thresholdM?: number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Naismith's rule: 5 km/h, plus an hour for every 600 m of ascent. */
+export function naismithHours(distanceM: number, ascentM: number) {
+  return distanceM / 5000 + ascentM / 600;
+}
+
+/** Tobler's hiking function: walking speed in km/h on a given slope. */
+export function toblerSpeed(slope: number) {
+  return 6 * Math.exp(-3.5 * Math.abs(slope + 0.05));
+}
+
+// Replaces missing altitudes by interpolating between known neighbours,
+// or copying the nearest one at either end.
+function fillAltitudes(distances: number[], alts: (number | null)[]) {
+  const known = alts
+    .map((alt, i) => (alt === null ? -1 : i))
+    .filter((i) => i >= 0);
+  if (known.length === 0) return null;
+
+  const filled = new Array<number>(alts.length);
+  let k = 0;
+  for (let i = 0; i < alts.length; i++) {
+    while (k < known.length - 1 && known[k + 1] <= i) k++;
+    const before = known[k];
+    const after = known[k + 1];
+    if (i <= known[0]) {
+      filled[i] = alts[known[0]]!;
+    } else if (after === undefined) {
+      filled[i] = alts[before]!;
+    } else {
+      const span = distances[after] - distances[before];
+      const t = span > 0 ? (distances[i] - distances[before]) / span : 0;
+      filled[i] = alts[before]! + (alts[after]! - alts[before]!) * t;
+    }
+  }
+  return filled;
+}
+
+// Centred moving average over a distance window, using a sliding sum.
+function smooth(distances: number[], alts: number[], windowM: number) {
+  if (windowM <= 0) return [...alts];
+  const half = windowM / 2;
+  const result = new Array<number>(alts.length);
+  let from = 0;
+  let to = 0;
+  let sum = 0;
+  for (let i = 0; i < alts.length; i++) {
+    while (to < alts.length && distances[to] - distances[i] <= half) {
+      sum += alts[to++];
+    }
+    while (distances[i] - distances[from] > half) {
+      sum -= alts[from++];
+    }
+    result[i] = sum / (to - from);
+  }
+  return result;
+}
+
+/**
+ * Distance, smoothed altitude profile, ascent/descent and hiking time for
+ * one or more line segments, e.g. a track's segments or a route's lines.
+ */
+export function elevationProfile(
+  segments: ProfilePoint[][],
+  { smoothingWindowM = 100, thresholdM = 3 }: ProfileOptions = {}
+): ElevationProfile {
+  const distances: number[] = [];
+  const rawAlts: (number | null)[] = [];
+  let distanceM = 0;
+  for (const segment of segments) {
+    segment.forEach((point, i) => {
+      if (i > 0) {
+        const prev = segment[i - 1];
+        distanceM += haversine([prev.lng, prev.lat], [point.lng, point.lat]);
+      }
+      distances.push(distanceM);
+      rawAlts.push(point.alt);
+    });
+  }
+
+  const filled = fillAltitudes(distances, rawAlts);
+  if (!filled) {
+    return {
+      samples: [],
+      distanceM,
+      ascentM: 0,
+      descentM: 0,
+      minAlt: null,
+      maxAlt: null,
+      naismithMs: naismithHours(distanceM, 0) * HOUR_MS,
+      toblerMs: (distanceM / 1000 / toblerSpeed(0)) * HOUR_MS,
+    };
+  }
+
+  const alts = smooth(distances, filled, smoothingWindowM);
+
+  // Hysteresis: only count a climb or drop once it exceeds the threshold.
+  let ascentM = 0;
+  let descentM = 0;
+  let reference = alts[0];
+  for (const alt of alts) {
+    if (alt - reference >= thresholdM) {
+      ascentM += alt - reference;
+      reference = alt;
+    } else if (reference - alt >= thresholdM) {
+      descentM += reference - alt;
+      reference = alt;
+    }
+  }
+
+  let toblerHours = 0;
+  for (let i = 1; i < alts.length; i++) {
+    const run = distances[i] - distances[i - 1];
+    if (run <= 0) continue;
+    const slope = (alts[i] - alts[i - 1]) / run;
+    toblerHours += run / 1000 / toblerSpeed(slope);
+  }
+
+  return {
+    samples: distances.map((d, i) => ({ distanceM: d, alt: alts[i] })),
+    distanceM,
+    ascentM,
+    descentM,
+    minAlt: Math.min(...alts),
+    maxAlt: Math.max(...alts),
+    naismithMs: naismithHours(distanceM, ascentM) * HOUR_MS,
+    toblerMs: toblerHours * HOUR_MS,
+  };
+}
+
+/**
+ * Reduces a profile to `count` evenly spaced samples for charting, taking
+ * the highest altitude within each bucket so summits are not cut off.
+ */
+export function resampleProfile(
+  samples: ProfileSample[],
+  count: number
+): ProfileSample[] {
+  if (samples.length === 0 || count <= 0) return [];
+  const total = samples[samples.length - 1].distanceM;
+  if (total === 0) return [samples[0]];
+
+  const step = total / count;
+  const buckets: ProfileSample[] = [];
+  let i = 0;
+  for (let b = 0; b < count; b++) {
+    const end = b === count - 1 ? Infinity : (b + 1) * step;
+    let alt = -Infinity;
+    while (i < samples.length && samples[i].distanceM <= end) {
+      alt = Math.max(alt, samples[i++].alt);
+    }
+    // Buckets between two distant points take the previous altitude.
+    if (alt === -Infinity) alt = buckets[b - 1]?.alt ?? samples[0].alt;
+    buckets.push({ distanceM: (b + 0.5) * step, alt });
+  }
+  return buckets;
+}
@@ -0,0 +1,98 @@
+import {
+  Bounds,
+  LngLat,
+  boundsCorners,
+  boundsOfPoints,
+  boundsToPolygon,
+  moveCorner,
+} from "./bounds";
+
+export type SelectionMode = "rectangle" | "polygon";
+
+/**
+ * A region being drawn on the map. Rectangles are defined by two opposite
+ * corners; polygons by their vertices in tap order. Offline packs are always
+ * rectangular, so a polygon is downloaded as its bounding box.
+ */
+export type Selection = {
+  mode: SelectionMode;
+  points: LngLat[];
+};
+
+export function emptySelection(mode: SelectionMode): Selection {
+  return { mode, points: [] };
+}
+
+export function addSelectionPoint(
+  selection: Selection,
+  point: LngLat
+): Selection {
+  if (selection.mode === "rectangle" && selection.points.length >= 2) {
+    // A third tap starts a new rectangle.
+    return { ...selection, points: [point] };
+  }
+  return { ...selection, points: [...selection.points, point] };
+}
+
+export function removeLastPoint(selection: Selection): Selection {
+  return { ...selection, points: selection.points.slice(0, -1) };
+}
+
+export function isSelectionComplete({ mode, points }: Selection) {
+  return points.length >= (mode === "rectangle" ? 2 : 3);
+}
+
+export function selectionBounds(selection: Selection): Bounds | null {
+  return isSelectionComplete(selection)
+    ? boundsOfPoints(selection.points)
+    : null;
+}
+
+/** Draggable handle positions: rectangle corners or polygon vertices. */
+export function selectionHandles(selection: Selection): LngLat[] {
+  if (selection.mode === "rectangle") {
+    const bounds = selectionBounds(selection);
+    return bounds ? boundsCorners(bounds) : selection.points;
+  }
+  return selection.points;
+}
+
+export function moveSelectionHandle(
+  selection: Selection,
+  handle: number,
+  position: LngLat
+): Selection {
+  if (selection.mode === "rectangle") {
+    const bounds = selectionBounds(selection);
+    if (!bounds) {
+      return replacePoint(selection, handle, position);
+    }
+    const [ne, sw] = moveCorner(bounds, handle, position);
+    return { ...selection, points: [ne, sw] };
+  }
+  return replacePoint(selection, handle, position);
+}
+
+/** Outline to draw while selecting: the polygon so far, or null. */
+export function selectionShape(selection: Selection): GeoJSON.Geometry | null {
+  const { mode, points } = selection;
+  if (mode === "rectangle") {
+    const bounds = selectionBounds(selection);
+    return bounds ? boundsToPolygon(bounds) : null;
+  }
+  if (points.length < 2) return null;
+  if (points.length === 2) {
+    return { type: "LineString", coordinates: points };
+  }
+  return { type: "Polygon", coordinates: [[...points, points[0]]] };
+}
+
+function replacePoint(
+  selection: Selection,
+  index: number,
+  position: LngLat
+): Selection {
+  const points = [...selection.points];
+  points[index] = position;
+  return { ...selection, points };
+}
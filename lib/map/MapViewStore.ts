@@ -0,0 +1,101 @@
+import { LngLat } from "@/lib/geo/bounds";
+import { KeyValueStore, readJSON, writeJSON } from "@/lib/storage";
+import {
+  DEFAULT_STYLE_ID,
+  MAP_STYLES,
+  MapStyleId,
+} from "@/lib/styles/registry";
+import { OVERLAYS, OverlayId } from "@/lib/styles/terrain";
+
+const VIEW_KEY = "map.view";
+
+export type SavedCamera = {
+  center: LngLat;
+  zoom: number;
+  /** Degrees clockwise from north. */
+  heading: number;
+};
+
+/** What the map showed when the app was last used. */
+export type SavedMapView = {
+  /** Null until the map has first come to rest. */
+  camera: SavedCamera | null;
+  styleId: MapStyleId;
+  overlays: OverlayId[];
+};
+
+export const DEFAULT_MAP_VIEW: SavedMapView = {
+  camera: null,
+  styleId: DEFAULT_STYLE_ID,
+  overlays: [],
+};
+
+type StoreOptions = {
+  store: KeyValueStore;
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isKey = <K extends string>(
+  value: unknown,
+  record: Record<K, unknown>
+): value is K =>
+  typeof value === "string" &&
+  Object.prototype.hasOwnProperty.call(record, value);
+
+function readCamera(value: any): SavedCamera | null {
+  const [lng, lat] = Array.isArray(value?.center) ? value.center : [];
+  if (
+    !isNumber(lng) ||
+    !isNumber(lat) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lng) > 180 ||
+    !isNumber(value.zoom)
+  ) {
+    return null;
+  }
+  return {
+    center: [lng, lat],
+    zoom: value.zoom,
+    heading: isNumber(value.heading) ? value.heading : 0,
+  };
+}
+
+/**
+ * The last camera, style and overlays of the map, restored on the next
+ * launch. Values from older versions that no longer apply, such as a
+ * removed style, fall back to the defaults.
+ */
+export class MapViewStore {
+  private store: KeyValueStore;
+  // Serialises updates; the camera and the style are saved independently.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor({ store }: StoreOptions) {
+    this.store = store;
+  }
+
+  async load(): Promise<SavedMapView> {
+    const saved = await readJSON<any>(this.store, VIEW_KEY, null);
+    if (!saved || typeof saved !== "object") return DEFAULT_MAP_VIEW;
+    return {
+      camera: readCamera(saved.camera),
+      styleId: isKey(saved.styleId, MAP_STYLES)
+        ? saved.styleId
+        : DEFAULT_STYLE_ID,
+      overlays: Array.isArray(saved.overlays)
+        ? saved.overlays.filter((id: unknown) => isKey(id, OVERLAYS))
+        : [],
+    };
+  }
+
+  update(changes: Partial<SavedMapView>): Promise<void> {
+    const run = this.queue.then(async () => {
+      const view = await this.load();
+      await writeJSON(this.store, VIEW_KEY, { ...view, ...changes });
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,48 @@
+import { createMemoryStore } from "@/lib/storage";
+
+import { DEFAULT_MAP_VIEW, MapViewStore } from "../MapViewStore";
+
+const CAMERA = {
+  center: [11.75, 46.54] as [number, number],
+  zoom: 13.5,
+  heading: 30,
+};
+
+it("starts from the defaults", async () => {
+  const views = new MapViewStore({ store: createMemoryStore() });
+
+  expect(await views.load()).toEqual(DEFAULT_MAP_VIEW);
+});
+
+it("keeps the camera and the style saved separately", async () => {
+  const store = createMemoryStore();
+  const views = new MapViewStore({ store });
+
+  // Not awaited in turn, as when the map moves while the style changes.
+  await Promise.all([
+    views.update({ camera: CAMERA }),
+    views.update({ styleId: "satellite", overlays: ["hillshade"] }),
+  ]);
+
+  expect(await new MapViewStore({ store }).load()).toEqual({
+    camera: CAMERA,
+    styleId: "satellite",
+    overlays: ["hillshade"],
+  });
+});
+
+it("drops saved values that no longer apply", async () => {
+  const store = createMemoryStore({
+    "map.view": JSON.stringify({
+      camera: { center: [11.75, 123], zoom: 12 },
+      styleId: "topo",
+      overlays: ["contours", "toString", 3],
+    }),
+  });
+
+  expect(await new MapViewStore({ store }).load()).toEqual({
+    camera: null,
+    styleId: "hiking",
+    overlays: ["contours"],
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  CameraEvent,
+  CameraState,
+  INITIAL_CAMERA,
+  isRotated,
+  nextCameraState,
+  trackingMode,
+} from "../camera";
+
+const run = (events: CameraEvent[], from: CameraState = INITIAL_CAMERA) =>
+  events.reduce(nextCameraState, from);
+
+describe("nextCameraState", () => {
+  it("steps the location button through follow and heading", () => {
+    const follow = run([{ type: "locate" }]);
+    const heading = run([{ type: "locate" }], follow);
+    const back = run([{ type: "locate" }], heading);
+
+    expect(follow.mode).toBe("follow");
+    expect(heading.mode).toBe("heading");
+    expect(back.mode).toBe("follow");
+  });
+
+  it("turns north-up when following starts", () => {
+    const state = run([{ type: "rotated", heading: 120 }, { type: "locate" }]);
+
+    expect(state).toEqual({ mode: "follow", heading: 0 });
+  });
+
+  it("stops following when the map stops tracking, keeping the rotation", () => {
+    const state = run([
+      { type: "locate" },
+      { type: "locate" },
+      { type: "rotated", heading: 75 },
+      { type: "tracking", mode: "off" },
+    ]);
+
+    expect(state).toEqual({ mode: "off", heading: 75 });
+    expect(run([{ type: "locate" }], state).mode).toBe("follow");
+  });
+
+  it("leaves a heading mode alone when asked to follow", () => {
+    const heading = run([{ type: "locate" }, { type: "locate" }]);
+
+    expect(run([{ type: "follow" }]).mode).toBe("follow");
+    expect(run([{ type: "follow" }], heading)).toBe(heading);
+  });
+
+  it("resets north, leaving the heading mode", () => {
+    expect(run([{ type: "rotated", heading: 200 }, { type: "north" }])).toEqual(
+      { mode: "off", heading: 0 }
+    );
+    expect(
+      run([
+        { type: "locate" },
+        { type: "locate" },
+        { type: "rotated", heading: 30 },
+        { type: "north" },
+      ])
+    ).toEqual({ mode: "follow", heading: 0 });
+  });
+});
+
+describe("isRotated", () => {
+  it("ignores tiny rotations either side of north", () => {
+    expect(isRotated({ mode: "off", heading: 0.5 })).toBe(false);
+    expect(isRotated({ mode: "off", heading: 359.5 })).toBe(false);
+    expect(isRotated({ mode: "off", heading: 358 })).toBe(true);
+    expect(isRotated({ mode: "follow", heading: 45 })).toBe(true);
+  });
+
+  it("offers north while the heading turns the map", () => {
+    expect(isRotated({ mode: "heading", heading: 0 })).toBe(true);
+  });
+});
+
+describe("trackingMode", () => {
+  it("reads the map's tracking events", () => {
+    expect(trackingMode(false, "normal")).toBe("off");
+    expect(trackingMode(true, "normal")).toBe("follow");
+    expect(trackingMode(true, "compass")).toBe("heading");
+    expect(trackingMode(true, "course")).toBe("heading");
+  });
+});
@@ -0,0 +1,30 @@
+import { parseMapLink } from "../link";
+
+describe("parseMapLink", () => {
+  it("reads the position and zoom", () => {
+    expect(parseMapLink({ lat: "46.5405", lon: "11.7631", z: "15" })).toEqual({
+      center: [11.7631, 46.5405],
+      zoom: 15,
+    });
+  });
+
+  it("opens links without a zoom close in, and clamps odd zooms", () => {
+    expect(parseMapLink({ lat: "46.5", lon: "11.7" })?.zoom).toBe(14);
+    expect(parseMapLink({ lat: "46.5", lon: "11.7", z: "99" })?.zoom).toBe(20);
+    expect(parseMapLink({ lat: "46.5", lon: "11.7", z: "far" })?.zoom).toBe(14);
+  });
+
+  it("refuses links without a valid position", () => {
+    expect(parseMapLink({})).toBeNull();
+    expect(parseMapLink({ lat: "46.5" })).toBeNull();
+    expect(parseMapLink({ lat: "", lon: "11.7" })).toBeNull();
+    expect(parseMapLink({ lat: "95", lon: "11.7" })).toBeNull();
+    expect(parseMapLink({ lat: "46.5", lon: "east" })).toBeNull();
+  });
+
+  it("uses the first of repeated parameters", () => {
+    expect(parseMapLink({ lat: ["1", "2"], lon: ["3", "4"] })?.center).toEqual([
+      3, 1,
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * How the camera tracks the hiker: not at all, centred north-up, or
+ * centred and turned the way the phone points.
+ */
+export type FollowMode = "off" | "follow" | "heading";
+
+export type CameraState = {
+  mode: FollowMode;
+  /** Bearing of the map in degrees clockwise from north, as last seen. */
+  heading: number;
+};
+
+export type CameraEvent =
+  /** The location button was tapped. */
+  | { type: "locate" }
+  /** Something needs the hiker in view, e.g. navigation starting. */
+  | { type: "follow" }
+  /** The map changed tracking itself, e.g. because the user panned. */
+  | { type: "tracking"; mode: FollowMode }
+  /** The map came to rest turned to `heading`. */
+  | { type: "rotated"; heading: number }
+  /** The north button was tapped. */
+  | { type: "north" };
+
+export const INITIAL_CAMERA: CameraState = { mode: "off", heading: 0 };
+
+/** Rotations smaller than this still count as north-up. */
+const NORTH_TOLERANCE = 1;
+
+// -180 to 180, so 359° is one degree left of north.
+const normalize = (heading: number) =>
+  ((((heading + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * The location button steps from off to following and on to following
+ * with the heading; tapping it again goes back to following. Following
+ * keeps the map north-up.
+ */
+export function nextCameraState(
+  state: CameraState,
+  event: CameraEvent
+): CameraState {
+  switch (event.type) {
+    case "locate":
+      return state.mode === "follow"
+        ? { ...state, mode: "heading" }
+        : { mode: "follow", heading: 0 };
+    case "follow":
+      return state.mode === "off" ? { mode: "follow", heading: 0 } : state;
+    case "tracking":
+      return event.mode === state.mode ? state : { ...state, mode: event.mode };
+    case "rotated":
+      return event.heading === state.heading
+        ? state
+        : { ...state, heading: event.heading };
+    case "north":
+      return {
+        mode: state.mode === "heading" ? "follow" : state.mode,
+        heading: 0,
+      };
+  }
+}
+
+/** The mode reported by the map's user tracking events. */
+export function trackingMode(
+  followUserLocation: boolean,
+  followUserMode: string | null
+): FollowMode {
+  if (!followUserLocation) return "off";
+  return followUserMode === "compass" || followUserMode === "course"
+    ? "heading"
+    : "follow";
+}
+
+/** The north button is offered while the map is turned away from north. */
+export function isRotated(state: CameraState) {
+  return (
+    state.mode === "heading" ||
+    Math.abs(normalize(state.heading)) > NORTH_TOLERANCE
+  );
+}
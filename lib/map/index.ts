@@ -0,0 +1,11 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { MapViewStore } from "./MapViewStore";
+
+export * from "./camera";
+export * from "./link";
+export { DEFAULT_MAP_VIEW, MapViewStore } from "./MapViewStore";
+export type { SavedCamera, SavedMapView } from "./MapViewStore";
+
+/** App-wide memory of the last map view. */
+export const mapViewStore = new MapViewStore({ store: AsyncStorage });
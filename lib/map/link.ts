@@ -0,0 +1,44 @@
+import { LngLat } from "@/lib/geo/bounds";
+
+/** The zoom a link without one opens at. */
+const DEFAULT_LINK_ZOOM = 14;
+const MAX_ZOOM = 20;
+
+export type MapLinkParams = {
+  lat?: string | string[];
+  lon?: string | string[];
+  z?: string | string[];
+};
+
+export type MapLinkTarget = { center: LngLat; zoom: number };
+
+const number = (value: string | string[] | undefined) => {
+  const text = Array.isArray(value) ? value[0] : value;
+  if (text === undefined || text.trim() === "") return NaN;
+  return Number(text);
+};
+
+/**
+ * Reads the query of a `hiker://map?lat=..&lon=..&z=..` link. Null when
+ * the position is missing or out of range; an odd zoom is clamped.
+ */
+export function parseMapLink({ lat, lon, z }: MapLinkParams) {
+  const latitude = number(lat);
+  const longitude = number(lon);
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+  const zoom = number(z);
+  const target: MapLinkTarget = {
+    center: [longitude, latitude],
+    zoom: Number.isFinite(zoom)
+      ? Math.min(Math.max(zoom, 0), MAX_ZOOM)
+      : DEFAULT_LINK_ZOOM,
+  };
+  return target;
+}
@@ -0,0 +1,177 @@
+import { Emitter } from "@/lib/emitter";
+import { LngLat } from "@/lib/geo/bounds";
+import { naismithHours } from "@/lib/geo/profile";
+import { MAX_ACCURACY_M } from "@/lib/tracks/TrackRecorder";
+import { LocationSample } from "@/lib/tracks/types";
+
+import {
+  NavigationRoute,
+  RoutePosition,
+  climbRemaining,
+  locateOnRoute,
+  withJunctions,
+} from "./route";
+
+/** Within this distance of the finish the hike is over. */
+const ARRIVAL_M = 30;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type NavigationProgress = {
+  position: RoutePosition;
+  /** Set once the fix strays beyond the off-route distance. */
+  offRoute: boolean;
+  /** Metres along the route to the finish. */
+  remainingM: number;
+  /** The next waypoint or the finish, in metres along the route. */
+  next: { name: string; distanceM: number };
+  /** Walking time left by Naismith's rule. */
+  remainingMs: number;
+  /** Unix time in milliseconds. */
+  eta: number;
+};
+
+export type NavigationAlert =
+  | { type: "off-route"; distanceM: number }
+  | { type: "back-on-route" }
+  | { type: "junction"; distanceM: number }
+  | { type: "arrived" };
+
+export type RouteNavigatorEvents = {
+  /** Navigation started or stopped. */
+  state: NavigationRoute | null;
+  progress: NavigationProgress;
+  /** Something the hiker should be told about without looking. */
+  alert: NavigationAlert;
+};
+
+type NavigatorOptions = {
+  /** Fixes further than this from the line are off route. */
+  offRouteM?: number;
+  /** Junctions are announced once this close. */
+  junctionM?: number;
+};
+
+/**
+ * Follows the hiker along one route at a time, turning location fixes
+ * into progress and alerts. It does not watch the location itself.
+ */
+export class RouteNavigator {
+  readonly events = new Emitter<RouteNavigatorEvents>();
+
+  private offRouteM: number;
+  private junctionM: number;
+  private active: NavigationRoute | null = null;
+  private progress: NavigationProgress | null = null;
+  private announced = new Set<number>();
+  private arrived = false;
+
+  constructor({ offRouteM = 40, junctionM = 40 }: NavigatorOptions = {}) {
+    this.offRouteM = offRouteM;
+    this.junctionM = junctionM;
+  }
+
+  get route(): NavigationRoute | null {
+    return this.active;
+  }
+
+  get current(): NavigationProgress | null {
+    return this.progress;
+  }
+
+  start(route: NavigationRoute) {
+    this.active = route;
+    this.progress = null;
+    this.announced.clear();
+    this.arrived = false;
+    this.events.emit("state", route);
+  }
+
+  /** Adds the junctions of the route, which are looked up after starting. */
+  setJunctions(junctions: LngLat[]) {
+    if (!this.active) return;
+    this.active = withJunctions(this.active, junctions);
+  }
+
+  stop() {
+    if (!this.active) return;
+    this.active = null;
+    this.progress = null;
+    this.events.emit("state", null);
+  }
+
+  /** Feeds a location fix; inaccurate ones are ignored. */
+  locate(sample: LocationSample) {
+    const route = this.active;
+    if (!route) return;
+    if (sample.accuracy !== null && sample.accuracy > MAX_ACCURACY_M) return;
+
+    const previous = this.progress;
+    const position = locateOnRoute(
+      route,
+      [sample.lng, sample.lat],
+      previous?.position ?? null
+    );
+
+    // Back on route only well inside the limit, so a fix wavering around
+    // it does not alert on every update.
+    let offRoute = previous?.offRoute ?? false;
+    if (!offRoute && position.offRouteM > this.offRouteM) {
+      offRoute = true;
+      this.events.emit("alert", {
+        type: "off-route",
+        distanceM: position.offRouteM,
+      });
+    } else if (offRoute && position.offRouteM <= this.offRouteM / 2) {
+      offRoute = false;
+      this.events.emit("alert", { type: "back-on-route" });
+    }
+
+    // Junctions close behind the announced one are not announced again;
+    // alerts every few steps would only be noise.
+    if (!offRoute) {
+      const i = route.junctionsM.findIndex(
+        (junctionM, j) =>
+          !this.announced.has(j) &&
+          junctionM >= position.alongM &&
+          junctionM - position.alongM <= this.junctionM
+      );
+      if (i >= 0) {
+        const junctionM = route.junctionsM[i];
+        route.junctionsM.forEach((other, j) => {
+          if (other >= junctionM && other - junctionM <= this.junctionM) {
+            this.announced.add(j);
+          }
+        });
+        this.events.emit("alert", {
+          type: "junction",
+          distanceM: junctionM - position.alongM,
+        });
+      }
+    }
+
+    const remainingM = Math.max(0, route.lengthM - position.alongM);
+    if (!this.arrived && remainingM <= ARRIVAL_M && !offRoute) {
+      this.arrived = true;
+      this.events.emit("alert", { type: "arrived" });
+    }
+
+    const next =
+      route.stops.find((stop) => stop.alongM > position.alongM) ??
+      route.stops[route.stops.length - 1];
+    const remainingMs =
+      naismithHours(remainingM, climbRemaining(route, position.alongM)) *
+      HOUR_MS;
+    this.progress = {
+      position,
+      offRoute,
+      remainingM,
+      next: {
+        name: next.name,
+        distanceM: Math.max(0, next.alongM - position.alongM),
+      },
+      remainingMs,
+      eta: sample.time + remainingMs,
+    };
+    this.events.emit("progress", this.progress);
+  }
+}
@@ -0,0 +1,131 @@
+import { GeoDocument } from "@/lib/formats";
+import { haversine } from "@/lib/geo/distance";
+import { LocationSample } from "@/lib/tracks/types";
+
+import { NavigationAlert, RouteNavigator } from "../RouteNavigator";
+import { navigationRoute } from "../route";
+
+const LNG = 11.7;
+const T0 = Date.UTC(2026, 6, 14, 8);
+
+// About 1.1 km due north, on the flat, with a hut halfway.
+const DOCUMENT: GeoDocument = {
+  name: "Valley path",
+  lines: [
+    {
+      name: null,
+      kind: "route",
+      segments: [
+        Array.from({ length: 11 }, (_, i) => ({
+          lng: LNG,
+          lat: 46.5 + i * 0.001,
+          alt: null,
+          time: null,
+        })),
+      ],
+    },
+  ],
+  waypoints: [
+    {
+      name: "Hut",
+      lng: LNG,
+      lat: 46.505,
+      alt: null,
+      time: null,
+      description: null,
+      symbol: null,
+    },
+  ],
+};
+
+const LENGTH_M = haversine([LNG, 46.5], [LNG, 46.51]);
+
+// About 77 m per 0.001° of longitude at this latitude.
+const fix = (
+  lat: number,
+  lngOffset = 0,
+  accuracy: number | null = 5
+): LocationSample => ({
+  lng: LNG + lngOffset,
+  lat,
+  alt: null,
+  accuracy,
+  time: T0,
+});
+
+function setup() {
+  const navigator = new RouteNavigator({ offRouteM: 40, junctionM: 40 });
+  const alerts: NavigationAlert[] = [];
+  navigator.events.on("alert", (alert) => alerts.push(alert));
+  navigator.start(navigationRoute(DOCUMENT));
+  return { navigator, alerts };
+}
+
+it("reports the distance left, the next stop and the arrival time", () => {
+  const { navigator } = setup();
+  const progress = jest.fn();
+  navigator.events.on("progress", progress);
+
+  navigator.locate(fix(46.502));
+
+  const { remainingM, next, remainingMs, eta } = progress.mock.calls[0][0];
+  expect(remainingM).toBeCloseTo(LENGTH_M * 0.8, 0);
+  expect(next.name).toBe("Hut");
+  expect(next.distanceM).toBeCloseTo(LENGTH_M * 0.3, 0);
+  // 5 km/h on the flat.
+  expect(remainingMs).toBeCloseTo((remainingM / 5000) * 3600000);
+  expect(eta).toBe(T0 + remainingMs);
+
+  navigator.locate(fix(46.506));
+  expect(navigator.current!.next.name).toBe("Finish");
+});
+
+it("alerts once when leaving the route and again when back on it", () => {
+  const { navigator, alerts } = setup();
+
+  navigator.locate(fix(46.502));
+  navigator.locate(fix(46.503, 0.0006));
+  navigator.locate(fix(46.504, 0.0007));
+  // Still outside half the limit.
+  navigator.locate(fix(46.504, 0.0004));
+  navigator.locate(fix(46.505, 0.0001));
+
+  expect(alerts.map((alert) => alert.type)).toEqual([
+    "off-route",
+    "back-on-route",
+  ]);
+  expect((alerts[0] as { distanceM: number }).distanceM).toBeGreaterThan(40);
+  expect(navigator.current!.offRoute).toBe(false);
+});
+
+it("announces junctions ahead once, and the arrival", () => {
+  const { navigator, alerts } = setup();
+  navigator.setJunctions([
+    [LNG, 46.5052],
+    [LNG, 46.5053],
+  ]);
+
+  navigator.locate(fix(46.504));
+  navigator.locate(fix(46.5049));
+  navigator.locate(fix(46.5051));
+  navigator.locate(fix(46.5099));
+
+  expect(alerts.map((alert) => alert.type)).toEqual(["junction", "arrived"]);
+  expect((alerts[0] as { distanceM: number }).distanceM).toBeCloseTo(33, 0);
+});
+
+it("ignores inaccurate fixes and stops following", () => {
+  const { navigator, alerts } = setup();
+  const state = jest.fn();
+  navigator.events.on("state", state);
+
+  navigator.locate(fix(46.505, 0.01, 200));
+  expect(navigator.current).toBeNull();
+  expect(alerts).toEqual([]);
+
+  navigator.stop();
+  navigator.locate(fix(46.505));
+  expect(state).toHaveBeenCalledWith(null);
+  expect(navigator.route).toBeNull();
+  expect(navigator.current).toBeNull();
+});
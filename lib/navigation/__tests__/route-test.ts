@@ -0,0 +1,128 @@
+import { GeoDocument, GeoWaypoint } from "@/lib/formats";
+import { LngLat } from "@/lib/geo/bounds";
+import { haversine } from "@/lib/geo/distance";
+
+import {
+  climbRemaining,
+  locateOnRoute,
+  navigationRoute,
+  withJunctions,
+} from "../route";
+
+const LNG = 11.7;
+
+// A line due north, one point every 0.001° (about 111 m), climbing 10 m
+// between points.
+const north = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    lng: LNG,
+    lat: 46.5 + i * 0.001,
+    alt: 1500 + i * 10,
+    time: null,
+  }));
+
+const waypoint = (name: string, [lng, lat]: LngLat): GeoWaypoint => ({
+  name,
+  lng,
+  lat,
+  alt: null,
+  time: null,
+  description: null,
+  symbol: null,
+});
+
+function document(
+  segments: GeoDocument["lines"][0]["segments"],
+  waypoints: GeoWaypoint[] = []
+): GeoDocument {
+  return {
+    name: "Alpe di Siusi",
+    lines: [{ name: null, kind: "route", segments }],
+    waypoints,
+  };
+}
+
+const LEG_M = haversine([LNG, 46.5], [LNG, 46.51]);
+
+describe("navigationRoute", () => {
+  it("measures the line and orders the waypoints along it", () => {
+    const route = navigationRoute(
+      document(
+        [north(11)],
+        [
+          waypoint("Hut", [LNG + 0.0003, 46.507]),
+          waypoint("Spring", [LNG - 0.0002, 46.503]),
+          // About 500 m east of the line.
+          waypoint("Lake", [LNG + 0.0065, 46.505]),
+        ]
+      )
+    );
+
+    expect(route.name).toBe("Alpe di Siusi");
+    expect(route.lengthM).toBeCloseTo(LEG_M);
+    expect(route.alongM[10]).toBeCloseTo(LEG_M);
+    expect(route.stops.map((stop) => stop.name)).toEqual([
+      "Spring",
+      "Hut",
+      "Finish",
+    ]);
+    expect(route.stops[0].alongM).toBeCloseTo(LEG_M * 0.3, 0);
+  });
+
+  it("adds up the climb with smoothed altitudes", () => {
+    const route = navigationRoute(document([north(11)]));
+
+    // The smoothing window trims a little off either end.
+    const climb = route.climbM[10];
+    expect(climb).toBeGreaterThan(80);
+    expect(climb).toBeLessThanOrEqual(100);
+    expect(climbRemaining(route, 0)).toBeCloseTo(climb);
+    expect(climbRemaining(route, route.lengthM)).toBeCloseTo(0);
+    expect(climbRemaining(route, route.lengthM / 2)).toBeCloseTo(climb / 2, 0);
+  });
+
+  it("climbs nothing without altitudes", () => {
+    const flat = north(3).map((p) => ({ ...p, alt: null }));
+    const route = navigationRoute(document([flat]));
+
+    expect(route.climbM).toEqual([0, 0, 0]);
+  });
+});
+
+describe("locateOnRoute", () => {
+  // Up the valley and back down the same path.
+  const outAndBack = navigationRoute(
+    document([north(11), north(11).reverse().slice(1)])
+  );
+  const fix: LngLat = [LNG + 0.0002, 46.502];
+
+  it("measures the distance from the line", () => {
+    const position = locateOnRoute(outAndBack, fix);
+
+    expect(position.alongM).toBeCloseTo(LEG_M * 0.2, 0);
+    expect(position.offRouteM).toBeCloseTo(haversine(fix, [LNG, 46.502]), 1);
+  });
+
+  it("stays on the current leg where the route doubles back", () => {
+    const previous = { alongM: LEG_M * 1.7, offRouteM: 0 };
+
+    const position = locateOnRoute(outAndBack, fix, previous);
+
+    expect(position.alongM).toBeCloseTo(LEG_M * 1.8, 0);
+  });
+});
+
+describe("withJunctions", () => {
+  it("keeps junctions on the line, in order", () => {
+    const route = withJunctions(navigationRoute(document([north(11)])), [
+      [LNG, 46.508],
+      // About 150 m off the line.
+      [LNG + 0.002, 46.505],
+      [LNG + 0.0001, 46.502],
+    ]);
+
+    expect(route.junctionsM).toHaveLength(2);
+    expect(route.junctionsM[0]).toBeCloseTo(LEG_M * 0.2, 0);
+    expect(route.junctionsM[1]).toBeCloseTo(LEG_M * 0.8, 0);
+  });
+});
@@ -0,0 +1,41 @@
+import * as Haptics from "expo-haptics";
+import * as Speech from "expo-speech";
+
+import { formatDistance } from "@/lib/tracks/format";
+
+import { NavigationAlert } from "./RouteNavigator";
+
+/** What is said aloud for an alert. */
+export function alertMessage(alert: NavigationAlert): string {
+  switch (alert.type) {
+    case "off-route":
+      return `You are ${formatDistance(alert.distanceM)} off the route.`;
+    case "back-on-route":
+      return "Back on the route.";
+    case "junction":
+      return `Junction in ${formatDistance(alert.distanceM)}.`;
+    case "arrived":
+      return "You have arrived.";
+  }
+}
+
+const HAPTICS: Record<NavigationAlert["type"], () => Promise<void>> = {
+  "off-route": () =>
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning),
+  "back-on-route": () =>
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success),
+  junction: () => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy),
+  arrived: () =>
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success),
+};
+
+/** Buzzes and speaks an alert, so the phone can stay in the pocket. */
+export function announce(alert: NavigationAlert) {
+  HAPTICS[alert.type]().catch((error) =>
+    console.warn("Could not play haptic feedback:", error)
+  );
+  // Cuts off a stale message; the new one is spoken even if that fails.
+  Speech.stop()
+    .catch((error) => console.warn("Could not stop speech:", error))
+    .then(() => Speech.speak(alertMessage(alert)));
+}
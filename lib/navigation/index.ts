@@ -0,0 +1,13 @@
+import { RouteNavigator } from "./RouteNavigator";
+
+export * from "./route";
+export { RouteNavigator } from "./RouteNavigator";
+export type {
+  NavigationAlert,
+  NavigationProgress,
+  RouteNavigatorEvents,
+} from "./RouteNavigator";
+export { alertMessage, announce } from "./feedback";
+
+/** App-wide navigator; one route is followed at a time. */
+export const routeNavigator = new RouteNavigator();
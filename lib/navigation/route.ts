@@ -0,0 +1,162 @@
+import { GeoDocument, routeLine } from "@/lib/formats";
+import { LngLat } from "@/lib/geo/bounds";
+import { haversine, projectOnSegment } from "@/lib/geo/distance";
+import { elevationProfile } from "@/lib/geo/profile";
+
+/** Waypoints further than this from the line are not on the route. */
+const STOP_MAX_M = 50;
+/** Junctions further than this from the line are on other trails. */
+const JUNCTION_MAX_M = 15;
+/**
+ * A fix is matched near the previous position unless the line comes this
+ * much closer elsewhere; keeps loops and out-and-back routes on the right
+ * leg where they pass the same spot twice.
+ */
+const MATCH_TOLERANCE_M = 25;
+/** How far back and ahead of the previous position counts as near. */
+const MATCH_BEHIND_M = 100;
+const MATCH_AHEAD_M = 500;
+
+/** A named point the route passes, such as a hut or the finish. */
+export type RouteStop = {
+  name: string;
+  /** Metres from the start of the route. */
+  alongM: number;
+};
+
+/** A line to follow, measured for live navigation. */
+export type NavigationRoute = {
+  name: string;
+  points: LngLat[];
+  /** Metres from the start to each point. */
+  alongM: number[];
+  /** Metres climbed from the start to each point; zero without altitudes. */
+  climbM: number[];
+  lengthM: number;
+  /** Waypoints by the line in the order they are passed, then the finish. */
+  stops: RouteStop[];
+  /** Metres from the start to each trail junction on the line, ascending. */
+  junctionsM: number[];
+};
+
+/** Where a fix lies relative to the route. */
+export type RoutePosition = {
+  /** Metres from the start to the closest point of the route. */
+  alongM: number;
+  /** Metres from the fix to that point. */
+  offRouteM: number;
+};
+
+// The closest point of the line, preferring those near `previous`.
+function matchLine(
+  points: LngLat[],
+  alongM: number[],
+  position: LngLat,
+  previous: RoutePosition | null
+): RoutePosition {
+  let best: RoutePosition | null = null;
+  let near: RoutePosition | null = null;
+  for (let i = 1; i < points.length; i++) {
+    const { t, distanceM } = projectOnSegment(
+      position,
+      points[i - 1],
+      points[i]
+    );
+    const match = {
+      alongM: alongM[i - 1] + t * (alongM[i] - alongM[i - 1]),
+      offRouteM: distanceM,
+    };
+    if (!best || match.offRouteM < best.offRouteM) best = match;
+    if (
+      previous &&
+      alongM[i] >= previous.alongM - MATCH_BEHIND_M &&
+      alongM[i - 1] <= previous.alongM + MATCH_AHEAD_M &&
+      (!near || match.offRouteM < near.offRouteM)
+    ) {
+      near = match;
+    }
+  }
+  if (near && best && near.offRouteM <= best.offRouteM + MATCH_TOLERANCE_M) {
+    return near;
+  }
+  return best ?? { alongM: 0, offRouteM: haversine(points[0], position) };
+}
+
+/**
+ * Joins the lines of a document into the route to follow, with its
+ * waypoints as stops. Throws a `GeoFileError` without a line to follow.
+ */
+export function navigationRoute(
+  document: GeoDocument,
+  fallbackName?: string
+): NavigationRoute {
+  const { name, points } = routeLine(document, fallbackName);
+  const alts = document.lines.flatMap((line) =>
+    line.segments.flatMap((segment) => segment.map((p) => p.alt))
+  );
+
+  const alongM = [0];
+  for (let i = 1; i < points.length; i++) {
+    alongM.push(alongM[i - 1] + haversine(points[i - 1], points[i]));
+  }
+  const lengthM = alongM[alongM.length - 1];
+
+  // Smoothed altitudes, so GPS jitter in recorded tracks does not add up.
+  const { samples } = elevationProfile([
+    points.map(([lng, lat], i) => ({ lng, lat, alt: alts[i] })),
+  ]);
+  const climbM = [0];
+  for (let i = 1; i < points.length; i++) {
+    const rise = samples.length > 0 ? samples[i].alt - samples[i - 1].alt : 0;
+    climbM.push(climbM[i - 1] + Math.max(0, rise));
+  }
+
+  const stops: RouteStop[] = [];
+  for (const waypoint of document.waypoints) {
+    const match = matchLine(points, alongM, [waypoint.lng, waypoint.lat], null);
+    if (match.offRouteM <= STOP_MAX_M) {
+      stops.push({ name: waypoint.name ?? "Waypoint", alongM: match.alongM });
+    }
+  }
+  stops.sort((a, b) => a.alongM - b.alongM);
+  stops.push({ name: "Finish", alongM: lengthM });
+
+  return { name, points, alongM, climbM, lengthM, stops, junctionsM: [] };
+}
+
+/** The route with the junctions that lie on it. */
+export function withJunctions(
+  route: NavigationRoute,
+  junctions: LngLat[]
+): NavigationRoute {
+  const junctionsM = junctions
+    .map((junction) => matchLine(route.points, route.alongM, junction, null))
+    .filter((match) => match.offRouteM <= JUNCTION_MAX_M)
+    .map((match) => match.alongM)
+    .sort((a, b) => a - b);
+  return { ...route, junctionsM };
+}
+
+/**
+ * Matches a fix to the route. Passing the previous position keeps the
+ * match on the current leg where the route passes a spot more than once.
+ */
+export function locateOnRoute(
+  route: NavigationRoute,
+  position: LngLat,
+  previous: RoutePosition | null = null
+): RoutePosition {
+  return matchLine(route.points, route.alongM, position, previous);
+}
+
+/** Metres still to climb from `alongM` to the finish. */
+export function climbRemaining(route: NavigationRoute, alongM: number) {
+  const { alongM: distances, climbM } = route;
+  let i = 0;
+  while (i < distances.length - 1 && distances[i + 1] <= alongM) i++;
+  const next = Math.min(i + 1, distances.length - 1);
+  const span = distances[next] - distances[i];
+  const t = span > 0 ? (alongM - distances[i]) / span : 0;
+  const climbed = climbM[i] + t * (climbM[next] - climbM[i]);
+  return climbM[climbM.length - 1] - climbed;
+}
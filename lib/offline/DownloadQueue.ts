@@ -0,0 +1,444 @@
+import { Emitter, Unsubscribe } from "@/lib/emitter";
+import { KeyValueStore, readJSON, writeJSON } from "@/lib/storage";
+
+import { groupParts } from "./groups";
+import { OfflineRegionService } from "./OfflineRegionService";
+import {
+  CreateGroupInput,
+  CreateRegionInput,
+  DownloadStates,
+  OfflineRegion,
+  PackGroup,
+} from "./types";
+
+const QUEUE_KEY = "offline.downloadQueue";
+
+export type DownloadStatus =
+  | "queued"
+  | "active"
+  | "paused"
+  | "retrying"
+  | "failed";
+
+export type Download = {
+  /** Pack id, reserved before the pack is created. */
+  id: string;
+  displayName: string;
+  status: DownloadStatus;
+  percentage: number;
+  /** Failures since the download last made progress. */
+  attempts: number;
+  /** When a "retrying" download is started again. */
+  retryAt: number | null;
+  /** Latest error, kept while retrying and once failed. */
+  error: string | null;
+  /** What to create once the download starts; null once the pack exists. */
+  pending: { input: CreateRegionInput; group?: PackGroup } | null;
+  /** Only downloads while the phone is on Wi-Fi. */
+  wifiOnly: boolean;
+};
+
+export type DownloadQueueEvents = {
+  change: Download[];
+  /** A pack finished; `remaining` counts every download still queued. */
+  complete: { id: string; displayName: string; remaining: number };
+  /** A download gave up; it stays listed so it can be retried. */
+  failed: { id: string; displayName: string; message: string };
+};
+
+export type RetryPolicy = {
+  /** Network failures tolerated before a download is marked failed. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY: RetryPolicy = {
+  maxRetries: 5,
+  baseDelayMs: 5000,
+  maxDelayMs: 5 * 60 * 1000,
+};
+
+/** Reports whether the phone is on Wi-Fi, for Wi-Fi-only downloads. */
+export type NetworkSource = {
+  isWifi(): Promise<boolean>;
+  onChange(listener: (isWifi: boolean) => void): Unsubscribe;
+};
+
+type QueueOptions = {
+  service: OfflineRegionService;
+  store: KeyValueStore;
+  states: DownloadStates;
+  /** Without one, every network counts as Wi-Fi. */
+  network?: NetworkSource;
+  /** Packs downloading at the same time. */
+  concurrency?: number;
+  retry?: RetryPolicy;
+};
+
+// MapLibre reports the platform's own messages, e.g. "The Internet
+// connection appears to be offline." or "Unable to resolve host".
+const NETWORK_ERROR =
+  /network|internet|offline|connect|timed? ?out|unreachable|resolve host|socket/i;
+
+export function isNetworkError(message: string) {
+  return NETWORK_ERROR.test(message);
+}
+
+/** Exponential backoff: the base delay, doubled for every further attempt. */
+export function retryDelay(attempt: number, policy = DEFAULT_RETRY) {
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+}
+
+function newDownload(
+  id: string,
+  displayName: string,
+  percentage = 0
+): Download {
+  return {
+    id,
+    displayName,
+    status: "queued",
+    percentage,
+    attempts: 0,
+    retryAt: null,
+    error: null,
+    pending: null,
+    wifiOnly: false,
+  };
+}
+
+/**
+ * Starts offline packs a few at a time, and lets each be paused, resumed
+ * or cancelled. The queue is saved so packs left incomplete when the app
+ * was killed carry on at the next start, and network failures are retried
+ * with backoff instead of abandoning the pack half-downloaded.
+ */
+export class DownloadQueue {
+  readonly events = new Emitter<DownloadQueueEvents>();
+
+  private service: OfflineRegionService;
+  private store: KeyValueStore;
+  private states: DownloadStates;
+  private network?: NetworkSource;
+  private onWifi = true;
+  private concurrency: number;
+  private retry: RetryPolicy;
+  private downloads: Download[] = [];
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private restoring: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor({
+    service,
+    store,
+    states,
+    network,
+    concurrency = 2,
+    retry = DEFAULT_RETRY,
+  }: QueueOptions) {
+    this.service = service;
+    this.store = store;
+    this.states = states;
+    this.network = network;
+    this.concurrency = concurrency;
+    this.retry = retry;
+
+    service.events.on("progress", ({ id, status }) => {
+      if (!this.find(id) || status.state === this.states.Complete) return;
+      this.patch(id, { percentage: status.percentage, attempts: 0 });
+      this.events.emit("change", this.downloads);
+    });
+    service.events.on("complete", ({ id, displayName }) => {
+      if (!this.find(id)) return;
+      this.remove(id);
+      this.events.emit("complete", {
+        id,
+        displayName,
+        remaining: this.downloads.length,
+      });
+      this.update();
+    });
+    service.events.on("error", ({ id, message }) => {
+      if (this.find(id)?.status === "active") this.fail(id, message);
+    });
+    // Packs deleted from the regions list stop downloading too.
+    service.events.on("deleted", ({ ids }) => {
+      const queued = ids.filter((id) => this.find(id));
+      if (queued.length === 0) return;
+      queued.forEach((id) => {
+        this.clearTimer(id);
+        this.remove(id);
+      });
+      this.update();
+    });
+  }
+
+  list(): Download[] {
+    return this.downloads;
+  }
+
+  /**
+   * Loads the saved queue and queues every other pack the native side still
+   * reports as incomplete. Runs once; later calls wait for the first.
+   */
+  restore(): Promise<void> {
+    if (!this.restoring) {
+      this.restoring = this.load().catch((error) => {
+        this.restoring = null;
+        throw error;
+      });
+    }
+    return this.restoring;
+  }
+
+  async enqueue(input: CreateRegionInput, group?: PackGroup): Promise<string> {
+    await this.restore();
+    const id = this.add(input, group);
+    await this.update();
+    return id;
+  }
+
+  /** Queues one pack per box, grouped like `OfflineRegionService.createGroup`. */
+  async enqueueGroup(input: CreateGroupInput): Promise<string[]> {
+    await this.restore();
+    const ids = groupParts(input, `group-${Date.now()}`).map((part) =>
+      this.add(part.input, part.group)
+    );
+    await this.update();
+    return ids;
+  }
+
+  /**
+   * Downloads fresh copies of complete packs' tiles. The old tiles keep
+   * working offline until the new ones arrive.
+   */
+  async refresh(
+    regions: Pick<OfflineRegion, "id" | "displayName">[],
+    { wifiOnly = false }: { wifiOnly?: boolean } = {}
+  ): Promise<void> {
+    await this.restore();
+    for (const { id, displayName } of regions) {
+      if (this.find(id)) continue;
+      await this.service.invalidate(id);
+      this.downloads = [
+        ...this.downloads,
+        { ...newDownload(id, displayName), wifiOnly },
+      ];
+    }
+    await this.update();
+  }
+
+  async pause(id: string): Promise<void> {
+    await this.restore();
+    const download = this.find(id);
+    if (!download || download.status === "paused") return;
+    this.clearTimer(id);
+    this.patch(id, { status: "paused", retryAt: null });
+    await this.update();
+    if (download.status === "active" && !download.pending) {
+      await this.service.pause(id);
+    }
+  }
+
+  /** Resumes a paused download, or retries a failed one straight away. */
+  async resume(id: string): Promise<void> {
+    await this.restore();
+    const download = this.find(id);
+    if (!download || download.status === "active") return;
+    this.clearTimer(id);
+    this.patch(id, {
+      status: "queued",
+      retryAt: null,
+      ...(download.status === "failed" && { attempts: 0, error: null }),
+    });
+    await this.update();
+  }
+
+  /** Stops a download and deletes whatever part of the pack was saved. */
+  async cancel(id: string): Promise<void> {
+    await this.restore();
+    const download = this.find(id);
+    if (!download) return;
+    this.clearTimer(id);
+    this.remove(id);
+    await this.update();
+    // A pack still being created is deleted by `start` once it exists.
+    if (!download.pending) await this.service.delete(id);
+  }
+
+  private async load() {
+    if (this.network) {
+      this.onWifi = await this.network.isWifi();
+      this.network.onChange((isWifi) => this.handleNetwork(isWifi));
+    }
+    const [saved, regions] = await Promise.all([
+      readJSON<Download[]>(this.store, QUEUE_KEY, []),
+      this.service.list(),
+    ]);
+    const packs = new Map(regions.map((region) => [region.id, region]));
+    const incomplete = (region: OfflineRegion | undefined) =>
+      !!region?.status && region.status.state !== this.states.Complete;
+
+    const restored: Download[] = [];
+    for (const download of saved) {
+      const pack = packs.get(download.id);
+      // Packs deleted or finished while the app was closed drop out.
+      if (!download.pending && !incomplete(pack)) continue;
+      restored.push({
+        ...download,
+        status:
+          download.status === "paused" || download.status === "failed"
+            ? download.status
+            : "queued",
+        retryAt: null,
+        percentage: pack?.status?.percentage ?? download.percentage,
+        // The app may have been killed just after creating the pack.
+        pending: pack ? null : download.pending,
+      });
+    }
+    const known = new Set(restored.map((download) => download.id));
+    for (const region of regions) {
+      if (incomplete(region) && !known.has(region.id)) {
+        restored.push(
+          newDownload(region.id, region.displayName, region.status?.percentage)
+        );
+      }
+    }
+
+    const added = this.downloads.filter((download) => !known.has(download.id));
+    this.downloads = [...restored, ...added];
+    await this.update();
+  }
+
+  private add(input: CreateRegionInput, group?: PackGroup) {
+    const id = this.service.newPackId();
+    this.downloads = [
+      ...this.downloads,
+      { ...newDownload(id, input.displayName), pending: { input, group } },
+    ];
+    return id;
+  }
+
+  // Wi-Fi-only downloads running when the phone leaves Wi-Fi go back to
+  // waiting in the queue.
+  private handleNetwork(isWifi: boolean) {
+    this.onWifi = isWifi;
+    if (!isWifi) {
+      for (const download of this.downloads) {
+        if (download.status !== "active" || !download.wifiOnly) continue;
+        this.patch(download.id, { status: "queued" });
+        this.service
+          .pause(download.id)
+          .catch((error) =>
+            console.warn(`Could not pause pack ${download.id}:`, error)
+          );
+      }
+    }
+    this.update();
+  }
+
+  // Starts queued downloads while there are free slots, then saves.
+  private update(): Promise<void> {
+    const active = this.downloads.filter((d) => d.status === "active").length;
+    this.downloads
+      .filter(
+        (download) =>
+          download.status === "queued" && (this.onWifi || !download.wifiOnly)
+      )
+      .slice(0, Math.max(0, this.concurrency - active))
+      .forEach((download) => this.start(download));
+
+    this.events.emit("change", this.downloads);
+    const downloads = this.downloads;
+    this.saving = this.saving
+      .then(() => writeJSON(this.store, QUEUE_KEY, downloads))
+      .catch((error) => console.error("Could not save downloads:", error));
+    return this.saving;
+  }
+
+  private async start({ id, pending }: Download) {
+    this.patch(id, { status: "active", error: null });
+    try {
+      if (pending) {
+        await this.service.create(pending.input, pending.group, id);
+        this.patch(id, { pending: null });
+      } else {
+        await this.service.resume(id);
+      }
+      // Cancelled or paused while the pack was being created or resumed.
+      const current = this.find(id);
+      if (!current) {
+        await this.service.delete(id);
+      } else if (current.status === "paused") {
+        await this.service.pause(id);
+      }
+      await this.update();
+    } catch (error: any) {
+      console.error(`Error starting download ${id}:`, error);
+      if (this.find(id)?.status === "active") this.fail(id, error.message);
+    }
+  }
+
+  private fail(id: string, message: string) {
+    const download = this.find(id)!;
+    const attempts = download.attempts + 1;
+    if (isNetworkError(message) && attempts <= this.retry.maxRetries) {
+      const delay = retryDelay(attempts, this.retry);
+      this.patch(id, {
+        status: "retrying",
+        attempts,
+        error: message,
+        retryAt: Date.now() + delay,
+      });
+      this.clearTimer(id);
+      this.timers.set(
+        id,
+        setTimeout(() => {
+          this.timers.delete(id);
+          if (this.find(id)?.status !== "retrying") return;
+          this.patch(id, { status: "queued", retryAt: null });
+          this.update();
+        }, delay)
+      );
+    } else {
+      this.patch(id, {
+        status: "failed",
+        attempts,
+        error: message,
+        retryAt: null,
+      });
+      this.events.emit("failed", {
+        id,
+        displayName: download.displayName,
+        message,
+      });
+    }
+    // Stop the native download until it is retried.
+    if (!download.pending) {
+      this.service
+        .pause(id)
+        .catch((error) => console.warn(`Could not pause pack ${id}:`, error));
+    }
+    this.update();
+  }
+
+  private find(id: string) {
+    return this.downloads.find((download) => download.id === id);
+  }
+
+  private patch(id: string, changes: Partial<Download>) {
+    this.downloads = this.downloads.map((download) =>
+      download.id === id ? { ...download, ...changes } : download
+    );
+  }
+
+  private remove(id: string) {
+    this.downloads = this.downloads.filter((download) => download.id !== id);
+  }
+
+  private clearTimer(id: string) {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+  }
+}
@@ -0,0 +1,325 @@
+import { Emitter } from "@/lib/emitter";
+import { KeyValueStore, readJSON, writeJSON } from "@/lib/storage";
+
+import { groupParts, normalizeTags } from "./groups";
+import {
+  createMetadata,
+  decodeBounds,
+  decodeMetadata,
+  encodeMetadata,
+} from "./metadata";
+import {
+  CreateGroupInput,
+  CreateRegionInput,
+  DownloadStates,
+  OfflineManagerLike,
+  OfflinePackError,
+  OfflinePackLike,
+  OfflinePackStatus,
+  OfflineRegion,
+  PackGroup,
+  RegionDetails,
+} from "./types";
+
+const NAMES_KEY = "offline.regionNames";
+const DETAILS_KEY = "offline.regionDetails";
+const UPDATED_KEY = "offline.updatedAt";
+
+export type OfflineRegionEvents = {
+  progress: { id: string; displayName: string; status: OfflinePackStatus };
+  complete: { id: string; displayName: string };
+  error: { id: string; displayName: string; message: string };
+  deleted: { ids: string[] };
+  /** The set of packs or their names changed; lists should refetch. */
+  change: undefined;
+};
+
+type ServiceOptions = {
+  manager: OfflineManagerLike;
+  store: KeyValueStore;
+  states: DownloadStates;
+};
+
+/**
+ * Typed wrapper around MapLibre's OfflineManager. Screens talk to this
+ * instead of the native module, and observe downloads through `events`.
+ */
+export class OfflineRegionService {
+  readonly events = new Emitter<OfflineRegionEvents>();
+
+  private manager: OfflineManagerLike;
+  private store: KeyValueStore;
+  private states: DownloadStates;
+  private displayNames = new Map<string, string>();
+  private lastId = 0;
+  // Serialises writes to the completion times; a corridor's packs can
+  // finish within moments of each other.
+  private updates: Promise<void> = Promise.resolve();
+
+  constructor({ manager, store, states }: ServiceOptions) {
+    this.manager = manager;
+    this.store = store;
+    this.states = states;
+    this.handleProgress = this.handleProgress.bind(this);
+    this.handleError = this.handleError.bind(this);
+  }
+
+  async create(
+    input: CreateRegionInput,
+    group?: PackGroup,
+    id = this.newPackId()
+  ): Promise<string> {
+    this.displayNames.set(id, input.displayName);
+
+    await this.manager.createPack(
+      {
+        name: id,
+        styleURL: input.styleURL,
+        bounds: input.bounds,
+        minZoom: input.minZoom,
+        maxZoom: input.maxZoom,
+        metadata: encodeMetadata(
+          createMetadata(
+            input.displayName,
+            input.styleId,
+            input.overlays,
+            group
+          )
+        ),
+      },
+      this.handleProgress,
+      this.handleError
+    );
+    this.events.emit("change", undefined);
+    return id;
+  }
+
+  /**
+   * Creates one pack per box, all tagged with the same group so the list can
+   * present them as a single region.
+   */
+  async createGroup(input: CreateGroupInput): Promise<string[]> {
+    const ids: string[] = [];
+    for (const part of groupParts(input, `group-${Date.now()}`)) {
+      ids.push(await this.create(part.input, part.group));
+    }
+    return ids;
+  }
+
+  async list(): Promise<OfflineRegion[]> {
+    const [packs, renamed, updated, details] = await Promise.all([
+      this.manager.getPacks(),
+      this.readNames(),
+      this.readUpdated(),
+      this.readDetails(),
+    ]);
+    const named = packs.filter(
+      (pack): pack is OfflinePackLike & { name: string } => Boolean(pack.name)
+    );
+    return Promise.all(
+      named.map(async (pack) => {
+        const decoded = decodeMetadata(pack);
+        if (decoded.status === "corrupt") {
+          console.warn(`Corrupt metadata on ${pack.name}: ${decoded.reason}`);
+        }
+        const displayName =
+          renamed[pack.name] ?? decoded.metadata?.displayName ?? pack.name;
+        this.displayNames.set(pack.name, displayName);
+        const group = decoded.metadata?.group;
+        const { notes = "", tags = [] } = details[group?.id ?? pack.name] ?? {};
+        return {
+          id: pack.name,
+          displayName,
+          bounds: decodeBounds(pack.bounds),
+          // A renamed group keeps its name in the same index, keyed by
+          // group id; the list reads it from here like any other group name.
+          metadata:
+            group && renamed[group.id]
+              ? {
+                  ...decoded.metadata!,
+                  group: { ...group, name: renamed[group.id] },
+                }
+              : decoded.metadata,
+          metadataStatus: decoded.status,
+          metadataIssue:
+            decoded.status === "corrupt" ? decoded.reason : undefined,
+          status: await this.readStatus(pack),
+          updatedAt:
+            updated[pack.name] ?? decoded.metadata?.downloadedAt ?? null,
+          notes,
+          tags,
+        };
+      })
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.deleteMany([id]);
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    const [renamed, details] = await Promise.all([
+      this.readNames(),
+      this.readDetails(),
+    ]);
+    const groupIds = new Set<string>();
+    for (const id of ids) {
+      const pack = await this.manager.getPack(id);
+      const group = pack && decodeMetadata(pack).metadata?.group;
+      if (group) {
+        groupIds.add(group.id);
+      }
+      this.manager.unsubscribe(id);
+      await this.manager.deletePack(id);
+      delete renamed[id];
+      delete details[id];
+      this.displayNames.delete(id);
+    }
+    // A group's name and details go with its last pack.
+    if (groupIds.size > 0) {
+      for (const pack of await this.manager.getPacks()) {
+        const group = decodeMetadata(pack).metadata?.group;
+        if (group) {
+          groupIds.delete(group.id);
+        }
+      }
+      for (const groupId of groupIds) {
+        delete renamed[groupId];
+        delete details[groupId];
+      }
+    }
+    await writeJSON(this.store, NAMES_KEY, renamed);
+    await writeJSON(this.store, DETAILS_KEY, details);
+    await this.recordUpdates((updated) =>
+      ids.forEach((id) => delete updated[id])
+    );
+    this.events.emit("deleted", { ids });
+    this.events.emit("change", undefined);
+  }
+
+  // Native pack metadata is immutable, so renames are kept in a local
+  // index keyed by pack or group id and applied on top of it in `list`.
+  async rename(id: string, displayName: string): Promise<void> {
+    const trimmed = displayName.trim();
+    if (!trimmed) {
+      throw new Error("Region name cannot be empty.");
+    }
+    const renamed = await this.readNames();
+    renamed[id] = trimmed;
+    await writeJSON(this.store, NAMES_KEY, renamed);
+    this.displayNames.set(id, trimmed);
+    this.events.emit("change", undefined);
+  }
+
+  /**
+   * Saves notes and tags for a region: a pack id, or a group id for every
+   * pack of a corridor. Tags are trimmed and de-duplicated.
+   */
+  async updateDetails(
+    key: string,
+    { notes, tags }: Partial<RegionDetails>
+  ): Promise<void> {
+    const details = await this.readDetails();
+    const current = details[key] ?? { notes: "", tags: [] };
+    details[key] = {
+      notes: notes?.trim() ?? current.notes,
+      tags: tags ? normalizeTags(tags) : current.tags,
+    };
+    await writeJSON(this.store, DETAILS_KEY, details);
+    this.events.emit("change", undefined);
+  }
+
+  async resume(id: string): Promise<void> {
+    const pack = await this.manager.getPack(id);
+    if (!pack) {
+      throw new Error(`Offline pack ${id} does not exist.`);
+    }
+    await this.manager.subscribe(id, this.handleProgress, this.handleError);
+    await pack.resume();
+  }
+
+  /**
+   * Expires a pack's tiles without deleting them, so they keep working
+   * offline until `resume` downloads fresh copies.
+   */
+  async invalidate(id: string): Promise<void> {
+    await this.manager.invalidatePack(id);
+  }
+
+  async pause(id: string): Promise<void> {
+    const pack = await this.manager.getPack(id);
+    if (!pack) {
+      throw new Error(`Offline pack ${id} does not exist.`);
+    }
+    await pack.pause();
+  }
+
+  // Pack ids are timestamps; bump by a millisecond when creating several
+  // packs at once so they stay unique.
+  newPackId() {
+    this.lastId = Math.max(Date.now(), this.lastId + 1);
+    return `offline-pack-${this.lastId}`;
+  }
+
+  private async readStatus(
+    pack: OfflinePackLike
+  ): Promise<OfflinePackStatus | null> {
+    try {
+      return await pack.status();
+    } catch (error) {
+      console.warn(`Could not read status of pack ${pack.name}:`, error);
+      return null;
+    }
+  }
+
+  private async readNames(): Promise<Record<string, string>> {
+    return readJSON<Record<string, string>>(this.store, NAMES_KEY, {});
+  }
+
+  private readDetails(): Promise<Record<string, RegionDetails>> {
+    return readJSON<Record<string, RegionDetails>>(this.store, DETAILS_KEY, {});
+  }
+
+  private readUpdated(): Promise<Record<string, number>> {
+    return readJSON<Record<string, number>>(this.store, UPDATED_KEY, {});
+  }
+
+  private recordUpdates(update: (updated: Record<string, number>) => void) {
+    this.updates = this.updates
+      .then(async () => {
+        const updated = await this.readUpdated();
+        update(updated);
+        await writeJSON(this.store, UPDATED_KEY, updated);
+      })
+      .catch((error) => console.error("Could not save pack updates:", error));
+    return this.updates;
+  }
+
+  private displayNameFor(id: string) {
+    return this.displayNames.get(id) ?? id;
+  }
+
+  private handleProgress(pack: OfflinePackLike, status: OfflinePackStatus) {
+    const id = pack.name ?? status.name;
+    const displayName = this.displayNameFor(id);
+    this.events.emit("progress", { id, displayName, status });
+
+    if (status.state === this.states.Complete) {
+      this.events.emit("complete", { id, displayName });
+      const completedAt = Date.now();
+      // Lists refetch once the completion time is saved.
+      this.recordUpdates((updated) => {
+        updated[id] = completedAt;
+      }).then(() => this.events.emit("change", undefined));
+    }
+  }
+
+  private handleError(pack: OfflinePackLike, err: OfflinePackError) {
+    const id = pack.name ?? err.name;
+    this.events.emit("error", {
+      id,
+      displayName: this.displayNameFor(id),
+      message: err.message,
+    });
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  CreatePackOptions,
+  ErrorListener,
+  OfflineManagerLike,
+  OfflinePackLike,
+  OfflinePackStatus,
+  ProgressListener,
+} from "../types";
+
+export const STATES = { Inactive: 0, Active: 1, Complete: 2 };
+
+export type FakePack = OfflinePackLike & {
+  name: string;
+  options: CreatePackOptions;
+  state: number;
+  percentage: number;
+  /** Overrides for the counters reported by `status()`. */
+  stats: Partial<OfflinePackStatus>;
+  resume: jest.Mock;
+  pause: jest.Mock;
+};
+
+/**
+ * In-memory stand-in for MapLibre's OfflineManager. Tests drive downloads
+ * with `emitProgress` / `emitError` instead of the native event emitter.
+ */
+export function createFakeOfflineManager() {
+  const packs = new Map<string, FakePack>();
+  const invalidated = new Set<string>();
+  const listeners = new Map<
+    string,
+    { progress: ProgressListener; error: ErrorListener }
+  >();
+
+  const status = (pack: FakePack): OfflinePackStatus => ({
+    name: pack.name,
+    state: pack.state,
+    percentage: pack.percentage,
+    completedResourceCount: 0,
+    completedResourceSize: 0,
+    completedTileCount: 0,
+    completedTileSize: 0,
+    requiredResourceCount: 0,
+    ...pack.stats,
+  });
+
+  const manager: OfflineManagerLike = {
+    async createPack(options, progress, error) {
+      if (packs.has(options.name)) {
+        throw new Error(
+          `Offline pack with name ${options.name} already exists.`
+        );
+      }
+      const pack: FakePack = {
+        name: options.name,
+        options,
+        state: STATES.Active,
+        percentage: 0,
+        stats: {},
+        bounds: options.bounds,
+        metadata: { ...options.metadata, name: options.name },
+        status: async () => status(pack),
+        resume: jest.fn(async () => {
+          pack.state = STATES.Active;
+        }),
+        pause: jest.fn(async () => {
+          pack.state = STATES.Inactive;
+        }),
+      };
+      packs.set(options.name, pack);
+      listeners.set(options.name, { progress, error });
+    },
+    async getPacks() {
+      return [...packs.values()];
+    },
+    async getPack(name) {
+      return packs.get(name);
+    },
+    async deletePack(name) {
+      packs.delete(name);
+    },
+    async invalidatePack(name) {
+      if (!packs.has(name)) {
+        throw new Error(`Offline pack with name ${name} does not exist.`);
+      }
+      invalidated.add(name);
+    },
+    async subscribe(name, progress, error) {
+      listeners.set(name, { progress, error });
+    },
+    unsubscribe(name) {
+      listeners.delete(name);
+    },
+  };
+
+  return {
+    manager,
+    packs,
+    listeners,
+    invalidated,
+    emitProgress(name: string, percentage: number, state = STATES.Active) {
+      const pack = packs.get(name)!;
+      pack.state = state;
+      pack.percentage = percentage;
+      listeners.get(name)?.progress(pack, status(pack));
+    },
+    emitError(name: string, message: string) {
+      const pack = packs.get(name)!;
+      listeners.get(name)?.error(pack, { name, message });
+    },
+  };
+}
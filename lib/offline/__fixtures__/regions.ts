@@ -0,0 +1,55 @@
+import { Bounds, OfflinePackStatus, OfflineRegion, PackGroup } from "../types";
+
+/** Builds a listed region; `sizes: null` means its status was unreadable. */
+export function makeRegion({
+  id,
+  downloadedAt = 0,
+  updatedAt = downloadedAt,
+  sizes = {},
+  group,
+  bounds = null,
+  styleId = "liberty",
+  overlays = [],
+  notes = "",
+  tags = [],
+}: {
+  id: string;
+  downloadedAt?: number;
+  updatedAt?: number | null;
+  sizes?: Partial<OfflinePackStatus> | null;
+  group?: PackGroup;
+  bounds?: Bounds | null;
+  styleId?: string;
+  overlays?: string[];
+  notes?: string;
+  tags?: string[];
+}): OfflineRegion {
+  return {
+    id,
+    displayName: id,
+    bounds,
+    metadata: {
+      version: 4,
+      displayName: id,
+      downloadedAt,
+      styleId,
+      overlays,
+      group,
+    },
+    metadataStatus: "ok",
+    status: sizes && {
+      name: id,
+      state: 2,
+      percentage: 100,
+      completedResourceCount: 0,
+      completedResourceSize: 0,
+      completedTileCount: 0,
+      completedTileSize: 0,
+      requiredResourceCount: 0,
+      ...sizes,
+    },
+    updatedAt,
+    notes,
+    tags,
+  };
+}
@@ -0,0 +1,300 @@
+import { KeyValueStore, createMemoryStore } from "@/lib/storage";
+
+import {
+  STATES,
+  createFakeOfflineManager,
+} from "../__fixtures__/fakeOfflineManager";
+import { DownloadQueue, isNetworkError, retryDelay } from "../DownloadQueue";
+import { OfflineRegionService } from "../OfflineRegionService";
+import { Bounds, CreateRegionInput } from "../types";
+
+const BOUNDS: Bounds = [
+  [11.9, 46.6],
+  [11.7, 46.5],
+];
+
+const region = (displayName: string): CreateRegionInput => ({
+  displayName,
+  styleId: "hiking",
+  styleURL: "https://example.com/style.json",
+  bounds: BOUNDS,
+  minZoom: 10,
+  maxZoom: 14,
+});
+
+// Lets the queue's fire-and-forget starts and saves settle.
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function setup(store: KeyValueStore = createMemoryStore()) {
+  const fake = createFakeOfflineManager();
+  const service = new OfflineRegionService({
+    manager: fake.manager,
+    store,
+    states: STATES,
+  });
+  const makeQueue = () =>
+    new DownloadQueue({
+      service,
+      store,
+      states: STATES,
+      concurrency: 1,
+      retry: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 10000 },
+    });
+  return { fake, service, store, queue: makeQueue(), makeQueue };
+}
+
+const statuses = (queue: DownloadQueue) =>
+  queue.list().map((download) => [download.displayName, download.status]);
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+it("starts one pack at a time and moves on when it completes", async () => {
+  const { fake, queue } = setup();
+  const complete = jest.fn();
+  queue.events.on("complete", complete);
+
+  const first = await queue.enqueue(region("Sella"));
+  await queue.enqueue(region("Puez"));
+  await flush();
+
+  expect([...fake.packs.keys()]).toEqual([first]);
+  expect(statuses(queue)).toEqual([
+    ["Sella", "active"],
+    ["Puez", "queued"],
+  ]);
+
+  fake.emitProgress(first, 40);
+  expect(queue.list()[0].percentage).toBe(40);
+
+  fake.emitProgress(first, 100, STATES.Complete);
+  await flush();
+
+  expect(complete).toHaveBeenCalledWith({
+    id: first,
+    displayName: "Sella",
+    remaining: 1,
+  });
+  expect(statuses(queue)).toEqual([["Puez", "active"]]);
+  expect(fake.packs.size).toBe(2);
+});
+
+it("queues grouped packs under one group", async () => {
+  const { fake, queue } = setup();
+  const { displayName, ...options } = region("Alta Via 1");
+
+  const ids = await queue.enqueueGroup({
+    ...options,
+    name: displayName,
+    boxes: [BOUNDS, BOUNDS],
+  });
+  await flush();
+
+  expect(queue.list().map((d) => d.displayName)).toEqual([
+    "Alta Via 1 (1/2)",
+    "Alta Via 1 (2/2)",
+  ]);
+  expect(fake.packs.get(ids[0])?.options.metadata?.group).toMatchObject({
+    name: "Alta Via 1",
+    part: 1,
+    parts: 2,
+  });
+});
+
+it("pauses, resumes and cancels individual downloads", async () => {
+  const { fake, queue } = setup();
+  const first = await queue.enqueue(region("Sella"));
+  const second = await queue.enqueue(region("Puez"));
+  await flush();
+
+  await queue.pause(first);
+  await flush();
+  expect(fake.packs.get(first)?.pause).toHaveBeenCalled();
+  expect(statuses(queue)).toEqual([
+    ["Sella", "paused"],
+    ["Puez", "active"],
+  ]);
+
+  await queue.cancel(second);
+  expect(fake.packs.has(second)).toBe(false);
+
+  await queue.resume(first);
+  await flush();
+  expect(fake.packs.get(first)?.resume).toHaveBeenCalled();
+  expect(statuses(queue)).toEqual([["Sella", "active"]]);
+});
+
+it("deletes a pack cancelled before it was created", async () => {
+  const { fake, queue } = setup();
+  const id = await queue.enqueue(region("Sella"));
+  await queue.cancel(id);
+  await flush();
+
+  expect(fake.packs.size).toBe(0);
+  expect(queue.list()).toEqual([]);
+});
+
+it("drops downloads whose pack is deleted from the regions list", async () => {
+  const { service, queue } = setup();
+  const first = await queue.enqueue(region("Sella"));
+  await queue.enqueue(region("Puez"));
+  await flush();
+
+  await service.delete(first);
+  await flush();
+
+  expect(statuses(queue)).toEqual([["Puez", "active"]]);
+});
+
+it("retries network errors with backoff, then gives up", async () => {
+  jest.useFakeTimers({ doNotFake: ["setImmediate"] });
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  const { fake, queue } = setup();
+  const failed = jest.fn();
+  queue.events.on("failed", failed);
+  const id = await queue.enqueue(region("Sella"));
+  await flush();
+
+  fake.emitError(id, "The Internet connection appears to be offline.");
+  expect(queue.list()[0]).toMatchObject({ status: "retrying", attempts: 1 });
+  await flush();
+  expect(fake.packs.get(id)?.pause).toHaveBeenCalled();
+
+  jest.advanceTimersByTime(999);
+  expect(queue.list()[0].status).toBe("retrying");
+  jest.advanceTimersByTime(1);
+  await flush();
+  expect(queue.list()[0].status).toBe("active");
+  expect(fake.packs.get(id)?.resume).toHaveBeenCalledTimes(1);
+
+  fake.emitError(id, "Network unreachable");
+  jest.advanceTimersByTime(2000);
+  await flush();
+  fake.emitError(id, "Network unreachable");
+  await flush();
+
+  expect(queue.list()[0]).toMatchObject({ status: "failed", attempts: 3 });
+  expect(failed).toHaveBeenCalledWith({
+    id,
+    displayName: "Sella",
+    message: "Network unreachable",
+  });
+});
+
+it("fails straight away on errors other than network ones", async () => {
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  const { fake, queue } = setup();
+  const id = await queue.enqueue(region("Sella"));
+  await flush();
+
+  fake.emitError(id, "Mapbox tile count limit exceeded");
+  expect(queue.list()[0]).toMatchObject({
+    status: "failed",
+    error: "Mapbox tile count limit exceeded",
+  });
+
+  await queue.resume(id);
+  await flush();
+  expect(queue.list()[0]).toMatchObject({ status: "active", attempts: 0 });
+});
+
+it("resumes incomplete packs and the saved queue after a restart", async () => {
+  const { fake, service, queue, makeQueue } = setup();
+  await queue.restore();
+  // Created behind the queue's back, e.g. by an older version of the app.
+  const orphan = await service.create(region("Left behind"));
+  fake.emitProgress(orphan, 30, STATES.Inactive);
+  const finished = await service.create(region("Done"));
+  fake.emitProgress(finished, 100, STATES.Complete);
+
+  await queue.enqueue(region("Sella"));
+  const paused = await queue.enqueue(region("Puez"));
+  await queue.pause(paused);
+  await queue.enqueue(region("Odle"));
+  await flush();
+
+  const restarted = makeQueue();
+  await restarted.restore();
+  await flush();
+
+  expect(statuses(restarted)).toEqual([
+    ["Sella", "active"],
+    ["Puez", "paused"],
+    ["Odle", "queued"],
+    ["Left behind", "queued"],
+  ]);
+  expect(restarted.list()[3].percentage).toBe(30);
+  expect(fake.packs.get(restarted.list()[0].id)?.resume).toHaveBeenCalled();
+});
+
+it("refreshes complete packs by invalidating and resuming them", async () => {
+  const { fake, service, queue } = setup();
+  const id = await service.create(region("Sella"));
+  fake.emitProgress(id, 100, STATES.Complete);
+  await flush();
+
+  await queue.refresh([{ id, displayName: "Sella" }]);
+  await flush();
+
+  expect(fake.invalidated.has(id)).toBe(true);
+  expect(fake.packs.get(id)?.resume).toHaveBeenCalled();
+  expect(statuses(queue)).toEqual([["Sella", "active"]]);
+});
+
+it("holds Wi-Fi-only downloads until the phone is on Wi-Fi", async () => {
+  const store = createMemoryStore();
+  const fake = createFakeOfflineManager();
+  const service = new OfflineRegionService({
+    manager: fake.manager,
+    store,
+    states: STATES,
+  });
+  let notify: (isWifi: boolean) => void = () => {};
+  const queue = new DownloadQueue({
+    service,
+    store,
+    states: STATES,
+    network: {
+      isWifi: async () => false,
+      onChange: (listener) => {
+        notify = listener;
+        return () => {};
+      },
+    },
+  });
+  const id = await service.create(region("Sella"));
+  fake.emitProgress(id, 100, STATES.Complete);
+
+  await queue.refresh([{ id, displayName: "Sella" }], { wifiOnly: true });
+  await queue.enqueue(region("Puez"));
+  await flush();
+  expect(statuses(queue)).toEqual([
+    ["Sella", "queued"],
+    ["Puez", "active"],
+  ]);
+
+  notify(true);
+  await flush();
+  expect(queue.list()[0].status).toBe("active");
+
+  notify(false);
+  await flush();
+  expect(statuses(queue)).toEqual([
+    ["Sella", "queued"],
+    ["Puez", "active"],
+  ]);
+  expect(fake.packs.get(id)?.pause).toHaveBeenCalled();
+});
+
+it("classifies errors and backs off exponentially", () => {
+  expect(isNetworkError("Unable to resolve host tiles.example.com")).toBe(true);
+  expect(isNetworkError("The request timed out.")).toBe(true);
+  expect(isNetworkError("Style is invalid")).toBe(false);
+
+  const policy = { maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+  expect([1, 2, 3, 4].map((n) => retryDelay(n, policy))).toEqual([
+    1000, 2000, 4000, 5000,
+  ]);
+});
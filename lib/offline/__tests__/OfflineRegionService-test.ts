@@ -0,0 +1,232 @@
+import { createMemoryStore, readJSON } from "@/lib/storage";
+
+import {
+  STATES,
+  createFakeOfflineManager,
+} from "../__fixtures__/fakeOfflineManager";
+import { OfflineRegionService } from "../OfflineRegionService";
+import { Bounds } from "../types";
+
+const BOUNDS: Bounds = [
+  [11.9, 46.6],
+  [11.7, 46.5],
+];
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function setup() {
+  const fake = createFakeOfflineManager();
+  const store = createMemoryStore();
+  const service = new OfflineRegionService({
+    manager: fake.manager,
+    store,
+    states: STATES,
+  });
+  return { fake, service, store };
+}
+
+async function createRegion(service: OfflineRegionService) {
+  return service.create({
+    displayName: "Val Gardena",
+    styleId: "hiking",
+    styleURL: "https://example.com/style.json",
+    bounds: BOUNDS,
+    minZoom: 10,
+    maxZoom: 14,
+  });
+}
+
+it("creates packs with object metadata and lists them", async () => {
+  const { fake, service } = setup();
+  const id = await createRegion(service);
+
+  expect(fake.packs.get(id)?.options.metadata).toMatchObject({
+    version: 4,
+    displayName: "Val Gardena",
+    styleId: "hiking",
+    overlays: [],
+  });
+
+  const [region] = await service.list();
+  expect(region).toMatchObject({
+    id,
+    displayName: "Val Gardena",
+    bounds: BOUNDS,
+  });
+});
+
+it("includes the native status of each pack", async () => {
+  const { fake, service } = setup();
+  const id = await createRegion(service);
+  const pack = fake.packs.get(id)!;
+  pack.stats = { completedResourceSize: 4096 };
+
+  expect((await service.list())[0].status).toMatchObject({
+    completedResourceSize: 4096,
+  });
+
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  pack.status = async () => {
+    throw new Error("Pack not found");
+  };
+  expect((await service.list())[0].status).toBeNull();
+});
+
+it("forwards progress, completion and errors as events", async () => {
+  const { fake, service } = setup();
+  const progress = jest.fn();
+  const complete = jest.fn();
+  const error = jest.fn();
+  service.events.on("progress", progress);
+  service.events.on("complete", complete);
+  service.events.on("error", error);
+
+  const id = await createRegion(service);
+  fake.emitProgress(id, 40);
+  fake.emitProgress(id, 100, STATES.Complete);
+  fake.emitError(id, "Network unreachable");
+
+  expect(progress).toHaveBeenCalledTimes(2);
+  expect(progress.mock.calls[0][0].status.percentage).toBe(40);
+  expect(complete).toHaveBeenCalledWith({ id, displayName: "Val Gardena" });
+  expect(error).toHaveBeenCalledWith({
+    id,
+    displayName: "Val Gardena",
+    message: "Network unreachable",
+  });
+});
+
+it("records when each pack last finished downloading", async () => {
+  const { fake, service } = setup();
+  jest.spyOn(Date, "now").mockReturnValue(1000);
+  const id = await createRegion(service);
+  expect((await service.list())[0].updatedAt).toBe(1000);
+
+  const change = new Promise((resolve) => service.events.on("change", resolve));
+  jest.spyOn(Date, "now").mockReturnValue(5000);
+  fake.emitProgress(id, 100, STATES.Complete);
+  await change;
+
+  expect((await service.list())[0].updatedAt).toBe(5000);
+});
+
+it("invalidates packs through the native manager", async () => {
+  const { fake, service } = setup();
+  const id = await createRegion(service);
+
+  await service.invalidate(id);
+
+  expect(fake.invalidated.has(id)).toBe(true);
+  await expect(service.invalidate("missing")).rejects.toThrow("does not exist");
+});
+
+it("renames regions without touching native metadata", async () => {
+  const { service } = setup();
+  const id = await createRegion(service);
+  const change = jest.fn();
+  service.events.on("change", change);
+
+  await service.rename(id, "  Sella loop ");
+
+  const [region] = await service.list();
+  expect(region.displayName).toBe("Sella loop");
+  expect(region.metadata?.displayName).toBe("Val Gardena");
+  expect(change).toHaveBeenCalled();
+  await expect(service.rename(id, " ")).rejects.toThrow("empty");
+});
+
+it("deletes packs and forgets their local name", async () => {
+  const { fake, service } = setup();
+  const id = await createRegion(service);
+  await service.rename(id, "Sella loop");
+
+  await service.delete(id);
+
+  expect(fake.packs.size).toBe(0);
+  expect(fake.listeners.has(id)).toBe(false);
+  expect(await service.list()).toEqual([]);
+});
+
+it("resubscribes before resuming a pack", async () => {
+  const { fake, service } = setup();
+  const id = await createRegion(service);
+  fake.manager.unsubscribe(id);
+
+  await service.resume(id);
+
+  expect(fake.listeners.has(id)).toBe(true);
+  expect(fake.packs.get(id)?.resume).toHaveBeenCalled();
+  await expect(service.resume("missing")).rejects.toThrow("does not exist");
+});
+
+it("creates grouped packs for a corridor", async () => {
+  const { fake, service } = setup();
+  const ids = await service.createGroup({
+    name: "Alta Via 1",
+    styleId: "hiking",
+    styleURL: "https://example.com/style.json",
+    boxes: [BOUNDS, BOUNDS, BOUNDS],
+    minZoom: 10,
+    maxZoom: 14,
+  });
+
+  expect(new Set(ids).size).toBe(3);
+  const regions = await service.list();
+  expect(regions.map((r) => r.displayName)).toEqual([
+    "Alta Via 1 (1/3)",
+    "Alta Via 1 (2/3)",
+    "Alta Via 1 (3/3)",
+  ]);
+  expect(regions[2].metadata?.group).toMatchObject({
+    name: "Alta Via 1",
+    part: 3,
+    parts: 3,
+  });
+
+  await service.deleteMany(ids);
+  expect(fake.packs.size).toBe(0);
+});
+
+it("keeps notes and tags per region, shared by a group's packs", async () => {
+  const { service, store } = setup();
+  const single = await createRegion(service);
+  const ids = await service.createGroup({
+    name: "Alta Via 1",
+    styleId: "hiking",
+    styleURL: "https://example.com/style.json",
+    boxes: [BOUNDS, BOUNDS],
+    minZoom: 10,
+    maxZoom: 14,
+  });
+  const groupId = (await service.list())[1].metadata!.group!.id;
+
+  await service.updateDetails(single, {
+    notes: " Park at Plan de Gralba ",
+    tags: ["Dolomites 2026 trip", " ", "dolomites 2026 TRIP"],
+  });
+  await service.updateDetails(groupId, { tags: ["Dolomites 2026 trip"] });
+  await service.updateDetails(groupId, { notes: "Rifugi booked" });
+  await service.rename(groupId, "AV1 north");
+
+  const regions = await service.list();
+  expect(regions[0]).toMatchObject({
+    notes: "Park at Plan de Gralba",
+    tags: ["Dolomites 2026 trip"],
+  });
+  for (const region of regions.slice(1)) {
+    expect(region).toMatchObject({
+      notes: "Rifugi booked",
+      tags: ["Dolomites 2026 trip"],
+    });
+    expect(region.metadata?.group?.name).toBe("AV1 north");
+  }
+
+  await service.deleteMany(ids.slice(0, 1));
+  expect((await service.list())[1].tags).toEqual(["Dolomites 2026 trip"]);
+
+  await service.deleteMany([single, ids[1]]);
+  expect(await readJSON(store, "offline.regionDetails", null)).toEqual({});
+  expect(await readJSON(store, "offline.regionNames", null)).toEqual({});
+});
@@ -0,0 +1,106 @@
+import { makeRegion } from "../__fixtures__/regions";
+import {
+  allTags,
+  entryUsage,
+  filterEntries,
+  groupRegions,
+  parseTags,
+  sortEntries,
+} from "../groups";
+
+const group = { id: "corridor-1", name: "Alta Via 1", parts: 2 };
+
+const single = makeRegion({
+  id: "b-single",
+  downloadedAt: 3,
+  sizes: { completedResourceSize: 2048 },
+});
+const second = makeRegion({
+  id: "corridor-part-2",
+  downloadedAt: 1,
+  sizes: { completedResourceSize: 4096, completedTileCount: 20 },
+  group: { ...group, part: 2 },
+});
+const first = makeRegion({
+  id: "corridor-part-1",
+  downloadedAt: 1,
+  sizes: { completedResourceSize: 1024, completedTileCount: 5 },
+  group: { ...group, part: 1 },
+});
+const unknown = makeRegion({ id: "c-unknown", downloadedAt: 2, sizes: null });
+
+it("collapses the packs of a group into one ordered entry", () => {
+  const entries = groupRegions([single, second, unknown, first]);
+
+  expect(entries.map((e) => e.displayName)).toEqual([
+    "b-single",
+    "Alta Via 1",
+    "c-unknown",
+  ]);
+  expect(entries[1].isGroup).toBe(true);
+  expect(entries[1].regions.map((r) => r.id)).toEqual([
+    "corridor-part-1",
+    "corridor-part-2",
+  ]);
+  expect(entryUsage(entries[1])).toMatchObject({ bytes: 5120, tiles: 25 });
+});
+
+it("sorts single packs by size, date and name", () => {
+  const small = makeRegion({
+    id: "b-small",
+    downloadedAt: 3,
+    sizes: { completedResourceSize: 2048 },
+  });
+  const large = makeRegion({
+    id: "a-large",
+    downloadedAt: 1,
+    sizes: { completedResourceSize: 5 * 1024 * 1024 },
+  });
+  const entries = groupRegions([small, unknown, large]);
+  const ids = (sort: Parameters<typeof sortEntries>[1]) =>
+    sortEntries(entries, sort).map((e) => e.key);
+
+  expect(ids("largest")).toEqual(["a-large", "b-small", "c-unknown"]);
+  expect(ids("newest")).toEqual(["b-small", "c-unknown", "a-large"]);
+  expect(ids("name")).toEqual(["a-large", "b-small", "c-unknown"]);
+  expect(entries[0].regions[0]).toBe(small);
+});
+
+it("sorts entries by size, date and name", () => {
+  const entries = groupRegions([single, unknown, first, second]);
+  const names = (sort: Parameters<typeof sortEntries>[1]) =>
+    sortEntries(entries, sort).map((e) => e.displayName);
+
+  expect(names("largest")).toEqual(["Alta Via 1", "b-single", "c-unknown"]);
+  expect(names("newest")).toEqual(["b-single", "c-unknown", "Alta Via 1"]);
+  expect(names("name")).toEqual(["Alta Via 1", "b-single", "c-unknown"]);
+  expect(entries[0].displayName).toBe("b-single");
+});
+
+it("searches names, notes and tags, ignoring case and accents", () => {
+  const entries = groupRegions([
+    makeRegion({ id: "Rifugio Lagazuoi", tags: ["Dolomites 2026 trip"] }),
+    makeRegion({ id: "Sella", notes: "Piz Boè via the Val Lasties" }),
+    makeRegion({ id: "Cinque Torri", tags: ["Via ferrata", "dolomites"] }),
+  ]);
+  const names = (query: string, tag: string | null = null) =>
+    filterEntries(entries, { query, tag }).map((e) => e.displayName);
+
+  expect(names("")).toHaveLength(3);
+  expect(names("LAGAZUOI")).toEqual(["Rifugio Lagazuoi"]);
+  expect(names("piz boe")).toEqual(["Sella"]);
+  expect(names("dolomites")).toEqual(["Rifugio Lagazuoi", "Cinque Torri"]);
+  expect(names("", "via ferrata")).toEqual(["Cinque Torri"]);
+  expect(names("torri", "Dolomites 2026 trip")).toEqual([]);
+  expect(allTags(entries)).toEqual([
+    "dolomites",
+    "Dolomites 2026 trip",
+    "Via ferrata",
+  ]);
+});
+
+it("parses comma-separated tags", () => {
+  expect(parseTags(" Dolomites 2026 trip,, via ferrata , Via Ferrata")).toEqual(
+    ["Dolomites 2026 trip", "via ferrata"]
+  );
+});
@@ -0,0 +1,209 @@
+import {
+  PACK_METADATA_VERSION,
+  createMetadata,
+  decodeBounds,
+  decodeMetadata,
+  encodeMetadata,
+} from "../metadata";
+
+const LEGACY_JSON = JSON.stringify({
+  name: "Region @ 14:32:10",
+  downloaded_at: 1712750000000,
+});
+
+// What MapLibre produces when `createPack` is given a string: the string is
+// spread character by character and the pack id is added as `name`.
+function characterMap(text: string, id = "offline-pack-1712750000000") {
+  return { ...text.split(""), name: id };
+}
+
+// Mimics OfflinePack, whose `metadata` getter JSON.parses the native string.
+function offlinePack(nativeMetadata: string) {
+  return {
+    pack: { metadata: nativeMetadata },
+    get metadata() {
+      return JSON.parse(this.pack.metadata);
+    },
+  };
+}
+
+const CURRENT = {
+  version: 4,
+  displayName: "Val Gardena",
+  downloadedAt: 1760000000000,
+  styleId: "hiking",
+  overlays: ["hillshade"],
+};
+
+const GROUP = { id: "corridor-1", name: "Alta Via 1", part: 2, parts: 5 };
+
+describe("decodeMetadata", () => {
+  it("reads current metadata from an OfflinePack instance", () => {
+    const pack = offlinePack(
+      JSON.stringify({ ...CURRENT, name: "offline-pack-1" })
+    );
+    expect(decodeMetadata(pack)).toEqual({ status: "ok", metadata: CURRENT });
+  });
+
+  it("reads the raw native dictionary with a JSON string", () => {
+    expect(decodeMetadata({ metadata: JSON.stringify(CURRENT) })).toEqual({
+      status: "ok",
+      metadata: CURRENT,
+    });
+  });
+
+  it("reads a serialised pack through _metadata", () => {
+    const serialised = {
+      pack: { metadata: JSON.stringify(CURRENT) },
+      _metadata: CURRENT,
+    };
+    expect(decodeMetadata(serialised).metadata).toEqual(CURRENT);
+  });
+
+  it("migrates legacy character maps from the getter", () => {
+    const pack = offlinePack(JSON.stringify(characterMap(LEGACY_JSON)));
+    expect(decodeMetadata(pack)).toEqual({
+      status: "migrated",
+      metadata: {
+        version: PACK_METADATA_VERSION,
+        displayName: "Region @ 14:32:10",
+        downloadedAt: 1712750000000,
+        styleId: "liberty",
+        overlays: [],
+      },
+    });
+  });
+
+  it("migrates legacy character maps cached in _metadata", () => {
+    const decoded = decodeMetadata({
+      metadata: null,
+      _metadata: characterMap(LEGACY_JSON),
+    });
+    expect(decoded.status).toBe("migrated");
+    expect(decoded.metadata?.displayName).toBe("Region @ 14:32:10");
+  });
+
+  it("migrates double-encoded legacy strings", () => {
+    const decoded = decodeMetadata({ metadata: JSON.stringify(LEGACY_JSON) });
+    expect(decoded.status).toBe("migrated");
+    expect(decoded.metadata?.downloadedAt).toBe(1712750000000);
+  });
+
+  it("migrates legacy objects without a download date", () => {
+    expect(decodeMetadata({ metadata: { name: "Old pack", foo: 1 } })).toEqual({
+      status: "migrated",
+      metadata: {
+        version: 4,
+        displayName: "Old pack",
+        downloadedAt: 0,
+        styleId: "liberty",
+        overlays: [],
+      },
+    });
+  });
+
+  it("migrates version 1 objects", () => {
+    const { styleId, overlays, ...v1 } = CURRENT;
+    expect(decodeMetadata({ metadata: { ...v1, version: 1 } })).toEqual({
+      status: "migrated",
+      metadata: { ...CURRENT, styleId: "liberty", overlays: [] },
+    });
+  });
+
+  it("records liberty as the style of version 2 packs", () => {
+    const { styleId, overlays, ...v2 } = CURRENT;
+    expect(decodeMetadata({ metadata: { ...v2, version: 2 } })).toEqual({
+      status: "migrated",
+      metadata: { ...CURRENT, styleId: "liberty", overlays: [] },
+    });
+  });
+
+  it("migrates version 3 packs without overlays", () => {
+    const { overlays, ...v3 } = CURRENT;
+    expect(decodeMetadata({ metadata: { ...v3, version: 3 } })).toEqual({
+      status: "migrated",
+      metadata: { ...CURRENT, overlays: [] },
+    });
+  });
+
+  it("keeps the corridor group of a pack", () => {
+    expect(decodeMetadata({ metadata: { ...CURRENT, group: GROUP } })).toEqual({
+      status: "ok",
+      metadata: { ...CURRENT, group: GROUP },
+    });
+  });
+
+  it("reports missing metadata", () => {
+    expect(decodeMetadata({ metadata: null }).status).toBe("missing");
+    expect(decodeMetadata({ metadata: "" }).status).toBe("missing");
+    expect(
+      decodeMetadata({ metadata: { name: "offline-pack-1" } }).status
+    ).toBe("missing");
+    expect(decodeMetadata(null).status).toBe("missing");
+  });
+
+  it("reports a getter that throws as corrupt", () => {
+    const decoded = decodeMetadata(offlinePack("{not json"));
+    expect(decoded.status).toBe("corrupt");
+    expect(decoded).toHaveProperty(
+      "reason",
+      expect.stringMatching(/^Unparseable/)
+    );
+  });
+
+  it("reports truncated character maps as corrupt", () => {
+    const decoded = decodeMetadata({
+      metadata: characterMap(LEGACY_JSON.slice(0, 30)),
+    });
+    expect(decoded.status).toBe("corrupt");
+  });
+
+  it.each([
+    ["an array", [1, 2]],
+    ["a number", 42],
+    ["an unknown version", { ...CURRENT, version: 99 }],
+    ["a bad version", { ...CURRENT, version: "one" }],
+    ["an empty display name", { ...CURRENT, displayName: " " }],
+    ["a bad download date", { ...CURRENT, downloadedAt: "yesterday" }],
+    ["a missing style", { ...CURRENT, styleId: "" }],
+    ["malformed overlays", { ...CURRENT, overlays: "hillshade" }],
+    ["no version or legacy fields", { displayName: "x", other: true }],
+    ["a malformed group", { ...CURRENT, group: { ...GROUP, part: 6 } }],
+  ])("reports %s as corrupt", (_, metadata) => {
+    expect(decodeMetadata({ metadata }).status).toBe("corrupt");
+  });
+});
+
+describe("encodeMetadata", () => {
+  it("round-trips through the decoder", () => {
+    const metadata = createMetadata("Sella loop", "hiking", ["contours"]);
+    const stored = { ...encodeMetadata(metadata), name: "offline-pack-2" };
+    expect(decodeMetadata(offlinePack(JSON.stringify(stored)))).toEqual({
+      status: "ok",
+      metadata,
+    });
+  });
+
+  it("refuses invalid metadata", () => {
+    expect(() => encodeMetadata({ ...CURRENT, displayName: "" })).toThrow(
+      "display name"
+    );
+  });
+});
+
+describe("decodeBounds", () => {
+  it("accepts native arrays and JSON strings", () => {
+    const bounds = [
+      [11.9, 46.6],
+      [11.7, 46.5],
+    ];
+    expect(decodeBounds(bounds)).toEqual(bounds);
+    expect(decodeBounds(JSON.stringify(bounds))).toEqual(bounds);
+  });
+
+  it("rejects anything else", () => {
+    expect(decodeBounds("{}")).toBeNull();
+    expect(decodeBounds([[1, 2]])).toBeNull();
+    expect(decodeBounds(undefined)).toBeNull();
+  });
+});
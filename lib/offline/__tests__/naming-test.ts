@@ -0,0 +1,67 @@
+import { MAP_STYLES, renderStyle } from "@/lib/styles/registry";
+
+import { defaultRegionName, nameLayerIds, prominentName } from "../naming";
+import { Bounds } from "../types";
+
+const BOUNDS: Bounds = [
+  [11.9, 46.6],
+  [11.7, 46.5],
+];
+
+const feature = (properties: Record<string, unknown>): GeoJSON.Feature => ({
+  type: "Feature",
+  geometry: { type: "Point", coordinates: [11.8, 46.55] },
+  properties,
+});
+
+it("picks the most prominent place, peak or park", () => {
+  const village = feature({ class: "village", name: "Selva", rank: 12 });
+  const town = feature({ class: "town", name: "Ortisei", rank: 10 });
+  const peak = feature({ class: "peak", name: "Piz Boè", ele: 3152 });
+  const hill = feature({ class: "peak", name: "Col Raiser", ele: 2107 });
+  const park = feature({ class: "national_park", name: "Puez-Odle" });
+  const road = feature({ class: "primary", name: "SS242" });
+
+  expect(prominentName([village, hill, road])).toBe("Selva");
+  expect(prominentName([village, peak])).toBe("Piz Boè");
+  expect(prominentName([peak, town])).toBe("Ortisei");
+  expect(prominentName([town, park])).toBe("Puez-Odle");
+  expect(
+    prominentName([road, feature({ class: "country", name: "Italia" })])
+  ).toBeNull();
+});
+
+it("breaks ties by rank and skips unnamed features", () => {
+  expect(
+    prominentName([
+      feature({ class: "village", name: "Selva", rank: 14 }),
+      feature({ class: "village", name: " " }),
+      feature({ class: "village", name: "Corvara", rank: 11 }),
+    ])
+  ).toBe("Corvara");
+});
+
+it("falls back to the centre coordinates", () => {
+  expect(defaultRegionName([], BOUNDS)).toBe("46.5500° N, 11.8000° E");
+  expect(
+    defaultRegionName(
+      [],
+      [
+        [-70.9, -33.3],
+        [-71.1, -33.5],
+      ]
+    )
+  ).toBe("33.4000° S, 71.0000° W");
+});
+
+it("queries the style's place, peak and park layers", () => {
+  const ids = nameLayerIds(renderStyle(MAP_STYLES.hiking, []));
+  expect(ids).toEqual(
+    expect.arrayContaining(["park", "peak-name", "label_village", "label_town"])
+  );
+  expect(nameLayerIds(renderStyle(MAP_STYLES.hiking, [], "night"))).toContain(
+    "peak-name"
+  );
+  expect(ids).not.toContain("poi_r1");
+  expect(nameLayerIds("https://example.com/style.json")).toEqual([]);
+});
@@ -0,0 +1,42 @@
+import { makeRegion } from "../__fixtures__/regions";
+import { formatBytes, regionUsage, totalUsage } from "../size";
+
+const small = makeRegion({
+  id: "small",
+  sizes: {
+    completedResourceSize: 2048,
+    completedTileCount: 10,
+    completedResourceCount: 14,
+  },
+});
+const large = makeRegion({
+  id: "large",
+  sizes: {
+    completedResourceSize: 5 * 1024 * 1024,
+    completedTileCount: 900,
+    completedResourceCount: 920,
+  },
+});
+const unknown = makeRegion({ id: "unknown", sizes: null });
+
+it("reads usage from the pack status", () => {
+  expect(regionUsage(small)).toEqual({ bytes: 2048, tiles: 10, resources: 14 });
+  expect(regionUsage(unknown)).toBeNull();
+});
+
+it("totals usage and counts unmeasured regions separately", () => {
+  expect(totalUsage([small, large, unknown])).toEqual({
+    bytes: 2048 + 5 * 1024 * 1024,
+    tiles: 910,
+    resources: 934,
+    regions: 2,
+    unknown: 1,
+  });
+});
+
+it("formats bytes with binary units", () => {
+  expect(formatBytes(0)).toBe("0 Bytes");
+  expect(formatBytes(512)).toBe("512 Bytes");
+  expect(formatBytes(1536)).toBe("1.5 KB");
+  expect(formatBytes(5 * 1024 * 1024)).toBe("5 MB");
+});
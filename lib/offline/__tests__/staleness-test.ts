@@ -0,0 +1,57 @@
+import { createMemoryStore } from "@/lib/storage";
+
+import { makeRegion } from "../__fixtures__/regions";
+import { groupRegions } from "../groups";
+import {
+  DEFAULT_STALENESS,
+  entryUpdatedAt,
+  formatAge,
+  isStale,
+  readStalenessPolicy,
+  writeStalenessPolicy,
+} from "../staleness";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 1);
+
+it("dates a corridor by its oldest part", () => {
+  const group = { id: "g", name: "Alta Via 1", parts: 3 };
+  const [entry] = groupRegions([
+    makeRegion({ id: "a", updatedAt: NOW - DAY, group: { ...group, part: 1 } }),
+    makeRegion({
+      id: "b",
+      updatedAt: NOW - 10 * DAY,
+      group: { ...group, part: 2 },
+    }),
+    makeRegion({ id: "c", updatedAt: null, group: { ...group, part: 3 } }),
+  ]);
+
+  expect(entryUpdatedAt(entry)).toBe(NOW - 10 * DAY);
+  const [unknown] = groupRegions([makeRegion({ id: "d", updatedAt: null })]);
+  expect(entryUpdatedAt(unknown)).toBeNull();
+});
+
+it("flags packs older than the policy allows", () => {
+  const policy = { maxAgeDays: 30 };
+  expect(isStale(NOW - 29 * DAY, policy, NOW)).toBe(false);
+  expect(isStale(NOW - 31 * DAY, policy, NOW)).toBe(true);
+  expect(isStale(null, policy, NOW)).toBe(false);
+});
+
+it("describes ages in the largest sensible unit", () => {
+  expect(formatAge(2 * 60 * 60 * 1000)).toBe("today");
+  expect(formatAge(DAY)).toBe("1 day ago");
+  expect(formatAge(20 * DAY)).toBe("2 weeks ago");
+  expect(formatAge(100 * DAY)).toBe("3 months ago");
+  expect(formatAge(800 * DAY)).toBe("2 years ago");
+});
+
+it("stores the policy and falls back to the default", async () => {
+  const store = createMemoryStore({
+    "offline.stalenessPolicy": '{"maxAgeDays":-1}',
+  });
+  expect(await readStalenessPolicy(store)).toEqual(DEFAULT_STALENESS);
+
+  await writeStalenessPolicy(store, { maxAgeDays: 180 });
+  expect(await readStalenessPolicy(store)).toEqual({ maxAgeDays: 180 });
+});
@@ -0,0 +1,101 @@
+import {
+  TILE_COUNT_LIMIT,
+  countTiles,
+  defaultZoomRange,
+  estimateDownload,
+  latToTileY,
+  lngToTileX,
+  stepZoomRange,
+} from "../tiles";
+import { Bounds } from "../types";
+
+const DOLOMITES: Bounds = [
+  [11.9, 46.6],
+  [11.7, 46.5],
+];
+
+it("converts coordinates to slippy-map tile indices", () => {
+  expect(lngToTileX(-180, 1)).toBe(0);
+  expect(lngToTileX(180, 1)).toBe(1);
+  expect(latToTileY(0, 1)).toBe(1);
+  expect(latToTileY(90, 3)).toBe(0);
+  expect(latToTileY(-90, 3)).toBe(7);
+  expect(lngToTileX(11.35, 12)).toBe(2177);
+  expect(latToTileY(46.5, 12)).toBe(1448);
+});
+
+it("counts tiles per zoom level", () => {
+  expect(countTiles(DOLOMITES, 0)).toBe(1);
+  expect(
+    countTiles(
+      [
+        [180, 85],
+        [-180, -85],
+      ],
+      2
+    )
+  ).toBe(16);
+  expect(countTiles(DOLOMITES, 12)).toBe(3 * 2);
+  expect(countTiles(DOLOMITES, 16)).toBe(38 * 27);
+});
+
+it("handles regions that cross the antimeridian", () => {
+  const fiji: Bounds = [
+    [-179, -16],
+    [177, -19],
+  ];
+  expect(countTiles(fiji, 4)).toBe(2);
+});
+
+it("sums tiles and bytes over a zoom range", () => {
+  const estimate = estimateDownload(DOLOMITES, 10, 12, { bytesPerTile: 1000 });
+  expect(estimate.perZoom.map((level) => level.zoom)).toEqual([10, 11, 12]);
+  expect(estimate.tiles).toBe(
+    estimate.perZoom.reduce((sum, level) => sum + level.tiles, 0)
+  );
+  expect(estimate.bytes).toBe(estimate.tiles * 1000);
+  expect(estimate.exceedsLimit).toBe(false);
+});
+
+it("flags estimates above the tile limit", () => {
+  expect(estimateDownload(DOLOMITES, 10, 16).tiles).toBe(1408);
+  expect(estimateDownload(DOLOMITES, 10, 16).exceedsLimit).toBe(false);
+  expect(
+    estimateDownload(DOLOMITES, 10, 16, { limit: 1000 }).exceedsLimit
+  ).toBe(true);
+
+  const dolomitesRange: Bounds = [
+    [12.5, 46.9],
+    [11.2, 46.2],
+  ];
+  expect(estimateDownload(dolomitesRange, 8, 15).tiles).toBeGreaterThan(
+    TILE_COUNT_LIMIT
+  );
+  expect(estimateDownload(dolomitesRange, 8, 15).exceedsLimit).toBe(true);
+});
+
+it("counts the tiles of every source", () => {
+  const single = estimateDownload(DOLOMITES, 10, 16);
+  const terrain = estimateDownload(DOLOMITES, 10, 16, { sources: 2 });
+  expect(terrain.tiles).toBe(2 * single.tiles);
+  expect(terrain.bytes).toBe(2 * single.bytes);
+});
+
+it("keeps the historical default zoom range", () => {
+  expect(defaultZoomRange(12.7)).toEqual({ minZoom: 10, maxZoom: 15 });
+  expect(defaultZoomRange(1)).toEqual({ minZoom: 0, maxZoom: 4 });
+  expect(defaultZoomRange(15)).toEqual({ minZoom: 13, maxZoom: 16 });
+});
+
+it("steps zoom ranges without emptying them", () => {
+  const range = { minZoom: 12, maxZoom: 12 };
+  expect(stepZoomRange(range, "maxZoom", 1)).toEqual({
+    minZoom: 12,
+    maxZoom: 13,
+  });
+  expect(stepZoomRange(range, "minZoom", 1)).toBe(range);
+  expect(stepZoomRange({ minZoom: 0, maxZoom: 16 }, "maxZoom", 1)).toEqual({
+    minZoom: 0,
+    maxZoom: 16,
+  });
+});
@@ -0,0 +1,158 @@
+import { foldText } from "@/lib/text";
+
+import { RegionSort, StorageUsage, totalUsage } from "./size";
+import {
+  CreateGroupInput,
+  CreateRegionInput,
+  OfflineRegion,
+  PackGroup,
+} from "./types";
+
+/**
+ * One row of the regions list: a single pack, or every pack of a corridor
+ * download sharing the same group.
+ */
+export type RegionEntry = {
+  key: string;
+  displayName: string;
+  regions: OfflineRegion[];
+  isGroup: boolean;
+  notes: string;
+  tags: string[];
+};
+
+/** Narrows the regions list; both parts must match. */
+export type RegionFilter = {
+  /** Matched against name, notes and tags, ignoring case and accents. */
+  query: string;
+  /** Only entries carrying this tag, or every entry when null. */
+  tag: string | null;
+};
+
+/** The packs making up a grouped download, all tagged with `groupId`. */
+export function groupParts(
+  input: CreateGroupInput,
+  groupId: string
+): { input: CreateRegionInput; group: PackGroup }[] {
+  const { name, boxes, ...options } = input;
+  return boxes.map((bounds, index) => ({
+    input: {
+      ...options,
+      bounds,
+      displayName: `${name} (${index + 1}/${boxes.length})`,
+    },
+    group: { id: groupId, name, part: index + 1, parts: boxes.length },
+  }));
+}
+
+export function groupRegions(regions: OfflineRegion[]): RegionEntry[] {
+  const entries: RegionEntry[] = [];
+  const groups = new Map<string, RegionEntry>();
+
+  for (const region of regions) {
+    const group = region.metadata?.group;
+    if (!group) {
+      entries.push({
+        key: region.id,
+        displayName: region.displayName,
+        regions: [region],
+        isGroup: false,
+        notes: region.notes,
+        tags: region.tags,
+      });
+      continue;
+    }
+    let entry = groups.get(group.id);
+    if (!entry) {
+      entry = {
+        key: group.id,
+        displayName: group.name,
+        regions: [],
+        isGroup: true,
+        notes: region.notes,
+        tags: region.tags,
+      };
+      groups.set(group.id, entry);
+      entries.push(entry);
+    }
+    entry.regions.push(region);
+  }
+
+  for (const entry of groups.values()) {
+    entry.regions.sort(
+      (a, b) => (a.metadata?.group?.part ?? 0) - (b.metadata?.group?.part ?? 0)
+    );
+  }
+  return entries;
+}
+
+export function entryUsage(entry: RegionEntry): StorageUsage {
+  return totalUsage(entry.regions);
+}
+
+export function entryDownloadedAt(entry: RegionEntry) {
+  return Math.max(...entry.regions.map((r) => r.metadata?.downloadedAt ?? 0));
+}
+
+/** Returns a sorted copy. Entries with an unknown size sort last by size. */
+export function sortEntries(
+  entries: RegionEntry[],
+  sort: RegionSort
+): RegionEntry[] {
+  const sorted = [...entries];
+  const bytes = (entry: RegionEntry) => {
+    const usage = entryUsage(entry);
+    return usage.regions > 0 ? usage.bytes : -1;
+  };
+  switch (sort) {
+    case "largest":
+      return sorted.sort((a, b) => bytes(b) - bytes(a));
+    case "name":
+      return sorted.sort((a, b) => a.displayName.localeCompare(b.displayName));
+    case "newest":
+      return sorted.sort((a, b) => entryDownloadedAt(b) - entryDownloadedAt(a));
+  }
+}
+
+/** Trims tags and drops blanks and duplicates, keeping the first spelling. */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = foldText(tag);
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/** Splits a comma-separated tag field as typed by the user. */
+export function parseTags(text: string): string[] {
+  return normalizeTags(text.split(","));
+}
+
+/** Every tag in use, alphabetically, for the folder picker. */
+export function allTags(entries: RegionEntry[]): string[] {
+  return normalizeTags(entries.flatMap((entry) => entry.tags)).sort((a, b) =>
+    a.localeCompare(b)
+  );
+}
+
+export function filterEntries(
+  entries: RegionEntry[],
+  { query, tag }: RegionFilter
+): RegionEntry[] {
+  const words = foldText(query).split(/\s+/).filter(Boolean);
+  const folder = tag === null ? null : foldText(tag);
+  return entries.filter((entry) => {
+    const tags = entry.tags.map(foldText);
+    if (folder !== null && !tags.includes(folder)) {
+      return false;
+    }
+    const text = foldText(
+      [entry.displayName, entry.notes, ...entry.tags].join(" ")
+    );
+    return words.every((word) => text.includes(word));
+  });
+}
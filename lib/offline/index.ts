@@ -0,0 +1,61 @@
+import MapLibreGL, { OfflineManager } from "@maplibre/maplibre-react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Network from "expo-network";
+
+import { DownloadQueue, NetworkSource } from "./DownloadQueue";
+import { OfflineRegionService } from "./OfflineRegionService";
+import { DownloadStates, OfflineManagerLike } from "./types";
+
+export * from "./types";
+export * from "./groups";
+export * from "./naming";
+export * from "./size";
+export * from "./staleness";
+export * from "./tiles";
+export { OfflineRegionService } from "./OfflineRegionService";
+export type { OfflineRegionEvents } from "./OfflineRegionService";
+export {
+  DEFAULT_RETRY,
+  DownloadQueue,
+  isNetworkError,
+  retryDelay,
+} from "./DownloadQueue";
+export type {
+  Download,
+  DownloadQueueEvents,
+  DownloadStatus,
+  NetworkSource,
+  RetryPolicy,
+} from "./DownloadQueue";
+
+const states = MapLibreGL.OfflinePackDownloadState as DownloadStates;
+
+/** App-wide offline region service backed by the native OfflineManager. */
+export const offlineRegions = new OfflineRegionService({
+  manager: OfflineManager as unknown as OfflineManagerLike,
+  store: AsyncStorage,
+  states,
+});
+
+const isWifi = (state: Network.NetworkState) =>
+  state.type === Network.NetworkStateType.WIFI;
+
+const wifiNetwork: NetworkSource = {
+  async isWifi() {
+    return isWifi(await Network.getNetworkStateAsync());
+  },
+  onChange(listener) {
+    const subscription = Network.addNetworkStateListener((state) =>
+      listener(isWifi(state))
+    );
+    return () => subscription.remove();
+  },
+};
+
+/** App-wide queue every map download goes through. */
+export const downloadQueue = new DownloadQueue({
+  service: offlineRegions,
+  store: AsyncStorage,
+  states,
+  network: wifiNetwork,
+});
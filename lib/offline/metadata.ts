@@ -0,0 +1,257 @@
+import { Bounds, PackGroup, PackMetadata } from "./types";
+
+/**
+ * Versioned codec for the metadata stored alongside each offline pack.
+ *
+ * Version history:
+ * - 0: `{ name, downloaded_at }`, written by the original `handleDownload`
+ *   as a JSON *string*. MapLibre spreads whatever it is given into an object
+ *   and adds `name`, so those packs come back as a map of single characters
+ *   (`{ "0": "{", "1": "\"", ..., name: "offline-pack-…" }`).
+ * - 1: `{ version, displayName, downloadedAt }` passed as an object.
+ * - 2: adds the optional `group` shared by the packs of one corridor.
+ * - 3: adds `styleId`, the map style the pack was downloaded for.
+ * - 4: adds `overlays`, the terrain overlays downloaded with it.
+ *
+ * Native metadata cannot be rewritten in place, so old packs are migrated
+ * every time they are read.
+ */
+export const PACK_METADATA_VERSION = 4;
+
+// Every pack was downloaded from the liberty style until styles could be
+// switched.
+const LEGACY_STYLE_ID = "liberty";
+
+export type DecodedMetadata =
+  | { status: "ok" | "migrated"; metadata: PackMetadata }
+  | { status: "missing"; metadata: null }
+  | { status: "corrupt"; metadata: null; reason: string };
+
+class CorruptMetadataError extends Error {}
+
+type Migration = (raw: Record<string, any>) => Record<string, any>;
+
+// Each entry upgrades metadata from its key version to the next one.
+const MIGRATIONS: Record<number, Migration> = {
+  0: (raw) => ({
+    version: 1,
+    displayName: raw.name,
+    // The original writer always set it, but 0 ("unknown") beats rejecting.
+    downloadedAt: raw.downloaded_at ?? 0,
+  }),
+  1: (raw) => ({ ...raw, version: 2 }),
+  2: (raw) => ({ ...raw, version: 3, styleId: LEGACY_STYLE_ID }),
+  3: (raw) => ({ ...raw, version: 4, overlays: [] }),
+};
+
+export function createMetadata(
+  displayName: string,
+  styleId: string,
+  overlays: string[] = [],
+  group?: PackGroup
+): PackMetadata {
+  return {
+    version: PACK_METADATA_VERSION,
+    displayName,
+    downloadedAt: Date.now(),
+    styleId,
+    overlays,
+    ...(group && { group }),
+  };
+}
+
+export function encodeMetadata(metadata: PackMetadata): Record<string, any> {
+  validate(metadata);
+  return { ...metadata };
+}
+
+/**
+ * Decodes metadata from anything `getPacks` has been seen to return: an
+ * `OfflinePack` instance, its serialised form (`{ pack, _metadata }`) or the
+ * raw native dictionary with a JSON `metadata` string.
+ */
+export function decodeMetadata(pack: unknown): DecodedMetadata {
+  try {
+    const raw = normalise(readRaw(pack));
+    if (raw === null) {
+      return { status: "missing", metadata: null };
+    }
+
+    const version = detectVersion(raw);
+    let current = raw;
+    for (let v = version; v < PACK_METADATA_VERSION; v++) {
+      current = MIGRATIONS[v](current);
+    }
+    const metadata = validate(current);
+    return {
+      status: version === PACK_METADATA_VERSION ? "ok" : "migrated",
+      metadata,
+    };
+  } catch (error) {
+    if (!(error instanceof CorruptMetadataError)) throw error;
+    return { status: "corrupt", metadata: null, reason: error.message };
+  }
+}
+
+export function decodeBounds(raw: unknown): Bounds | null {
+  const value = typeof raw === "string" ? tryParse(raw) : raw;
+  if (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every(
+      (corner) =>
+        Array.isArray(corner) &&
+        corner.length >= 2 &&
+        corner.every((n) => typeof n === "number")
+    )
+  ) {
+    return [
+      [value[0][0], value[0][1]],
+      [value[1][0], value[1][1]],
+    ];
+  }
+  return null;
+}
+
+function readRaw(pack: unknown): unknown {
+  if (!isObject(pack)) return null;
+
+  let fromGetter: unknown = null;
+  try {
+    fromGetter = pack.metadata;
+  } catch (error: any) {
+    // OfflinePack's getter JSON.parses the native string and can throw.
+    throw new CorruptMetadataError(`Unparseable metadata: ${error.message}`);
+  }
+  if (fromGetter != null) return fromGetter;
+  if (pack._metadata != null) return pack._metadata;
+  if (isObject(pack.pack) && pack.pack.metadata != null) {
+    return pack.pack.metadata;
+  }
+  return null;
+}
+
+// Turns strings, double-encoded strings and character maps into a plain
+// object with MapLibre's injected `name` stripped when it is only the id.
+function normalise(raw: unknown): Record<string, any> | null {
+  let value = raw;
+  for (let depth = 0; depth < 3; depth++) {
+    if (typeof value === "string") {
+      if (value.trim() === "") return null;
+      value = parseOrThrow(value);
+    } else if (isObject(value) && isCharacterMap(value)) {
+      value = parseOrThrow(joinCharacters(value));
+    } else {
+      break;
+    }
+  }
+  if (value === null || value === undefined) return null;
+  if (!isObject(value) || Array.isArray(value)) {
+    throw new CorruptMetadataError("Metadata is not an object");
+  }
+  const keys = Object.keys(value);
+  if (keys.length === 0 || (keys.length === 1 && keys[0] === "name")) {
+    // Nothing but the pack id MapLibre adds on creation.
+    return null;
+  }
+  return value;
+}
+
+function detectVersion(raw: Record<string, any>): number {
+  if (raw.version === undefined) {
+    if ("downloaded_at" in raw || typeof raw.name === "string") return 0;
+    throw new CorruptMetadataError("Metadata has no version");
+  }
+  const version = raw.version;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new CorruptMetadataError(`Invalid metadata version: ${version}`);
+  }
+  if (version > PACK_METADATA_VERSION) {
+    throw new CorruptMetadataError(
+      `Metadata version ${version} is newer than this app supports`
+    );
+  }
+  return version;
+}
+
+function validate(raw: Record<string, any>): PackMetadata {
+  if (typeof raw.displayName !== "string" || raw.displayName.trim() === "") {
+    throw new CorruptMetadataError("Metadata has no display name");
+  }
+  const downloadedAt = Number(raw.downloadedAt);
+  if (!Number.isFinite(downloadedAt) || downloadedAt < 0) {
+    throw new CorruptMetadataError("Metadata has no valid download date");
+  }
+  if (typeof raw.styleId !== "string" || raw.styleId === "") {
+    throw new CorruptMetadataError("Metadata has no style");
+  }
+  if (
+    !Array.isArray(raw.overlays) ||
+    !raw.overlays.every((o: unknown) => typeof o === "string")
+  ) {
+    throw new CorruptMetadataError("Metadata has invalid overlays");
+  }
+  const metadata: PackMetadata = {
+    version: PACK_METADATA_VERSION,
+    displayName: raw.displayName,
+    downloadedAt,
+    styleId: raw.styleId,
+    overlays: raw.overlays,
+  };
+  if (raw.group !== undefined) {
+    metadata.group = validateGroup(raw.group);
+  }
+  return metadata;
+}
+
+function validateGroup(group: unknown): PackGroup {
+  if (
+    !isObject(group) ||
+    typeof group.id !== "string" ||
+    typeof group.name !== "string" ||
+    !Number.isInteger(group.part) ||
+    !Number.isInteger(group.parts) ||
+    group.part < 1 ||
+    group.part > group.parts
+  ) {
+    throw new CorruptMetadataError("Metadata has an invalid group");
+  }
+  return {
+    id: group.id,
+    name: group.name,
+    part: group.part,
+    parts: group.parts,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null;
+}
+
+function isCharacterMap(value: Record<string, any>) {
+  return "0" in value && typeof value["0"] === "string";
+}
+
+function joinCharacters(value: Record<string, any>): string {
+  return Object.keys(value)
+    .filter((key) => /^\d+$/.test(key))
+    .sort((a, b) => Number(a) - Number(b))
+    .map((key) => value[key])
+    .join("");
+}
+
+function parseOrThrow(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    throw new CorruptMetadataError(`Unparseable metadata: ${error.message}`);
+  }
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,89 @@
+import { Bounds, boundsCenter } from "@/lib/geo/bounds";
+import { formatLngLat } from "@/lib/geo/coordinates";
+import { StyleDocument } from "@/lib/styles/types";
+
+/** Vector tile layers whose features can name a region. */
+export const NAME_SOURCE_LAYERS = ["place", "mountain_peak", "park"];
+
+// How well a feature of each class names the area around it. Countries and
+// states are left out: they name everything on the screen equally.
+const PLACE_SCORES: Record<string, number> = {
+  city: 100,
+  national_park: 90,
+  town: 80,
+  nature_reserve: 70,
+  protected_area: 70,
+  village: 60,
+  suburb: 40,
+  hamlet: 30,
+  park: 30,
+  locality: 20,
+  isolated_dwelling: 20,
+  neighbourhood: 20,
+  quarter: 20,
+};
+const PEAK_CLASSES = ["peak", "volcano"];
+
+/**
+ * Ids of the style's layers drawing place, peak and park features. Empty
+ * for styles only known by URL, which makes the map query every layer;
+ * `prominentName` ignores features of other kinds by their class.
+ */
+export function nameLayerIds(style: string | StyleDocument): string[] {
+  if (typeof style === "string") {
+    return [];
+  }
+  return style.layers
+    .filter(
+      (layer) =>
+        layer["source-layer"] !== undefined &&
+        NAME_SOURCE_LAYERS.includes(layer["source-layer"])
+    )
+    .map((layer) => layer.id);
+}
+
+function score(properties: GeoJSON.GeoJsonProperties): number {
+  const kind = properties?.class;
+  if (typeof kind !== "string") {
+    return 0;
+  }
+  if (PEAK_CLASSES.includes(kind)) {
+    // A 3000 m peak outranks a village, a hill does not.
+    const ele = Number(properties?.ele);
+    return 35 + (Number.isFinite(ele) ? Math.min(ele, 5000) / 100 : 0);
+  }
+  return PLACE_SCORES[kind] ?? 0;
+}
+
+/**
+ * The name of the most prominent place, peak or park among rendered map
+ * features, or null when none has a usable name. Ties go to the feature
+ * with the better `rank`, then to the first one.
+ */
+export function prominentName(features: GeoJSON.Feature[]): string | null {
+  let best: { name: string; score: number; rank: number } | null = null;
+  for (const { properties } of features) {
+    const name = properties?.name;
+    const value = score(properties);
+    if (typeof name !== "string" || !name.trim() || value === 0) {
+      continue;
+    }
+    const rank = Number(properties?.rank ?? Infinity);
+    if (
+      !best ||
+      value > best.score ||
+      (value === best.score && rank < best.rank)
+    ) {
+      best = { name: name.trim(), score: value, rank };
+    }
+  }
+  return best?.name ?? null;
+}
+
+/** Default name of a new pack: a place inside it, else its centre. */
+export function defaultRegionName(
+  features: GeoJSON.Feature[],
+  bounds: Bounds
+): string {
+  return prominentName(features) ?? formatLngLat(boundsCenter(bounds));
+}
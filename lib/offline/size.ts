@@ -0,0 +1,66 @@
+import { OfflineRegion } from "./types";
+
+export type RegionUsage = {
+  /** Bytes of every downloaded resource: tiles, style, glyphs and sprites. */
+  bytes: number;
+  tiles: number;
+  resources: number;
+};
+
+export type StorageUsage = RegionUsage & {
+  regions: number;
+  /** Regions whose status could not be read and are missing from the sum. */
+  unknown: number;
+};
+
+export type RegionSort = "newest" | "largest" | "name";
+
+export function regionUsage(region: OfflineRegion): RegionUsage | null {
+  if (!region.status) return null;
+  return {
+    bytes: region.status.completedResourceSize,
+    tiles: region.status.completedTileCount,
+    resources: region.status.completedResourceCount,
+  };
+}
+
+export function totalUsage(regions: OfflineRegion[]): StorageUsage {
+  return regions.reduce<StorageUsage>(
+    (total, region) => {
+      const usage = regionUsage(region);
+      if (!usage) return { ...total, unknown: total.unknown + 1 };
+      return {
+        bytes: total.bytes + usage.bytes,
+        tiles: total.tiles + usage.tiles,
+        resources: total.resources + usage.resources,
+        regions: total.regions + 1,
+        unknown: total.unknown,
+      };
+    },
+    { bytes: 0, tiles: 0, resources: 0, regions: 0, unknown: 0 }
+  );
+}
+
+// Formats bytes into a human-readable size using binary units.
+export function formatBytes(bytes: number, decimals = 1) {
+  if (bytes <= 0) return "0 Bytes";
+
+  const k = 1024;
+  const dm = decimals < 0 ? 0 : decimals;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1
+  );
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + " " + sizes[i];
+}
+
+export function describeUsage(usage: RegionUsage) {
+  return [
+    formatBytes(usage.bytes),
+    `${usage.tiles.toLocaleString()} tiles`,
+    `${usage.resources.toLocaleString()} resources`,
+  ].join(" · ");
+}
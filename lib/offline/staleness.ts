@@ -0,0 +1,69 @@
+import { KeyValueStore, readJSON, writeJSON } from "@/lib/storage";
+
+import { RegionEntry } from "./groups";
+
+const POLICY_KEY = "offline.stalenessPolicy";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StalenessPolicy = {
+  /** Packs not updated for longer than this are flagged as out of date. */
+  maxAgeDays: number;
+};
+
+/** Trails change with the seasons, so a season-old pack is flagged. */
+export const DEFAULT_STALENESS: StalenessPolicy = { maxAgeDays: 90 };
+
+export const MAX_AGE_OPTIONS: { days: number; label: string }[] = [
+  { days: 30, label: "1 month" },
+  { days: 90, label: "3 months" },
+  { days: 180, label: "6 months" },
+  { days: 365, label: "1 year" },
+];
+
+/** The oldest update among an entry's packs; a corridor is as old as its oldest part. */
+export function entryUpdatedAt(entry: RegionEntry): number | null {
+  const times = entry.regions
+    .map((region) => region.updatedAt)
+    .filter((time): time is number => time !== null && time > 0);
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+/** Packs of unknown age are not flagged; there is nothing to compare. */
+export function isStale(
+  updatedAt: number | null,
+  policy: StalenessPolicy,
+  now = Date.now()
+) {
+  return updatedAt !== null && now - updatedAt > policy.maxAgeDays * DAY_MS;
+}
+
+export function formatAge(ms: number) {
+  const days = Math.floor(ms / DAY_MS);
+  const plural = (n: number, unit: string) =>
+    `${n} ${unit}${n === 1 ? "" : "s"}`;
+  if (days < 1) return "today";
+  if (days < 14) return `${plural(days, "day")} ago`;
+  if (days < 60) return `${plural(Math.floor(days / 7), "week")} ago`;
+  if (days < 365) return `${plural(Math.floor(days / 30), "month")} ago`;
+  return `${plural(Math.floor(days / 365), "year")} ago`;
+}
+
+export async function readStalenessPolicy(
+  store: KeyValueStore
+): Promise<StalenessPolicy> {
+  const stored = await readJSON<Partial<StalenessPolicy>>(
+    store,
+    POLICY_KEY,
+    {}
+  );
+  return typeof stored.maxAgeDays === "number" && stored.maxAgeDays > 0
+    ? { maxAgeDays: stored.maxAgeDays }
+    : DEFAULT_STALENESS;
+}
+
+export async function writeStalenessPolicy(
+  store: KeyValueStore,
+  policy: StalenessPolicy
+): Promise<void> {
+  await writeJSON(store, POLICY_KEY, policy);
+}
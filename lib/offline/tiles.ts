@@ -0,0 +1,107 @@
+import { Bounds } from "./types";
+
+/** MapLibre refuses packs above this many tiles unless the limit is raised. */
+export const TILE_COUNT_LIMIT = 6000;
+
+/** Rough average for an OpenMapTiles vector tile, used for the MB estimate. */
+export const AVERAGE_TILE_BYTES = 40 * 1024;
+
+export const MIN_DOWNLOAD_ZOOM = 0;
+export const MAX_DOWNLOAD_ZOOM = 16;
+
+// Web Mercator stops at ±85.0511°; clamp so the poles don't produce Infinity.
+const MAX_LATITUDE = 85.05112878;
+
+export type ZoomTileCount = { zoom: number; tiles: number };
+
+export type DownloadEstimate = {
+  minZoom: number;
+  maxZoom: number;
+  perZoom: ZoomTileCount[];
+  tiles: number;
+  bytes: number;
+  exceedsLimit: boolean;
+};
+
+export function lngToTileX(lng: number, zoom: number) {
+  const n = 2 ** zoom;
+  return Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+}
+
+export function latToTileY(lat: number, zoom: number) {
+  const n = 2 ** zoom;
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const rad = (clamped * Math.PI) / 180;
+  const y = ((1 - Math.asinh(Math.tan(rad)) / Math.PI) / 2) * n;
+  return Math.min(n - 1, Math.max(0, Math.floor(y)));
+}
+
+/** Number of tiles covering `bounds` at one zoom level. */
+export function countTiles([ne, sw]: Bounds, zoom: number) {
+  const west = lngToTileX(sw[0], zoom);
+  const east = lngToTileX(ne[0], zoom);
+  const north = latToTileY(ne[1], zoom);
+  const south = latToTileY(sw[1], zoom);
+  // A region crossing the antimeridian has its east edge left of the west.
+  const columns = east >= west ? east - west + 1 : 2 ** zoom - west + east + 1;
+  return columns * (south - north + 1);
+}
+
+/**
+ * Tiles and bytes a pack will need. `sources` counts the tiled sources of
+ * the style, e.g. 2 with a hillshade; each adds its own set of tiles.
+ */
+export function estimateDownload(
+  bounds: Bounds,
+  minZoom: number,
+  maxZoom: number,
+  {
+    limit = TILE_COUNT_LIMIT,
+    bytesPerTile = AVERAGE_TILE_BYTES,
+    sources = 1,
+  } = {}
+): DownloadEstimate {
+  const perZoom: ZoomTileCount[] = [];
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    perZoom.push({ zoom, tiles: countTiles(bounds, zoom) * sources });
+  }
+  const tiles = perZoom.reduce((sum, level) => sum + level.tiles, 0);
+  return {
+    minZoom,
+    maxZoom,
+    perZoom,
+    tiles,
+    bytes: tiles * bytesPerTile,
+    exceedsLimit: tiles > limit,
+  };
+}
+
+export type ZoomRange = { minZoom: number; maxZoom: number };
+
+/** The zoom range `handleDownload` has always picked for the current view. */
+export function defaultZoomRange(zoom: number): ZoomRange {
+  return {
+    minZoom: Math.max(MIN_DOWNLOAD_ZOOM, Math.floor(zoom) - 2),
+    maxZoom: Math.min(MAX_DOWNLOAD_ZOOM, Math.floor(zoom) + 3),
+  };
+}
+
+/**
+ * Moves one end of a zoom range by `delta`, leaving the range unchanged if
+ * the result would be empty or outside the downloadable zooms.
+ */
+export function stepZoomRange(
+  range: ZoomRange,
+  key: keyof ZoomRange,
+  delta: number
+): ZoomRange {
+  const next = { ...range, [key]: range[key] + delta };
+  if (
+    next.minZoom < MIN_DOWNLOAD_ZOOM ||
+    next.maxZoom > MAX_DOWNLOAD_ZOOM ||
+    next.minZoom > next.maxZoom
+  ) {
+    return range;
+  }
+  return next;
+}
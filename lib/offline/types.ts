@@ -0,0 +1,150 @@
+// Shared types for the offline-region layer. These mirror the shapes used by
+// @maplibre/maplibre-react-native without importing it, so that the pure
+// modules can be unit-tested against a fake manager.
+
+import type { Bounds, LngLat } from "@/lib/geo/bounds";
+
+export type { Bounds, LngLat };
+
+export type OfflinePackStatus = {
+  name: string;
+  state: number;
+  percentage: number;
+  completedResourceCount: number;
+  completedResourceSize: number;
+  completedTileCount: number;
+  completedTileSize: number;
+  requiredResourceCount: number;
+};
+
+export type OfflinePackError = {
+  name: string;
+  message: string;
+};
+
+export interface OfflinePackLike {
+  readonly name: string | null;
+  /** Native bounds; an array on both platforms, typed as a string upstream. */
+  readonly bounds: unknown;
+  readonly metadata: Record<string, any> | null;
+  status(): Promise<OfflinePackStatus>;
+  resume(): Promise<void>;
+  pause(): Promise<void>;
+}
+
+export type ProgressListener = (
+  pack: OfflinePackLike,
+  status: OfflinePackStatus
+) => void;
+export type ErrorListener = (
+  pack: OfflinePackLike,
+  err: OfflinePackError
+) => void;
+
+export type CreatePackOptions = {
+  name: string;
+  styleURL: string;
+  bounds: Bounds;
+  minZoom?: number;
+  maxZoom?: number;
+  metadata?: Record<string, any>;
+};
+
+/** The subset of MapLibre's `OfflineManager` the app relies on. */
+export interface OfflineManagerLike {
+  createPack(
+    options: CreatePackOptions,
+    progressListener: ProgressListener,
+    errorListener: ErrorListener
+  ): Promise<void>;
+  getPacks(): Promise<OfflinePackLike[]>;
+  getPack(name: string): Promise<OfflinePackLike | undefined>;
+  deletePack(name: string): Promise<void>;
+  /** Marks a pack's tiles as expired so resuming it fetches them again. */
+  invalidatePack(name: string): Promise<void>;
+  subscribe(
+    packName: string,
+    progressListener: ProgressListener,
+    errorListener: ErrorListener
+  ): Promise<void>;
+  unsubscribe(packName: string): void;
+}
+
+/** Native download state constants (`MapLibreGL.OfflinePackDownloadState`). */
+export type DownloadStates = {
+  Inactive: number | string;
+  Active: number | string;
+  Complete: number | string;
+};
+
+/** Ties together the packs downloaded for one logical region. */
+export type PackGroup = {
+  id: string;
+  name: string;
+  /** 1-based position of this pack within the group. */
+  part: number;
+  parts: number;
+};
+
+export type PackMetadata = {
+  version: number;
+  displayName: string;
+  downloadedAt: number;
+  /** Id of the map style the pack was downloaded for. */
+  styleId: string;
+  /** Terrain overlays included in the pack. */
+  overlays: string[];
+  group?: PackGroup;
+};
+
+export type MetadataStatus = "ok" | "migrated" | "missing" | "corrupt";
+
+/** What the user wrote about a region; kept locally, not in pack metadata. */
+export type RegionDetails = {
+  notes: string;
+  /** Free-form labels such as "Dolomites 2026 trip", used as folders. */
+  tags: string[];
+};
+
+/** A pack as presented to the UI. */
+export type OfflineRegion = {
+  /** Internal unique pack name, used as the key for every operation. */
+  id: string;
+  displayName: string;
+  bounds: Bounds | null;
+  metadata: PackMetadata | null;
+  /** Whether the stored metadata was current, migrated, absent or unreadable. */
+  metadataStatus: MetadataStatus;
+  /** Why the metadata could not be read, when `metadataStatus` is "corrupt". */
+  metadataIssue?: string;
+  /** Latest native status, or null when the pack could not report one. */
+  status: OfflinePackStatus | null;
+  /**
+   * When the pack last finished downloading or refreshing, falling back to
+   * `metadata.downloadedAt`; null when neither is known.
+   */
+  updatedAt: number | null;
+  /** Shared by every pack of a group, since the list shows them as one. */
+  notes: string;
+  tags: string[];
+};
+
+export type CreateRegionInput = {
+  displayName: string;
+  /** Recorded in the metadata; `styleURL` is what gets downloaded. */
+  styleId: string;
+  styleURL: string;
+  overlays?: string[];
+  bounds: Bounds;
+  minZoom: number;
+  maxZoom: number;
+};
+
+/** A region downloaded as one pack per box, e.g. a route corridor. */
+export type CreateGroupInput = Omit<
+  CreateRegionInput,
+  "bounds" | "displayName"
+> & {
+  name: string;
+  boxes: Bounds[];
+};
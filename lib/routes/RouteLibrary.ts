@@ -0,0 +1,117 @@
+import { Emitter } from "@/lib/emitter";
+import { Bounds, LngLat, boundsOfPoints } from "@/lib/geo/bounds";
+import { lineLength } from "@/lib/geo/distance";
+import { GeoDocument, GeoFormat } from "@/lib/formats";
+import { KeyValueStore, readJSON, writeJSON } from "@/lib/storage";
+
+const INDEX_KEY = "routes.index";
+const documentKey = (id: string) => `routes.data.${id}`;
+
+/** What the list needs about an imported file, without its geometry. */
+export type RouteSummary = {
+  id: string;
+  name: string;
+  /** Null for routes planned in the app. */
+  format: GeoFormat | null;
+  importedAt: number;
+  /** Drawn on the map. */
+  visible: boolean;
+  distanceM: number;
+  lineCount: number;
+  waypointCount: number;
+  bounds: Bounds;
+};
+
+export type RouteLibraryEvents = {
+  /** Routes were added, removed or shown/hidden; lists should refetch. */
+  change: undefined;
+};
+
+type LibraryOptions = {
+  store: KeyValueStore;
+  now?: () => number;
+};
+
+/**
+ * Imported GPX/KML/GeoJSON files and routes planned on the map, kept as
+ * parsed documents.
+ */
+export class RouteLibrary {
+  readonly events = new Emitter<RouteLibraryEvents>();
+
+  private store: KeyValueStore;
+  private now: () => number;
+  private lastId = 0;
+
+  constructor({ store, now = Date.now }: LibraryOptions) {
+    this.store = store;
+    this.now = now;
+  }
+
+  /** All routes, most recently imported first. */
+  async list(): Promise<RouteSummary[]> {
+    const index = await this.readIndex();
+    return Object.values(index).sort((a, b) => b.importedAt - a.importedAt);
+  }
+
+  get(id: string): Promise<GeoDocument | null> {
+    return readJSON<GeoDocument | null>(this.store, documentKey(id), null);
+  }
+
+  async add(
+    document: GeoDocument,
+    { name, format }: { name: string; format: GeoFormat | null }
+  ): Promise<RouteSummary> {
+    const importedAt = this.now();
+    this.lastId = Math.max(importedAt, this.lastId + 1);
+    const summary: RouteSummary = {
+      id: `route-${this.lastId}`,
+      name: document.name || name,
+      format,
+      importedAt,
+      visible: true,
+      ...measure(document),
+    };
+    await writeJSON(this.store, documentKey(summary.id), document);
+    const index = await this.readIndex();
+    index[summary.id] = summary;
+    await writeJSON(this.store, INDEX_KEY, index);
+    this.events.emit("change", undefined);
+    return summary;
+  }
+
+  async setVisible(id: string, visible: boolean): Promise<void> {
+    const index = await this.readIndex();
+    if (!index[id]) {
+      throw new Error(`Route ${id} does not exist.`);
+    }
+    index[id] = { ...index[id], visible };
+    await writeJSON(this.store, INDEX_KEY, index);
+    this.events.emit("change", undefined);
+  }
+
+  async delete(id: string): Promise<void> {
+    const index = await this.readIndex();
+    delete index[id];
+    await writeJSON(this.store, INDEX_KEY, index);
+    await this.store.removeItem(documentKey(id));
+    this.events.emit("change", undefined);
+  }
+
+  private readIndex() {
+    return readJSON<Record<string, RouteSummary>>(this.store, INDEX_KEY, {});
+  }
+}
+
+function measure(document: GeoDocument) {
+  const segments = document.lines.flatMap((line) =>
+    line.segments.map((segment) => segment.map((p): LngLat => [p.lng, p.lat]))
+  );
+  const waypoints = document.waypoints.map((w): LngLat => [w.lng, w.lat]);
+  return {
+    distanceM: segments.reduce((sum, s) => sum + lineLength(s), 0),
+    lineCount: document.lines.length,
+    waypointCount: document.waypoints.length,
+    bounds: boundsOfPoints([...segments.flat(), ...waypoints]),
+  };
+}
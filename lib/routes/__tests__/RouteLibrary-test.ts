@@ -0,0 +1,72 @@
+import { readFixture } from "@/lib/formats/__fixtures__/read";
+import { parseGeoFile } from "@/lib/formats";
+import { createMemoryStore } from "@/lib/storage";
+
+import { RouteLibrary } from "../RouteLibrary";
+
+function setup() {
+  let now = 1_000;
+  const library = new RouteLibrary({
+    store: createMemoryStore(),
+    now: () => now++,
+  });
+  return { library };
+}
+
+function importFixture(library: RouteLibrary, file: string) {
+  const { format, document } = parseGeoFile(readFixture(file));
+  return library.add(document, { name: file, format });
+}
+
+it("stores imported documents with a summary", async () => {
+  const { library } = setup();
+  const summary = await importFixture(library, "tre-cime-track.gpx");
+
+  expect(summary).toMatchObject({
+    name: "Tre Cime loop",
+    format: "gpx",
+    visible: true,
+    lineCount: 1,
+    waypointCount: 2,
+    bounds: [
+      [12.3138, 46.633],
+      [12.3022, 46.6186],
+    ],
+  });
+  // The gap between the two track segments is not counted.
+  expect(summary.distanceM).toBeGreaterThan(900);
+  expect(summary.distanceM).toBeLessThan(1700);
+  expect((await library.get(summary.id))?.waypoints).toHaveLength(2);
+});
+
+it("falls back to the file name and lists newest first", async () => {
+  const { library } = setup();
+  const first = await importFixture(library, "tre-cime-track.gpx");
+  const { format, document } = parseGeoFile(readFixture("seceda.geojson"));
+  const second = await library.add(
+    { ...document, name: null },
+    { name: "seceda", format }
+  );
+
+  expect((await library.list()).map((r) => r.id)).toEqual([
+    second.id,
+    first.id,
+  ]);
+  expect(second.name).toBe("seceda");
+});
+
+it("toggles visibility and deletes routes, emitting changes", async () => {
+  const { library } = setup();
+  const onChange = jest.fn();
+  library.events.on("change", onChange);
+  const { id } = await importFixture(library, "sella-ronda.kml");
+
+  await library.setVisible(id, false);
+  expect((await library.list())[0].visible).toBe(false);
+
+  await library.delete(id);
+  expect(await library.list()).toEqual([]);
+  expect(await library.get(id)).toBeNull();
+  expect(onChange).toHaveBeenCalledTimes(3);
+  await expect(library.setVisible(id, true)).rejects.toThrow("does not exist");
+});
@@ -0,0 +1,9 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { RouteLibrary } from "./RouteLibrary";
+
+export { RouteLibrary } from "./RouteLibrary";
+export type { RouteLibraryEvents, RouteSummary } from "./RouteLibrary";
+
+/** App-wide library of imported route files. */
+export const routeLibrary = new RouteLibrary({ store: AsyncStorage });
@@ -0,0 +1,177 @@
+import { LngLat } from "@/lib/geo/bounds";
+import { bufferBounds } from "@/lib/geo/corridor";
+import { naismithHours } from "@/lib/geo/profile";
+import { latToTileY, lngToTileX } from "@/lib/offline/tiles";
+import { TileCache, tilesCovering } from "@/lib/tiles/cache";
+import { TileCoord, TileDecodeError, decodeTile } from "@/lib/tiles/mvt";
+
+import {
+  CoordTile,
+  ROUTING_LAYER,
+  RoutingGraph,
+  buildGraph,
+  findJunctions,
+  snapToGraph,
+} from "./graph";
+import { shortestPath } from "./search";
+
+/** OpenMapTiles only carries every footpath from this zoom on. */
+const ROUTING_ZOOMS = [14, 13];
+/** Paths may leave the box around the points to go round a ridge. */
+const BUFFER_KM = 1.5;
+/** About 34 km across at zoom 14 in the Alps. */
+const MAX_TILES = 400;
+/** Taps further than this from any trail are refused. */
+const MAX_SNAP_M = 250;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type RouteLeg = {
+  distanceM: number;
+  /** Index into the route's points where the leg ends. */
+  endIndex: number;
+};
+
+export type PlannedRoute = {
+  /** The line along the trails, from the first point to the last. */
+  points: LngLat[];
+  legs: RouteLeg[];
+  distanceM: number;
+  /** Naismith's rule on the flat: the tiles carry no elevations. */
+  durationMs: number;
+};
+
+/** A route that cannot be planned, with a message fit for the user. */
+export class RoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoutingError";
+  }
+}
+
+type PlannerOptions = {
+  tiles: TileCache;
+};
+
+const tileKey = ({ z, x, y }: TileCoord) => `${z}/${x}/${y}`;
+
+/**
+ * Plans hikes through the footpaths, tracks and minor roads of the vector
+ * tiles offline packs stored, so it works without a connection. The
+ * network is rebuilt from the tiles around the points for each plan;
+ * decoded tiles and the last network are reused.
+ */
+export class RoutePlanner {
+  private tiles: TileCache;
+  private decoded = new Map<string, CoordTile | null>();
+  private last: { key: string; graph: RoutingGraph } | null = null;
+
+  constructor({ tiles }: PlannerOptions) {
+    this.tiles = tiles;
+  }
+
+  /** The route through `waypoints` in order; needs at least two. */
+  async plan(waypoints: LngLat[]): Promise<PlannedRoute> {
+    if (waypoints.length < 2) {
+      throw new RoutingError("Add at least two points to plan a route.");
+    }
+    const graph = await this.graphAround(waypoints);
+    const snaps = waypoints.map((point, i) => {
+      const snap = snapToGraph(graph, point, MAX_SNAP_M);
+      if (!snap) {
+        throw new RoutingError(
+          `Point ${i + 1} is not near a trail in the downloaded maps.`
+        );
+      }
+      return snap;
+    });
+
+    const points: LngLat[] = [];
+    const legs: RouteLeg[] = [];
+    let distanceM = 0;
+    for (let i = 1; i < snaps.length; i++) {
+      const path = shortestPath(graph, snaps[i - 1], snaps[i]);
+      if (!path) {
+        throw new RoutingError(
+          `No trail in the downloaded maps connects point ${i} to point ${
+            i + 1
+          }.`
+        );
+      }
+      // Each leg starts where the previous one ended.
+      points.push(...(i === 1 ? path.points : path.points.slice(1)));
+      distanceM += path.distanceM;
+      legs.push({ distanceM: path.distanceM, endIndex: points.length - 1 });
+    }
+    return {
+      points,
+      legs,
+      distanceM,
+      durationMs: naismithHours(distanceM, 0) * HOUR_MS,
+    };
+  }
+
+  /** Trail junctions in the downloaded maps around a line to be followed. */
+  async junctionsAround(points: LngLat[]): Promise<LngLat[]> {
+    return findJunctions(await this.graphAround(points));
+  }
+
+  /** Forgets tiles read so far, e.g. once another pack has downloaded. */
+  clearCache() {
+    this.decoded.clear();
+    this.last = null;
+  }
+
+  private async graphAround(waypoints: LngLat[]): Promise<RoutingGraph> {
+    const zoom = await this.routingZoom(waypoints[0]);
+    if (zoom === null) {
+      throw new RoutingError(
+        "There are no downloaded maps with trails here. Download this area with a maximum zoom of 14 to plan routes offline."
+      );
+    }
+    const coords = tilesCovering(bufferBounds(waypoints, BUFFER_KM), zoom);
+    if (coords.length > MAX_TILES) {
+      throw new RoutingError(
+        "The points are too far apart. Add points in between."
+      );
+    }
+    const key = coords.map(tileKey).join(";");
+    if (this.last?.key === key) return this.last.graph;
+
+    const tiles: CoordTile[] = [];
+    for (const coord of coords) {
+      const tile = await this.readTile(coord);
+      if (tile) tiles.push(tile);
+    }
+    const graph = buildGraph(tiles);
+    this.last = { key, graph };
+    return graph;
+  }
+
+  // The highest zoom with paths at the first point.
+  private async routingZoom([lng, lat]: LngLat): Promise<number | null> {
+    for (const z of ROUTING_ZOOMS) {
+      const coord = { z, x: lngToTileX(lng, z), y: latToTileY(lat, z) };
+      if (await this.readTile(coord)) return z;
+    }
+    return null;
+  }
+
+  private async readTile(coord: TileCoord): Promise<CoordTile | null> {
+    const key = tileKey(coord);
+    if (this.decoded.has(key)) return this.decoded.get(key)!;
+    let found: CoordTile | null = null;
+    for (const data of await this.tiles.getTiles(coord.z, coord.x, coord.y)) {
+      try {
+        const tile = decodeTile(data, [ROUTING_LAYER]);
+        if (tile[ROUTING_LAYER]) found = { coord, tile };
+      } catch (error) {
+        // Raster tiles of other sources, such as the hillshade.
+        if (!(error instanceof TileDecodeError)) throw error;
+      }
+    }
+    // Bounded, so a long day of planning does not keep every tile.
+    if (this.decoded.size >= MAX_TILES) this.decoded.clear();
+    this.decoded.set(key, found);
+    return found;
+  }
+}
@@ -0,0 +1,112 @@
+import { LngLat } from "@/lib/geo/bounds";
+import { FixtureFeature, encodeTile } from "@/lib/tiles/__fixtures__/encode";
+import { TileCache } from "@/lib/tiles/cache";
+import { tilePointToLngLat } from "@/lib/tiles/mvt";
+
+import { RoutePlanner, RoutingError } from "../RoutePlanner";
+
+const WEST = { z: 14, x: 8731, y: 5792 };
+const EAST = { ...WEST, x: WEST.x + 1 };
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+const path = (points: [number, number][]): FixtureFeature => ({
+  type: "LineString",
+  properties: { class: "path" },
+  geometry: [points],
+});
+
+// A trail running east across both tiles, and a separate one in the west.
+const TILES: Record<string, Uint8Array> = {
+  [`${WEST.x}/${WEST.y}`]: encodeTile([
+    {
+      name: "transportation",
+      features: [
+        path([
+          [2000, 2000],
+          [4160, 2000],
+        ]),
+        path([
+          [1000, 3500],
+          [1500, 3500],
+        ]),
+      ],
+    },
+  ]),
+  [`${EAST.x}/${EAST.y}`]: encodeTile([
+    {
+      name: "transportation",
+      features: [
+        path([
+          [-64, 2000],
+          [1000, 2000],
+          [1000, 1000],
+        ]),
+      ],
+    },
+  ]),
+};
+
+const at = (coord: typeof WEST, point: [number, number]): LngLat =>
+  tilePointToLngLat(coord, 4096, point);
+
+function setup(tiles: Record<string, Uint8Array> = TILES) {
+  const cache: TileCache & { getTiles: jest.Mock } = {
+    getTiles: jest.fn(async (z: number, x: number, y: number) => {
+      const tile = z === 14 ? tiles[`${x}/${y}`] : undefined;
+      return tile ? [PNG, tile] : [];
+    }),
+  };
+  return { cache, planner: new RoutePlanner({ tiles: cache }) };
+}
+
+it("plans a route through the trails across tiles", async () => {
+  const { planner } = setup();
+  const via = at(EAST, [1000, 2000]);
+
+  const route = await planner.plan([
+    at(WEST, [2000, 2010]),
+    via,
+    at(EAST, [1000, 1000]),
+  ]);
+
+  expect(route.points[0]).toEqual(at(WEST, [2000, 2000]));
+  expect(route.points[route.points.length - 1]).toEqual(at(EAST, [1000, 1000]));
+  expect(route.legs).toHaveLength(2);
+  expect(route.points[route.legs[0].endIndex]).toEqual(via);
+  expect(route.distanceM).toBeCloseTo(
+    route.legs[0].distanceM + route.legs[1].distanceM
+  );
+  // Three quarters of a tile, about 1.7 km wide in the Alps.
+  expect(route.legs[0].distanceM).toBeGreaterThan(1200);
+  expect(route.legs[0].distanceM).toBeLessThan(1350);
+  // 5 km/h on the flat.
+  expect(route.durationMs).toBeCloseTo((route.distanceM / 5000) * 3600000);
+});
+
+it("reuses the tiles it has read", async () => {
+  const { cache, planner } = setup();
+  const points = [at(WEST, [2000, 2000]), at(EAST, [1000, 1000])];
+
+  await planner.plan(points);
+  const reads = cache.getTiles.mock.calls.length;
+  await planner.plan([points[1], points[0]]);
+
+  expect(cache.getTiles.mock.calls.length).toBe(reads);
+});
+
+it("explains why a route cannot be planned", async () => {
+  const { planner } = setup();
+  const trail = at(WEST, [2000, 2000]);
+
+  await expect(planner.plan([trail])).rejects.toThrow(RoutingError);
+  await expect(planner.plan([trail, at(WEST, [3000, 3000])])).rejects.toThrow(
+    "Point 2 is not near a trail"
+  );
+  await expect(planner.plan([trail, at(WEST, [1200, 3500])])).rejects.toThrow(
+    "connects point 1 to point 2"
+  );
+  await expect(
+    setup({}).planner.plan([trail, at(EAST, [1000, 1000])])
+  ).rejects.toThrow("no downloaded maps with trails");
+});
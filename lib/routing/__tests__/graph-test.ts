@@ -0,0 +1,250 @@
+import { LngLat } from "@/lib/geo/bounds";
+import { haversine } from "@/lib/geo/distance";
+import {
+  FixtureFeature,
+  FixtureLayer,
+  encodeTile,
+} from "@/lib/tiles/__fixtures__/encode";
+import { decodeTile, tilePointToLngLat } from "@/lib/tiles/mvt";
+
+import { CoordTile, buildGraph, findJunctions, snapToGraph } from "../graph";
+import { shortestPath } from "../search";
+
+const WEST = { z: 14, x: 8731, y: 5792 };
+const EAST = { ...WEST, x: WEST.x + 1 };
+
+const line = (
+  kind: string,
+  points: [number, number][],
+  type: FixtureFeature["type"] = "LineString"
+): FixtureFeature => ({
+  type,
+  properties: { class: kind },
+  geometry: [points],
+});
+
+function tile(coord: typeof WEST, features: FixtureFeature[]): CoordTile {
+  const layers: FixtureLayer[] = [{ name: "transportation", features }];
+  return { coord, tile: decodeTile(encodeTile(layers)) };
+}
+
+const at = (coord: typeof WEST, point: [number, number]): LngLat =>
+  tilePointToLngLat(coord, 4096, point);
+
+function route(tiles: CoordTile[], from: LngLat, to: LngLat) {
+  const graph = buildGraph(tiles);
+  const start = snapToGraph(graph, from, 50);
+  const end = snapToGraph(graph, to, 50);
+  return start && end ? shortestPath(graph, start, end) : null;
+}
+
+describe("buildGraph", () => {
+  it("links lines through shared vertices and skips other classes", () => {
+    const graph = buildGraph([
+      tile(WEST, [
+        line("path", [
+          [100, 100],
+          [200, 100],
+          [300, 100],
+        ]),
+        line("track", [
+          [200, 100],
+          [200, 300],
+        ]),
+        line("primary", [
+          [300, 100],
+          [300, 300],
+        ]),
+        line("rail", [
+          [0, 0],
+          [50, 50],
+        ]),
+        line(
+          "path",
+          [
+            [500, 500],
+            [600, 500],
+            [600, 600],
+            [500, 500],
+          ],
+          "Polygon"
+        ),
+      ]),
+    ]);
+
+    expect(graph.nodes).toHaveLength(4);
+    expect(graph.edges.map((edges) => edges.length)).toEqual([1, 3, 1, 1]);
+    // A metre of track costs more than a metre of path.
+    const [toTrack] = graph.edges[3];
+    expect(toTrack.cost).toBeGreaterThan(toTrack.lengthM);
+  });
+
+  it("connects a line clipped at the edge of neighbouring tiles", () => {
+    // The same line, cut a little past the shared edge in either tile.
+    const tiles = [
+      tile(WEST, [
+        line("path", [
+          [3000, 2000],
+          [4160, 2000],
+        ]),
+      ]),
+      tile(EAST, [
+        line("path", [
+          [-64, 2000],
+          [1000, 2000],
+        ]),
+      ]),
+    ];
+    const from = at(WEST, [3000, 2000]);
+    const to = at(EAST, [1000, 2000]);
+
+    const path = route(tiles, from, to);
+
+    expect(path).not.toBeNull();
+    expect(path!.distanceM).toBeCloseTo(haversine(from, to), 0);
+  });
+
+  it("closes small gaps between line ends and other lines", () => {
+    const path = route(
+      [
+        tile(WEST, [
+          line("path", [
+            [100, 1000],
+            [1000, 1000],
+          ]),
+          // Stops about a metre short of the first path.
+          line("path", [
+            [500, 1003],
+            [500, 2000],
+          ]),
+        ]),
+      ],
+      at(WEST, [100, 1000]),
+      at(WEST, [500, 2000])
+    );
+
+    expect(path).not.toBeNull();
+  });
+});
+
+describe("findJunctions", () => {
+  it("finds where three ways meet, once", () => {
+    const graph = buildGraph([
+      tile(WEST, [
+        line("path", [
+          [100, 1000],
+          [500, 1000],
+          [1000, 1000],
+        ]),
+        line("track", [
+          [500, 1000],
+          [500, 2000],
+        ]),
+        // A bend is not a junction.
+        line("path", [
+          [1000, 1000],
+          [1000, 1500],
+        ]),
+      ]),
+    ]);
+
+    expect(findJunctions(graph)).toEqual([at(WEST, [500, 1000])]);
+  });
+
+  it("ignores joins where a line crosses a tile edge", () => {
+    const graph = buildGraph([
+      tile(WEST, [
+        line("path", [
+          [3000, 2000],
+          [4160, 2000],
+        ]),
+      ]),
+      tile(EAST, [
+        line("path", [
+          [-64, 2000],
+          [1000, 2000],
+        ]),
+      ]),
+    ]);
+
+    expect(findJunctions(graph)).toEqual([]);
+  });
+});
+
+describe("snapToGraph", () => {
+  const graph = buildGraph([
+    tile(WEST, [
+      line("path", [
+        [100, 100],
+        [1000, 100],
+      ]),
+    ]),
+  ]);
+
+  it("finds the closest point on a segment", () => {
+    const snap = snapToGraph(graph, at(WEST, [500, 120]), 100);
+    expect(snap).toMatchObject({ from: 0, to: 1, costPerM: 1 });
+    expect(snap!.point[0]).toBeCloseTo(at(WEST, [500, 100])[0], 6);
+    expect(snap!.point[1]).toBeCloseTo(at(WEST, [500, 100])[1], 6);
+    // 20 tile units at zoom 14 in the Alps.
+    expect(snap!.distanceM).toBeGreaterThan(5);
+    expect(snap!.distanceM).toBeLessThan(10);
+  });
+
+  it("refuses points too far from the network", () => {
+    expect(snapToGraph(graph, at(WEST, [500, 2000]), 100)).toBeNull();
+  });
+});
+
+describe("shortestPath", () => {
+  // A square: a path along the north and east sides, and a minor road
+  // along the west and south sides, both the same length.
+  const tiles = [
+    tile(WEST, [
+      line("path", [
+        [1000, 1000],
+        [2000, 1000],
+        [2000, 2000],
+      ]),
+      line("minor", [
+        [1000, 1000],
+        [1000, 2000],
+        [2000, 2000],
+      ]),
+      line("path", [
+        [3000, 3000],
+        [3500, 3000],
+      ]),
+    ]),
+  ];
+
+  it("prefers trails over roads and reports the walked distance", () => {
+    const path = route(tiles, at(WEST, [1000, 1000]), at(WEST, [2000, 2000]));
+
+    expect(path!.points).toEqual([
+      at(WEST, [1000, 1000]),
+      at(WEST, [2000, 1000]),
+      at(WEST, [2000, 2000]),
+    ]);
+    const sides =
+      haversine(at(WEST, [1000, 1000]), at(WEST, [2000, 1000])) +
+      haversine(at(WEST, [2000, 1000]), at(WEST, [2000, 2000]));
+    expect(path!.distanceM).toBeCloseTo(sides, 3);
+  });
+
+  it("walks along a single segment between two points on it", () => {
+    const path = route(tiles, at(WEST, [1200, 1000]), at(WEST, [1800, 1000]));
+
+    expect(path!.points).toHaveLength(2);
+    expect(path!.distanceM).toBeCloseTo(
+      haversine(at(WEST, [1200, 1000]), at(WEST, [1800, 1000])),
+      3
+    );
+  });
+
+  it("returns null when the network does not connect the points", () => {
+    expect(
+      route(tiles, at(WEST, [1000, 1000]), at(WEST, [3200, 3000]))
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,252 @@
+import { LngLat } from "@/lib/geo/bounds";
+import { haversine, projectOnSegment } from "@/lib/geo/distance";
+import { TileCoord, VectorTile, tilePointToLngLat } from "@/lib/tiles/mvt";
+
+/** The OpenMapTiles layer holding roads, tracks and paths. */
+export const ROUTING_LAYER = "transportation";
+
+/**
+ * `transportation` classes the planner follows, as drawn by the hiking
+ * style, with what a metre of each costs: trails are preferred over
+ * tracks, and both over roads.
+ */
+export const ROUTABLE_CLASSES: Record<string, number> = {
+  path: 1,
+  pedestrian: 1,
+  footway: 1,
+  bridleway: 1,
+  steps: 1.2,
+  track: 1.1,
+  cycleway: 1.3,
+  service: 1.4,
+  minor: 1.5,
+  residential: 1.5,
+  unclassified: 1.5,
+};
+
+/** The cheapest metre of any class; keeps the A* estimate admissible. */
+export const MIN_COST_PER_M = Math.min(...Object.values(ROUTABLE_CLASSES));
+
+/** Line ends this close to another line are joined to it. */
+const JOIN_DISTANCE_M = 5;
+/** Ways leaving a node less than this far apart count as one direction. */
+const JUNCTION_MIN_ANGLE = 25;
+/** Junctions closer than this to one already found are dropped. */
+const JUNCTION_SPACING_M = 15;
+
+export type GraphEdge = {
+  to: number;
+  lengthM: number;
+  /** Length weighted by the class of the way. */
+  cost: number;
+};
+
+/** Every vertex of the routable lines, linked to its neighbours. */
+export type RoutingGraph = {
+  nodes: LngLat[];
+  edges: GraphEdge[][];
+};
+
+export type CoordTile = { coord: TileCoord; tile: VectorTile };
+
+/** Where a point meets the closest segment of the graph. */
+export type GraphSnap = {
+  from: number;
+  to: number;
+  /** The point on the segment. */
+  point: LngLat;
+  /** Metres from the original point. */
+  distanceM: number;
+  /** Cost per metre of the segment. */
+  costPerM: number;
+};
+
+function addEdge(graph: RoutingGraph, a: number, b: number, costPerM: number) {
+  if (a === b || graph.edges[a].some((edge) => edge.to === b)) return;
+  const lengthM = haversine(graph.nodes[a], graph.nodes[b]);
+  graph.edges[a].push({ to: b, lengthM, cost: lengthM * costPerM });
+  graph.edges[b].push({ to: a, lengthM, cost: lengthM * costPerM });
+}
+
+/** Each segment once, as node pairs with their cost per metre. */
+function segments(graph: RoutingGraph) {
+  const result: [number, number, number][] = [];
+  graph.edges.forEach((edges, from) => {
+    for (const edge of edges) {
+      if (edge.to > from) {
+        const costPerM = edge.lengthM > 0 ? edge.cost / edge.lengthM : 1;
+        result.push([from, edge.to, costPerM]);
+      }
+    }
+  });
+  return result;
+}
+
+// Roughly 55 m by 40 m in the Alps; segments are bucketed by the cells
+// their bounding box touches.
+const CELL_DEGREES = 0.0005;
+const cell = (value: number) => Math.floor(value / CELL_DEGREES);
+
+/**
+ * Links line ends that stop just short of another line. Tiles clip lines
+ * a little past their edge, so a line crossing into the next tile ends on
+ * the middle of its continuation there; small gaps in the data are closed
+ * the same way.
+ */
+function joinLineEnds(graph: RoutingGraph) {
+  const buckets = new Map<string, [number, number, number][]>();
+  for (const segment of segments(graph)) {
+    const [a, b] = [graph.nodes[segment[0]], graph.nodes[segment[1]]];
+    for (
+      let x = cell(Math.min(a[0], b[0]));
+      x <= cell(Math.max(a[0], b[0]));
+      x++
+    ) {
+      for (
+        let y = cell(Math.min(a[1], b[1]));
+        y <= cell(Math.max(a[1], b[1]));
+        y++
+      ) {
+        const key = `${x},${y}`;
+        const bucket = buckets.get(key);
+        if (bucket) bucket.push(segment);
+        else buckets.set(key, [segment]);
+      }
+    }
+  }
+
+  const ends = graph.edges
+    .map((edges, node) => (edges.length === 1 ? node : -1))
+    .filter((node) => node >= 0);
+  for (const node of ends) {
+    const point = graph.nodes[node];
+    const neighbour = graph.edges[node][0].to;
+    let best: { segment: [number, number, number]; distanceM: number } | null =
+      null;
+    for (let x = cell(point[0]) - 1; x <= cell(point[0]) + 1; x++) {
+      for (let y = cell(point[1]) - 1; y <= cell(point[1]) + 1; y++) {
+        for (const segment of buckets.get(`${x},${y}`) ?? []) {
+          const [a, b] = segment;
+          if (a === node || b === node || a === neighbour || b === neighbour) {
+            continue;
+          }
+          const { distanceM } = projectOnSegment(
+            point,
+            graph.nodes[a],
+            graph.nodes[b]
+          );
+          if (
+            distanceM <= JOIN_DISTANCE_M &&
+            (!best || distanceM < best.distanceM)
+          ) {
+            best = { segment, distanceM };
+          }
+        }
+      }
+    }
+    if (best) {
+      const [a, b, costPerM] = best.segment;
+      addEdge(graph, node, a, costPerM);
+      addEdge(graph, node, b, costPerM);
+    }
+  }
+}
+
+/**
+ * Builds the walkable network from the `transportation` layer of vector
+ * tiles at one zoom. Lines sharing a vertex are connected, also across
+ * neighbouring tiles, whose coordinates line up on the same grid.
+ */
+export function buildGraph(tiles: CoordTile[]): RoutingGraph {
+  const graph: RoutingGraph = { nodes: [], edges: [] };
+  const ids = new Map<string, number>();
+
+  for (const { coord, tile } of tiles) {
+    const layer = tile[ROUTING_LAYER];
+    if (!layer) continue;
+    const nodeAt = (point: [number, number]) => {
+      const key = `${layer.extent}:${coord.x * layer.extent + point[0]},${
+        coord.y * layer.extent + point[1]
+      }`;
+      let id = ids.get(key);
+      if (id === undefined) {
+        id = graph.nodes.length;
+        ids.set(key, id);
+        graph.nodes.push(tilePointToLngLat(coord, layer.extent, point));
+        graph.edges.push([]);
+      }
+      return id;
+    };
+
+    for (const feature of layer.features) {
+      const costPerM = ROUTABLE_CLASSES[String(feature.properties.class)];
+      if (feature.type !== "LineString" || costPerM === undefined) continue;
+      for (const line of feature.geometry) {
+        for (let i = 1; i < line.length; i++) {
+          addEdge(graph, nodeAt(line[i - 1]), nodeAt(line[i]), costPerM);
+        }
+      }
+    }
+  }
+  joinLineEnds(graph);
+  return graph;
+}
+
+/** The closest point of the network to `point`, or null beyond `maxM`. */
+export function snapToGraph(
+  graph: RoutingGraph,
+  point: LngLat,
+  maxM: number
+): GraphSnap | null {
+  let best: GraphSnap | null = null;
+  for (const [from, to, costPerM] of segments(graph)) {
+    const { point: onSegment, distanceM } = projectOnSegment(
+      point,
+      graph.nodes[from],
+      graph.nodes[to]
+    );
+    if (distanceM <= maxM && (!best || distanceM < best.distanceM)) {
+      best = { from, to, costPerM, point: onSegment, distanceM };
+    }
+  }
+  return best;
+}
+
+// Compass bearing from `a` to `b` in degrees, good over a few hundred metres.
+function bearing(a: LngLat, b: LngLat) {
+  const dx = (b[0] - a[0]) * Math.cos((a[1] * Math.PI) / 180);
+  const dy = b[1] - a[1];
+  return ((Math.atan2(dx, dy) * 180) / Math.PI + 360) % 360;
+}
+
+// How many clearly different directions the ways leave `node` in.
+function directions(graph: RoutingGraph, node: number) {
+  const angles = graph.edges[node]
+    .filter((edge) => edge.lengthM > 0)
+    .map((edge) => bearing(graph.nodes[node], graph.nodes[edge.to]))
+    .sort((a, b) => a - b);
+  if (angles.length < 2) return angles.length;
+  let gaps = 0;
+  angles.forEach((angle, i) => {
+    const next = i + 1 < angles.length ? angles[i + 1] : angles[0] + 360;
+    if (next - angle >= JUNCTION_MIN_ANGLE) gaps++;
+  });
+  return Math.max(gaps, 1);
+}
+
+/**
+ * Places where three or more ways meet. Joins made across tile edges give
+ * nodes extra edges too, but those run along the same line and are not
+ * counted as separate directions.
+ */
+export function findJunctions(graph: RoutingGraph): LngLat[] {
+  const junctions: LngLat[] = [];
+  graph.edges.forEach((edges, node) => {
+    if (edges.length < 3 || directions(graph, node) < 3) return;
+    const point = graph.nodes[node];
+    if (junctions.every((j) => haversine(j, point) > JUNCTION_SPACING_M)) {
+      junctions.push(point);
+    }
+  });
+  return junctions;
+}
@@ -0,0 +1,17 @@
+import { offlineRegions } from "@/lib/offline";
+import { mapTileCache } from "@/lib/tiles";
+
+import { RoutePlanner } from "./RoutePlanner";
+
+export * from "./graph";
+export { shortestPath } from "./search";
+export type { PathResult } from "./search";
+export { RoutePlanner, RoutingError } from "./RoutePlanner";
+export type { PlannedRoute, RouteLeg } from "./RoutePlanner";
+
+/** App-wide planner over the tiles of every downloaded pack. */
+export const routePlanner = new RoutePlanner({ tiles: mapTileCache });
+
+// Tiles missing so far may now be on the phone.
+offlineRegions.events.on("complete", () => routePlanner.clearCache());
+offlineRegions.events.on("deleted", () => routePlanner.clearCache());
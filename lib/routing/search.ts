@@ -0,0 +1,144 @@
+import { LngLat } from "@/lib/geo/bounds";
+import { haversine } from "@/lib/geo/distance";
+
+import { GraphSnap, MIN_COST_PER_M, RoutingGraph } from "./graph";
+
+export type PathResult = {
+  points: LngLat[];
+  distanceM: number;
+};
+
+/** Binary min-heap of node ids ordered by their priority. */
+class NodeQueue {
+  private items: { node: number; priority: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, priority: number) {
+    const items = this.items;
+    items.push({ node, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (
+          left < items.length &&
+          items[left].priority < items[smallest].priority
+        ) {
+          smallest = left;
+        }
+        if (
+          right < items.length &&
+          items[right].priority < items[smallest].priority
+        ) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.node;
+  }
+}
+
+type Step = { to: number; lengthM: number; cost: number };
+
+/**
+ * The cheapest way through the network between two snapped points, by A*
+ * with the straight-line distance as the estimate. The points sit on a
+ * segment each and join the search as two extra nodes. Returns null when
+ * the network does not connect them.
+ */
+export function shortestPath(
+  graph: RoutingGraph,
+  start: GraphSnap,
+  end: GraphSnap
+): PathResult | null {
+  const count = graph.nodes.length;
+  const source = count;
+  const target = count + 1;
+  const position = (node: number) =>
+    node === source
+      ? start.point
+      : node === target
+      ? end.point
+      : graph.nodes[node];
+  const step = (from: number, to: number, costPerM: number): Step => {
+    const lengthM = haversine(position(from), position(to));
+    return { to, lengthM, cost: lengthM * costPerM };
+  };
+
+  const startSteps = [
+    step(source, start.from, start.costPerM),
+    step(source, start.to, start.costPerM),
+  ];
+  // Both points on the same segment: walk straight along it.
+  const sameSegment =
+    (start.from === end.from && start.to === end.to) ||
+    (start.from === end.to && start.to === end.from);
+  if (sameSegment) startSteps.push(step(source, target, start.costPerM));
+
+  const stepsFrom = (node: number): Step[] => {
+    if (node === source) return startSteps;
+    const steps: Step[] = graph.edges[node];
+    return node === end.from || node === end.to
+      ? [...steps, step(node, target, end.costPerM)]
+      : steps;
+  };
+  const estimate = (node: number) =>
+    haversine(position(node), end.point) * MIN_COST_PER_M;
+
+  const cost = new Float64Array(count + 2).fill(Infinity);
+  const length = new Float64Array(count + 2);
+  const previous = new Int32Array(count + 2).fill(-1);
+  const done = new Uint8Array(count + 2);
+  const queue = new NodeQueue();
+  cost[source] = 0;
+  queue.push(source, estimate(source));
+
+  while (queue.size > 0) {
+    const node = queue.pop();
+    if (done[node]) continue;
+    done[node] = 1;
+    if (node === target) break;
+    for (const { to, lengthM, cost: stepCost } of stepsFrom(node)) {
+      const reached = cost[node] + stepCost;
+      if (done[to] || reached >= cost[to]) continue;
+      cost[to] = reached;
+      length[to] = length[node] + lengthM;
+      previous[to] = node;
+      queue.push(to, reached + estimate(to));
+    }
+  }
+  if (!done[target]) return null;
+
+  // A point snapped onto a vertex would otherwise appear twice.
+  const points: LngLat[] = [];
+  for (let node = target; node !== -1; node = previous[node]) {
+    const point = position(node);
+    const last = points[points.length - 1];
+    if (!last || last[0] !== point[0] || last[1] !== point[1]) {
+      points.push(point);
+    }
+  }
+  return { points: points.reverse(), distanceM: length[target] };
+}
@@ -0,0 +1,195 @@
+import { Emitter } from "@/lib/emitter";
+import { Bounds, boundsCenter } from "@/lib/geo/bounds";
+import { OfflineRegionService } from "@/lib/offline/OfflineRegionService";
+import { countTiles, latToTileY, lngToTileX } from "@/lib/offline/tiles";
+import { DownloadStates } from "@/lib/offline/types";
+import { KeyValueStore, readJSON, writeJSON } from "@/lib/storage";
+import { TileCache, tilesCovering } from "@/lib/tiles/cache";
+import { TileDecodeError, decodeTile } from "@/lib/tiles/mvt";
+
+import {
+  PLACE_LAYERS,
+  Place,
+  PlaceResult,
+  dedupePlaces,
+  extractPlaces,
+  searchPlaces,
+} from "./places";
+
+const PACKS_KEY = "search.packs";
+const placesKey = (packId: string) => `search.places.${packId}`;
+
+/** OpenMapTiles carries every label from this zoom on. */
+const MAX_INDEX_ZOOM = 14;
+/** Larger packs are read at a lower zoom, which keeps the bigger names. */
+const MAX_INDEX_TILES = 1500;
+
+type IndexedPack = { indexedAt: number; zoom: number; count: number };
+
+export type PlaceIndexEvents = {
+  /** Packs were indexed or removed; open searches should rerun. */
+  change: undefined;
+};
+
+type IndexOptions = {
+  service: OfflineRegionService;
+  store: KeyValueStore;
+  tiles: TileCache;
+  states: DownloadStates;
+  now?: () => number;
+};
+
+/**
+ * Names of peaks, huts, villages, trailheads and water bodies read from the
+ * tiles of each offline pack once it finishes downloading, so the map can
+ * be searched without a connection. Kept per pack and dropped with it.
+ */
+export class PlaceIndex {
+  readonly events = new Emitter<PlaceIndexEvents>();
+
+  private service: OfflineRegionService;
+  private store: KeyValueStore;
+  private tiles: TileCache;
+  private states: DownloadStates;
+  private now: () => number;
+  private places: Promise<Map<string, Place[]>> | null = null;
+  // Packs are indexed one at a time; each reads hundreds of tiles.
+  private indexing: Promise<void> = Promise.resolve();
+
+  constructor({ service, store, tiles, states, now = Date.now }: IndexOptions) {
+    this.service = service;
+    this.store = store;
+    this.tiles = tiles;
+    this.states = states;
+    this.now = now;
+
+    // A refreshed pack completes again and is indexed afresh.
+    service.events.on("complete", ({ id }) => {
+      this.indexPack(id).catch((error) =>
+        console.error(`Could not index places of pack ${id}:`, error)
+      );
+    });
+    service.events.on("deleted", ({ ids }) => {
+      this.remove(ids).catch((error) =>
+        console.error("Could not remove places of deleted packs:", error)
+      );
+    });
+  }
+
+  /** Indexes complete packs missing from the index, e.g. older downloads. */
+  async restore(): Promise<void> {
+    const [regions, indexed] = await Promise.all([
+      this.service.list(),
+      this.readPacks(),
+    ]);
+    const missing = regions.filter(
+      (region) =>
+        region.status?.state === this.states.Complete && !indexed[region.id]
+    );
+    await Promise.all(missing.map((region) => this.indexPack(region.id)));
+  }
+
+  async search(query: string, limit?: number): Promise<PlaceResult[]> {
+    const byPack = await this.load();
+    // Overlapping packs hold the same places.
+    const places = dedupePlaces([...byPack.values()].flat());
+    return searchPlaces(places, query, limit);
+  }
+
+  /** Reads a pack's tiles and replaces its places. Returns how many. */
+  indexPack(id: string): Promise<number> {
+    const run = this.indexing.then(async () => {
+      const region = (await this.service.list()).find((r) => r.id === id);
+      if (!region?.bounds) return 0;
+      const zoom = await this.indexZoom(region.bounds);
+      if (zoom === null) {
+        console.warn(`No cached vector tiles found for pack ${id}.`);
+        return 0;
+      }
+      const places = dedupePlaces(await this.readPlaces(region.bounds, zoom));
+      await writeJSON(this.store, placesKey(id), places);
+      const indexed = await this.readPacks();
+      indexed[id] = { indexedAt: this.now(), zoom, count: places.length };
+      await writeJSON(this.store, PACKS_KEY, indexed);
+      (await this.load()).set(id, places);
+      this.events.emit("change", undefined);
+      return places.length;
+    });
+    this.indexing = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  private async remove(ids: string[]): Promise<void> {
+    const indexed = await this.readPacks();
+    const byPack = await this.load();
+    for (const id of ids) {
+      delete indexed[id];
+      byPack.delete(id);
+      await this.store.removeItem(placesKey(id));
+    }
+    await writeJSON(this.store, PACKS_KEY, indexed);
+    this.events.emit("change", undefined);
+  }
+
+  private load(): Promise<Map<string, Place[]>> {
+    if (!this.places) {
+      this.places = this.readPacks().then(async (indexed) => {
+        const byPack = new Map<string, Place[]>();
+        for (const id of Object.keys(indexed)) {
+          byPack.set(
+            id,
+            await readJSON<Place[]>(this.store, placesKey(id), [])
+          );
+        }
+        return byPack;
+      });
+    }
+    return this.places;
+  }
+
+  private readPacks(): Promise<Record<string, IndexedPack>> {
+    return readJSON<Record<string, IndexedPack>>(this.store, PACKS_KEY, {});
+  }
+
+  private async vectorTiles(z: number, x: number, y: number) {
+    const tiles = [];
+    for (const data of await this.tiles.getTiles(z, x, y)) {
+      try {
+        // Contour tiles decode too, but hold none of the place layers.
+        const tile = decodeTile(data, PLACE_LAYERS);
+        if (Object.keys(tile).length > 0) tiles.push(tile);
+      } catch (error) {
+        // Raster tiles of other sources, such as the hillshade.
+        if (!(error instanceof TileDecodeError)) throw error;
+      }
+    }
+    return tiles;
+  }
+
+  // The highest zoom the pack holds, up to the label zoom and within the
+  // tile budget; probed at the pack's centre.
+  private async indexZoom(bounds: Bounds): Promise<number | null> {
+    let zoom = MAX_INDEX_ZOOM;
+    while (zoom > 0 && countTiles(bounds, zoom) > MAX_INDEX_TILES) zoom--;
+    const [lng, lat] = boundsCenter(bounds);
+    for (; zoom >= 0; zoom--) {
+      const x = lngToTileX(lng, zoom);
+      const y = latToTileY(lat, zoom);
+      if ((await this.vectorTiles(zoom, x, y)).length > 0) return zoom;
+    }
+    return null;
+  }
+
+  private async readPlaces(bounds: Bounds, zoom: number): Promise<Place[]> {
+    const places: Place[] = [];
+    for (const coord of tilesCovering(bounds, zoom)) {
+      for (const tile of await this.vectorTiles(coord.z, coord.x, coord.y)) {
+        places.push(...extractPlaces(tile, coord));
+      }
+    }
+    return places;
+  }
+}
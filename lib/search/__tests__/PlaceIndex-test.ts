@@ -0,0 +1,164 @@
+import {
+  STATES,
+  createFakeOfflineManager,
+} from "@/lib/offline/__fixtures__/fakeOfflineManager";
+import { OfflineRegionService } from "@/lib/offline/OfflineRegionService";
+import { latToTileY, lngToTileX } from "@/lib/offline/tiles";
+import { Bounds } from "@/lib/offline/types";
+import { createMemoryStore, readJSON } from "@/lib/storage";
+import { encodeTile, toTilePoint } from "@/lib/tiles/__fixtures__/encode";
+import { TileCache } from "@/lib/tiles/cache";
+
+import { PlaceIndex } from "../PlaceIndex";
+
+const BOUNDS: Bounds = [
+  [11.85, 46.52],
+  [11.81, 46.5],
+];
+const PEAK: [number, number] = [11.83, 46.51];
+// The pack was downloaded up to zoom 12.
+const CENTER = {
+  z: 12,
+  x: lngToTileX(PEAK[0], 12),
+  y: latToTileY(PEAK[1], 12),
+};
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+const CONTOURS = encodeTile([
+  {
+    name: "contour",
+    features: [
+      {
+        type: "LineString",
+        properties: { ele: 2500 },
+        geometry: [
+          [
+            [0, 0],
+            [10, 10],
+          ],
+        ],
+      },
+    ],
+  },
+]);
+const PLACES = encodeTile([
+  {
+    name: "mountain_peak",
+    features: [
+      {
+        type: "Point",
+        properties: { name: "Piz Boè", class: "peak", ele: 3152 },
+        geometry: [[toTilePoint(PEAK, CENTER)]],
+      },
+    ],
+  },
+  {
+    name: "poi",
+    features: [
+      {
+        type: "Point",
+        properties: { name: "Rifugio Boè", subclass: "alpine_hut" },
+        geometry: [[toTilePoint([11.832, 46.512], CENTER)]],
+      },
+    ],
+  },
+]);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function createTileCache() {
+  const cache: TileCache & { getTiles: jest.Mock } = {
+    getTiles: jest.fn(async (z: number, x: number, y: number) => {
+      if (z !== CENTER.z) return [];
+      const placeTile = x === CENTER.x && y === CENTER.y ? [PLACES] : [];
+      return [PNG, CONTOURS, ...placeTile];
+    }),
+  };
+  return cache;
+}
+
+function setup() {
+  const fake = createFakeOfflineManager();
+  const store = createMemoryStore();
+  const service = new OfflineRegionService({
+    manager: fake.manager,
+    store,
+    states: STATES,
+  });
+  const tiles = createTileCache();
+  const index = new PlaceIndex({
+    service,
+    store,
+    tiles,
+    states: STATES,
+    now: () => 1000,
+  });
+  return { fake, service, store, tiles, index };
+}
+
+async function createRegion(service: OfflineRegionService) {
+  return service.create({
+    displayName: "Sella",
+    styleId: "hiking",
+    styleURL: "https://example.com/style.json",
+    bounds: BOUNDS,
+    minZoom: 10,
+    maxZoom: 12,
+  });
+}
+
+it("indexes a pack's places at the highest zoom it holds", async () => {
+  const { service, store, index } = setup();
+  const id = await createRegion(service);
+
+  expect(await index.indexPack(id)).toBe(2);
+
+  expect(await readJSON(store, "search.packs", {})).toEqual({
+    [id]: { indexedAt: 1000, zoom: 12, count: 2 },
+  });
+  const [peak] = await index.search("piz boe");
+  expect(peak).toMatchObject({ name: "Piz Boè", class: "peak", ele: 3152 });
+  expect(peak.lngLat[0]).toBeCloseTo(PEAK[0], 3);
+  expect(peak.lngLat[1]).toBeCloseTo(PEAK[1], 3);
+});
+
+it("indexes packs when they complete and drops them when deleted", async () => {
+  const { fake, service, index } = setup();
+  const change = jest.fn();
+  index.events.on("change", change);
+  const id = await createRegion(service);
+
+  fake.emitProgress(id, 100, STATES.Complete);
+  await index.indexPack(id);
+  expect(change).toHaveBeenCalled();
+  expect((await index.search("boe")).map((place) => place.name)).toEqual([
+    "Piz Boè",
+    "Rifugio Boè",
+  ]);
+
+  await service.deleteMany([id]);
+  await new Promise((resolve) => setImmediate(resolve));
+  expect(await index.search("boe")).toEqual([]);
+});
+
+it("catches up on complete packs missing from the index", async () => {
+  const { fake, service, store, index } = setup();
+  const id = await createRegion(service);
+  fake.packs.get(id)!.state = STATES.Complete;
+
+  await index.restore();
+
+  expect(await readJSON(store, `search.places.${id}`, [])).toHaveLength(2);
+});
+
+it("skips packs without cached vector tiles", async () => {
+  const { service, tiles, index } = setup();
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  tiles.getTiles.mockResolvedValue([]);
+  const id = await createRegion(service);
+
+  expect(await index.indexPack(id)).toBe(0);
+  expect(await index.search("boe")).toEqual([]);
+});
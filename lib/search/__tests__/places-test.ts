@@ -0,0 +1,190 @@
+import { encodeTile, toTilePoint } from "@/lib/tiles/__fixtures__/encode";
+import { decodeTile } from "@/lib/tiles/mvt";
+
+import {
+  Place,
+  dedupePlaces,
+  extractPlaces,
+  matchScore,
+  searchPlaces,
+} from "../places";
+
+const COORD = { z: 11, x: 1091, y: 724 };
+const at = (lngLat: [number, number]) => [[toTilePoint(lngLat, COORD)]];
+
+const tile = decodeTile(
+  encodeTile([
+    {
+      name: "mountain_peak",
+      features: [
+        {
+          type: "Point",
+          properties: { name: "Piz Boè", class: "peak", ele: 3152 },
+          geometry: at([11.8292, 46.5089]),
+        },
+        {
+          type: "Point",
+          properties: { name: "Passo Pordoi", class: "saddle", ele: 2239 },
+          geometry: at([11.8128, 46.4878]),
+        },
+      ],
+    },
+    {
+      name: "poi",
+      features: [
+        {
+          type: "Point",
+          properties: {
+            name: "Rifugio Boè",
+            class: "lodging",
+            subclass: "alpine_hut",
+          },
+          geometry: at([11.8303, 46.5136]),
+        },
+        {
+          type: "Point",
+          properties: { name: "Bar Centrale", class: "bar", subclass: "bar" },
+          geometry: at([11.82, 46.5]),
+        },
+        {
+          // In the buffer beyond the tile edge.
+          type: "Point",
+          properties: { name: "Rifugio Kostner", subclass: "alpine_hut" },
+          geometry: [[[4200, 100]]],
+        },
+      ],
+    },
+    {
+      name: "place",
+      features: [
+        {
+          type: "Point",
+          properties: { name: " Arabba ", class: "village" },
+          geometry: at([11.8741, 46.4968]),
+        },
+      ],
+    },
+    {
+      name: "water_name",
+      features: [
+        {
+          type: "LineString",
+          properties: { name: "Lech dl Dragon", class: "lake" },
+          geometry: [
+            [
+              toTilePoint([11.82, 46.51], COORD),
+              toTilePoint([11.821, 46.511], COORD),
+              toTilePoint([11.822, 46.512], COORD),
+            ],
+          ],
+        },
+      ],
+    },
+    {
+      name: "transportation",
+      features: [
+        {
+          type: "LineString",
+          properties: { name: "Via Arabba", class: "path" },
+          geometry: [
+            [
+              [0, 0],
+              [100, 100],
+            ],
+          ],
+        },
+      ],
+    },
+  ])
+);
+
+const place = (
+  name: string,
+  kind: Place["class"],
+  lngLat: [number, number] = [11.8, 46.5]
+): Place => ({ name, class: kind, lngLat });
+
+describe("extractPlaces", () => {
+  const places = extractPlaces(tile, COORD);
+
+  it("reads named peaks, huts, villages and water from the place layers", () => {
+    expect(places.map((p) => [p.name, p.class])).toEqual([
+      ["Piz Boè", "peak"],
+      ["Passo Pordoi", "saddle"],
+      ["Arabba", "village"],
+      ["Rifugio Boè", "hut"],
+      ["Lech dl Dragon", "water"],
+    ]);
+  });
+
+  it("places points at their position and keeps elevations", () => {
+    const peak = places[0];
+    expect(peak.ele).toBe(3152);
+    expect(peak.lngLat[0]).toBeCloseTo(11.8292, 3);
+    expect(peak.lngLat[1]).toBeCloseTo(46.5089, 3);
+    expect(places[2].ele).toBeUndefined();
+  });
+
+  it("labels lines at their middle vertex", () => {
+    const lake = places[4];
+    expect(lake.lngLat[0]).toBeCloseTo(11.821, 3);
+    expect(lake.lngLat[1]).toBeCloseTo(46.511, 3);
+  });
+});
+
+describe("dedupePlaces", () => {
+  it("drops the same place repeated by a neighbouring tile", () => {
+    const places = dedupePlaces([
+      place("Piz Boè", "peak", [11.8292, 46.5089]),
+      place("PIZ BOE", "peak", [11.8295, 46.509]),
+      place("Piz Boè", "hut", [11.8292, 46.5089]),
+      place("Piz Boè", "peak", [11.9, 46.6]),
+    ]);
+    expect(places.map((p) => [p.name, p.class, p.lngLat[0]])).toEqual([
+      ["Piz Boè", "peak", 11.8292],
+      ["Piz Boè", "hut", 11.8292],
+      ["Piz Boè", "peak", 11.9],
+    ]);
+  });
+});
+
+describe("matchScore", () => {
+  it("ignores case and accents", () => {
+    expect(matchScore("piz boe", "Piz Boè")).toBeCloseTo(1);
+  });
+
+  it("matches words the user is still typing", () => {
+    expect(matchScore("rif bo", "Rifugio Boè")).toBeGreaterThan(0.8);
+  });
+
+  it("tolerates typos in longer words", () => {
+    expect(matchScore("lagazoui", "Lagazuoi")).toBeGreaterThan(0);
+    expect(matchScore("seceda", "Sass Rigais")).toBe(0);
+  });
+
+  it("needs every typed word to match", () => {
+    expect(matchScore("rifugio boe", "Rifugio Lagazuoi")).toBe(0);
+  });
+});
+
+describe("searchPlaces", () => {
+  const places = [
+    place("Rifugio Boè", "hut"),
+    place("Piz Boè", "peak"),
+    place("Boè", "peak"),
+    place("Arabba", "village"),
+  ];
+
+  it("ranks exact and shorter names first", () => {
+    expect(searchPlaces(places, "boe").map((p) => p.name)).toEqual([
+      "Boè",
+      "Piz Boè",
+      "Rifugio Boè",
+    ]);
+  });
+
+  it("limits the number of results", () => {
+    expect(searchPlaces(places, "boe", 1)).toHaveLength(1);
+    expect(searchPlaces(places, "   ")).toEqual([]);
+  });
+});
@@ -0,0 +1,19 @@
+import MapLibreGL from "@maplibre/maplibre-react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { DownloadStates, offlineRegions } from "@/lib/offline";
+import { mapTileCache } from "@/lib/tiles";
+
+import { PlaceIndex } from "./PlaceIndex";
+
+export * from "./places";
+export { PlaceIndex } from "./PlaceIndex";
+export type { PlaceIndexEvents } from "./PlaceIndex";
+
+/** App-wide index of the places in every downloaded pack. */
+export const placeIndex = new PlaceIndex({
+  service: offlineRegions,
+  store: AsyncStorage,
+  tiles: mapTileCache,
+  states: MapLibreGL.OfflinePackDownloadState as DownloadStates,
+});
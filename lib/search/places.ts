@@ -0,0 +1,233 @@
+import { LngLat } from "@/lib/geo/bounds";
+import { haversine } from "@/lib/geo/distance";
+import { foldText } from "@/lib/text";
+import {
+  TileCoord,
+  TileFeature,
+  VectorTile,
+  tilePointToLngLat,
+} from "@/lib/tiles/mvt";
+
+export type PlaceClass =
+  | "peak"
+  | "saddle"
+  | "hut"
+  | "trailhead"
+  | "town"
+  | "village"
+  | "water"
+  | "spring";
+
+/** A named feature found in a downloaded tile. */
+export type Place = {
+  name: string;
+  class: PlaceClass;
+  lngLat: LngLat;
+  /** Elevation in metres, for peaks and saddles that have one. */
+  ele?: number;
+};
+
+export type PlaceResult = Place & { score: number };
+
+export const PLACE_CLASS_LABELS: Record<PlaceClass, string> = {
+  peak: "Peak",
+  saddle: "Pass",
+  hut: "Hut",
+  trailhead: "Trailhead",
+  town: "Town",
+  village: "Village",
+  water: "Water",
+  spring: "Spring",
+};
+
+/** OpenMapTiles layers holding the features the search covers. */
+export const PLACE_LAYERS = ["mountain_peak", "place", "poi", "water_name"];
+
+// OpenMapTiles classes (or POI subclasses) mapped to what the search shows.
+const LAYER_CLASSES: Record<string, Record<string, PlaceClass>> = {
+  mountain_peak: {
+    peak: "peak",
+    volcano: "peak",
+    saddle: "saddle",
+  },
+  place: {
+    city: "town",
+    town: "town",
+    village: "village",
+    hamlet: "village",
+    suburb: "village",
+    isolated_dwelling: "village",
+    locality: "village",
+  },
+  poi: {
+    alpine_hut: "hut",
+    wilderness_hut: "hut",
+    shelter: "hut",
+    trailhead: "trailhead",
+    spring: "spring",
+  },
+  water_name: {
+    lake: "water",
+    reservoir: "water",
+    lagoon: "water",
+    bay: "water",
+    sea: "water",
+    river: "water",
+  },
+};
+
+// The same label is repeated in the buffer of neighbouring tiles.
+const DUPLICATE_DISTANCE_M = 500;
+
+function placeClass(layer: string, feature: TileFeature): PlaceClass | null {
+  const classes = LAYER_CLASSES[layer];
+  const { class: kind, subclass } = feature.properties;
+  return (
+    (typeof subclass === "string" && classes[subclass]) ||
+    (typeof kind === "string" && classes[kind]) ||
+    null
+  );
+}
+
+// Where to put a label: the point itself, or the middle vertex of a line
+// such as a river name.
+function labelPoint(feature: TileFeature): [number, number] | null {
+  const part = feature.geometry[0];
+  if (!part || part.length === 0 || feature.type === "Polygon") {
+    return null;
+  }
+  return feature.type === "Point" ? part[0] : part[Math.floor(part.length / 2)];
+}
+
+/** Named peaks, huts, villages, trailheads and water bodies in a tile. */
+export function extractPlaces(tile: VectorTile, coord: TileCoord): Place[] {
+  const places: Place[] = [];
+  for (const layerName of PLACE_LAYERS) {
+    const layer = tile[layerName];
+    if (!layer) continue;
+    for (const feature of layer.features) {
+      const name = feature.properties.name;
+      const kind = placeClass(layerName, feature);
+      const point = labelPoint(feature);
+      if (typeof name !== "string" || !name.trim() || !kind || !point) {
+        continue;
+      }
+      // Buffered labels can fall outside the tile; the neighbour has them.
+      const [px, py] = point;
+      if (px < 0 || py < 0 || px > layer.extent || py > layer.extent) {
+        continue;
+      }
+      const lngLat = tilePointToLngLat(coord, layer.extent, point);
+      const ele = Number(feature.properties.ele);
+      places.push({
+        name: name.trim(),
+        class: kind,
+        lngLat,
+        ...(Number.isFinite(ele) && ele !== 0 && { ele }),
+      });
+    }
+  }
+  return places;
+}
+
+/** Drops repeats of the same name and class close to each other. */
+export function dedupePlaces(places: Place[]): Place[] {
+  const seen = new Map<string, Place[]>();
+  return places.filter((place) => {
+    const key = `${place.class}:${foldText(place.name)}`;
+    const near = seen.get(key) ?? [];
+    if (
+      near.some(
+        (other) => haversine(other.lngLat, place.lngLat) < DUPLICATE_DISTANCE_M
+      )
+    ) {
+      return false;
+    }
+    seen.set(key, [...near, place]);
+    return true;
+  });
+}
+
+// Optimal string alignment distance: edits, with swapped neighbours
+// counting as one, which covers most typing mistakes.
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// How well one typed word matches one word of a name, from 0 to 1. Longer
+// words may have a typo or two, checked against the whole word and against
+// its start, since the user may not have finished typing.
+function wordScore(typed: string, word: string): number {
+  if (word === typed) return 1;
+  if (word.startsWith(typed)) return 0.9;
+  if (typed.length >= 3 && word.includes(typed)) return 0.6;
+  const allowed = typed.length >= 8 ? 2 : typed.length >= 4 ? 1 : 0;
+  if (allowed === 0) return 0;
+  const distance = Math.min(
+    editDistance(typed, word),
+    editDistance(typed, word.slice(0, typed.length))
+  );
+  return distance <= allowed ? 0.5 - 0.1 * distance : 0;
+}
+
+const words = (text: string) =>
+  foldText(text)
+    .split(/[\s\-–'’.,;:/()]+/)
+    .filter(Boolean);
+
+/**
+ * How well `query` matches a place name, from 0 (no match) to about 1.
+ * Every typed word has to match some word of the name; case and accents
+ * are ignored, so "piz boe" finds "Piz Boè".
+ */
+export function matchScore(query: string, name: string): number {
+  const typed = words(query);
+  const nameWords = words(name);
+  if (typed.length === 0 || nameWords.length === 0) return 0;
+  let total = 0;
+  for (const word of typed) {
+    const best = Math.max(...nameWords.map((n) => wordScore(word, n)));
+    if (best === 0) return 0;
+    total += best;
+  }
+  // Names made of just the typed words rank above longer ones.
+  const coverage = typed.length / Math.max(typed.length, nameWords.length);
+  return (total / typed.length) * (0.8 + 0.2 * coverage);
+}
+
+/**
+ * Best matches first; ties go to the class listed first in
+ * `PLACE_CLASS_LABELS`, then to shorter names.
+ */
+export function searchPlaces(
+  places: Place[],
+  query: string,
+  limit = 20
+): PlaceResult[] {
+  const order = Object.keys(PLACE_CLASS_LABELS);
+  return places
+    .map((place) => ({ ...place, score: matchScore(query, place.name) }))
+    .filter((result) => result.score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        order.indexOf(a.class) - order.indexOf(b.class) ||
+        a.name.length - b.name.length
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,51 @@
+/**
+ * Minimal async key/value contract shared by everything that persists
+ * local state. AsyncStorage satisfies it in the app; tests use the
+ * in-memory implementation below.
+ */
+export interface KeyValueStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export function createMemoryStore(
+  initial: Record<string, string> = {}
+): KeyValueStore {
+  const data = new Map(Object.entries(initial));
+  return {
+    async getItem(key) {
+      return data.has(key) ? data.get(key)! : null;
+    },
+    async setItem(key, value) {
+      data.set(key, value);
+    },
+    async removeItem(key) {
+      data.delete(key);
+    },
+  };
+}
+
+// Reads a JSON value, falling back when the key is missing or unreadable.
+export async function readJSON<T>(
+  store: KeyValueStore,
+  key: string,
+  fallback: T
+): Promise<T> {
+  const raw = await store.getItem(key);
+  if (raw === null) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`Ignoring unreadable value stored under ${key}:`, error);
+    return fallback;
+  }
+}
+
+export async function writeJSON(
+  store: KeyValueStore,
+  key: string,
+  value: unknown
+): Promise<void> {
+  await store.setItem(key, JSON.stringify(value));
+}
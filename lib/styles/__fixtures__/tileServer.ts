@@ -0,0 +1,79 @@
+import { createServer, get } from "http";
+import { AddressInfo } from "net";
+
+import { TileCoord } from "@/lib/tiles/mvt";
+
+import { DEFAULT_TERRAIN, TerrainConfig } from "../terrain";
+
+export type TileServer = {
+  baseURL: string;
+  /** Paths requested so far, in order. */
+  requests: string[];
+  close(): Promise<void>;
+};
+
+/**
+ * Stand-in for a tile server: serves `tiles` (path to body) on a free local
+ * port, and 404s everything else like a server outside its coverage.
+ */
+export function startTileServer(
+  tiles: Record<string, string | Buffer>
+): Promise<TileServer> {
+  const requests: string[] = [];
+  const server = createServer((req, res) => {
+    const path = req.url ?? "";
+    requests.push(path);
+    const body = tiles[path.split("?")[0]];
+    if (body === undefined) {
+      res.writeHead(404).end();
+    } else {
+      res.writeHead(200, { "Content-Type": "application/octet-stream" });
+      res.end(body);
+    }
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        baseURL: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/** GETs a URL, resolving with the status code and body. */
+export function fetchTile(
+  url: string
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    get(url, (res) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk) => chunks.push(chunk));
+      res.on("end", () =>
+        resolve({
+          status: res.statusCode ?? 0,
+          body: Buffer.concat(chunks).toString(),
+        })
+      );
+    }).on("error", reject);
+  });
+}
+
+/** Terrain served by a stand-in as `/dem/…png` and `/contours/…pbf`. */
+export function localTerrainConfig(baseURL: string): TerrainConfig {
+  return {
+    ...DEFAULT_TERRAIN,
+    demTiles: `${baseURL}/dem/{z}/{x}/{y}.png`,
+    contourTiles: `${baseURL}/contours/{z}/{x}/{y}.pbf`,
+  };
+}
+
+/** Fills in a `{z}/{x}/{y}` tile URL template, as MapLibre does. */
+export function tileURL(template: string, { z, x, y }: TileCoord) {
+  return template
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
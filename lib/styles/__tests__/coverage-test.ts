@@ -0,0 +1,75 @@
+import { Bounds } from "@/lib/geo/bounds";
+import { makeRegion } from "@/lib/offline/__fixtures__/regions";
+
+import { styleCoverage } from "../coverage";
+import { MAP_STYLES } from "../registry";
+
+const DOLOMITES: Bounds = [
+  [12.0, 46.7],
+  [11.6, 46.4],
+];
+const INSIDE: [number, number] = [11.8, 46.55];
+const OUTSIDE: [number, number] = [10.0, 46.0];
+
+describe("styleCoverage", () => {
+  it("reports points without packs", () => {
+    const regions = [makeRegion({ id: "a", bounds: DOLOMITES })];
+    expect(styleCoverage(regions, MAP_STYLES.hiking, OUTSIDE)).toEqual({
+      status: "none",
+    });
+  });
+
+  it("reports packs downloaded for a compatible style", () => {
+    const regions = [
+      makeRegion({ id: "a", bounds: DOLOMITES, styleId: "liberty" }),
+    ];
+    expect(styleCoverage(regions, MAP_STYLES.hiking, INSIDE)).toEqual({
+      status: "cached",
+      missingOverlays: [],
+    });
+  });
+
+  it("lists active overlays no pack there includes", () => {
+    const regions = [
+      makeRegion({ id: "a", bounds: DOLOMITES, styleId: "hiking" }),
+      makeRegion({
+        id: "b",
+        bounds: DOLOMITES,
+        styleId: "hiking",
+        overlays: ["hillshade"],
+      }),
+    ];
+    expect(
+      styleCoverage(regions, MAP_STYLES.hiking, INSIDE, [
+        "hillshade",
+        "contours",
+      ])
+    ).toEqual({ status: "cached", missingOverlays: ["contours"] });
+  });
+
+  it("lists the styles of packs that do not serve the active one", () => {
+    const regions = [
+      makeRegion({ id: "a", bounds: DOLOMITES, styleId: "liberty" }),
+      makeRegion({ id: "b", bounds: DOLOMITES, styleId: "hiking" }),
+      makeRegion({ id: "c", bounds: DOLOMITES, styleId: "liberty" }),
+    ];
+    expect(styleCoverage(regions, MAP_STYLES.satellite, INSIDE)).toEqual({
+      status: "missing",
+      styleIds: ["liberty", "hiking"],
+    });
+  });
+
+  it("trusts packs whose style is unknown", () => {
+    const region = {
+      ...makeRegion({ id: "a", bounds: DOLOMITES }),
+      metadata: null,
+    };
+    expect(styleCoverage([region], MAP_STYLES.hiking, INSIDE).status).toBe(
+      "cached"
+    );
+    expect(styleCoverage([region], MAP_STYLES.satellite, INSIDE)).toEqual({
+      status: "missing",
+      styleIds: [],
+    });
+  });
+});
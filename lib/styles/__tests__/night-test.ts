@@ -0,0 +1,153 @@
+import { MAP_STYLES } from "../registry";
+import { formatColor, nightColor, nightStyle, parseColor } from "../night";
+import { withTerrain } from "../terrain";
+import { StyleDocument } from "../types";
+
+// HSL lightness in 0–1, enough to compare colours.
+function lightness(color: unknown) {
+  const { r, g, b } = parseColor(color as string)!;
+  return (Math.max(r, g, b) + Math.min(r, g, b)) / 2 / 255;
+}
+
+const style: StyleDocument = {
+  version: 8,
+  sources: {
+    openmaptiles: { type: "vector", url: "https://example.com/tiles.json" },
+    imagery: { type: "raster", tiles: ["https://example.com/{z}/{x}/{y}"] },
+  },
+  layers: [
+    {
+      id: "background",
+      type: "background",
+      paint: { "background-color": "#f8f4f0" },
+    },
+    {
+      id: "imagery",
+      type: "raster",
+      source: "imagery",
+    },
+    {
+      id: "water",
+      type: "fill",
+      source: "openmaptiles",
+      "source-layer": "water",
+      filter: ["==", "class", "lake"],
+      paint: {
+        "fill-color": "hsl(205, 56%, 73%)",
+        "fill-opacity": 0.8,
+      },
+    },
+    {
+      id: "road",
+      type: "line",
+      source: "openmaptiles",
+      "source-layer": "transportation",
+      paint: {
+        "line-color": [
+          "interpolate",
+          ["linear"],
+          ["zoom"],
+          10,
+          "#fff",
+          14,
+          "rgba(255, 255, 255, 0.5)",
+        ],
+      },
+    },
+    {
+      id: "label",
+      type: "symbol",
+      source: "openmaptiles",
+      "source-layer": "place",
+      layout: { "text-field": "{name}" },
+      paint: { "text-color": "#333", "text-halo-color": "#fff" },
+    },
+  ],
+};
+
+describe("parseColor", () => {
+  it("reads hex, rgb and hsl colours", () => {
+    expect(parseColor("#f80")).toEqual({ r: 255, g: 136, b: 0, a: 1 });
+    expect(parseColor("#00000080")?.a).toBeCloseTo(0.5, 2);
+    expect(parseColor("rgba(10, 20, 30, 0.4)")).toEqual({
+      r: 10,
+      g: 20,
+      b: 30,
+      a: 0.4,
+    });
+    expect(formatColor(parseColor("hsl(0, 100%, 50%)")!)).toBe("#ff0000");
+    expect(parseColor("interpolate")).toBeNull();
+  });
+
+  it("formats translucent colours as rgba", () => {
+    expect(formatColor({ r: 1, g: 2, b: 3, a: 1 })).toBe("#010203");
+    expect(formatColor({ r: 1, g: 2, b: 3, a: 0.25 })).toBe(
+      "rgba(1, 2, 3, 0.25)"
+    );
+  });
+});
+
+describe("nightColor", () => {
+  it("darkens light colours and lightens dark ones", () => {
+    expect(lightness(nightColor("#f8f4f0"))).toBeLessThan(0.2);
+    expect(lightness(nightColor("#333"))).toBeGreaterThan(0.5);
+  });
+
+  it("keeps transparency and leaves other strings alone", () => {
+    expect(parseColor(nightColor("rgba(255, 255, 255, 0.5)"))?.a).toBe(0.5);
+    expect(nightColor("zoom")).toBe("zoom");
+  });
+});
+
+describe("nightStyle", () => {
+  const night = nightStyle(style);
+  const layer = (id: string) => night.layers.find((l) => l.id === id)!;
+
+  it("recolours paint colours, including inside expressions", () => {
+    expect(lightness(layer("background").paint!["background-color"])).toBe(
+      lightness(nightColor("#f8f4f0"))
+    );
+    const roadColor = layer("road").paint!["line-color"] as unknown[];
+    expect(roadColor.slice(0, 3)).toEqual([
+      "interpolate",
+      ["linear"],
+      ["zoom"],
+    ]);
+    expect(roadColor[4]).toBe(nightColor("#fff"));
+    expect(layer("label").paint).toEqual({
+      "text-color": nightColor("#333"),
+      "text-halo-color": nightColor("#fff"),
+    });
+  });
+
+  it("leaves opacity, filters and layout untouched", () => {
+    expect(layer("water").paint!["fill-opacity"]).toBe(0.8);
+    expect(layer("water").filter).toEqual(["==", "class", "lake"]);
+    expect(layer("label").layout).toEqual({ "text-field": "{name}" });
+  });
+
+  it("dims raster imagery", () => {
+    expect(layer("imagery").paint).toMatchObject({
+      "raster-brightness-max": expect.any(Number),
+    });
+  });
+
+  it("does not modify the day style", () => {
+    expect(style.layers[0].paint).toEqual({ "background-color": "#f8f4f0" });
+    expect(style.layers[1].paint).toBeUndefined();
+    expect(night.sources).toEqual(style.sources);
+  });
+
+  it("gives the bundled hiking style a dark background", () => {
+    const background = MAP_STYLES.hiking.night!.layers.find(
+      (l) => l.type === "background"
+    )!;
+    expect(lightness(background.paint!["background-color"])).toBeLessThan(0.25);
+  });
+
+  it("keeps terrain shadows dark at night", () => {
+    const terrain = withTerrain(night, ["hillshade"], undefined, "night");
+    const hillshade = terrain.layers.find((l) => l.type === "hillshade")!;
+    expect(lightness(hillshade.paint!["hillshade-shadow-color"])).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  MAP_STYLES,
+  getMapStyle,
+  isMapStyleId,
+  packServesStyle,
+  renderStyle,
+} from "../registry";
+import { StyleDocument } from "../types";
+
+describe("getMapStyle", () => {
+  it("looks styles up by id", () => {
+    expect(getMapStyle("liberty")).toBe(MAP_STYLES.liberty);
+    expect(getMapStyle("toner")).toBeNull();
+    expect(isMapStyleId("constructor")).toBe(false);
+  });
+
+  it("bundles the hiking style document", () => {
+    const style = MAP_STYLES.hiking.style as StyleDocument;
+    expect(style.version).toBe(8);
+    expect(style.layers.length).toBeGreaterThan(0);
+  });
+});
+
+describe("renderStyle", () => {
+  it("adds overlays to style documents only", () => {
+    const hiking = renderStyle(MAP_STYLES.hiking, ["hillshade"]);
+    expect((hiking as StyleDocument).sources).toHaveProperty("terrain-dem");
+    expect(renderStyle(MAP_STYLES.liberty, ["hillshade"])).toBe(
+      MAP_STYLES.liberty.style
+    );
+  });
+
+  it("uses the night variant at night when there is one", () => {
+    const night = renderStyle(MAP_STYLES.hiking, [], "night");
+    expect(night).toBe(MAP_STYLES.hiking.night);
+    expect(renderStyle(MAP_STYLES.liberty, [], "night")).toBe(
+      MAP_STYLES.liberty.style
+    );
+  });
+});
+
+describe("packServesStyle", () => {
+  it("serves a style from its own packs and those of compatible styles", () => {
+    expect(packServesStyle("hiking", MAP_STYLES.hiking)).toBe(true);
+    expect(packServesStyle("liberty", MAP_STYLES.hiking)).toBe(true);
+    // Hiking packs do not hold liberty's own style document.
+    expect(packServesStyle("hiking", MAP_STYLES.liberty)).toBe(false);
+  });
+
+  it("never serves online-only or unknown styles", () => {
+    expect(packServesStyle("liberty", MAP_STYLES.satellite)).toBe(false);
+    expect(packServesStyle("satellite", MAP_STYLES.satellite)).toBe(false);
+    expect(packServesStyle("toner", MAP_STYLES.hiking)).toBe(false);
+  });
+});
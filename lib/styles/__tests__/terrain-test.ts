@@ -0,0 +1,214 @@
+import * as FileSystem from "expo-file-system";
+
+import { Bounds } from "@/lib/geo/bounds";
+import { tilesCovering } from "@/lib/tiles/cache";
+import { TileCoord } from "@/lib/tiles/mvt";
+
+import { packStyle } from "..";
+import {
+  TileServer,
+  fetchTile,
+  localTerrainConfig,
+  startTileServer,
+  tileURL,
+} from "../__fixtures__/tileServer";
+import hikingStyle from "../hiking.json";
+import { MAP_STYLES } from "../registry";
+import {
+  DEFAULT_TERRAIN,
+  TerrainConfig,
+  availableOverlays,
+  terrainSources,
+  withTerrain,
+} from "../terrain";
+import { StyleDocument } from "../types";
+
+jest.mock("expo-file-system", () => ({
+  documentDirectory: "file:///documents/",
+  makeDirectoryAsync: jest.fn(async () => {}),
+  writeAsStringAsync: jest.fn(async () => {}),
+}));
+
+const HIKING = hikingStyle as StyleDocument;
+const CONFIG: TerrainConfig = {
+  ...DEFAULT_TERRAIN,
+  demTiles: "https://tiles.test/dem/{z}/{x}/{y}.png",
+  contourTiles: "https://tiles.test/contours/{z}/{x}/{y}.pbf",
+};
+const NO_CONTOURS: TerrainConfig = { ...CONFIG, contourTiles: null };
+
+const ids = (style: StyleDocument) => style.layers.map((layer) => layer.id);
+
+describe("terrainSources", () => {
+  it("offers contours only with a contour tile URL", () => {
+    expect(availableOverlays(CONFIG)).toEqual(["hillshade", "contours"]);
+    expect(availableOverlays(NO_CONTOURS)).toEqual(["hillshade"]);
+  });
+
+  it("points the sources at the configured tiles", () => {
+    const sources = terrainSources(["hillshade", "contours"], CONFIG);
+    expect(sources["terrain-dem"]).toMatchObject({
+      type: "raster-dem",
+      tiles: [CONFIG.demTiles],
+      encoding: "terrarium",
+      maxzoom: CONFIG.demMaxZoom,
+    });
+    expect(sources["terrain-contours"]).toMatchObject({
+      type: "vector",
+      tiles: [CONFIG.contourTiles],
+      maxzoom: CONFIG.contourMaxZoom,
+    });
+  });
+
+  it("adds only the chosen sources, and no contours without a URL", () => {
+    expect(Object.keys(terrainSources(["hillshade"], CONFIG))).toEqual([
+      "terrain-dem",
+    ]);
+    expect(Object.keys(terrainSources(["contours"], CONFIG))).toEqual([
+      "terrain-contours",
+    ]);
+    expect(
+      Object.keys(terrainSources(["hillshade", "contours"], NO_CONTOURS))
+    ).toEqual(["terrain-dem"]);
+  });
+});
+
+describe("withTerrain", () => {
+  it("returns the style unchanged without overlays", () => {
+    expect(withTerrain(HIKING, [], CONFIG)).toBe(HIKING);
+  });
+
+  it("puts hillshade and contours under roads and labels", () => {
+    const style = withTerrain(HIKING, ["hillshade", "contours"], CONFIG);
+    const layerIds = ids(style);
+    const firstLine = HIKING.layers.find((l) => l.type === "line")!.id;
+    const firstSymbol = HIKING.layers.find((l) => l.type === "symbol")!.id;
+
+    expect(layerIds.indexOf("terrain-hillshade")).toBe(
+      layerIds.indexOf("terrain-contour") - 1
+    );
+    expect(layerIds.indexOf("terrain-contour-index")).toBe(
+      layerIds.indexOf(firstLine) - 1
+    );
+    expect(layerIds.indexOf("terrain-contour-label")).toBe(
+      layerIds.indexOf(firstSymbol) - 1
+    );
+    expect(Object.keys(style.sources)).toEqual(
+      expect.arrayContaining(["terrain-dem", "terrain-contours"])
+    );
+  });
+
+  it("adds only the chosen overlays", () => {
+    const style = withTerrain(HIKING, ["hillshade"], CONFIG);
+    expect(ids(style)).toContain("terrain-hillshade");
+    expect(ids(style)).not.toContain("terrain-contour");
+    expect(style.sources).not.toHaveProperty("terrain-contours");
+  });
+
+  it("keeps the labels on top of an image-only style", () => {
+    const style = withTerrain(
+      {
+        version: 8,
+        sources: {},
+        layers: [{ id: "satellite", type: "raster" }],
+      },
+      ["hillshade", "contours"],
+      CONFIG
+    );
+    expect(ids(style)).toEqual([
+      "satellite",
+      "terrain-hillshade",
+      "terrain-contour",
+      "terrain-contour-index",
+      "terrain-contour-label",
+    ]);
+  });
+
+  it("skips contours when no contour tiles are configured", () => {
+    expect(ids(withTerrain(HIKING, ["contours"], NO_CONTOURS))).not.toContain(
+      "terrain-contour"
+    );
+  });
+});
+
+describe("packStyle", () => {
+  it("records the overlays written into a style document", async () => {
+    const pack = await packStyle(MAP_STYLES.hiking, ["hillshade", "contours"]);
+    expect(pack).toEqual({
+      styleURL: "file:///documents/styles/hiking-hillshade-contours.json",
+      overlays: ["hillshade", "contours"],
+    });
+    const written = (FileSystem.writeAsStringAsync as jest.Mock).mock.calls[0];
+    expect(written[0]).toBe(pack.styleURL);
+    expect(JSON.parse(written[1]).sources).toHaveProperty("terrain-dem");
+  });
+
+  it("records no overlays for styles served by URL", async () => {
+    await expect(
+      packStyle(MAP_STYLES.liberty, ["hillshade", "contours"])
+    ).resolves.toEqual({
+      styleURL: MAP_STYLES.liberty.style,
+      overlays: [],
+    });
+  });
+});
+
+describe("terrain tiles from a local tile server", () => {
+  // Around the Seceda, a few tiles at zoom 12.
+  const PACK: Bounds = [
+    [11.76, 46.62],
+    [11.7, 46.58],
+  ];
+  const coords = tilesCovering(PACK, 12);
+  const path = ({ z, x, y }: TileCoord) => `${z}/${x}/${y}`;
+  let server: TileServer;
+
+  beforeAll(async () => {
+    server = await startTileServer(
+      Object.fromEntries(
+        coords.flatMap((coord) => [
+          [`/dem/${path(coord)}.png`, `dem ${path(coord)}`],
+          [`/contours/${path(coord)}.pbf`, `contours ${path(coord)}`],
+        ])
+      )
+    );
+  });
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+  afterAll(() => server.close());
+
+  it("fetches every terrain tile of a pack from the configured host", async () => {
+    const style = withTerrain(
+      HIKING,
+      ["hillshade", "contours"],
+      localTerrainConfig(server.baseURL)
+    );
+    for (const [id, kind] of [
+      ["terrain-dem", "dem"],
+      ["terrain-contours", "contours"],
+    ]) {
+      const [template] = style.sources[id].tiles as string[];
+      for (const coord of coords) {
+        await expect(fetchTile(tileURL(template, coord))).resolves.toEqual({
+          status: 200,
+          body: `${kind} ${path(coord)}`,
+        });
+      }
+    }
+    expect(server.requests).toHaveLength(coords.length * 2);
+  });
+
+  it("asks the host for no contours without a contour URL", async () => {
+    const config = {
+      ...localTerrainConfig(server.baseURL),
+      contourTiles: null,
+    };
+    const sources = terrainSources(["hillshade", "contours"], config);
+    for (const source of Object.values(sources)) {
+      const [template] = source.tiles as string[];
+      expect((await fetchTile(tileURL(template, coords[0]))).status).toBe(200);
+    }
+    expect(server.requests).toEqual([`/dem/${path(coords[0])}.png`]);
+  });
+});
@@ -0,0 +1,89 @@
+import hikingStyle from "../hiking.json";
+import {
+  REPLACED_LAYERS,
+  TRAIL_PALETTES,
+  TrailVariant,
+  trailLabelLayers,
+  trailLineLayers,
+  withTrails,
+} from "../trails";
+import { StyleDocument } from "../types";
+
+const HIKING = hikingStyle as StyleDocument;
+
+const ids = (style: StyleDocument) => style.layers.map((layer) => layer.id);
+
+describe.each(Object.keys(TRAIL_PALETTES) as TrailVariant[])(
+  "the %s variant",
+  (variant) => {
+    it("generates the same layers", () => {
+      expect({
+        lines: trailLineLayers(variant),
+        labels: trailLabelLayers(variant),
+      }).toMatchSnapshot();
+    });
+  }
+);
+
+describe("withTrails", () => {
+  it("swaps the generic path layers for the trail layers", () => {
+    const style = withTrails(HIKING, "day");
+    const layerIds = ids(style);
+
+    for (const id of REPLACED_LAYERS) expect(layerIds).not.toContain(id);
+    expect(layerIds.indexOf("trail-path")).toBeLessThan(
+      layerIds.indexOf("bridge_path_pedestrian")
+    );
+    expect(layerIds.indexOf("trail-name")).toBeGreaterThan(
+      layerIds.indexOf("poi_r1")
+    );
+    expect(layerIds.indexOf("trail-name")).toBeLessThan(
+      layerIds.indexOf("label_city")
+    );
+    expect(style.sources).toHaveProperty("hiking-routes");
+  });
+
+  it("leaves the original style untouched", () => {
+    const before = JSON.stringify(HIKING);
+    withTrails(HIKING, "night");
+    expect(JSON.stringify(HIKING)).toBe(before);
+  });
+
+  it("places trails in styles without generic path layers", () => {
+    const style = withTrails(
+      {
+        version: 8,
+        sources: {},
+        layers: [
+          { id: "background", type: "background" },
+          { id: "place", type: "symbol" },
+        ],
+      },
+      "highContrast"
+    );
+    expect(ids(style)).toEqual([
+      "background",
+      "trail-routes",
+      "trail-casing",
+      "trail-track",
+      "trail-path",
+      "trail-path-intermediate",
+      "trail-path-faint",
+      "place",
+      "trail-name",
+      "peak-name",
+    ]);
+  });
+
+  it("colours paths by sac_scale with a plain fallback", () => {
+    const path = trailLineLayers("day").find((l) => l.id === "trail-path")!;
+    const color = path.paint!["line-color"] as unknown[];
+    expect(color.slice(0, 4)).toEqual([
+      "match",
+      ["get", "sac_scale"],
+      "hiking",
+      TRAIL_PALETTES.day.difficulty.hiking,
+    ]);
+    expect(color[color.length - 1]).toBe(TRAIL_PALETTES.day.path);
+  });
+});
@@ -0,0 +1,50 @@
+import { LngLat, boundsContains } from "@/lib/geo/bounds";
+import { OfflineRegion } from "@/lib/offline/types";
+
+import { MapStyleDefinition, packServesStyle } from "./registry";
+import { OverlayId } from "./terrain";
+
+/**
+ * How well the offline packs under a point serve a style:
+ * - "cached": at least one pack there was downloaded for it, though maybe
+ *   without some of the active overlays.
+ * - "missing": packs cover the point, but only for other styles.
+ * - "none": no pack covers the point at all.
+ */
+export type StyleCoverage =
+  | { status: "cached"; missingOverlays: OverlayId[] }
+  | { status: "missing"; styleIds: string[] }
+  | { status: "none" };
+
+export function styleCoverage(
+  regions: OfflineRegion[],
+  style: MapStyleDefinition,
+  point: LngLat,
+  overlays: OverlayId[] = []
+): StyleCoverage {
+  const here = regions.filter(
+    (region) => region.bounds && boundsContains(region.bounds, point)
+  );
+  if (here.length === 0) return { status: "none" };
+
+  // Packs without readable metadata have an unknown style; trust them
+  // rather than warn about every legacy pack.
+  const serving = here.filter(
+    (region) =>
+      style.offline !== null &&
+      (!region.metadata || packServesStyle(region.metadata.styleId, style))
+  );
+  if (serving.length > 0) {
+    const cached = new Set(
+      serving.flatMap((region) => region.metadata?.overlays ?? [])
+    );
+    return {
+      status: "cached",
+      missingOverlays: overlays.filter((overlay) => !cached.has(overlay)),
+    };
+  }
+  const styleIds = here.flatMap((region) =>
+    region.metadata ? [region.metadata.styleId] : []
+  );
+  return { status: "missing", styleIds: [...new Set(styleIds)] };
+}
@@ -0,0 +1,35 @@
+import * as FileSystem from "expo-file-system";
+
+import { MapStyleDefinition, renderStyle, supportsOverlays } from "./registry";
+import { OverlayId } from "./terrain";
+
+export * from "./registry";
+export * from "./coverage";
+export * from "./night";
+export * from "./terrain";
+export * from "./trails";
+export * from "./types";
+
+const STYLES_DIRECTORY = `${FileSystem.documentDirectory}styles/`;
+
+/**
+ * The style URL an offline pack is created from, and the overlays it will
+ * hold. Documents are written to a local file first, since native packs only
+ * accept URLs; the file is kept so the pack can be resumed later.
+ */
+export async function packStyle(
+  style: MapStyleDefinition,
+  overlays: OverlayId[]
+): Promise<{ styleURL: string; overlays: OverlayId[] }> {
+  const included = supportsOverlays(style) ? overlays : [];
+  const rendered = renderStyle(style, included);
+  if (typeof rendered === "string") {
+    return { styleURL: rendered, overlays: included };
+  }
+  await FileSystem.makeDirectoryAsync(STYLES_DIRECTORY, {
+    intermediates: true,
+  });
+  const uri = `${STYLES_DIRECTORY}${[style.id, ...included].join("-")}.json`;
+  await FileSystem.writeAsStringAsync(uri, JSON.stringify(rendered));
+  return { styleURL: uri, overlays: included };
+}
@@ -0,0 +1,116 @@
+import { StyleDocument, StyleLayer } from "./types";
+
+type Rgba = { r: number; g: number; b: number; a: number };
+
+const HEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTIONAL = /^(rgb|hsl)a?\(([^)]*)\)$/i;
+
+/** Parses the hex, rgb() and hsl() colours style documents use. */
+export function parseColor(value: string): Rgba | null {
+  const text = value.trim();
+  const hex = HEX.exec(text);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) {
+      digits = [...digits].map((d) => d + d).join("");
+    }
+    const channel = (i: number) => parseInt(digits.slice(i, i + 2), 16);
+    return {
+      r: channel(0),
+      g: channel(2),
+      b: channel(4),
+      a: digits.length === 8 ? channel(6) / 255 : 1,
+    };
+  }
+
+  const functional = FUNCTIONAL.exec(text);
+  if (!functional) return null;
+  const parts = functional[2].split(",").map((part) => parseFloat(part));
+  if (parts.length < 3 || parts.some((n) => Number.isNaN(n))) return null;
+  const a = parts[3] ?? 1;
+  if (functional[1].toLowerCase() === "rgb") {
+    return { r: parts[0], g: parts[1], b: parts[2], a };
+  }
+  return { ...hslToRgb(parts[0], parts[1] / 100, parts[2] / 100), a };
+}
+
+export function formatColor({ r, g, b, a }: Rgba): string {
+  const [R, G, B] = [r, g, b].map((c) =>
+    Math.round(Math.min(255, Math.max(0, c)))
+  );
+  if (a < 1) return `rgba(${R}, ${G}, ${B}, ${Math.round(a * 1000) / 1000})`;
+  return `#${[R, G, B].map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function rgbToHsl({ r, g, b }: Rgba) {
+  const [R, G, B] = [r / 255, g / 255, b / 255];
+  const max = Math.max(R, G, B);
+  const min = Math.min(R, G, B);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h =
+    max === R
+      ? ((G - B) / d + (G < B ? 6 : 0)) * 60
+      : max === G
+      ? ((B - R) / d + 2) * 60
+      : ((R - G) / d + 4) * 60;
+  return { h, s, l };
+}
+
+function hslToRgb(h: number, s: number, l: number) {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) =>
+    l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return { r: f(0) * 255, g: f(8) * 255, b: f(4) * 255 };
+}
+
+/**
+ * The night counterpart of a day colour: lightness is inverted into a
+ * narrower band, so paper-white land turns near black and dark text turns
+ * light grey without anything glaring, and saturation is toned down.
+ */
+export function nightColor(value: string): string {
+  const color = parseColor(value);
+  if (!color) return value;
+  const { h, s, l } = rgbToHsl(color);
+  return formatColor({
+    ...hslToRgb(h, s * 0.7, 0.08 + (1 - l) * 0.62),
+    a: color.a,
+  });
+}
+
+// Colours can sit anywhere inside an expression, e.g. as interpolate stops.
+function mapColors(value: unknown): unknown {
+  if (typeof value === "string") return nightColor(value);
+  if (Array.isArray(value)) return value.map(mapColors);
+  return value;
+}
+
+function nightLayer(layer: StyleLayer): StyleLayer {
+  if (layer.type === "raster") {
+    return {
+      ...layer,
+      paint: {
+        ...layer.paint,
+        "raster-brightness-max": 0.5,
+        "raster-saturation": -0.3,
+      },
+    };
+  }
+  if (!layer.paint) return layer;
+  const paint = Object.fromEntries(
+    Object.entries(layer.paint).map(([key, value]) => [
+      key,
+      key.endsWith("-color") ? mapColors(value) : value,
+    ])
+  );
+  return { ...layer, paint };
+}
+
+/** Generates the night variant of a day style. */
+export function nightStyle(style: StyleDocument): StyleDocument {
+  return { ...style, layers: style.layers.map(nightLayer) };
+}
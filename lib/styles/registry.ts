@@ -0,0 +1,127 @@
+import hikingStyle from "./hiking.json";
+import {
+  DEFAULT_TERRAIN,
+  OverlayId,
+  TerrainConfig,
+  withTerrain,
+} from "./terrain";
+import { nightStyle } from "./night";
+import { withTrails } from "./trails";
+import { MapTheme, StyleDocument } from "./types";
+
+export type MapStyleId = "hiking" | "liberty" | "satellite";
+
+export type MapStyleDefinition = {
+  id: MapStyleId;
+  name: string;
+  description: string;
+  /**
+   * A style URL, or a document built in the app. Terrain overlays can only
+   * be added to documents.
+   */
+  style: string | StyleDocument;
+  /** Night variant of the style, or null when it has none. */
+  night: StyleDocument | null;
+  /**
+   * How offline packs are created: from the style URL, from the document
+   * written to a local file (native packs only accept URLs), or not at all.
+   */
+  offline: "url" | "document" | null;
+  /** Other styles whose packs hold everything this one draws. */
+  servedBy: MapStyleId[];
+};
+
+const LIBERTY_URL = "https://tiles.openfreemap.org/styles/liberty";
+
+const satelliteStyle: StyleDocument = {
+  version: 8,
+  sources: {
+    satellite: {
+      type: "raster",
+      tiles: [
+        "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+      ],
+      tileSize: 256,
+      maxzoom: 19,
+      attribution: "Imagery © Esri, Maxar, Earthstar Geographics",
+    },
+  },
+  glyphs: "https://tiles.openfreemap.org/fonts/{fontstack}/{range}.pbf",
+  layers: [{ id: "satellite", type: "raster", source: "satellite" }],
+};
+
+const hikingBase = hikingStyle as StyleDocument;
+
+export const MAP_STYLES: Record<MapStyleId, MapStyleDefinition> = {
+  hiking: {
+    id: "hiking",
+    name: "Hiking",
+    description: "Paths, tracks, woods and peaks first.",
+    style: withTrails(hikingBase, "day"),
+    night: withTrails(nightStyle(hikingBase), "night"),
+    offline: "document",
+    // Liberty is served from the same OpenFreeMap tiles, sprite and fonts.
+    servedBy: ["liberty"],
+  },
+  liberty: {
+    id: "liberty",
+    name: "Liberty",
+    description: "OpenFreeMap's general-purpose street map.",
+    style: LIBERTY_URL,
+    night: null,
+    offline: "url",
+    servedBy: [],
+  },
+  satellite: {
+    id: "satellite",
+    name: "Satellite",
+    description: "Aerial imagery. Online only.",
+    style: satelliteStyle,
+    night: nightStyle(satelliteStyle),
+    // The imagery terms do not allow bulk downloads.
+    offline: null,
+    servedBy: [],
+  },
+};
+
+export const DEFAULT_STYLE_ID: MapStyleId = "hiking";
+
+export function isMapStyleId(id: string): id is MapStyleId {
+  return Object.prototype.hasOwnProperty.call(MAP_STYLES, id);
+}
+
+export function getMapStyle(id: string): MapStyleDefinition | null {
+  return isMapStyleId(id) ? MAP_STYLES[id] : null;
+}
+
+export function supportsOverlays(style: MapStyleDefinition) {
+  return typeof style.style !== "string";
+}
+
+/**
+ * What `MapView` renders, and what packs download, for a style. Styles
+ * without a night variant are drawn as they are at night.
+ */
+export function renderStyle(
+  style: MapStyleDefinition,
+  overlays: OverlayId[],
+  theme: MapTheme = "day",
+  config: TerrainConfig = DEFAULT_TERRAIN
+): string | StyleDocument {
+  const document = (theme === "night" && style.night) || style.style;
+  return typeof document === "string"
+    ? document
+    : withTerrain(document, overlays, config, theme);
+}
+
+/** Whether a pack downloaded for `packStyleId` holds what `style` needs. */
+export function packServesStyle(
+  packStyleId: string,
+  style: MapStyleDefinition
+): boolean {
+  return (
+    style.offline !== null &&
+    isMapStyleId(packStyleId) &&
+    (packStyleId === style.id || style.servedBy.includes(packStyleId))
+  );
+}
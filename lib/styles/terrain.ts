@@ -0,0 +1,219 @@
+import { MapTheme, StyleDocument, StyleLayer, StyleSource } from "./types";
+
+export type OverlayId = "hillshade" | "contours";
+
+export const OVERLAYS: Record<OverlayId, { name: string }> = {
+  hillshade: { name: "Hillshade" },
+  contours: { name: "Contour lines" },
+};
+
+export type TerrainConfig = {
+  /** Raster-dem tile URL template. */
+  demTiles: string;
+  demEncoding: "terrarium" | "mapbox";
+  demMaxZoom: number;
+  /** Vector contour tile URL template, or null when none is configured. */
+  contourTiles: string | null;
+  contourMaxZoom: number;
+  contourLayer: string;
+  /** Feature property holding the elevation in metres. */
+  elevationField: string;
+  /** Feature property that is 10 on index (major) contours. */
+  indexField: string;
+};
+
+const MAPTILER_KEY = process.env.EXPO_PUBLIC_MAPTILER_KEY;
+
+/**
+ * Mapzen's Terrarium DEM on AWS, and MapTiler's contours when a key is set
+ * through `EXPO_PUBLIC_MAPTILER_KEY`.
+ */
+export const DEFAULT_TERRAIN: TerrainConfig = {
+  demTiles:
+    "https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png",
+  demEncoding: "terrarium",
+  demMaxZoom: 15,
+  contourTiles: MAPTILER_KEY
+    ? `https://api.maptiler.com/tiles/contours/{z}/{x}/{y}.pbf?key=${MAPTILER_KEY}`
+    : null,
+  contourMaxZoom: 14,
+  contourLayer: "contour",
+  elevationField: "height",
+  indexField: "nth_line",
+};
+
+export function availableOverlays(config: TerrainConfig): OverlayId[] {
+  return config.contourTiles ? ["hillshade", "contours"] : ["hillshade"];
+}
+
+const DEM_SOURCE = "terrain-dem";
+const CONTOUR_SOURCE = "terrain-contours";
+
+export function terrainSources(
+  overlays: OverlayId[],
+  config: TerrainConfig
+): Record<string, StyleSource> {
+  const sources: Record<string, StyleSource> = {};
+  if (overlays.includes("hillshade")) {
+    sources[DEM_SOURCE] = {
+      type: "raster-dem",
+      tiles: [config.demTiles],
+      tileSize: 256,
+      maxzoom: config.demMaxZoom,
+      encoding: config.demEncoding,
+      attribution: "Terrain © Mapzen, AWS Open Data",
+    };
+  }
+  if (overlays.includes("contours") && config.contourTiles) {
+    sources[CONTOUR_SOURCE] = {
+      type: "vector",
+      tiles: [config.contourTiles],
+      maxzoom: config.contourMaxZoom,
+      attribution: "Contours © MapTiler",
+    };
+  }
+  return sources;
+}
+
+const TERRAIN_PALETTES: Record<
+  MapTheme,
+  {
+    shadow: string;
+    highlight: string;
+    exaggeration: number;
+    contour: string;
+    halo: string;
+  }
+> = {
+  day: {
+    shadow: "#473b24",
+    highlight: "#ffffff",
+    exaggeration: 0.35,
+    contour: "#a0785a",
+    halo: "rgba(255, 255, 255, 0.8)",
+  },
+  // Shadows stay dark and highlights stay dim, unlike a plain inversion.
+  night: {
+    shadow: "#000000",
+    highlight: "#4a4a4a",
+    exaggeration: 0.3,
+    contour: "#7d6450",
+    halo: "rgba(0, 0, 0, 0.6)",
+  },
+};
+
+/** Hillshade and contour lines, drawn over land cover and under roads. */
+export function terrainLineLayers(
+  overlays: OverlayId[],
+  config: TerrainConfig,
+  theme: MapTheme = "day"
+): StyleLayer[] {
+  const palette = TERRAIN_PALETTES[theme];
+  const sources = terrainSources(overlays, config);
+  const isIndex = ["==", ["get", config.indexField], 10];
+  const layers: StyleLayer[] = [];
+  if (sources[DEM_SOURCE]) {
+    layers.push({
+      id: "terrain-hillshade",
+      type: "hillshade",
+      source: DEM_SOURCE,
+      paint: {
+        "hillshade-exaggeration": palette.exaggeration,
+        "hillshade-shadow-color": palette.shadow,
+        "hillshade-highlight-color": palette.highlight,
+      },
+    });
+  }
+  if (sources[CONTOUR_SOURCE]) {
+    layers.push(
+      {
+        id: "terrain-contour",
+        type: "line",
+        source: CONTOUR_SOURCE,
+        "source-layer": config.contourLayer,
+        minzoom: 11,
+        filter: ["!", isIndex],
+        paint: { "line-color": palette.contour, "line-width": 0.5 },
+      },
+      {
+        id: "terrain-contour-index",
+        type: "line",
+        source: CONTOUR_SOURCE,
+        "source-layer": config.contourLayer,
+        minzoom: 9,
+        filter: isIndex,
+        paint: { "line-color": palette.contour, "line-width": 1.1 },
+      }
+    );
+  }
+  return layers;
+}
+
+/** Elevation labels along index contours. */
+export function terrainLabelLayers(
+  overlays: OverlayId[],
+  config: TerrainConfig,
+  theme: MapTheme = "day"
+): StyleLayer[] {
+  const palette = TERRAIN_PALETTES[theme];
+  if (!terrainSources(overlays, config)[CONTOUR_SOURCE]) return [];
+  return [
+    {
+      id: "terrain-contour-label",
+      type: "symbol",
+      source: CONTOUR_SOURCE,
+      "source-layer": config.contourLayer,
+      minzoom: 12,
+      filter: ["==", ["get", config.indexField], 10],
+      layout: {
+        "symbol-placement": "line",
+        "text-field": [
+          "concat",
+          ["to-string", ["get", config.elevationField]],
+          " m",
+        ],
+        "text-font": ["Noto Sans Regular"],
+        "text-size": 10,
+        "symbol-spacing": 350,
+      },
+      paint: {
+        "text-color": palette.contour,
+        "text-halo-color": palette.halo,
+        "text-halo-width": 1,
+      },
+    },
+  ];
+}
+
+/**
+ * Returns a copy of `style` with the chosen terrain overlays. Hillshade and
+ * contours go below the first line layer, so roads and water stay on top;
+ * elevation labels go below the first symbol layer.
+ */
+export function withTerrain(
+  style: StyleDocument,
+  overlays: OverlayId[],
+  config: TerrainConfig = DEFAULT_TERRAIN,
+  theme: MapTheme = "day"
+): StyleDocument {
+  const lines = terrainLineLayers(overlays, config, theme);
+  const labels = terrainLabelLayers(overlays, config, theme);
+  if (lines.length === 0) return style;
+
+  const insertBefore = (
+    layers: StyleLayer[],
+    added: StyleLayer[],
+    types: StyleLayer["type"][]
+  ) => {
+    const at = layers.findIndex((layer) => types.includes(layer.type));
+    return at < 0
+      ? [...layers, ...added]
+      : [...layers.slice(0, at), ...added, ...layers.slice(at)];
+  };
+  const labelled = insertBefore(style.layers, labels, ["symbol"]);
+  return {
+    ...style,
+    sources: { ...style.sources, ...terrainSources(overlays, config) },
+    layers: insertBefore(labelled, lines, ["line", "symbol"]),
+  };
+}
@@ -0,0 +1,329 @@
+import { StyleDocument, StyleLayer, StyleSource } from "./types";
+
+export type TrailVariant = "day" | "night" | "highContrast";
+
+export type TrailPalette = {
+  /** Footpaths without a sac_scale tag. */
+  path: string;
+  track: string;
+  /** Keyed by OSM sac_scale value, from T1 to T6. */
+  difficulty: Record<SacScale, string>;
+  casing: string;
+  label: string;
+  labelHalo: string;
+  peak: string;
+  /** Opacity of the marked-route overlay. */
+  routeOpacity: number;
+  /** Multiplier on every line width. */
+  widthScale: number;
+};
+
+export type SacScale =
+  | "hiking"
+  | "mountain_hiking"
+  | "demanding_mountain_hiking"
+  | "alpine_hiking"
+  | "demanding_alpine_hiking"
+  | "difficult_alpine_hiking";
+
+// Follows the Swiss trail markings: yellow walking paths, white-red-white
+// mountain paths and white-blue-white alpine routes.
+export const TRAIL_PALETTES: Record<TrailVariant, TrailPalette> = {
+  day: {
+    path: "#c2410c",
+    track: "#8d6e63",
+    difficulty: {
+      hiking: "#d97706",
+      mountain_hiking: "#dc2626",
+      demanding_mountain_hiking: "#991b1b",
+      alpine_hiking: "#2563eb",
+      demanding_alpine_hiking: "#1d4ed8",
+      difficult_alpine_hiking: "#1e3a8a",
+    },
+    casing: "rgba(255, 255, 255, 0.8)",
+    label: "#7c2d12",
+    labelHalo: "#f0efea",
+    peak: "#4e342e",
+    routeOpacity: 0.6,
+    widthScale: 1,
+  },
+  night: {
+    path: "#fb923c",
+    track: "#bcaaa4",
+    difficulty: {
+      hiking: "#fbbf24",
+      mountain_hiking: "#f87171",
+      demanding_mountain_hiking: "#ef4444",
+      alpine_hiking: "#60a5fa",
+      demanding_alpine_hiking: "#3b82f6",
+      difficult_alpine_hiking: "#818cf8",
+    },
+    casing: "rgba(0, 0, 0, 0.6)",
+    label: "#fed7aa",
+    labelHalo: "#1c1c1e",
+    peak: "#d7ccc8",
+    routeOpacity: 0.45,
+    widthScale: 1,
+  },
+  highContrast: {
+    path: "#000000",
+    track: "#4e342e",
+    difficulty: {
+      hiking: "#b45309",
+      mountain_hiking: "#b91c1c",
+      demanding_mountain_hiking: "#7f1d1d",
+      alpine_hiking: "#1d4ed8",
+      demanding_alpine_hiking: "#1e3a8a",
+      difficult_alpine_hiking: "#000080",
+    },
+    casing: "#ffffff",
+    label: "#000000",
+    labelHalo: "#ffffff",
+    peak: "#000000",
+    routeOpacity: 0.8,
+    widthScale: 1.5,
+  },
+};
+
+const SOURCE = "openmaptiles";
+const ROUTES_SOURCE = "hiking-routes";
+
+/**
+ * OpenMapTiles has no route relations, so marked routes come from the
+ * Waymarked Trails overlay.
+ */
+export const TRAIL_SOURCES: Record<string, StyleSource> = {
+  [ROUTES_SOURCE]: {
+    type: "raster",
+    tiles: ["https://tile.waymarkedtrails.org/hiking/{z}/{x}/{y}.png"],
+    tileSize: 256,
+    maxzoom: 17,
+    attribution: "Routes © waymarkedtrails.org, OpenStreetMap contributors",
+  },
+};
+
+/** Layers of the generic style the trail layers replace. */
+export const REPLACED_LAYERS = [
+  "road_path_pedestrian",
+  "road_track",
+  "highway-name-path",
+];
+
+const isLine = [
+  "match",
+  ["geometry-type"],
+  ["LineString", "MultiLineString"],
+  true,
+  false,
+];
+const notBrunnel = [
+  "match",
+  ["get", "brunnel"],
+  ["bridge", "tunnel"],
+  false,
+  true,
+];
+const isFootpath = [
+  "all",
+  ["==", ["get", "class"], "path"],
+  // Paved cycleways are not hiking trails.
+  ["!=", ["get", "subclass"], "cycleway"],
+];
+const isTrail = ["any", isFootpath, ["==", ["get", "class"], "track"]];
+const name = ["coalesce", ["get", "name:en"], ["get", "name"]];
+
+// sac_scale and trail_visibility are only in tiles that carry them; without
+// them every path gets the plain colour and a solid line.
+const visibility = ["coalesce", ["get", "trail_visibility"], "good"];
+
+function width(palette: TrailPalette, stops: [number, number][]) {
+  return [
+    "interpolate",
+    ["exponential", 1.2],
+    ["zoom"],
+    ...stops.flatMap(([zoom, w]) => [zoom, w * palette.widthScale]),
+  ];
+}
+
+function pathColor(palette: TrailPalette) {
+  return [
+    "match",
+    ["get", "sac_scale"],
+    ...Object.entries(palette.difficulty).flat(),
+    palette.path,
+  ];
+}
+
+const PATH_WIDTH: [number, number][] = [
+  [12, 0.8],
+  [14, 1.6],
+  [20, 5],
+];
+
+/** Line layers for footpaths, tracks and marked routes. */
+export function trailLineLayers(variant: TrailVariant): StyleLayer[] {
+  const palette = TRAIL_PALETTES[variant];
+  const path = (
+    id: string,
+    visibilities: string[],
+    dash: number[] | null,
+    opacity = 1
+  ): StyleLayer => ({
+    id,
+    type: "line",
+    source: SOURCE,
+    "source-layer": "transportation",
+    minzoom: 12,
+    filter: [
+      "all",
+      isLine,
+      notBrunnel,
+      isFootpath,
+      ["match", visibility, visibilities, true, false],
+    ],
+    layout: { "line-cap": dash ? "butt" : "round", "line-join": "round" },
+    paint: {
+      "line-color": pathColor(palette),
+      "line-width": width(palette, PATH_WIDTH),
+      "line-opacity": opacity,
+      ...(dash && { "line-dasharray": dash }),
+    },
+  });
+
+  return [
+    {
+      id: "trail-routes",
+      type: "raster",
+      source: ROUTES_SOURCE,
+      minzoom: 9,
+      paint: { "raster-opacity": palette.routeOpacity },
+    },
+    {
+      id: "trail-casing",
+      type: "line",
+      source: SOURCE,
+      "source-layer": "transportation",
+      minzoom: 12,
+      filter: ["all", isLine, notBrunnel, isTrail],
+      layout: { "line-cap": "round", "line-join": "round" },
+      paint: {
+        "line-color": palette.casing,
+        "line-width": width(palette, [
+          [12, 2.4],
+          [14, 3.6],
+          [20, 9],
+        ]),
+      },
+    },
+    {
+      id: "trail-track",
+      type: "line",
+      source: SOURCE,
+      "source-layer": "transportation",
+      minzoom: 12,
+      filter: ["all", isLine, notBrunnel, ["==", ["get", "class"], "track"]],
+      layout: { "line-join": "round" },
+      paint: {
+        "line-color": palette.track,
+        "line-width": width(palette, PATH_WIDTH),
+        "line-dasharray": [3, 1.5],
+      },
+    },
+    path("trail-path", ["excellent", "good"], null),
+    path("trail-path-intermediate", ["intermediate"], [2, 1.5]),
+    path("trail-path-faint", ["bad", "horrible", "no"], [0.5, 2], 0.75),
+  ];
+}
+
+/**
+ * Trail names, shown from zoom 13 rather than the generic 15.5, and peak
+ * names with their elevation, which the generic style leaves out.
+ */
+export function trailLabelLayers(variant: TrailVariant): StyleLayer[] {
+  const palette = TRAIL_PALETTES[variant];
+  return [
+    {
+      id: "trail-name",
+      type: "symbol",
+      source: SOURCE,
+      "source-layer": "transportation_name",
+      minzoom: 13,
+      filter: ["match", ["get", "class"], ["path", "track"], true, false],
+      layout: {
+        "symbol-placement": "line",
+        "text-field": name,
+        "text-font": ["Noto Sans Italic"],
+        "text-size": ["interpolate", ["linear"], ["zoom"], 13, 10, 17, 13],
+        "text-rotation-alignment": "map",
+        "symbol-spacing": 250,
+      },
+      paint: {
+        "text-color": palette.label,
+        "text-halo-color": palette.labelHalo,
+        "text-halo-width": 1.5,
+      },
+    },
+    {
+      id: "peak-name",
+      type: "symbol",
+      source: SOURCE,
+      "source-layer": "mountain_peak",
+      minzoom: 11,
+      filter: [
+        "all",
+        ["match", ["get", "class"], ["peak", "volcano"], true, false],
+        ["has", "name"],
+      ],
+      layout: {
+        "text-field": [
+          "case",
+          ["has", "ele"],
+          ["concat", name, "\n", ["to-string", ["get", "ele"]], " m"],
+          name,
+        ],
+        "text-font": ["Noto Sans Regular"],
+        "text-size": ["interpolate", ["linear"], ["zoom"], 11, 10, 16, 13],
+        "text-max-width": 8,
+      },
+      paint: {
+        "text-color": palette.peak,
+        "text-halo-color": palette.labelHalo,
+        "text-halo-width": 1.5,
+      },
+    },
+  ];
+}
+
+/**
+ * Returns a copy of an OpenMapTiles style with its generic path layers
+ * swapped for the trail layers. Lines go where the generic paths were, so
+ * bridges still draw on top, and labels go where the path names were.
+ * Styles without those layers get lines below the first symbol layer and
+ * labels on top.
+ */
+export function withTrails(
+  style: StyleDocument,
+  variant: TrailVariant
+): StyleDocument {
+  const ids = style.layers.map((layer) => layer.id);
+  const firstSymbol = style.layers.findIndex((l) => l.type === "symbol");
+  const linesAt = ids.indexOf("road_path_pedestrian");
+  const labelsAt = ids.indexOf("highway-name-path");
+
+  const layers: StyleLayer[] = [];
+  const lines = trailLineLayers(variant);
+  const labels = trailLabelLayers(variant);
+  style.layers.forEach((layer, i) => {
+    if (i === (linesAt >= 0 ? linesAt : firstSymbol)) layers.push(...lines);
+    if (i === labelsAt) layers.push(...labels);
+    if (!REPLACED_LAYERS.includes(layer.id)) layers.push(layer);
+  });
+  if (linesAt < 0 && firstSymbol < 0) layers.push(...lines);
+  if (labelsAt < 0) layers.push(...labels);
+
+  return {
+    ...style,
+    sources: { ...style.sources, ...TRAIL_SOURCES },
+    layers,
+  };
+}
@@ -0,0 +1,37 @@
+// Just enough of the MapLibre style specification to generate and patch
+// style documents in TS. Expressions stay untyped JSON.
+
+/** Whether the map is drawn for daylight or for night use. */
+export type MapTheme = "day" | "night";
+
+export type StyleLayer = {
+  id: string;
+  type:
+    | "background"
+    | "fill"
+    | "line"
+    | "symbol"
+    | "circle"
+    | "raster"
+    | "hillshade"
+    | "fill-extrusion"
+    | "heatmap";
+  source?: string;
+  "source-layer"?: string;
+  minzoom?: number;
+  maxzoom?: number;
+  filter?: unknown;
+  layout?: Record<string, unknown>;
+  paint?: Record<string, unknown>;
+};
+
+export type StyleSource = { type: string } & Record<string, unknown>;
+
+export type StyleDocument = {
+  version: 8;
+  name?: string;
+  sources: Record<string, StyleSource>;
+  sprite?: string;
+  glyphs?: string;
+  layers: StyleLayer[];
+};
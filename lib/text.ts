@@ -0,0 +1,10 @@
+/**
+ * Lower-cases text and strips accents, so "Rifugio Lagazuoi" is found by
+ * "lagazuoi" and "Bärenhöhle" by "barenhohle".
+ */
+export function foldText(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
@@ -0,0 +1,163 @@
+import { TileFeatureType, TileValue } from "../mvt";
+
+/** A feature to encode, with geometry in tile coordinates. */
+export type FixtureFeature = {
+  type: TileFeatureType;
+  properties: Record<string, TileValue>;
+  geometry: [number, number][][];
+};
+
+export type FixtureLayer = {
+  name: string;
+  extent?: number;
+  features: FixtureFeature[];
+};
+
+const TYPES: TileFeatureType[] = ["Unknown", "Point", "LineString", "Polygon"];
+
+// Minimal protobuf writer, the mirror image of the decoder's reader.
+class Writer {
+  bytes: number[] = [];
+
+  varint(value: number) {
+    let rest = value;
+    while (rest >= 0x80) {
+      this.bytes.push(rest % 0x80 | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.bytes.push(rest);
+  }
+
+  key(field: number, wireType: number) {
+    this.varint(field * 8 + wireType);
+  }
+
+  message(field: number, write: (writer: Writer) => void) {
+    const inner = new Writer();
+    write(inner);
+    this.key(field, 2);
+    this.varint(inner.bytes.length);
+    this.bytes.push(...inner.bytes);
+  }
+
+  string(field: number, value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.key(field, 2);
+    this.varint(encoded.length);
+    this.bytes.push(...encoded);
+  }
+
+  packed(field: number, values: number[]) {
+    this.message(field, (inner) => values.forEach((v) => inner.varint(v)));
+  }
+
+  double(field: number, value: number) {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    this.key(field, 1);
+    this.bytes.push(...new Uint8Array(view.buffer));
+  }
+}
+
+const zigzag = (n: number) => (n < 0 ? -2 * n - 1 : 2 * n);
+
+function geometryCommands(
+  type: TileFeatureType,
+  parts: [number, number][][]
+): number[] {
+  const commands: number[] = [];
+  let x = 0;
+  let y = 0;
+  const point = ([px, py]: [number, number]) => {
+    commands.push(zigzag(px - x), zigzag(py - y));
+    x = px;
+    y = py;
+  };
+  if (type === "Point") {
+    const points = parts.flat();
+    commands.push(1 + points.length * 8);
+    points.forEach(point);
+    return commands;
+  }
+  for (const part of parts) {
+    // Rings are written without their closing point, then closed.
+    const ring = type === "Polygon" ? part.slice(0, -1) : part;
+    commands.push(1 + 8);
+    point(ring[0]);
+    commands.push(2 + (ring.length - 1) * 8);
+    ring.slice(1).forEach(point);
+    if (type === "Polygon") commands.push(7 + 8);
+  }
+  return commands;
+}
+
+/** Encodes layers as an uncompressed Mapbox Vector Tile. */
+export function encodeTile(layers: FixtureLayer[]): Uint8Array {
+  const tile = new Writer();
+  for (const layer of layers) {
+    tile.message(3, (writer) => {
+      writer.key(15, 0);
+      writer.varint(2);
+      writer.string(1, layer.name);
+      const keys: string[] = [];
+      const values: TileValue[] = [];
+      const index = <T>(list: T[], item: T) => {
+        const found = list.indexOf(item);
+        return found >= 0 ? found : list.push(item) - 1;
+      };
+      layer.features.forEach((feature, id) => {
+        writer.message(2, (inner) => {
+          inner.key(1, 0);
+          inner.varint(id + 1);
+          inner.packed(
+            2,
+            Object.entries(feature.properties).flatMap(([key, value]) => [
+              index(keys, key),
+              index(values, value),
+            ])
+          );
+          inner.key(3, 0);
+          inner.varint(TYPES.indexOf(feature.type));
+          inner.packed(4, geometryCommands(feature.type, feature.geometry));
+        });
+      });
+      keys.forEach((key) => writer.string(3, key));
+      values.forEach((value) =>
+        writer.message(4, (inner) => {
+          if (typeof value === "string") {
+            inner.string(1, value);
+          } else if (typeof value === "boolean") {
+            inner.key(7, 0);
+            inner.varint(value ? 1 : 0);
+          } else if (Number.isInteger(value) && value >= 0) {
+            inner.key(5, 0);
+            inner.varint(value);
+          } else if (Number.isInteger(value)) {
+            inner.key(6, 0);
+            inner.varint(zigzag(value));
+          } else {
+            inner.double(3, value);
+          }
+        })
+      );
+      writer.key(5, 0);
+      writer.varint(layer.extent ?? 4096);
+    });
+  }
+  return new Uint8Array(tile.bytes);
+}
+
+/** Tile coordinates of a point inside tile z/x/y. */
+export function toTilePoint(
+  [lng, lat]: [number, number],
+  { z, x, y }: { z: number; x: number; y: number },
+  extent = 4096
+): [number, number] {
+  const size = 2 ** z;
+  const px = ((lng + 180) / 360) * size - x;
+  const rad = (lat * Math.PI) / 180;
+  const py =
+    ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * size -
+    y;
+  return [Math.round(px * extent), Math.round(py * extent)];
+}
@@ -0,0 +1,140 @@
+import { deflate, gzip } from "pako";
+
+import { encodeTile, toTilePoint } from "../__fixtures__/encode";
+import { storedTileData, tilesCovering } from "../cache";
+import { TileDecodeError, decodeTile, tilePointToLngLat } from "../mvt";
+
+const COORD = { z: 14, x: 8729, y: 5766 };
+
+const tile = encodeTile([
+  {
+    name: "mountain_peak",
+    features: [
+      {
+        type: "Point",
+        properties: { name: "Piz Boè", class: "peak", ele: 3152, rank: 1 },
+        geometry: [[[1200, 3400]]],
+      },
+    ],
+  },
+  {
+    name: "transportation",
+    extent: 512,
+    features: [
+      {
+        type: "LineString",
+        properties: { class: "path", oneway: -1, ramp: false, width: 1.5 },
+        geometry: [
+          [
+            [0, 0],
+            [100, 50],
+            [80, 200],
+          ],
+          [
+            [300, 300],
+            [310, 290],
+          ],
+        ],
+      },
+      {
+        type: "Polygon",
+        properties: {},
+        geometry: [
+          [
+            [0, 0],
+            [10, 0],
+            [10, 10],
+            [0, 0],
+          ],
+        ],
+      },
+    ],
+  },
+]);
+
+it("decodes layers, properties and geometry", () => {
+  const { mountain_peak, transportation } = decodeTile(tile);
+
+  expect(mountain_peak.extent).toBe(4096);
+  expect(mountain_peak.features[0]).toMatchObject({
+    type: "Point",
+    properties: { name: "Piz Boè", class: "peak", ele: 3152, rank: 1 },
+    geometry: [[[1200, 3400]]],
+  });
+  expect(transportation.extent).toBe(512);
+  expect(transportation.features[0].properties).toEqual({
+    class: "path",
+    oneway: -1,
+    ramp: false,
+    width: 1.5,
+  });
+  expect(transportation.features[0].geometry).toEqual([
+    [
+      [0, 0],
+      [100, 50],
+      [80, 200],
+    ],
+    [
+      [300, 300],
+      [310, 290],
+    ],
+  ]);
+  expect(transportation.features[1].geometry[0]).toEqual([
+    [0, 0],
+    [10, 0],
+    [10, 10],
+    [0, 0],
+  ]);
+});
+
+it("skips layers that are not asked for", () => {
+  expect(Object.keys(decodeTile(tile, ["transportation"]))).toEqual([
+    "transportation",
+  ]);
+});
+
+it("rejects data that is not a vector tile", () => {
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+  expect(() => decodeTile(png)).toThrow(TileDecodeError);
+  expect(() => decodeTile(tile.subarray(0, 40))).toThrow(TileDecodeError);
+});
+
+it("converts tile coordinates to longitude and latitude", () => {
+  const point: [number, number] = [11.8508, 46.5096];
+  const [lng, lat] = tilePointToLngLat(COORD, 4096, toTilePoint(point, COORD));
+  expect(lng).toBeCloseTo(point[0], 4);
+  expect(lat).toBeCloseTo(point[1], 4);
+});
+
+it("undoes MapLibre's compression and stray gzip", () => {
+  expect(storedTileData(deflate(tile), true)).toEqual(tile);
+  expect(storedTileData(gzip(tile), false)).toEqual(tile);
+  expect(storedTileData(tile, false)).toBe(tile);
+});
+
+it("lists the tiles covering bounds, across the antimeridian too", () => {
+  const coords = tilesCovering(
+    [
+      [11.9, 46.6],
+      [11.7, 46.5],
+    ],
+    12
+  );
+  expect(coords.map(({ x, y }) => `${x}/${y}`)).toEqual([
+    "2181/1447",
+    "2182/1447",
+    "2183/1447",
+    "2181/1448",
+    "2182/1448",
+    "2183/1448",
+  ]);
+
+  const wrapped = tilesCovering(
+    [
+      [-179, 10],
+      [179, 5],
+    ],
+    2
+  );
+  expect(wrapped.map(({ x }) => x)).toEqual([3, 0]);
+});
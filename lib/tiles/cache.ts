@@ -0,0 +1,43 @@
+import { inflate } from "pako";
+
+import { Bounds } from "@/lib/geo/bounds";
+import { latToTileY, lngToTileX } from "@/lib/offline/tiles";
+
+import { TileCoord } from "./mvt";
+
+/** Read access to the tiles offline packs stored on the phone. */
+export interface TileCache {
+  /**
+   * Every tile stored at z/x/y, decompressed: one per tiled source of the
+   * pack's style, e.g. the vector tile and a hillshade image.
+   */
+  getTiles(z: number, x: number, y: number): Promise<Uint8Array[]>;
+}
+
+/**
+ * Undoes MapLibre's own compression of a stored tile and, for servers that
+ * send vector tiles gzipped without saying so, the gzip layer too.
+ */
+export function storedTileData(data: Uint8Array, compressed: boolean) {
+  const bytes = compressed ? inflate(data) : data;
+  const gzipped = bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+  return gzipped ? inflate(bytes) : bytes;
+}
+
+/** Tiles covering `bounds` at one zoom, north-west first. */
+export function tilesCovering([ne, sw]: Bounds, z: number): TileCoord[] {
+  const west = lngToTileX(sw[0], z);
+  const east = lngToTileX(ne[0], z);
+  const north = latToTileY(ne[1], z);
+  const south = latToTileY(sw[1], z);
+  const size = 2 ** z;
+  // A region crossing the antimeridian has its east edge left of the west.
+  const columns = east >= west ? east - west + 1 : size - west + east + 1;
+  const coords: TileCoord[] = [];
+  for (let y = north; y <= south; y++) {
+    for (let column = 0; column < columns; column++) {
+      coords.push({ z, x: (west + column) % size, y });
+    }
+  }
+  return coords;
+}
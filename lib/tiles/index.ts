@@ -0,0 +1,53 @@
+import Constants from "expo-constants";
+import * as SQLite from "expo-sqlite";
+import { Platform } from "react-native";
+
+import { TileCache, storedTileData } from "./cache";
+
+export * from "./cache";
+export * from "./mvt";
+
+type TileRow = { data: Uint8Array; compressed: number };
+
+// MapLibre keeps every offline tile in one SQLite database: in the app's
+// files directory on Android, and under Application Support on iOS. Both
+// sit next to expo-sqlite's own directory. The space is escaped because
+// expo-sqlite parses the path as a URL on iOS.
+function databaseLocation(): { directory: string; name: string } {
+  const root = SQLite.defaultDatabaseDirectory.replace(/\/SQLite\/?$/, "");
+  if (Platform.OS === "ios") {
+    const bundleId = Constants.expoConfig?.ios?.bundleIdentifier ?? "";
+    return {
+      directory: `${root}/../Library/Application%20Support/${bundleId}/.mapbox`,
+      name: "cache.db",
+    };
+  }
+  return { directory: root, name: "mbgl-offline.db" };
+}
+
+function createMapLibreTileCache(): TileCache {
+  let database: Promise<SQLite.SQLiteDatabase> | null = null;
+  const open = () => {
+    const { directory, name } = databaseLocation();
+    // Only ever read: MapLibre owns the database and writes to it.
+    return (database ??= SQLite.openDatabaseAsync(name, {}, directory));
+  };
+  return {
+    async getTiles(z, x, y) {
+      const rows = await (
+        await open()
+      ).getAllAsync<TileRow>(
+        "SELECT data, compressed FROM tiles WHERE z = ? AND x = ? AND y = ?",
+        z,
+        x,
+        y
+      );
+      return rows
+        .filter((row) => row.data)
+        .map((row) => storedTileData(row.data, row.compressed !== 0));
+    },
+  };
+}
+
+/** The tiles downloaded by MapLibre's OfflineManager, read-only. */
+export const mapTileCache = createMapLibreTileCache();
@@ -0,0 +1,347 @@
+/**
+ * Just enough Mapbox Vector Tile decoding to read names and lines out of
+ * cached OpenMapTiles tiles: layers, feature properties and geometry in
+ * tile coordinates. Layers that are not asked for are skipped without
+ * decoding their features.
+ */
+
+export type TileValue = string | number | boolean;
+
+export type TileFeatureType = "Unknown" | "Point" | "LineString" | "Polygon";
+
+export type TileFeature = {
+  id?: number;
+  type: TileFeatureType;
+  properties: Record<string, TileValue>;
+  /**
+   * Points, lines or rings in tile coordinates (0 to `extent`, y down).
+   * A multi-point is one entry holding every point.
+   */
+  geometry: [number, number][][];
+};
+
+export type TileLayer = {
+  name: string;
+  extent: number;
+  features: TileFeature[];
+};
+
+export type VectorTile = Record<string, TileLayer>;
+
+export type TileCoord = { z: number; x: number; y: number };
+
+export class TileDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TileDecodeError";
+  }
+}
+
+const FEATURE_TYPES: TileFeatureType[] = [
+  "Unknown",
+  "Point",
+  "LineString",
+  "Polygon",
+];
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+const textDecoder = new TextDecoder();
+
+/** Reads protobuf fields from one message, between `pos` and `end`. */
+class Reader {
+  pos: number;
+
+  constructor(
+    private bytes: Uint8Array,
+    start = 0,
+    readonly end = bytes.length
+  ) {
+    this.pos = start;
+  }
+
+  get done() {
+    return this.pos >= this.end;
+  }
+
+  varint(): number {
+    let result = 0;
+    let shift = 1;
+    for (;;) {
+      if (this.pos >= this.end) {
+        throw new TileDecodeError("Tile data ends inside a number.");
+      }
+      const byte = this.bytes[this.pos++];
+      result += (byte & 0x7f) * shift;
+      if (byte < 0x80) return result;
+      shift *= 128;
+      if (shift > 2 ** 63) {
+        throw new TileDecodeError("Malformed number in tile data.");
+      }
+    }
+  }
+
+  zigzag(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  /** Start and end of a length-delimited field. */
+  range(): [number, number] {
+    const length = this.varint();
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.end) {
+      throw new TileDecodeError("Tile data ends inside a field.");
+    }
+    return [start, this.pos];
+  }
+
+  string(): string {
+    const [start, end] = this.range();
+    return textDecoder.decode(this.bytes.subarray(start, end));
+  }
+
+  packed(): number[] {
+    const [start, end] = this.range();
+    const reader = new Reader(this.bytes, start, end);
+    const values: number[] = [];
+    while (!reader.done) values.push(reader.varint());
+    return values;
+  }
+
+  float(): number {
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset);
+    const value = view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  double(): number {
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset);
+    const value = view.getFloat64(this.pos, true);
+    this.pos += 8;
+    return value;
+  }
+
+  skip(wireType: number) {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.varint();
+        break;
+      case WIRE_FIXED64:
+        this.pos += 8;
+        break;
+      case WIRE_BYTES:
+        this.range();
+        break;
+      case WIRE_FIXED32:
+        this.pos += 4;
+        break;
+      default:
+        throw new TileDecodeError(`Unknown field type ${wireType}.`);
+    }
+  }
+
+  /** Calls `read` with each field number until the message ends. */
+  fields(read: (field: number, wireType: number) => boolean | void) {
+    while (!this.done) {
+      const key = this.varint();
+      const field = Math.floor(key / 8);
+      const wireType = key & 7;
+      if (read(field, wireType) !== true) {
+        this.skip(wireType);
+      }
+    }
+  }
+}
+
+function readValue(reader: Reader): TileValue | null {
+  let value: TileValue | null = null;
+  reader.fields((field) => {
+    switch (field) {
+      case 1:
+        value = reader.string();
+        return true;
+      case 2:
+        value = reader.float();
+        return true;
+      case 3:
+        value = reader.double();
+        return true;
+      case 4:
+      case 5:
+        value = reader.varint();
+        return true;
+      case 6:
+        value = reader.zigzag();
+        return true;
+      case 7:
+        value = reader.varint() !== 0;
+        return true;
+    }
+  });
+  return value;
+}
+
+// Geometry is a stream of MoveTo, LineTo and ClosePath commands with
+// zigzag-encoded deltas from the previous point.
+function decodeGeometry(commands: number[]): [number, number][][] {
+  const parts: [number, number][][] = [];
+  let part: [number, number][] | null = null;
+  let x = 0;
+  let y = 0;
+  let i = 0;
+  const zigzag = (value: number) =>
+    value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+
+  while (i < commands.length) {
+    const command = commands[i] & 7;
+    const count = Math.floor(commands[i] / 8);
+    i++;
+    if (command === 7) {
+      if (part && part.length > 0) part.push([...part[0]]);
+      continue;
+    }
+    if (command !== 1 && command !== 2) {
+      throw new TileDecodeError(`Unknown geometry command ${command}.`);
+    }
+    for (let n = 0; n < count; n++) {
+      if (i + 1 >= commands.length) {
+        throw new TileDecodeError("Geometry ends inside a command.");
+      }
+      x += zigzag(commands[i++]);
+      y += zigzag(commands[i++]);
+      if (command === 1 && (n === 0 || !part)) {
+        part = [];
+        parts.push(part);
+      }
+      part!.push([x, y]);
+    }
+  }
+  return parts;
+}
+
+function decodeFeature(
+  reader: Reader,
+  keys: string[],
+  values: (TileValue | null)[]
+): TileFeature {
+  const feature: TileFeature = {
+    type: "Unknown",
+    properties: {},
+    geometry: [],
+  };
+  let tags: number[] = [];
+  let commands: number[] = [];
+  reader.fields((field, wireType) => {
+    switch (field) {
+      case 1:
+        feature.id = reader.varint();
+        return true;
+      case 2:
+        tags = wireType === WIRE_BYTES ? reader.packed() : [reader.varint()];
+        return true;
+      case 3:
+        feature.type = FEATURE_TYPES[reader.varint()] ?? "Unknown";
+        return true;
+      case 4:
+        commands = wireType === WIRE_BYTES ? reader.packed() : [];
+        return wireType === WIRE_BYTES;
+    }
+  });
+  for (let i = 0; i + 1 < tags.length; i += 2) {
+    const key = keys[tags[i]];
+    const value = values[tags[i + 1]];
+    if (key !== undefined && value !== null && value !== undefined) {
+      feature.properties[key] = value;
+    }
+  }
+  feature.geometry = decodeGeometry(commands);
+  // Multi-points come as one MoveTo with several points; keep them together.
+  if (feature.type === "Point") {
+    feature.geometry = [feature.geometry.flat()];
+  }
+  return feature;
+}
+
+function decodeLayer(
+  bytes: Uint8Array,
+  [start, end]: [number, number],
+  wanted: string[] | undefined
+): TileLayer | null {
+  const reader = new Reader(bytes, start, end);
+  let name = "";
+  let extent = 4096;
+  const keys: string[] = [];
+  const values: (TileValue | null)[] = [];
+  const features: [number, number][] = [];
+  reader.fields((field) => {
+    switch (field) {
+      case 1:
+        name = reader.string();
+        return true;
+      case 2:
+        features.push(reader.range());
+        return true;
+      case 3:
+        keys.push(reader.string());
+        return true;
+      case 4: {
+        const [valueStart, valueEnd] = reader.range();
+        values.push(readValue(new Reader(bytes, valueStart, valueEnd)));
+        return true;
+      }
+      case 5:
+        extent = reader.varint();
+        return true;
+    }
+  });
+  if (wanted && !wanted.includes(name)) {
+    return null;
+  }
+  return {
+    name,
+    extent,
+    features: features.map((range) =>
+      decodeFeature(new Reader(bytes, ...range), keys, values)
+    ),
+  };
+}
+
+/**
+ * Decodes an uncompressed vector tile. Pass `layers` to decode only those;
+ * the others are skipped. Throws a `TileDecodeError` on data that is not a
+ * vector tile, such as a raster tile of another source.
+ */
+export function decodeTile(bytes: Uint8Array, layers?: string[]): VectorTile {
+  // Every vector tile starts with a layer (field 3, length-delimited).
+  if (bytes.length > 0 && bytes[0] !== 0x1a) {
+    throw new TileDecodeError("Not a vector tile.");
+  }
+  const tile: VectorTile = {};
+  const reader = new Reader(bytes);
+  reader.fields((field, wireType) => {
+    if (field !== 3 || wireType !== WIRE_BYTES) return;
+    const layer = decodeLayer(bytes, reader.range(), layers);
+    if (layer) tile[layer.name] = layer;
+    return true;
+  });
+  return tile;
+}
+
+/** Converts a point in tile coordinates to longitude and latitude. */
+export function tilePointToLngLat(
+  { z, x, y }: TileCoord,
+  extent: number,
+  [px, py]: [number, number]
+): [number, number] {
+  const size = 2 ** z;
+  const lng = ((x + px / extent) / size) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * (y + py / extent)) / size;
+  const lat = (Math.atan(Math.sinh(n)) * 180) / Math.PI;
+  return [lng, lat];
+}
@@ -0,0 +1,223 @@
+import { Emitter } from "@/lib/emitter";
+import { KeyValueStore, readJSON, writeJSON } from "@/lib/storage";
+
+import { TrackStore } from "./TrackStore";
+import {
+  LocationSample,
+  LocationSource,
+  Recording,
+  TrackPoint,
+  TrackSummary,
+} from "./types";
+
+const RECORDING_KEY = "tracks.recording";
+
+/** Fixes less accurate than this are dropped. */
+export const MAX_ACCURACY_M = 50;
+
+export type TrackRecorderEvents = {
+  /** Points were stored for the track being recorded. */
+  points: { track: TrackSummary; points: TrackPoint[] };
+  /** Recording started, paused, resumed or stopped. */
+  state: Recording | null;
+  /** The set of tracks changed; lists should refetch. */
+  change: undefined;
+};
+
+type RecorderOptions = {
+  store: KeyValueStore;
+  location: LocationSource;
+  now?: () => number;
+};
+
+/**
+ * Records one track at a time. The recording state lives in the store, not
+ * in memory, so location updates delivered after the app was killed and
+ * relaunched in the background still land in the right track.
+ */
+export class TrackRecorder {
+  readonly events = new Emitter<TrackRecorderEvents>();
+  readonly tracks: TrackStore;
+
+  private store: KeyValueStore;
+  private location: LocationSource;
+  private now: () => number;
+  // Serialises every read-modify-write of the recording and its points;
+  // location batches can arrive while a previous one is still being saved.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor({ store, location, now = Date.now }: RecorderOptions) {
+    this.store = store;
+    this.location = location;
+    this.now = now;
+    this.tracks = new TrackStore(store);
+  }
+
+  current(): Promise<Recording | null> {
+    return this.enqueue(() => this.readRecording());
+  }
+
+  start(name?: string): Promise<TrackSummary> {
+    return this.enqueue(async () => {
+      if (await this.readRecording()) {
+        throw new Error("A track is already being recorded.");
+      }
+      const startedAt = this.now();
+      const track = await this.tracks.create(
+        name ?? `Hike ${new Date(startedAt).toLocaleDateString()}`,
+        startedAt
+      );
+      const recording: Recording = {
+        trackId: track.id,
+        status: "recording",
+        newSegment: false,
+      };
+      await writeJSON(this.store, RECORDING_KEY, recording);
+      try {
+        await this.location.start();
+      } catch (error) {
+        await this.store.removeItem(RECORDING_KEY);
+        await this.tracks.delete(track.id);
+        throw error;
+      }
+      this.events.emit("state", recording);
+      this.events.emit("change", undefined);
+      return track;
+    });
+  }
+
+  pause(): Promise<void> {
+    return this.enqueue(async () => {
+      const recording = await this.readRecording();
+      if (recording?.status !== "recording") return;
+      await this.location.stop();
+      await this.writeRecording({ ...recording, status: "paused" });
+    });
+  }
+
+  resume(): Promise<void> {
+    return this.enqueue(async () => {
+      const recording = await this.readRecording();
+      if (recording?.status !== "paused") return;
+      await this.location.start();
+      await this.writeRecording({
+        ...recording,
+        status: "recording",
+        newSegment: true,
+      });
+    });
+  }
+
+  /**
+   * Ends the recording. A track without a single point is discarded, in
+   * which case null is returned.
+   */
+  stop(): Promise<TrackSummary | null> {
+    return this.enqueue(async () => {
+      const recording = await this.readRecording();
+      if (!recording) return null;
+      await this.location.stop();
+      await this.store.removeItem(RECORDING_KEY);
+
+      const summary = await this.tracks.summary(recording.trackId);
+      let result: TrackSummary | null = null;
+      if (summary && summary.pointCount > 0) {
+        result = await this.tracks.update(recording.trackId, {
+          endedAt: this.now(),
+        });
+      } else {
+        await this.tracks.delete(recording.trackId);
+      }
+      this.events.emit("state", null);
+      this.events.emit("change", undefined);
+      return result;
+    });
+  }
+
+  /**
+   * Restarts location updates for a recording that is still active, e.g.
+   * after the device rebooted or the OS dropped the background task.
+   */
+  restore(): Promise<Recording | null> {
+    return this.enqueue(async () => {
+      const recording = await this.readRecording();
+      if (
+        recording?.status === "recording" &&
+        !(await this.location.isStarted())
+      ) {
+        await this.location.start();
+      }
+      return recording;
+    });
+  }
+
+  delete(trackId: string): Promise<void> {
+    return this.enqueue(async () => {
+      if ((await this.readRecording())?.trackId === trackId) {
+        throw new Error("Stop recording before deleting this track.");
+      }
+      await this.tracks.delete(trackId);
+      this.events.emit("change", undefined);
+    });
+  }
+
+  /** Stores location fixes; called by the background location task. */
+  append(samples: LocationSample[]): Promise<void> {
+    return this.enqueue(async () => {
+      const recording = await this.readRecording();
+      if (recording?.status !== "recording") return;
+
+      const summary = await this.tracks.summary(recording.trackId);
+      if (!summary) {
+        console.warn(`Dropping fixes for missing track ${recording.trackId}`);
+        return;
+      }
+      const points = toTrackPoints(samples, summary.startedAt);
+      if (points.length === 0) return;
+
+      const track = await this.tracks.append(
+        recording.trackId,
+        points,
+        recording.newSegment
+      );
+      if (recording.newSegment) {
+        await writeJSON(this.store, RECORDING_KEY, {
+          ...recording,
+          newSegment: false,
+        });
+      }
+      this.events.emit("points", { track, points });
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private readRecording() {
+    return readJSON<Recording | null>(this.store, RECORDING_KEY, null);
+  }
+
+  private async writeRecording(recording: Recording) {
+    await writeJSON(this.store, RECORDING_KEY, recording);
+    this.events.emit("state", recording);
+  }
+}
+
+// Drops inaccurate fixes and anything older than the recording; the OS can
+// deliver a cached fix when updates start.
+function toTrackPoints(
+  samples: LocationSample[],
+  startedAt: number
+): TrackPoint[] {
+  return samples
+    .filter(
+      (sample) =>
+        sample.time >= startedAt &&
+        (sample.accuracy === null || sample.accuracy <= MAX_ACCURACY_M)
+    )
+    .sort((a, b) => a.time - b.time)
+    .map(({ lng, lat, alt, time }) => ({ lng, lat, alt, time }));
+}
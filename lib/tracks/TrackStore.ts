@@ -0,0 +1,160 @@
+import { haversine } from "@/lib/geo/distance";
+import { KeyValueStore, readJSON, writeJSON } from "@/lib/storage";
+
+import { Track, TrackPoint, TrackSummary } from "./types";
+
+const INDEX_KEY = "tracks.index";
+
+/**
+ * Points are stored in fixed-size chunks so appending a fix rewrites at most
+ * one chunk instead of the whole track.
+ */
+export const CHUNK_SIZE = 200;
+
+const chunkKey = (id: string, chunk: number) => `tracks.points.${id}.${chunk}`;
+
+/** Persists tracks and their points in a key/value store. */
+export class TrackStore {
+  private lastId = 0;
+
+  constructor(private store: KeyValueStore) {}
+
+  /** All tracks, newest first. */
+  async list(): Promise<TrackSummary[]> {
+    const index = await this.readIndex();
+    return Object.values(index).sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async summary(id: string): Promise<TrackSummary | null> {
+    return (await this.readIndex())[id] ?? null;
+  }
+
+  async get(id: string): Promise<Track | null> {
+    const summary = await this.summary(id);
+    if (!summary) return null;
+    const chunks = await Promise.all(
+      Array.from(
+        { length: Math.ceil(summary.pointCount / CHUNK_SIZE) },
+        (_, n) => this.readChunk(id, n)
+      )
+    );
+    return {
+      ...summary,
+      points: chunks.flat().slice(0, summary.pointCount),
+    };
+  }
+
+  async create(name: string, startedAt: number): Promise<TrackSummary> {
+    this.lastId = Math.max(startedAt, this.lastId + 1);
+    const summary: TrackSummary = {
+      id: `track-${this.lastId}`,
+      name,
+      startedAt,
+      endedAt: null,
+      distanceM: 0,
+      pointCount: 0,
+      segmentStarts: [0],
+    };
+    const index = await this.readIndex();
+    index[summary.id] = summary;
+    await writeJSON(this.store, INDEX_KEY, index);
+    return summary;
+  }
+
+  /**
+   * Adds points to the end of a track. Chunks are written before the index,
+   * so a crash in between leaves extra points past `pointCount` that the
+   * next append overwrites.
+   */
+  async append(
+    id: string,
+    points: TrackPoint[],
+    newSegment = false
+  ): Promise<TrackSummary> {
+    const index = await this.readIndex();
+    const summary = index[id];
+    if (!summary) {
+      throw new Error(`Track ${id} does not exist.`);
+    }
+    if (points.length === 0) return summary;
+
+    let count = summary.pointCount;
+    let previous = newSegment ? null : await this.pointAt(id, count - 1);
+    let distanceM = summary.distanceM;
+    const segmentStarts =
+      newSegment && count > 0
+        ? [...summary.segmentStarts, count]
+        : summary.segmentStarts;
+
+    let chunk = Math.floor(count / CHUNK_SIZE);
+    let stored = (await this.readChunk(id, chunk)).slice(
+      0,
+      count - chunk * CHUNK_SIZE
+    );
+    for (const point of points) {
+      if (previous) {
+        distanceM += haversine(
+          [previous.lng, previous.lat],
+          [point.lng, point.lat]
+        );
+      }
+      previous = point;
+      stored.push(point);
+      count++;
+      if (stored.length === CHUNK_SIZE) {
+        await writeJSON(this.store, chunkKey(id, chunk), stored);
+        chunk++;
+        stored = [];
+      }
+    }
+    if (stored.length > 0) {
+      await writeJSON(this.store, chunkKey(id, chunk), stored);
+    }
+
+    const updated = { ...summary, pointCount: count, distanceM, segmentStarts };
+    index[id] = updated;
+    await writeJSON(this.store, INDEX_KEY, index);
+    return updated;
+  }
+
+  async update(
+    id: string,
+    patch: Partial<Pick<TrackSummary, "name" | "endedAt">>
+  ): Promise<TrackSummary> {
+    const index = await this.readIndex();
+    if (!index[id]) {
+      throw new Error(`Track ${id} does not exist.`);
+    }
+    index[id] = { ...index[id], ...patch };
+    await writeJSON(this.store, INDEX_KEY, index);
+    return index[id];
+  }
+
+  async delete(id: string): Promise<void> {
+    const index = await this.readIndex();
+    const summary = index[id];
+    if (!summary) return;
+    delete index[id];
+    await writeJSON(this.store, INDEX_KEY, index);
+    // Include the chunk after the last full one, which an interrupted
+    // append may have written.
+    const last = Math.floor(summary.pointCount / CHUNK_SIZE);
+    for (let n = 0; n <= last; n++) {
+      await this.store.removeItem(chunkKey(id, n));
+    }
+  }
+
+  private async pointAt(id: string, position: number) {
+    if (position < 0) return null;
+    const chunk = await this.readChunk(id, Math.floor(position / CHUNK_SIZE));
+    return chunk[position % CHUNK_SIZE] ?? null;
+  }
+
+  private readChunk(id: string, chunk: number) {
+    return readJSON<TrackPoint[]>(this.store, chunkKey(id, chunk), []);
+  }
+
+  private readIndex() {
+    return readJSON<Record<string, TrackSummary>>(this.store, INDEX_KEY, {});
+  }
+}
@@ -0,0 +1,147 @@
+import { createMemoryStore } from "@/lib/storage";
+
+import { TrackRecorder } from "../TrackRecorder";
+import { LocationSample, LocationSource } from "../types";
+
+const T0 = 1_700_000_000_000;
+
+function sample(i: number, overrides: Partial<LocationSample> = {}) {
+  return {
+    lng: 11.7,
+    lat: 46.5 + i * 0.001,
+    alt: 2000 + i,
+    accuracy: 5,
+    time: T0 + i * 1000,
+    ...overrides,
+  };
+}
+
+function setup(store = createMemoryStore()) {
+  let started = false;
+  const location: LocationSource & { start: jest.Mock; stop: jest.Mock } = {
+    start: jest.fn(async () => {
+      started = true;
+    }),
+    stop: jest.fn(async () => {
+      started = false;
+    }),
+    isStarted: async () => started,
+  };
+  const recorder = new TrackRecorder({ store, location, now: () => T0 });
+  return { store, location, recorder };
+}
+
+it("records fixes into the active track", async () => {
+  const { recorder, location } = setup();
+  const onPoints = jest.fn();
+  recorder.events.on("points", onPoints);
+
+  const track = await recorder.start("Sassolungo");
+  await recorder.append([sample(0), sample(1)]);
+
+  expect(location.start).toHaveBeenCalled();
+  expect(onPoints).toHaveBeenCalledWith(
+    expect.objectContaining({
+      track: expect.objectContaining({ id: track.id, pointCount: 2 }),
+    })
+  );
+  expect((await recorder.tracks.get(track.id))?.points).toHaveLength(2);
+});
+
+it("drops inaccurate, stale and paused fixes", async () => {
+  const { recorder } = setup();
+  const track = await recorder.start();
+
+  await recorder.append([
+    sample(1, { accuracy: 500 }),
+    sample(-5), // cached fix from before the recording
+    sample(2),
+  ]);
+  await recorder.pause();
+  await recorder.append([sample(3)]);
+
+  const stored = await recorder.tracks.get(track.id);
+  expect(stored?.points.map((p) => p.time)).toEqual([T0 + 2000]);
+});
+
+it("starts a new segment after resuming", async () => {
+  const { recorder, location } = setup();
+  const track = await recorder.start();
+  await recorder.append([sample(0), sample(1)]);
+  await recorder.pause();
+  expect(location.stop).toHaveBeenCalled();
+
+  await recorder.resume();
+  await recorder.append([sample(5)]);
+  await recorder.append([sample(6)]);
+
+  const summary = await recorder.tracks.summary(track.id);
+  expect(summary?.segmentStarts).toEqual([0, 2]);
+});
+
+it("survives being recreated, as after the app is killed", async () => {
+  const store = createMemoryStore();
+  const first = setup(store);
+  const track = await first.recorder.start();
+  await first.recorder.append([sample(0)]);
+
+  const second = setup(store);
+  await second.recorder.restore();
+  expect(second.location.start).toHaveBeenCalled();
+  await second.recorder.append([sample(1)]);
+
+  expect((await second.recorder.tracks.get(track.id))?.pointCount).toBe(2);
+});
+
+it("serialises concurrent batches", async () => {
+  const { recorder } = setup();
+  const track = await recorder.start();
+  await Promise.all([
+    recorder.append([sample(0), sample(1)]),
+    recorder.append([sample(2)]),
+    recorder.append([sample(3), sample(4)]),
+  ]);
+  const stored = await recorder.tracks.get(track.id);
+  expect(stored?.points.map((p) => p.time - T0)).toEqual([
+    0, 1000, 2000, 3000, 4000,
+  ]);
+});
+
+it("finishes tracks on stop and discards empty ones", async () => {
+  const { recorder } = setup();
+  await recorder.start();
+  await recorder.append([sample(0)]);
+  const finished = await recorder.stop();
+  expect(finished?.endedAt).toBe(T0);
+  expect(await recorder.current()).toBeNull();
+
+  await recorder.start();
+  expect(await recorder.stop()).toBeNull();
+  expect(await recorder.tracks.list()).toHaveLength(1);
+});
+
+it("refuses to start twice and rolls back when location fails", async () => {
+  const { recorder, location } = setup();
+  await recorder.start();
+  await expect(recorder.start()).rejects.toThrow("already being recorded");
+  await recorder.stop();
+
+  location.start.mockRejectedValueOnce(new Error("Permission denied"));
+  await expect(recorder.start()).rejects.toThrow("Permission denied");
+  expect(await recorder.current()).toBeNull();
+  expect(await recorder.tracks.list()).toEqual([]);
+});
+
+it("does not delete the track being recorded", async () => {
+  const { recorder } = setup();
+  const onChange = jest.fn();
+  recorder.events.on("change", onChange);
+  const track = await recorder.start();
+  await recorder.append([sample(0)]);
+
+  await expect(recorder.delete(track.id)).rejects.toThrow("Stop recording");
+  await recorder.stop();
+  await recorder.delete(track.id);
+  expect(await recorder.tracks.list()).toEqual([]);
+  expect(onChange).toHaveBeenCalledTimes(3);
+});
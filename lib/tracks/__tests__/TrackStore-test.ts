@@ -0,0 +1,75 @@
+import { createMemoryStore } from "@/lib/storage";
+
+import { CHUNK_SIZE, TrackStore } from "../TrackStore";
+import { TrackPoint } from "../types";
+
+function points(count: number, from = 0): TrackPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    lng: 11.7,
+    lat: 46.5 + (from + i) * 0.001,
+    alt: 2000,
+    time: 1_700_000_000_000 + (from + i) * 1000,
+  }));
+}
+
+it("appends across chunk boundaries and reads every point back", async () => {
+  const tracks = new TrackStore(createMemoryStore());
+  const { id } = await tracks.create("Seceda", 1_700_000_000_000);
+
+  await tracks.append(id, points(CHUNK_SIZE - 1));
+  await tracks.append(id, points(3, CHUNK_SIZE - 1));
+  const summary = await tracks.append(id, points(CHUNK_SIZE, CHUNK_SIZE + 2));
+
+  expect(summary.pointCount).toBe(2 * CHUNK_SIZE + 2);
+  const track = await tracks.get(id);
+  expect(track?.points).toEqual(points(2 * CHUNK_SIZE + 2));
+  // 0.001° of latitude is about 111 m.
+  expect(summary.distanceM).toBeCloseTo((2 * CHUNK_SIZE + 1) * 111.2, -2);
+});
+
+it("does not count the gap before a new segment as distance", async () => {
+  const tracks = new TrackStore(createMemoryStore());
+  const { id } = await tracks.create("Seceda", 0);
+
+  await tracks.append(id, points(2));
+  const summary = await tracks.append(id, points(2, 10), true);
+
+  expect(summary.segmentStarts).toEqual([0, 2]);
+  expect(summary.distanceM).toBeCloseTo(2 * 111.2, 0);
+});
+
+it("ignores points written past the index by an interrupted append", async () => {
+  const store = createMemoryStore();
+  const tracks = new TrackStore(store);
+  const { id } = await tracks.create("Seceda", 0);
+  await tracks.append(id, points(2));
+  await store.setItem(
+    `tracks.points.${id}.0`,
+    JSON.stringify(points(5)) // as if the index write never happened
+  );
+
+  await tracks.append(id, points(1, 2));
+  expect((await tracks.get(id))?.points).toEqual(points(3));
+});
+
+it("lists newest first and deletes tracks with their points", async () => {
+  const store = createMemoryStore();
+  const tracks = new TrackStore(store);
+  const older = await tracks.create("Older", 1000);
+  const newer = await tracks.create("Newer", 2000);
+  await tracks.append(older.id, points(3));
+
+  expect((await tracks.list()).map((t) => t.name)).toEqual(["Newer", "Older"]);
+
+  await tracks.delete(older.id);
+  expect(await tracks.get(older.id)).toBeNull();
+  expect(await store.getItem(`tracks.points.${older.id}.0`)).toBeNull();
+  expect((await tracks.list()).map((t) => t.id)).toEqual([newer.id]);
+});
+
+it("rejects appends to unknown tracks", async () => {
+  const tracks = new TrackStore(createMemoryStore());
+  await expect(tracks.append("nope", points(1))).rejects.toThrow(
+    "does not exist"
+  );
+});
@@ -0,0 +1,63 @@
+import { parseGeoJson, parseGpx, writeGeoJson, writeGpx } from "@/lib/formats";
+
+import {
+  formatDistance,
+  formatDuration,
+  trackDocument,
+  trackSegments,
+} from "../format";
+
+const point = (lat: number) => ({ lng: 11, lat, alt: null, time: 0 });
+
+it("splits points at segment starts", () => {
+  expect(
+    trackSegments({
+      points: [point(1), point(2), point(3)],
+      segmentStarts: [0, 2],
+    })
+  ).toEqual([
+    [
+      [11, 1],
+      [11, 2],
+    ],
+    [[11, 3]],
+  ]);
+  expect(trackSegments({ points: [], segmentStarts: [0] })).toEqual([]);
+});
+
+it("formats distances and durations", () => {
+  expect(formatDistance(850.4)).toBe("850 m");
+  expect(formatDistance(12345)).toBe("12.3 km");
+  expect(formatDuration(12 * 60000 + 59000)).toBe("12m");
+  expect(formatDuration(125 * 60000)).toBe("2h 05m");
+});
+
+it("exports recorded tracks with their segments, elevation and time", () => {
+  const track = {
+    id: "track-1",
+    name: "Morning & ridge",
+    startedAt: 0,
+    endedAt: 3000,
+    distanceM: 0,
+    pointCount: 3,
+    segmentStarts: [0, 2],
+    points: [
+      { lng: 11.7, lat: 46.5, alt: 2000.5, time: Date.UTC(2025, 0, 1, 7) },
+      { lng: 11.71, lat: 46.51, alt: 2010, time: Date.UTC(2025, 0, 1, 7, 5) },
+      { lng: 11.72, lat: 46.52, alt: null, time: Date.UTC(2025, 0, 1, 8) },
+    ],
+  };
+  const document = trackDocument(track);
+
+  for (const text of [writeGpx(document), writeGeoJson(document)]) {
+    const parsed = text.startsWith("<") ? parseGpx(text) : parseGeoJson(text);
+    expect(parsed.name).toBe("Morning & ridge");
+    expect(parsed.lines).toEqual([
+      {
+        name: "Morning & ridge",
+        kind: "track",
+        segments: [track.points.slice(0, 2), track.points.slice(2)],
+      },
+    ]);
+  }
+});
@@ -0,0 +1,49 @@
+import { GeoDocument } from "@/lib/formats";
+import { LngLat } from "@/lib/geo/bounds";
+
+import { Track, TrackPoint } from "./types";
+
+/** The track's points split at every pause, skipping empty segments. */
+export function splitSegments(
+  track: Pick<Track, "points" | "segmentStarts">
+): TrackPoint[][] {
+  const starts = [...track.segmentStarts, track.points.length];
+  return starts
+    .slice(0, -1)
+    .map((start, i) => track.points.slice(start, starts[i + 1]))
+    .filter((segment) => segment.length > 0);
+}
+
+/** The track's points as one line per recorded segment. */
+export function trackSegments(
+  track: Pick<Track, "points" | "segmentStarts">
+): LngLat[][] {
+  return splitSegments(track).map((segment) =>
+    segment.map((p): LngLat => [p.lng, p.lat])
+  );
+}
+
+/** A recorded track as a document the GPX and GeoJSON writers accept. */
+export function trackDocument(track: Track): GeoDocument {
+  return {
+    name: track.name,
+    lines: [
+      { name: track.name, kind: "track", segments: splitSegments(track) },
+    ],
+    waypoints: [],
+  };
+}
+
+export function formatDistance(metres: number) {
+  return metres < 1000
+    ? `${Math.round(metres)} m`
+    : `${(metres / 1000).toFixed(1)} km`;
+}
+
+/** "2h 05m", or "12m" under an hour. */
+export function formatDuration(ms: number) {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  const rest = String(minutes % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}h ${rest}m` : `${minutes % 60}m`;
+}
@@ -0,0 +1,81 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Location from "expo-location";
+import * as TaskManager from "expo-task-manager";
+
+import { TrackRecorder } from "./TrackRecorder";
+import { LocationSample, LocationSource } from "./types";
+
+export * from "./types";
+export * from "./format";
+export { CHUNK_SIZE, TrackStore } from "./TrackStore";
+export { MAX_ACCURACY_M, TrackRecorder } from "./TrackRecorder";
+export type { TrackRecorderEvents } from "./TrackRecorder";
+
+export const TRACKING_TASK = "hiker-track-recording";
+
+const backgroundLocation: LocationSource = {
+  async start() {
+    await Location.startLocationUpdatesAsync(TRACKING_TASK, {
+      accuracy: Location.Accuracy.BestForNavigation,
+      distanceInterval: 5,
+      activityType: Location.ActivityType.Fitness,
+      pausesUpdatesAutomatically: false,
+      showsBackgroundLocationIndicator: true,
+      foregroundService: {
+        notificationTitle: "Recording track",
+        notificationBody: "Your hike is being recorded.",
+      },
+    });
+  },
+  async stop() {
+    if (await Location.hasStartedLocationUpdatesAsync(TRACKING_TASK)) {
+      await Location.stopLocationUpdatesAsync(TRACKING_TASK);
+    }
+  },
+  isStarted() {
+    return Location.hasStartedLocationUpdatesAsync(TRACKING_TASK);
+  },
+};
+
+/** App-wide recorder fed by background location updates. */
+export const trackRecorder = new TrackRecorder({
+  store: AsyncStorage,
+  location: backgroundLocation,
+});
+
+/**
+ * Recording keeps going with the screen off, which needs the "always"
+ * location permission on top of the foreground one.
+ */
+export async function requestTrackingPermissions(): Promise<boolean> {
+  const foreground = await Location.requestForegroundPermissionsAsync();
+  if (foreground.status !== "granted") return false;
+  const background = await Location.requestBackgroundPermissionsAsync();
+  return background.status === "granted";
+}
+
+// Must be defined when the module is first evaluated: the OS may launch the
+// app in the background just to deliver locations to this task.
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(
+  TRACKING_TASK,
+  async ({ data, error }) => {
+    if (error) {
+      console.error("Track recording task failed:", error);
+      return;
+    }
+    const samples: LocationSample[] = data.locations.map(
+      ({ coords, timestamp }) => ({
+        lng: coords.longitude,
+        lat: coords.latitude,
+        alt: coords.altitude,
+        accuracy: coords.accuracy,
+        time: timestamp,
+      })
+    );
+    try {
+      await trackRecorder.append(samples);
+    } catch (e) {
+      console.error("Could not store recorded locations:", e);
+    }
+  }
+);
@@ -0,0 +1,51 @@
+export type TrackPoint = {
+  lng: number;
+  lat: number;
+  /** Metres above sea level, when the fix had one. */
+  alt: number | null;
+  /** Unix time in milliseconds. */
+  time: number;
+};
+
+export type TrackSummary = {
+  id: string;
+  name: string;
+  startedAt: number;
+  /** Null while the track is still being recorded. */
+  endedAt: number | null;
+  distanceM: number;
+  pointCount: number;
+  /**
+   * Index of the first point of every segment. Pausing a recording starts a
+   * new segment so the gap is not drawn or counted as distance.
+   */
+  segmentStarts: number[];
+};
+
+export type Track = TrackSummary & { points: TrackPoint[] };
+
+export type RecordingStatus = "recording" | "paused";
+
+/** Persisted so a recording survives the app being killed. */
+export type Recording = {
+  trackId: string;
+  status: RecordingStatus;
+  /** The next point starts a new segment (set when resuming). */
+  newSegment: boolean;
+};
+
+/** A location fix as delivered by the platform, before filtering. */
+export type LocationSample = {
+  lng: number;
+  lat: number;
+  alt: number | null;
+  accuracy: number | null;
+  time: number;
+};
+
+/** Starts and stops the platform's (background) location updates. */
+export interface LocationSource {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  isStarted(): Promise<boolean>;
+}
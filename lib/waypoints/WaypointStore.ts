@@ -0,0 +1,131 @@
+import { Emitter } from "@/lib/emitter";
+import { KeyValueStore, readJSON, writeJSON } from "@/lib/storage";
+
+import { WaypointCategory } from "./categories";
+
+const INDEX_KEY = "waypoints.index";
+
+/** A pin the user dropped on the map. */
+export type Waypoint = {
+  id: string;
+  name: string;
+  category: WaypointCategory;
+  note: string;
+  /** A copy of the photo in the app's documents, or null. */
+  photoUri: string | null;
+  lng: number;
+  lat: number;
+  /** Metres above sea level, when the position came from the GPS. */
+  alt: number | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type WaypointInput = Pick<
+  Waypoint,
+  "name" | "category" | "note" | "photoUri" | "lng" | "lat" | "alt"
+>;
+
+export type WaypointStoreEvents = {
+  /** Waypoints were added, edited or removed; lists should refetch. */
+  change: undefined;
+};
+
+/** Deletes photo files the store no longer refers to. */
+export type PhotoFiles = {
+  remove(uri: string): Promise<void>;
+};
+
+type StoreOptions = {
+  store: KeyValueStore;
+  photos?: PhotoFiles;
+  now?: () => number;
+};
+
+/** The user's own waypoints, kept on the phone. */
+export class WaypointStore {
+  readonly events = new Emitter<WaypointStoreEvents>();
+
+  private store: KeyValueStore;
+  private photos: PhotoFiles | null;
+  private now: () => number;
+  private lastId = 0;
+
+  constructor({ store, photos, now = Date.now }: StoreOptions) {
+    this.store = store;
+    this.photos = photos ?? null;
+    this.now = now;
+  }
+
+  /** All waypoints, newest first. */
+  async list(): Promise<Waypoint[]> {
+    const index = await this.readIndex();
+    return Object.values(index).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async get(id: string): Promise<Waypoint | null> {
+    return (await this.readIndex())[id] ?? null;
+  }
+
+  async add(input: WaypointInput): Promise<Waypoint> {
+    const createdAt = this.now();
+    this.lastId = Math.max(createdAt, this.lastId + 1);
+    const waypoint: Waypoint = {
+      ...input,
+      id: `waypoint-${this.lastId}`,
+      name: input.name.trim(),
+      createdAt,
+      updatedAt: createdAt,
+    };
+    const index = await this.readIndex();
+    index[waypoint.id] = waypoint;
+    await writeJSON(this.store, INDEX_KEY, index);
+    this.events.emit("change", undefined);
+    return waypoint;
+  }
+
+  /** Edits a waypoint; a replaced or removed photo is deleted. */
+  async update(id: string, patch: Partial<WaypointInput>): Promise<Waypoint> {
+    const index = await this.readIndex();
+    const previous = index[id];
+    if (!previous) {
+      throw new Error(`Waypoint ${id} does not exist.`);
+    }
+    const updated: Waypoint = {
+      ...previous,
+      ...patch,
+      name: (patch.name ?? previous.name).trim(),
+      updatedAt: this.now(),
+    };
+    index[id] = updated;
+    await writeJSON(this.store, INDEX_KEY, index);
+    if (previous.photoUri && previous.photoUri !== updated.photoUri) {
+      await this.removePhoto(previous.photoUri);
+    }
+    this.events.emit("change", undefined);
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    const index = await this.readIndex();
+    const waypoint = index[id];
+    if (!waypoint) return;
+    delete index[id];
+    await writeJSON(this.store, INDEX_KEY, index);
+    if (waypoint.photoUri) await this.removePhoto(waypoint.photoUri);
+    this.events.emit("change", undefined);
+  }
+
+  // The waypoint is gone either way; a leftover file only costs space.
+  private async removePhoto(uri: string) {
+    try {
+      await this.photos?.remove(uri);
+    } catch (error) {
+      console.warn(`Could not delete waypoint photo ${uri}:`, error);
+    }
+  }
+
+  private readIndex() {
+    return readJSON<Record<string, Waypoint>>(this.store, INDEX_KEY, {});
+  }
+}
@@ -0,0 +1,121 @@
+import { parseGpx, writeGpx } from "@/lib/formats/gpx";
+import { createMemoryStore } from "@/lib/storage";
+
+import { waypointDocument, waypointFeatures } from "../format";
+import { WaypointInput, WaypointStore } from "../WaypointStore";
+
+const SPRING: WaypointInput = {
+  name: " Fontana ",
+  category: "water",
+  note: "Flows all summer.",
+  photoUri: "file:///documents/waypoints/1.jpg",
+  lng: 11.8292,
+  lat: 46.5089,
+  alt: 2154.4,
+};
+
+function setup() {
+  let now = 1_000;
+  const photos = { remove: jest.fn(async () => {}) };
+  const waypoints = new WaypointStore({
+    store: createMemoryStore(),
+    photos,
+    now: () => now++,
+  });
+  return { waypoints, photos };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it("adds waypoints and lists them newest first", async () => {
+  const { waypoints } = setup();
+  const change = jest.fn();
+  waypoints.events.on("change", change);
+
+  const spring = await waypoints.add(SPRING);
+  const hazard = await waypoints.add({
+    ...SPRING,
+    name: "",
+    category: "hazard",
+    photoUri: null,
+  });
+
+  expect(spring).toMatchObject({ name: "Fontana", createdAt: 1000 });
+  expect((await waypoints.list()).map((w) => w.id)).toEqual([
+    hazard.id,
+    spring.id,
+  ]);
+  expect(await waypoints.get(spring.id)).toEqual(spring);
+  expect(change).toHaveBeenCalledTimes(2);
+});
+
+it("edits waypoints and deletes photos that were replaced", async () => {
+  const { waypoints, photos } = setup();
+  const spring = await waypoints.add(SPRING);
+
+  const edited = await waypoints.update(spring.id, { note: "Dry in August." });
+  expect(edited).toMatchObject({ note: "Dry in August.", name: "Fontana" });
+  expect(edited.updatedAt).toBeGreaterThan(spring.updatedAt);
+  expect(photos.remove).not.toHaveBeenCalled();
+
+  await waypoints.update(spring.id, { photoUri: "file:///new.jpg" });
+  expect(photos.remove).toHaveBeenCalledWith(SPRING.photoUri);
+
+  await expect(waypoints.update("waypoint-0", { note: "" })).rejects.toThrow(
+    "does not exist"
+  );
+});
+
+it("deletes waypoints with their photo", async () => {
+  const { waypoints, photos } = setup();
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  photos.remove.mockRejectedValueOnce(new Error("No such file"));
+  const spring = await waypoints.add(SPRING);
+
+  await waypoints.delete(spring.id);
+
+  expect(await waypoints.list()).toEqual([]);
+  expect(photos.remove).toHaveBeenCalledWith(SPRING.photoUri);
+});
+
+it("exports waypoints as GPX with their category symbol", async () => {
+  const { waypoints } = setup();
+  await waypoints.add(SPRING);
+  await waypoints.add({ ...SPRING, name: "", category: "campsite", note: "" });
+
+  const document = waypointDocument(await waypoints.list(), "Waypoints");
+  const parsed = parseGpx(writeGpx(document));
+
+  expect(parsed.waypoints).toEqual([
+    {
+      lng: 11.8292,
+      lat: 46.5089,
+      alt: 2154.4,
+      time: 1001,
+      name: "Campsite",
+      description: null,
+      symbol: "Campground",
+    },
+    {
+      lng: 11.8292,
+      lat: 46.5089,
+      alt: 2154.4,
+      time: 1000,
+      name: "Fontana",
+      description: "Flows all summer.",
+      symbol: "Drinking Water",
+    },
+  ]);
+});
+
+it("gives the map layer each waypoint's id and category", async () => {
+  const { waypoints } = setup();
+  const spring = await waypoints.add(SPRING);
+
+  expect(waypointFeatures([spring]).features[0]).toMatchObject({
+    geometry: { type: "Point", coordinates: [11.8292, 46.5089] },
+    properties: { id: spring.id, category: "water", name: "Fontana" },
+  });
+});
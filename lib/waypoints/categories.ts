@@ -0,0 +1,35 @@
+export type WaypointCategory =
+  | "water"
+  | "campsite"
+  | "hazard"
+  | "viewpoint"
+  | "shelter"
+  | "parking"
+  | "other";
+
+export const WAYPOINT_CATEGORIES: Record<
+  WaypointCategory,
+  {
+    label: string;
+    /** Badge colour on the map and in lists. */
+    color: string;
+    /** Garmin `<sym>` name, which most GPS apps and devices understand. */
+    gpxSymbol: string;
+  }
+> = {
+  water: { label: "Water", color: "#1e88e5", gpxSymbol: "Drinking Water" },
+  campsite: { label: "Campsite", color: "#43a047", gpxSymbol: "Campground" },
+  hazard: { label: "Hazard", color: "#e53935", gpxSymbol: "Danger Area" },
+  viewpoint: {
+    label: "Viewpoint",
+    color: "#8e24aa",
+    gpxSymbol: "Scenic Area",
+  },
+  shelter: { label: "Shelter", color: "#6d4c41", gpxSymbol: "Lodge" },
+  parking: { label: "Parking", color: "#546e7a", gpxSymbol: "Parking Area" },
+  other: { label: "Other", color: "#fb8c00", gpxSymbol: "Flag, Blue" },
+};
+
+export const CATEGORY_ORDER = Object.keys(
+  WAYPOINT_CATEGORIES
+) as WaypointCategory[];
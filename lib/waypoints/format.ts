@@ -0,0 +1,43 @@
+import { GeoDocument } from "@/lib/formats";
+
+import { WAYPOINT_CATEGORIES } from "./categories";
+import { Waypoint } from "./WaypointStore";
+
+/** Waypoints as a document the GPX and GeoJSON writers accept. */
+export function waypointDocument(
+  waypoints: Waypoint[],
+  name: string
+): GeoDocument {
+  return {
+    name,
+    lines: [],
+    waypoints: waypoints.map((waypoint) => ({
+      lng: waypoint.lng,
+      lat: waypoint.lat,
+      alt: waypoint.alt,
+      time: waypoint.createdAt,
+      name: waypoint.name || WAYPOINT_CATEGORIES[waypoint.category].label,
+      description: waypoint.note.trim() || null,
+      symbol: WAYPOINT_CATEGORIES[waypoint.category].gpxSymbol,
+    })),
+  };
+}
+
+/** Points for the map layer, carrying the id and category as properties. */
+export function waypointFeatures(
+  waypoints: Waypoint[]
+): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  return {
+    type: "FeatureCollection",
+    features: waypoints.map((waypoint) => ({
+      type: "Feature",
+      id: waypoint.id,
+      geometry: { type: "Point", coordinates: [waypoint.lng, waypoint.lat] },
+      properties: {
+        id: waypoint.id,
+        name: waypoint.name,
+        category: waypoint.category,
+      },
+    })),
+  };
+}
@@ -0,0 +1,24 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { photoFiles } from "./photos";
+import { WaypointStore } from "./WaypointStore";
+
+export * from "./categories";
+export * from "./format";
+export { WaypointStore } from "./WaypointStore";
+export type {
+  PhotoFiles,
+  Waypoint,
+  WaypointInput,
+  WaypointStoreEvents,
+} from "./WaypointStore";
+export { currentGpsFix } from "./location";
+export type { GpsFix } from "./location";
+export { discardWaypointPhoto, pickWaypointPhoto } from "./photos";
+export type { PhotoSource } from "./photos";
+
+/** App-wide store of the user's waypoints. */
+export const waypointStore = new WaypointStore({
+  store: AsyncStorage,
+  photos: photoFiles,
+});
@@ -0,0 +1,16 @@
+import * as Location from "expo-location";
+
+import { WaypointInput } from "./WaypointStore";
+
+export type GpsFix = Pick<WaypointInput, "lng" | "lat" | "alt">;
+
+/**
+ * The current GPS position and altitude, for putting a waypoint where the
+ * user stands. Needs the foreground location permission.
+ */
+export async function currentGpsFix(): Promise<GpsFix> {
+  const { coords } = await Location.getCurrentPositionAsync({
+    accuracy: Location.Accuracy.High,
+  });
+  return { lng: coords.longitude, lat: coords.latitude, alt: coords.altitude };
+}
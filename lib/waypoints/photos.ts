@@ -0,0 +1,53 @@
+import * as FileSystem from "expo-file-system";
+import * as ImagePicker from "expo-image-picker";
+
+import { PhotoFiles } from "./WaypointStore";
+
+const PHOTO_DIR = `${FileSystem.documentDirectory}waypoints/`;
+
+export type PhotoSource = "camera" | "library";
+
+/**
+ * Takes or picks a photo and copies it next to the app's data; the picker's
+ * own file lives in the cache, which the OS may clear. Returns null when the
+ * user cancels. Throws when the permission is denied.
+ */
+export async function pickWaypointPhoto(
+  source: PhotoSource
+): Promise<string | null> {
+  const permission =
+    source === "camera"
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error(
+      source === "camera"
+        ? "Camera access is needed to take a photo."
+        : "Photo library access is needed to pick a photo."
+    );
+  }
+  const options: ImagePicker.ImagePickerOptions = {
+    mediaTypes: ["images"],
+    quality: 0.7,
+    exif: false,
+  };
+  const result =
+    source === "camera"
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+  if (result.canceled) return null;
+
+  const asset = result.assets[0];
+  const extension = asset.uri.match(/\.(\w+)$/)?.[1] ?? "jpg";
+  await FileSystem.makeDirectoryAsync(PHOTO_DIR, { intermediates: true });
+  const uri = `${PHOTO_DIR}${Date.now()}.${extension}`;
+  await FileSystem.copyAsync({ from: asset.uri, to: uri });
+  return uri;
+}
+
+/** Deletes a photo that was picked but never saved with a waypoint. */
+export function discardWaypointPhoto(uri: string): Promise<void> {
+  return FileSystem.deleteAsync(uri, { idempotent: true });
+}
+
+export const photoFiles: PhotoFiles = { remove: discardWaypointPhoto };